@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+import '../../server/env';
+
+import logger from '../../server/lib/logger';
+import { generateDueRecurringExpenses } from '../../server/lib/recurring-expenses';
+
+export async function run() {
+  const expenses = await generateDueRecurringExpenses();
+  logger.info(`Generated ${expenses.length} recurring expense(s)`);
+}
+
+if (require.main === module) {
+  run()
+    .then(() => {
+      process.exit(0);
+    })
+    .catch(e => {
+      logger.error(e);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+import '../../server/env';
+
+import { updateBalanceSnapshots } from '../../server/lib/balance-snapshots';
+import logger from '../../server/lib/logger';
+
+const run = async () => {
+  logger.info('Updating the balance snapshots...');
+  const count = await updateBalanceSnapshots();
+  logger.info(`Done, ${count} snapshot(s) created.`);
+};
+
+run()
+  .then(() => process.exit(0))
+  .catch(e => {
+    logger.error(e);
+    process.exit(1);
+  });
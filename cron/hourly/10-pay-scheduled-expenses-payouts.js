@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+
+import '../../server/env';
+
+import logger from '../../server/lib/logger';
+import {
+  createPayoutBatches,
+  requiresReview,
+  sendPayoutBatch,
+  updateProcessingPayoutBatches,
+} from '../../server/lib/payout-batches';
+import models from '../../server/models';
+import { PayoutBatchStatus } from '../../server/models/PayoutBatch';
+
+export async function run() {
+  logger.info('Grouping expenses scheduled for payment in payout batches...');
+  await createPayoutBatches();
+
+  const payoutBatches = await models.PayoutBatch.findAll({
+    where: { status: PayoutBatchStatus.PENDING },
+    include: [{ model: models.Collective, as: 'host' }],
+  });
+  logger.info(`Processing ${payoutBatches.length} pending payout batch(es)...`);
+  for (const payoutBatch of payoutBatches) {
+    if (requiresReview(payoutBatch.host)) {
+      logger.info(`Payout batch #${payoutBatch.id} is waiting for host ${payoutBatch.host.slug} to review it`);
+      continue;
+    }
+
+    logger.info(`Sending ${payoutBatch.payoutMethodType} payout batch #${payoutBatch.id}...`);
+    await sendPayoutBatch(payoutBatch).catch(e => {
+      logger.error(`Error while sending payout batch #${payoutBatch.id}: ${e.message}`);
+    });
+  }
+
+  const finalizedBatches = await updateProcessingPayoutBatches();
+  logger.info(`${finalizedBatches.length} payout batch(es) finalized`);
+  logger.info('Done!');
+}
+
+if (require.main === module) {
+  run()
+    .then(() => {
+      setTimeout(() => process.exit(0), 10000);
+    })
+    .catch(e => {
+      logger.error(`Error while processing the payout batches: ${e.message}`);
+      setTimeout(() => process.exit(0), 10000);
+      process.exit(1);
+    });
+}
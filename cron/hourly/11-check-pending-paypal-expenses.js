@@ -2,7 +2,6 @@
 
 import '../../server/env';
 
-import { groupBy, values } from 'lodash';
 import moment from 'moment';
 import { Op } from 'sequelize';
 
@@ -10,7 +9,7 @@ import status from '../../server/constants/expense_status';
 import logger from '../../server/lib/logger';
 import models from '../../server/models';
 import { PayoutMethodTypes } from '../../server/models/PayoutMethod';
-import { checkBatchStatus } from '../../server/paymentProviders/paypal/payouts';
+import { getPayoutProviderByName } from '../../server/paymentProviders/payout-providers';
 
 export async function run() {
   const expenses = await models.Expense.findAll({
@@ -34,12 +33,8 @@ export async function run() {
       { model: models.PayoutMethod, as: 'PayoutMethod', where: { type: PayoutMethodTypes.PAYPAL } },
     ],
   });
-  const batches = values(groupBy(expenses, 'data.payout_batch_id'));
   logger.info(`Checking the status of ${expenses.length} transaction(s) paid using PayPal Payouts...`);
-  for (const batch of batches) {
-    logger.info(`Checking host ${batch[0]?.collective?.HostCollectiveId} batch with ${batch.length} expense(s)...`);
-    await checkBatchStatus(batch).catch(console.error);
-  }
+  await getPayoutProviderByName('paypal').checkStatus(expenses);
   logger.info('Done!');
 }
 
@@ -0,0 +1,73 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, DataTypes) => {
+    await queryInterface.createTable('PayoutBatches', {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      HostCollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      payoutMethodType: {
+        type: DataTypes.ENUM('PAYPAL', 'BANK_ACCOUNT'),
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        defaultValue: 'PENDING',
+      },
+      data: {
+        type: DataTypes.JSONB,
+      },
+      SentByUserId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Users' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      sentAt: {
+        type: DataTypes.DATE,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    });
+
+    await queryInterface.addIndex('PayoutBatches', ['HostCollectiveId', 'status']);
+
+    await queryInterface.addColumn('Expenses', 'PayoutBatchId', {
+      type: DataTypes.INTEGER,
+      references: { key: 'id', model: 'PayoutBatches' },
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+      allowNull: true,
+    });
+    await queryInterface.addColumn('ExpenseHistories', 'PayoutBatchId', { type: DataTypes.INTEGER, allowNull: true });
+  },
+
+  down: async queryInterface => {
+    await queryInterface.removeColumn('ExpenseHistories', 'PayoutBatchId');
+    await queryInterface.removeColumn('Expenses', 'PayoutBatchId');
+    await queryInterface.dropTable('PayoutBatches');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_PayoutBatches_payoutMethodType"');
+  },
+};
@@ -0,0 +1,94 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, DataTypes) => {
+    await queryInterface.createTable('RecurringExpenses', {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      CollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      FromCollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      UserId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Users' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      PayoutMethodId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'PayoutMethods' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      interval: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        defaultValue: 'ACTIVE',
+      },
+      template: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      nextDate: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      endsAt: {
+        type: DataTypes.DATE,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    });
+
+    await queryInterface.addIndex('RecurringExpenses', ['status', 'nextDate']);
+
+    await queryInterface.addColumn('Expenses', 'RecurringExpenseId', {
+      type: DataTypes.INTEGER,
+      references: { key: 'id', model: 'RecurringExpenses' },
+      onDelete: 'SET NULL',
+      onUpdate: 'CASCADE',
+      allowNull: true,
+    });
+    await queryInterface.addColumn('ExpenseHistories', 'RecurringExpenseId', {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    });
+  },
+
+  down: async queryInterface => {
+    await queryInterface.removeColumn('ExpenseHistories', 'RecurringExpenseId');
+    await queryInterface.removeColumn('Expenses', 'RecurringExpenseId');
+    await queryInterface.dropTable('RecurringExpenses');
+  },
+};
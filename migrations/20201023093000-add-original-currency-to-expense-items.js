@@ -0,0 +1,29 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, DataTypes) => {
+    await queryInterface.addColumn('ExpenseItems', 'originalCurrency', {
+      type: DataTypes.STRING(3),
+      allowNull: true,
+    });
+    await queryInterface.addColumn('ExpenseItems', 'originalAmount', {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    });
+    await queryInterface.addColumn('ExpenseItems', 'fxRate', {
+      type: DataTypes.FLOAT,
+      allowNull: true,
+    });
+    await queryInterface.addColumn('ExpenseItems', 'fxRateSource', {
+      type: DataTypes.STRING,
+      allowNull: true,
+    });
+  },
+
+  down: async queryInterface => {
+    await queryInterface.removeColumn('ExpenseItems', 'fxRateSource');
+    await queryInterface.removeColumn('ExpenseItems', 'fxRate');
+    await queryInterface.removeColumn('ExpenseItems', 'originalAmount');
+    await queryInterface.removeColumn('ExpenseItems', 'originalCurrency');
+  },
+};
@@ -0,0 +1,14 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, DataTypes) => {
+    await queryInterface.addColumn('ExpenseItems', 'receiptData', {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    });
+  },
+
+  down: async queryInterface => {
+    await queryInterface.removeColumn('ExpenseItems', 'receiptData');
+  },
+};
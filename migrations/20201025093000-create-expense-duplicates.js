@@ -0,0 +1,55 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, DataTypes) => {
+    await queryInterface.createTable('ExpenseDuplicates', {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      ExpenseId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Expenses' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      DuplicateExpenseId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Expenses' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      reasons: {
+        type: DataTypes.ARRAY(DataTypes.STRING),
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    });
+
+    await queryInterface.addIndex('ExpenseDuplicates', ['ExpenseId']);
+    await queryInterface.addColumn('ExpenseItems', 'fileHash', {
+      type: DataTypes.STRING,
+      allowNull: true,
+    });
+  },
+
+  down: async queryInterface => {
+    await queryInterface.removeColumn('ExpenseItems', 'fileHash');
+    await queryInterface.dropTable('ExpenseDuplicates');
+  },
+};
@@ -0,0 +1,57 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, DataTypes) => {
+    await queryInterface.createTable('TransferwiseRecipients', {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      PayoutMethodId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'PayoutMethods' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      ConnectedAccountId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'ConnectedAccounts' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      recipientId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      dataHash: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    });
+
+    await queryInterface.addIndex('TransferwiseRecipients', ['PayoutMethodId', 'ConnectedAccountId'], {
+      unique: true,
+      where: { deletedAt: null },
+    });
+  },
+
+  down: async queryInterface => {
+    await queryInterface.dropTable('TransferwiseRecipients');
+  },
+};
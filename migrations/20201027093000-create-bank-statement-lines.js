@@ -0,0 +1,88 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, DataTypes) => {
+    await queryInterface.createTable('BankStatementLines', {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      HostCollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      CreatedByUserId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Users' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      OrderId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Orders' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      status: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        defaultValue: 'UNMATCHED',
+      },
+      format: {
+        type: DataTypes.ENUM('CSV', 'OFX', 'CAMT'),
+        allowNull: false,
+      },
+      date: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      amount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      currency: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      description: {
+        type: DataTypes.TEXT,
+      },
+      counterpartyName: {
+        type: DataTypes.STRING,
+      },
+      bankReference: {
+        type: DataTypes.STRING,
+      },
+      data: {
+        type: DataTypes.JSONB,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    });
+
+    await queryInterface.addIndex('BankStatementLines', ['HostCollectiveId', 'status']);
+    await queryInterface.addIndex('BankStatementLines', ['HostCollectiveId', 'bankReference']);
+  },
+
+  down: async queryInterface => {
+    await queryInterface.dropTable('BankStatementLines');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_BankStatementLines_format"');
+  },
+};
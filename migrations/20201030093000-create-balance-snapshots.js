@@ -0,0 +1,52 @@
+'use strict';
+
+module.exports = {
+  up: async (queryInterface, DataTypes) => {
+    await queryInterface.createTable('BalanceSnapshots', {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      CollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      hostCurrency: {
+        type: DataTypes.STRING(3),
+        allowNull: true,
+      },
+      currency: {
+        type: DataTypes.STRING(3),
+        allowNull: false,
+      },
+      date: {
+        type: DataTypes.DATEONLY,
+        allowNull: false,
+      },
+      balance: {
+        type: DataTypes.BIGINT,
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('BalanceSnapshots', ['CollectiveId', 'hostCurrency', 'date'], { unique: true });
+  },
+
+  down: async queryInterface => {
+    await queryInterface.dropTable('BalanceSnapshots');
+  },
+};
@@ -0,0 +1,16 @@
+'use strict';
+
+module.exports = {
+  up: async queryInterface => {
+    // Used to find the transactions of a TransferWise transfer when receiving webhook events
+    await queryInterface.sequelize.query(`
+      CREATE INDEX IF NOT EXISTS transactions__transferwise_transfer_id
+      ON "Transactions" USING btree ((data#>>'{transfer,id}'))
+      WHERE data#>>'{transfer,id}' IS NOT NULL
+    `);
+  },
+
+  down: async queryInterface => {
+    await queryInterface.removeIndex('Transactions', 'transactions__transferwise_transfer_id');
+  },
+};
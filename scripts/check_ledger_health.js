@@ -2,18 +2,25 @@
 import '../server/env';
 
 /*
- * This script runs through a few checks and lets us know if something is off
+ * This script runs through a few checks and lets us know if something is off.
+ * The ledger integrity checks only look at the transactions updated during the last few days, unless `--all`
+ * is passed. Details of each finding are available with the `ledgerIntegrityFindings` GraphQL query.
  */
 import Promise from 'bluebird';
+import { countBy } from 'lodash';
+import moment from 'moment';
 
 // import { parse as json2csv } from 'json2csv';
-// import moment from 'moment';
 import emailLib from '../server/lib/email';
+import { runLedgerIntegrityChecks } from '../server/lib/ledger-integrity';
 // import * as transactionsLib from '../../server/lib/transactions';
 import { formatCurrency } from '../server/lib/utils';
 import models, { Op, sequelize } from '../server/models';
+import { LedgerIntegrityFindingStatus } from '../server/models/LedgerIntegrityFinding';
 
 const VERBOSE = true;
+/** Overlaps with the previous run, in case it failed */
+const CHECKED_PERIOD_IN_DAYS = 2;
 const attachments = [];
 let result = '';
 let start;
@@ -480,6 +487,24 @@ const checkCollectiveBalance = () => {
     });
 };
 
+// Persists the findings of the ledger integrity checks, see `server/lib/ledger-integrity`
+const checkLedgerIntegrity = async () => {
+  header('Checking ledger integrity');
+
+  const since = process.argv.includes('--all') ? undefined : moment().subtract(CHECKED_PERIOD_IN_DAYS, 'days').toDate();
+  const { findings, resolvedCount } = await runLedgerIntegrityChecks({ since });
+  const openFindings = await models.LedgerIntegrityFinding.findAll({
+    where: { status: LedgerIntegrityFindingStatus.OPEN },
+    attributes: ['type', 'severity'],
+  });
+
+  subHeader('Issues detected', findings.length);
+  subHeader('Findings resolved', resolvedCount, () => true);
+  subHeader('Open findings', openFindings.length);
+  const countsByType = countBy(openFindings, finding => `${finding.severity} - ${finding.type}`);
+  verboseData(Object.entries(countsByType), ([type, count]) => `${type}: ${count}`);
+};
+
 const run = () => {
   console.log('\nStarting check_ledger_health script...');
   start = new Date();
@@ -493,6 +518,7 @@ const run = () => {
       .then(() => checkExpenses())
       .then(() => checkTransactions())
       .then(() => checkCollectiveBalance())
+      .then(() => checkLedgerIntegrity())
       .then(() => done())
       .catch(done)
   );
@@ -28,6 +28,7 @@ import { ArgumentParser } from 'argparse';
 import { includes, result } from 'lodash';
 import moment from 'moment';
 
+import { isInClosedAccountingPeriod } from '../server/lib/accounting-periods';
 import libemail from '../server/lib/email';
 import { toNegative } from '../server/lib/math';
 import * as transactionsLib from '../server/lib/transactions';
@@ -48,6 +49,7 @@ export class Migration {
     this.offset = 0;
     this.migrated = 0;
     this.ordersCreated = 0;
+    this.lockedPairs = 0;
     this.counters = {};
     this.logFiles = {};
     this.date = moment().format('YYYYMMDD');
@@ -494,6 +496,13 @@ export class Migration {
 
           /* Migrate the pair that we just found & log if migration fixed the row */
           const [tr1, tr2] = [transactions[i], transactions[i + 1]];
+
+          /* The transactions of closed accounting periods can't be changed anymore */
+          if (await isInClosedAccountingPeriod([tr1, tr2])) {
+            this.lockedPairs++;
+            continue;
+          }
+
           const changes = await this.migrate(tr1, tr2);
           for (const tr of changes) {
             rowsChanged++;
@@ -518,6 +527,7 @@ export class Migration {
     this.log('report.txt', '\nSummary:');
     this.log('report.txt', `${rowsChanged} rows changed`);
     this.log('report.txt', `${this.ordersCreated} orders created`);
+    this.log('report.txt', `${this.lockedPairs} pairs skipped in closed accounting periods`);
 
     this.log('report.txt', `\nTransactions fixed:`);
     for (const counter of Object.keys(this.counters)) {
@@ -23,6 +23,8 @@ export default {
   COLLECTIVE_EXPENSE_PROCESSING: 'collective.expense.processing',
   COLLECTIVE_EXPENSE_SCHEDULED_FOR_PAYMENT: 'collective.expense.scheduledForPayment',
   COLLECTIVE_EXPENSE_ERROR: 'collective.expense.error',
+  COLLECTIVE_EXPENSE_UNCLAIMED: 'collective.expense.unclaimed',
+  COLLECTIVE_EXPENSE_PAYOUT_CANCELLED: 'collective.expense.payoutCancelled',
   COLLECTIVE_MEMBER_CREATED: 'collective.member.created',
   COLLECTIVE_TRANSACTION_CREATED: 'collective.transaction.created',
   COLLECTIVE_UPDATE_CREATED: 'collective.update.created',
@@ -43,6 +45,8 @@ export default {
   ADDED_FUND_TO_ORG: 'added.fund.to.org',
   ACTIVATED_COLLECTIVE_AS_HOST: 'activated.collective.as.host',
   DEACTIVATED_COLLECTIVE_AS_HOST: 'deactivated.collective.as.host',
+  ACCOUNTING_PERIOD_CLOSED: 'accounting.period.closed',
+  ACCOUNTING_PERIOD_REOPENED: 'accounting.period.reopened',
 
   // Not used anymore, leaving for historical reference
   COLLECTIVE_TRANSACTION_PAID: 'collective.transaction.paid', // replaced with COLLECTIVE_EXPENSE_PAID
@@ -3,11 +3,13 @@
  *
  * pending -> rejected
  * pending -> approved -> paid
+ * Invited payee (draft created by a collective admin):
+ * draft -> pending
  * TransferWise:
  * pending -> approved -> processing -> paid
  * pending -> approved -> processing -> error
- * PayPal Payouts:
- * pending -> approved -> scheduled_for_payment -> paid
+ * Payout batches (PayPal Payouts & TransferWise batch groups):
+ * pending -> approved -> scheduled_for_payment -> processing -> paid
  * pending -> approved -> scheduled_for_payment -> error
  */
 
@@ -19,4 +21,5 @@ export default {
   ERROR: 'ERROR',
   PAID: 'PAID',
   SCHEDULED_FOR_PAYMENT: 'SCHEDULED_FOR_PAYMENT',
+  DRAFT: 'DRAFT',
 };
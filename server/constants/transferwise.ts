@@ -0,0 +1,12 @@
+/**
+ * How to pick the balance of the host TransferWise account that funds a payment, defined in
+ * `settings.transferwise.sourceCurrencyStrategy`.
+ */
+export enum TransferwiseSourceCurrencyStrategy {
+  /** Always fund from the balance in the currency of the expense */
+  EXPENSE_CURRENCY = 'EXPENSE_CURRENCY',
+  /** Fund from the balance in the currency of the expense, or from another balance if it's not enough */
+  OTHER_BALANCE = 'OTHER_BALANCE',
+  /** Convert the missing amount from another balance to the currency of the expense before paying */
+  CONVERT_BALANCE = 'CONVERT_BALANCE',
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import path from 'path';
 
 import config from 'config';
@@ -54,6 +55,8 @@ export default function uploadImage(req, res, next) {
     ACL: 'public-read',
     ContentLength: file.size,
     ContentType: file.mimetype,
+    // Used to detect when the same file is attached to multiple expenses
+    Metadata: { sha256: crypto.createHash('sha256').update(file.buffer).digest('hex') },
   };
 
   req.setTimeout(IMAGE_UPLOAD_TIMEOUT);
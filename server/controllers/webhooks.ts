@@ -1,8 +1,7 @@
 import { NextFunction, Request, Response } from 'express';
 
 import paymentProviders from '../paymentProviders';
-import paypalWebhookHandler from '../paymentProviders/paypal/webhook';
-import transferwiseWebhookHandler from '../paymentProviders/transferwise/webhook';
+import { getPayoutProviderByName } from '../paymentProviders/payout-providers';
 
 export async function stripeWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
   await paymentProviders.stripe
@@ -16,14 +15,15 @@ export async function transferwiseWebhook(
   res: Response,
   next: NextFunction,
 ): Promise<void> {
-  await transferwiseWebhookHandler(req)
+  await getPayoutProviderByName('transferwise')
+    .handleWebhook(req)
     .then(() => res.sendStatus(200))
     .catch(next);
 }
 
 export async function paypalWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    await paypalWebhookHandler(req);
+    await getPayoutProviderByName('paypal').handleWebhook(req);
     res.sendStatus(200);
   } catch (e) {
     next(e);
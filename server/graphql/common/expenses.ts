@@ -1,9 +1,30 @@
 import { activities, expenseStatus, roles } from '../../constants';
 import FEATURE from '../../constants/feature';
+import {
+  BudgetExceededAction,
+  BudgetStatus,
+  getBudgetExceededMessage,
+  getBudgetSettings,
+  getExceededBudgets,
+} from '../../lib/budgets';
+import {
+  getAllocatedCollectivesMissingApproval,
+  getExpenseAllocations,
+  splitAmountBetweenAllocations,
+} from '../../lib/expense-allocations';
+import {
+  ExpenseApprovalPolicy,
+  ExpenseMissingApprovals,
+  getExpenseApprovalPolicy,
+  getMissingApprovals,
+  isFullyApproved,
+} from '../../lib/expense-approval-policies';
 import { canUseFeature } from '../../lib/user-permissions';
 import { formatCurrency } from '../../lib/utils';
 import models from '../../models';
 import { ExpenseItem } from '../../models/ExpenseItem';
+import { getPayoutProviderForHost } from '../../paymentProviders/payout-providers';
+import { PayoutQuote } from '../../types/PayoutProvider';
 import { BadRequest, Forbidden, Unauthorized } from '../errors';
 
 const isOwner = async (req, expense): Promise<boolean> => {
@@ -51,6 +72,16 @@ const isCollectiveAdmin = async (req, expense): Promise<boolean> => {
   }
 };
 
+/** For split expenses, whether the user is an admin of one of the allocated collectives */
+const isAllocatedCollectiveAdmin = async (req, expense): Promise<boolean> => {
+  if (!req.remoteUser) {
+    return false;
+  }
+
+  const allocations = await req.loaders.Expense.allocations.load(expense.id);
+  return allocations.some(allocation => req.remoteUser.isAdmin(allocation.CollectiveId));
+};
+
 const isHostAdmin = async (req, expense): Promise<boolean> => {
   if (!req.remoteUser) {
     return false;
@@ -101,6 +132,21 @@ export const canSeeExpensePayeeLocation = async (req, expense): Promise<boolean>
   return remoteUserMeetsOneCondition(req, expense, [isOwner, isCollectiveAdmin, isCollectiveAccountant, isHostAdmin]);
 };
 
+/** Checks if the user can see the other expenses this one may be a duplicate of */
+export const canSeeExpenseDuplicates = async (req, expense): Promise<boolean> => {
+  return remoteUserMeetsOneCondition(req, expense, [isCollectiveAdmin, isCollectiveAccountant, isHostAdmin]);
+};
+
+/** Checks if the user can see the fees and exchange rate of the payment before paying the expense */
+export const canSeeExpenseQuote = async (req, expense): Promise<boolean> => {
+  return remoteUserMeetsOneCondition(req, expense, [isHostAdmin]);
+};
+
+/** Checks if the user can see whether the expense exceeds the budgets of the collective */
+export const canSeeExpenseBudgetWarnings = async (req, expense): Promise<boolean> => {
+  return remoteUserMeetsOneCondition(req, expense, [isCollectiveAdmin, isCollectiveAccountant, isHostAdmin]);
+};
+
 /**
  * Returns the list of items for this expense.
  */
@@ -108,6 +154,105 @@ export const getExpenseItems = async (expenseId, req): Promise<ExpenseItem[]> =>
   return req.loaders.Expense.items.load(expenseId);
 };
 
+/**
+ * Returns the approval policy that applies to this expense, based on the settings of its collective and host.
+ */
+export const getApprovalPolicyForExpense = async (req, expense): Promise<ExpenseApprovalPolicy | null> => {
+  if (!expense.collective) {
+    expense.collective = await req.loaders.Collective.byId.load(expense.CollectiveId);
+  }
+
+  const hostId = expense.collective?.HostCollectiveId;
+  const host = hostId ? await req.loaders.Collective.byId.load(hostId) : null;
+  return getExpenseApprovalPolicy(expense.collective, host);
+};
+
+/**
+ * Returns the approvals that are still needed before the expense gets approved
+ */
+export const getExpenseMissingApprovals = async (req, expense): Promise<ExpenseMissingApprovals> => {
+  if (![expenseStatus.PENDING, expenseStatus.REJECTED].includes(expense.status)) {
+    return { approvers: 0, hostAdmin: false, collectives: [] };
+  }
+
+  const approvals = await req.loaders.Expense.approvals.load(expense.id);
+  const policy = await getApprovalPolicyForExpense(req, expense);
+  return {
+    ...getMissingApprovals(expense, approvals, policy),
+    collectives: await getAllocatedCollectivesMissingApproval(expense, approvals),
+  };
+};
+
+/**
+ * Returns the budgets that would be exceeded by paying this expense. For split expenses, the share
+ * of each collective is compared with its own budgets.
+ */
+const getExpenseExceededBudgets = async (req, expense): Promise<Array<{ collective; budget: BudgetStatus }>> => {
+  const exceededBudgets = [];
+  for (const allocation of await getExpenseAllocations(expense)) {
+    const collective = await req.loaders.Collective.byId.load(allocation.CollectiveId);
+    if (getBudgetSettings(collective)) {
+      const budgets = await getExceededBudgets(collective, expense, allocation.amount);
+      exceededBudgets.push(...budgets.map(budget => ({ collective, budget })));
+    }
+  }
+
+  return exceededBudgets;
+};
+
+/**
+ * Returns a warning for each budget that would be exceeded by paying this expense. Only relevant
+ * for expenses that are not paid yet.
+ */
+export const getExpenseBudgetWarnings = async (req, expense): Promise<string[]> => {
+  if (![expenseStatus.PENDING, expenseStatus.APPROVED].includes(expense.status)) {
+    return [];
+  }
+
+  const exceededBudgets = await getExpenseExceededBudgets(req, expense);
+  return exceededBudgets.map(({ collective, budget }) => getBudgetExceededMessage(collective, budget));
+};
+
+/**
+ * Returns a preview of the fees and exchange rate that would apply if the expense was paid now with
+ * the payment provider of its payout method. Returns null if the expense cannot be paid automatically.
+ */
+export const getExpenseQuote = async (req, expense): Promise<PayoutQuote | null> => {
+  const payableStatuses = [expenseStatus.PENDING, expenseStatus.APPROVED, expenseStatus.ERROR];
+  if (!payableStatuses.includes(expense.status) || !expense.PayoutMethodId) {
+    return null;
+  }
+
+  if (!expense.collective) {
+    expense.collective = await req.loaders.Collective.byId.load(expense.CollectiveId);
+  }
+
+  const host = expense.collective.HostCollectiveId
+    ? await req.loaders.Collective.byId.load(expense.collective.HostCollectiveId)
+    : null;
+  const payoutMethod = await req.loaders.PayoutMethod.byId.load(expense.PayoutMethodId);
+  if (!host || !payoutMethod) {
+    return null;
+  }
+
+  const connectedAccounts = await req.loaders.Collective.connectedAccounts.load(host.id);
+  const payoutProvider = getPayoutProviderForHost(host, connectedAccounts, payoutMethod.type);
+  return payoutProvider ? payoutProvider.quote(host, payoutMethod, expense) : null;
+};
+
+/**
+ * Users can only approve an expense once, and the submitter cannot approve their own
+ * expense when an approval policy is set.
+ */
+const canAddApproval = async (req, expense): Promise<boolean> => {
+  if (req.remoteUser.id === expense.UserId && (await getApprovalPolicyForExpense(req, expense))) {
+    return false;
+  }
+
+  const approvals = await req.loaders.Expense.approvals.load(expense.id);
+  return !approvals.some(approval => approval.UserId === req.remoteUser.id);
+};
+
 /**
  * Only admin of expense.collective or of expense.collective.host can approve/reject expenses
  * @deprecated: Please use more specific helpers like `canEdit`, `canDelete`, etc.
@@ -144,10 +289,10 @@ export const canEditExpense = async (req, expense): Promise<boolean> => {
 
 /**
  * Only the author or an admin of the collective or collective.host can delete an expense,
- * and only when its status is REJECTED.
+ * and only when its status is REJECTED or DRAFT.
  */
 export const canDeleteExpense = async (req, expense): Promise<boolean> => {
-  if (expense.status !== expenseStatus.REJECTED) {
+  if (![expenseStatus.REJECTED, expenseStatus.DRAFT].includes(expense.status)) {
     return false;
   } else if (!canUseFeature(req.remoteUser, FEATURE.EXPENSES)) {
     return false;
@@ -177,8 +322,12 @@ export const canApprove = async (req, expense): Promise<boolean> => {
     return false;
   } else if (!canUseFeature(req.remoteUser, FEATURE.EXPENSES)) {
     return false;
+  } else if (
+    !(await remoteUserMeetsOneCondition(req, expense, [isCollectiveAdmin, isAllocatedCollectiveAdmin, isHostAdmin]))
+  ) {
+    return false;
   } else {
-    return remoteUserMeetsOneCondition(req, expense, [isCollectiveAdmin, isHostAdmin]);
+    return canAddApproval(req, expense);
   }
 };
 
@@ -191,7 +340,7 @@ export const canReject = async (req, expense): Promise<boolean> => {
   } else if (!canUseFeature(req.remoteUser, FEATURE.EXPENSES)) {
     return false;
   } else {
-    return remoteUserMeetsOneCondition(req, expense, [isCollectiveAdmin, isHostAdmin]);
+    return remoteUserMeetsOneCondition(req, expense, [isCollectiveAdmin, isAllocatedCollectiveAdmin, isHostAdmin]);
   }
 };
 
@@ -221,6 +370,19 @@ export const canMarkAsUnpaid = async (req, expense): Promise<boolean> => {
   }
 };
 
+/**
+ * Returns true if the unclaimed PayPal payout of the expense can be cancelled by user
+ */
+export const canCancelUnclaimedPayout = async (req, expense): Promise<boolean> => {
+  if (expense.status !== expenseStatus.PROCESSING || expense.data?.['transaction_status'] !== 'UNCLAIMED') {
+    return false;
+  } else if (!canUseFeature(req.remoteUser, FEATURE.EXPENSES)) {
+    return false;
+  } else {
+    return isHostAdmin(req, expense);
+  }
+};
+
 /**
  * Returns true if user can comment and see others comments for this expense
  */
@@ -228,7 +390,12 @@ export const canComment = async (req, expense): Promise<boolean> => {
   if (!canUseFeature(req.remoteUser, FEATURE.EXPENSES)) {
     return false;
   } else {
-    return remoteUserMeetsOneCondition(req, expense, [isCollectiveAdmin, isHostAdmin, isOwner]);
+    return remoteUserMeetsOneCondition(req, expense, [
+      isCollectiveAdmin,
+      isAllocatedCollectiveAdmin,
+      isHostAdmin,
+      isOwner,
+    ]);
   }
 };
 
@@ -245,6 +412,29 @@ export const approveExpense = async (req, expense): Promise<typeof models.Expens
     throw new Forbidden();
   }
 
+  // Collectives can prevent the approval of expenses that exceed their budgets
+  const exceededBudgets = await getExpenseExceededBudgets(req, expense);
+  const blockingBudget = exceededBudgets.find(
+    ({ collective }) => getBudgetSettings(collective).onExceed === BudgetExceededAction.BLOCK,
+  );
+
+  if (blockingBudget) {
+    throw new Forbidden(getBudgetExceededMessage(blockingBudget.collective, blockingBudget.budget));
+  }
+
+  // Record the approval, and only mark the expense as approved once the policy is satisfied
+  await models.ExpenseApproval.create({
+    ExpenseId: expense.id,
+    UserId: req.remoteUser.id,
+    isHostAdmin: await isHostAdmin(req, expense),
+  });
+
+  req.loaders.Expense.approvals.clear(expense.id);
+  const missingApprovals = await getExpenseMissingApprovals(req, expense);
+  if (!isFullyApproved(missingApprovals)) {
+    return expense;
+  }
+
   const updatedExpense = await expense.update({ status: expenseStatus.APPROVED, lastEditedById: req.remoteUser.id });
   await expense.createActivity(activities.COLLECTIVE_EXPENSE_APPROVED, req.remoteUser);
   return updatedExpense;
@@ -257,6 +447,7 @@ export const unapproveExpense = async (req, expense): Promise<typeof models.Expe
     throw new Forbidden();
   }
 
+  await models.ExpenseApproval.resetForExpense(expense.id);
   const updatedExpense = await expense.update({ status: expenseStatus.PENDING, lastEditedById: req.remoteUser.id });
   await expense.createActivity(activities.COLLECTIVE_EXPENSE_UNAPPROVED, req.remoteUser);
   return updatedExpense;
@@ -269,32 +460,114 @@ export const rejectExpense = async (req, expense): Promise<typeof models.Expense
     throw new Forbidden();
   }
 
+  await models.ExpenseApproval.resetForExpense(expense.id);
   const updatedExpense = await expense.update({ status: expenseStatus.REJECTED, lastEditedById: req.remoteUser.id });
   await expense.createActivity(activities.COLLECTIVE_EXPENSE_REJECTED, req.remoteUser);
   return updatedExpense;
 };
 
-export const scheduleExpenseForPayment = async (req, expense): Promise<typeof models.Expense> => {
+/**
+ * Checks that the collectives paying for the expense have enough funds to cover their share of it.
+ * For split expenses, each allocated collective must be able to pay its allocation.
+ *
+ * @param options.alreadyScheduledAmounts: amounts already scheduled for payment in the current operation
+ * (ie. in a batch) by collective ID, to deduct from the balances.
+ * @param options.fees: fees in collective currency, split between the allocated collectives
+ */
+export const checkHasBalanceToPayExpense = async (
+  expense,
+  options: { alreadyScheduledAmounts?: Record<number, number>; fees?: number } = {},
+): Promise<void> => {
+  const { alreadyScheduledAmounts = {}, fees = 0 } = options;
+  const allocations = await getExpenseAllocations(expense);
+  const feesShares = splitAmountBetweenAllocations(fees, allocations);
+  for (const [index, allocation] of allocations.entries()) {
+    const collective =
+      allocation.CollectiveId === expense.CollectiveId && expense.collective
+        ? expense.collective
+        : await models.Collective.findByPk(allocation.CollectiveId);
+
+    const balance = (await collective.getCurrentBalance()) - (alreadyScheduledAmounts[collective.id] || 0);
+    if (allocation.amount + feesShares[index] <= balance) {
+      continue;
+    } else if (allocations.length === 1) {
+      throw new Unauthorized(
+        `You don't have enough funds to pay this expense. Current balance: ${formatCurrency(
+          balance,
+          collective.currency,
+        )}, Expense amount: ${formatCurrency(expense.amount, collective.currency)}`,
+      );
+    } else {
+      throw new Unauthorized(
+        `${
+          collective.name
+        } doesn't have enough funds to pay its share of this expense. Current balance: ${formatCurrency(
+          balance,
+          collective.currency,
+        )}, Allocated amount: ${formatCurrency(allocation.amount, collective.currency)}`,
+      );
+    }
+  }
+};
+
+/**
+ * Throws if the expense cannot be scheduled for payment by the remote user, without changing it
+ */
+export const checkCanScheduleExpenseForPayment = async (
+  req,
+  expense,
+  options: { alreadyScheduledAmounts?: Record<number, number> } = {},
+): Promise<void> => {
   if (expense.status === expenseStatus.SCHEDULED_FOR_PAYMENT) {
     throw new BadRequest('Expense is already scheduled for payment');
   } else if (!(await canPayExpense(req, expense))) {
     throw new Forbidden("You're authenticated but you can't schedule this expense for payment");
   }
 
-  const balance = await expense.collective.getBalance();
-  if (expense.amount > balance) {
-    throw new Unauthorized(
-      `You don't have enough funds to pay this expense. Current balance: ${formatCurrency(
-        balance,
-        expense.collective.currency,
-      )}, Expense amount: ${formatCurrency(expense.amount, expense.collective.currency)}`,
-    );
-  }
+  await checkHasBalanceToPayExpense(expense, { alreadyScheduledAmounts: options.alreadyScheduledAmounts });
+};
 
+/**
+ * Marks the expense as scheduled for payment after checking the balances of the collectives paying for it.
+ * @param options.alreadyScheduledAmounts: amounts already scheduled for payment in the current operation
+ * (ie. in a batch) by collective ID, to deduct from the balances.
+ */
+export const scheduleExpenseForPayment = async (
+  req,
+  expense,
+  options: { alreadyScheduledAmounts?: Record<number, number> } = {},
+): Promise<typeof models.Expense> => {
+  await checkCanScheduleExpenseForPayment(req, expense, options);
   const updatedExpense = await expense.update({
     status: expenseStatus.SCHEDULED_FOR_PAYMENT,
     lastEditedById: req.remoteUser.id,
+    // The expense will be added to a new payout batch, see `server/lib/payout-batches`
+    PayoutBatchId: null,
   });
   await expense.createActivity(activities.COLLECTIVE_EXPENSE_SCHEDULED_FOR_PAYMENT, req.remoteUser);
   return updatedExpense;
 };
+
+/**
+ * Cancels the unclaimed PayPal payout of the expense and puts it back to approved
+ */
+export const cancelUnclaimedPayout = async (req, expense, reason?: string): Promise<typeof models.Expense> => {
+  if (!(await canCancelUnclaimedPayout(req, expense))) {
+    throw new Forbidden("You're authenticated but you can't cancel the payout of this expense");
+  }
+
+  const collective = expense.collective || (await req.loaders.Collective.byId.load(expense.CollectiveId));
+  const host = await req.loaders.Collective.byId.load(collective.HostCollectiveId);
+  const connectedAccounts = await req.loaders.Collective.connectedAccounts.load(host.id);
+  const payoutMethod = await req.loaders.PayoutMethod.byId.load(expense.PayoutMethodId);
+  const payoutProvider = payoutMethod && getPayoutProviderForHost(host, connectedAccounts, payoutMethod.type);
+  if (!payoutProvider?.cancel) {
+    throw new BadRequest('The payment of this expense cannot be cancelled');
+  }
+
+  try {
+    return await payoutProvider.cancel(expense, req.remoteUser, reason);
+  } catch (e) {
+    throw new BadRequest(`Could not cancel the PayPal payout: ${e.message}`);
+  }
+};
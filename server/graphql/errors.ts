@@ -93,3 +93,10 @@ export class TransferwiseError extends ApolloError {
     );
   }
 }
+
+/** An error to throw when trying to change transactions dated in an accounting period closed by the host */
+export class AccountingPeriodClosed extends ApolloError {
+  constructor(message?: string, code?: string, additionalProperties?: Record<string, any>) {
+    super(message || 'This accounting period is closed', code || 'AccountingPeriodClosed', additionalProperties);
+  }
+}
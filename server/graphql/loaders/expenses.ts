@@ -3,7 +3,10 @@ import DataLoader from 'dataloader';
 import ACTIVITY from '../../constants/activities';
 import queries from '../../lib/queries';
 import models, { Op } from '../../models';
+import { ExpenseAllocation } from '../../models/ExpenseAllocation';
+import { ExpenseApproval } from '../../models/ExpenseApproval';
 import { ExpenseAttachedFile } from '../../models/ExpenseAttachedFile';
+import { ExpenseDuplicate } from '../../models/ExpenseDuplicate';
 import { ExpenseItem } from '../../models/ExpenseItem';
 import { LEGAL_DOCUMENT_TYPE } from '../../models/LegalDocument';
 
@@ -27,6 +30,47 @@ export const generateExpenseItemsLoader = (): DataLoader<number, ExpenseItem[]>
   });
 };
 
+/**
+ * Loader for expense's allocations. Returns an empty list for expenses that are not split.
+ */
+export const generateExpenseAllocationsLoader = (): DataLoader<number, ExpenseAllocation[]> => {
+  return new DataLoader(async (expenseIds: number[]) => {
+    const allocations = await models.ExpenseAllocation.findAll({
+      where: { ExpenseId: { [Op.in]: expenseIds } },
+      order: [['id', 'ASC']],
+    });
+
+    return sortResultsArray(expenseIds, allocations, allocation => allocation.ExpenseId);
+  });
+};
+
+/**
+ * Loader for the other expenses an expense may be a duplicate of.
+ */
+export const generateExpenseDuplicatesLoader = (): DataLoader<number, ExpenseDuplicate[]> => {
+  return new DataLoader(async (expenseIds: number[]) => {
+    const duplicates = await models.ExpenseDuplicate.findAll({
+      where: { ExpenseId: { [Op.in]: expenseIds } },
+      order: [['DuplicateExpenseId', 'DESC']],
+    });
+
+    return sortResultsArray(expenseIds, duplicates, duplicate => duplicate.ExpenseId);
+  });
+};
+
+/**
+ * Loader for expense's approvals.
+ */
+export const generateExpenseApprovalsLoader = (): DataLoader<number, ExpenseApproval[]> => {
+  return new DataLoader(async (expenseIds: number[]) => {
+    const approvals = await models.ExpenseApproval.findAll({
+      where: { ExpenseId: { [Op.in]: expenseIds } },
+    });
+
+    return sortResultsArray(expenseIds, approvals, approval => approval.ExpenseId);
+  });
+};
+
 /**
  * Load all activities for an expense
  */
@@ -58,6 +102,8 @@ export const generateExpenseActivitiesLoader = (req): DataLoader<number, object>
             ACTIVITY.COLLECTIVE_EXPENSE_PROCESSING,
             ACTIVITY.COLLECTIVE_EXPENSE_ERROR,
             ACTIVITY.COLLECTIVE_EXPENSE_SCHEDULED_FOR_PAYMENT,
+            ACTIVITY.COLLECTIVE_EXPENSE_UNCLAIMED,
+            ACTIVITY.COLLECTIVE_EXPENSE_PAYOUT_CANCELLED,
           ],
         },
       },
@@ -36,7 +36,10 @@ export const loaders = req => {
 
   // Expense
   context.loaders.Expense.activities = expenseLoaders.generateExpenseActivitiesLoader(req, cache);
+  context.loaders.Expense.allocations = expenseLoaders.generateExpenseAllocationsLoader(req, cache);
+  context.loaders.Expense.approvals = expenseLoaders.generateExpenseApprovalsLoader(req, cache);
   context.loaders.Expense.attachedFiles = expenseLoaders.attachedFiles(req, cache);
+  context.loaders.Expense.duplicates = expenseLoaders.generateExpenseDuplicatesLoader(req, cache);
   context.loaders.Expense.items = expenseLoaders.generateExpenseItemsLoader(req, cache);
   context.loaders.Expense.userTaxFormRequiredBeforePayment = expenseLoaders.userTaxFormRequiredBeforePayment(
     req,
@@ -66,7 +69,7 @@ export const loaders = req => {
   // Collective - Balance
   context.loaders.Collective.balance = new DataLoader(ids =>
     queries
-      .getBalances(ids)
+      .getCurrentBalances(ids)
       .then(results => sortResults(ids, results, 'CollectiveId'))
       .map(result => get(result, 'balance') || 0),
   );
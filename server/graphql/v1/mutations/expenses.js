@@ -1,5 +1,7 @@
+import config from 'config';
 import debugLib from 'debug';
-import { flatten, get, omit, pick, size } from 'lodash';
+import { flatten, get, isEqual, isNil, omit, pick, size } from 'lodash';
+import { v4 as uuid } from 'uuid';
 
 import { expenseStatus } from '../../../constants';
 import activities from '../../../constants/activities';
@@ -8,8 +10,14 @@ import statuses from '../../../constants/expense_status';
 import expenseType from '../../../constants/expense_type';
 import FEATURE from '../../../constants/feature';
 import roles from '../../../constants/roles';
+import { TransactionTypes } from '../../../constants/transactions';
 import { enforceTwoFactorAuthenticationOnPayouts } from '../../../lib/auth';
 import { getFxRate } from '../../../lib/currency';
+import emailLib from '../../../lib/email';
+import { computeExpenseAllocations, getExpenseAllocations } from '../../../lib/expense-allocations';
+import { checkExpenseForDuplicates } from '../../../lib/expense-duplicates';
+import { convertExpenseItemsData, updateExpenseItemsReceiptData } from '../../../lib/expense-items';
+import logger from '../../../lib/logger';
 import { floatAmountToCents } from '../../../lib/math';
 import * as libPayments from '../../../lib/payments';
 import { handleTransferwisePayoutsLimit } from '../../../lib/plans';
@@ -19,6 +27,7 @@ import { formatCurrency } from '../../../lib/utils';
 import models, { sequelize } from '../../../models';
 import { PayoutMethodTypes } from '../../../models/PayoutMethod';
 import paymentProviders from '../../../paymentProviders';
+import { getPayoutProviderByName } from '../../../paymentProviders/payout-providers';
 import * as ExpenseLib from '../../common/expenses';
 import { BadRequest, FeatureNotAllowedForUser, NotFound, Unauthorized, ValidationFailed } from '../../errors';
 
@@ -57,6 +66,9 @@ export async function updateExpenseStatus(req, expenseId, status) {
     case statuses.APPROVED:
       if (expense.status === statuses.PAID) {
         throw new Unauthorized("You can't approve an expense that is already paid");
+      } else if (await ExpenseLib.getApprovalPolicyForExpense(req, expense)) {
+        // Approvals need to be collected until the policy is satisfied
+        return ExpenseLib.approveExpense(req, expense);
       }
       break;
     case statuses.REJECTED:
@@ -71,6 +83,10 @@ export async function updateExpenseStatus(req, expenseId, status) {
       break;
   }
 
+  if (status === statuses.PENDING || status === statuses.REJECTED) {
+    await models.ExpenseApproval.resetForExpense(expense.id);
+  }
+
   const updatedExpense = await expense.update({ status, lastEditedById: remoteUser.id });
 
   // Create activity based on status change
@@ -96,7 +112,17 @@ const getTotalAmountFromItems = items => {
   }
 };
 
-/** Check expense's items values, throw if something's wrong */
+/** Compute the total of the amounts submitted for the items, before they get converted to the expense currency */
+const getTotalSubmittedAmountFromItems = items => {
+  return getTotalAmountFromItems(
+    items?.map(item => ({ amount: isNil(item.originalAmount) ? item.amount : item.originalAmount })),
+  );
+};
+
+/**
+ * Check expense's items values, throw if something's wrong. Amounts are checked against the values
+ * submitted by the user, before items in a foreign currency get converted.
+ */
 const checkExpenseItems = (expenseData, items) => {
   // Check the number of items
   if (!items || items.length === 0) {
@@ -106,7 +132,7 @@ const checkExpenseItems = (expenseData, items) => {
   }
 
   // Check amounts
-  const sumItems = getTotalAmountFromItems(items);
+  const sumItems = getTotalSubmittedAmountFromItems(items);
   if (sumItems !== expenseData.amount) {
     throw new ValidationFailed(
       `The sum of all items must be equal to the total expense's amount. Expense's total is ${expenseData.amount}, but the total of items was ${sumItems}.`,
@@ -183,6 +209,54 @@ const getPayoutMethodFromExpenseData = async (expenseData, remoteUser, fromColle
   }
 };
 
+/**
+ * Converts the items submitted in a foreign currency to the currency of the expense
+ */
+const getConvertedItemsData = async (itemsData, currency, existingItems = []) => {
+  try {
+    return await convertExpenseItemsData(itemsData, currency, existingItems);
+  } catch (e) {
+    throw new ValidationFailed(e.message);
+  }
+};
+
+/**
+ * Parses the receipts of the items in the background. Proposed data will be available on the items
+ * once done, we don't want to slow down the submission for that.
+ */
+const parseItemsReceiptsInBackground = expense => {
+  updateExpenseItemsReceiptData(expense.id).catch(e => {
+    logger.error(`Error while parsing the receipts of expense #${expense.id}: ${e.message}`);
+  });
+};
+
+/**
+ * Records the other expenses of the payee that this one may be a duplicate of. A failure here must not
+ * prevent the submission, so errors are only logged.
+ */
+const checkForDuplicates = async expense => {
+  if (expense.status === statuses.DRAFT) {
+    return;
+  }
+
+  try {
+    await checkExpenseForDuplicates(expense);
+  } catch (e) {
+    logger.error(`Error while checking expense #${expense.id} for duplicates: ${e.message}`);
+  }
+};
+
+/**
+ * Validates the allocations for split expenses and computes their amounts
+ */
+const getExpenseAllocationsFromData = async (collective, amount, allocationsData) => {
+  try {
+    return await computeExpenseAllocations(collective, amount, allocationsData);
+  } catch (e) {
+    throw new ValidationFailed(e.message);
+  }
+};
+
 /** Creates attached files for the given expense */
 const createAttachedFiles = async (expense, attachedFilesData, remoteUser, transaction) => {
   if (size(attachedFilesData) > 0) {
@@ -258,6 +332,10 @@ export async function createExpense(remoteUser, expenseData) {
     });
   }
 
+  // The total of the expense is the sum of the items, converted to the collective currency
+  itemsData = await getConvertedItemsData(itemsData, collective.currency);
+  const amount = getTotalAmountFromItems(itemsData);
+  const allocations = await getExpenseAllocationsFromData(collective, amount, expenseData.allocations);
   const expense = await sequelize.transaction(async t => {
     // Get or create payout method
     const payoutMethod = await getPayoutMethodFromExpenseData(expenseData, remoteUser, fromCollective, t);
@@ -276,7 +354,7 @@ export async function createExpense(remoteUser, expenseData) {
         incurredAt: expenseData.incurredAt || new Date(),
         PayoutMethodId: payoutMethod && payoutMethod.id,
         legacyPayoutMethod: models.Expense.getLegacyPayoutMethodTypeFromPayoutMethod(payoutMethod),
-        amount: expenseData.amount || getTotalAmountFromItems(itemsData),
+        amount,
       },
       { transaction: t },
     );
@@ -288,6 +366,16 @@ export async function createExpense(remoteUser, expenseData) {
       }),
     );
 
+    // Split the expense between collectives
+    if (allocations.length) {
+      createdExpense.allocations = await models.ExpenseAllocation.replaceForExpense(
+        createdExpense,
+        allocations,
+        remoteUser,
+        t,
+      );
+    }
+
     // Create attached files
     createdExpense.attachedFiles = await createAttachedFiles(createdExpense, expenseData.attachedFiles, remoteUser, t);
 
@@ -297,6 +385,84 @@ export async function createExpense(remoteUser, expenseData) {
   expense.user = remoteUser;
   expense.collective = collective;
   await expense.createActivity(activities.COLLECTIVE_EXPENSE_CREATED, remoteUser);
+  await checkForDuplicates(expense);
+  parseItemsReceiptsInBackground(expense);
+  return expense;
+}
+
+/**
+ * Creates an expense in DRAFT status on behalf of a payee who may not have an account yet. Like for
+ * member invitations, the user is created from their email if needed. They receive a link with a
+ * secret key to complete the expense (payout method, location) and submit it with `editExpense`.
+ */
+export async function createDraftExpense(remoteUser, expenseData) {
+  if (!remoteUser) {
+    throw new Unauthorized('You need to be logged in to create an expense');
+  } else if (!canUseFeature(remoteUser, FEATURE.EXPENSES)) {
+    throw new FeatureNotAllowedForUser();
+  } else if (!get(expenseData, 'collective.id')) {
+    throw new Unauthorized('Missing expense.collective.id');
+  } else if (!get(expenseData, 'payee.email')) {
+    throw new ValidationFailed('You need to provide the email of the payee');
+  }
+
+  let itemsData = expenseData.items || [];
+  checkExpenseItems(expenseData, itemsData);
+
+  if (size(expenseData.attachedFiles) > 15) {
+    throw new ValidationFailed('The number of files that you can attach to an expense is limited to 15');
+  }
+
+  const collective = await models.Collective.findByPk(expenseData.collective.id);
+  if (!collective) {
+    throw new ValidationFailed('Collective not found');
+  } else if (!remoteUser.isAdmin(collective.id) && !remoteUser.isAdmin(collective.HostCollectiveId)) {
+    throw new Unauthorized('Only collective admins can invite someone to submit an expense');
+  }
+
+  itemsData = await getConvertedItemsData(itemsData, collective.currency);
+  const payeeUser = await models.User.findOrCreateByEmail(expenseData.payee.email, {
+    name: expenseData.payee.name,
+    CreatedByUserId: remoteUser.id,
+  });
+
+  const draftKey = uuid();
+  const expense = await sequelize.transaction(async t => {
+    const createdExpense = await models.Expense.create(
+      {
+        ...pick(expenseData, EXPENSE_EDITABLE_FIELDS),
+        currency: collective.currency,
+        status: statuses.DRAFT,
+        CollectiveId: collective.id,
+        FromCollectiveId: payeeUser.CollectiveId,
+        lastEditedById: remoteUser.id,
+        UserId: remoteUser.id,
+        incurredAt: expenseData.incurredAt || new Date(),
+        amount: getTotalAmountFromItems(itemsData),
+        data: { draftKey },
+      },
+      { transaction: t },
+    );
+
+    createdExpense.items = await Promise.all(
+      itemsData.map(itemData => {
+        return models.ExpenseItem.createFromData(itemData, remoteUser, createdExpense, t);
+      }),
+    );
+
+    createdExpense.attachedFiles = await createAttachedFiles(createdExpense, expenseData.attachedFiles, remoteUser, t);
+    return createdExpense;
+  });
+
+  const invitedByCollective = await remoteUser.getCollective();
+  await emailLib.send('collective.expense.invite.drafted', payeeUser.email, {
+    expense: pick(expense, ['id', 'description', 'amount', 'currency']),
+    collective: pick(collective, ['slug', 'name']),
+    invitedByUser: pick(invitedByCollective, ['slug', 'name']),
+    draftUrl: `${config.host.website}/${collective.slug}/expenses/${expense.id}?key=${draftKey}`,
+  });
+
+  parseItemsReceiptsInBackground(expense);
   return expense;
 }
 
@@ -321,6 +487,7 @@ export const getItemsChanges = async (expense, expenseData) => {
 
   if (itemsData) {
     const baseItems = await models.ExpenseItem.findAll({ where: { ExpenseId: expense.id } });
+    itemsData = await getConvertedItemsData(itemsData, expense.currency, baseItems);
     itemsDiff = models.ExpenseItem.diffDBEntries(baseItems, itemsData);
     hasItemChanges = flatten(itemsDiff).length > 0;
   }
@@ -328,7 +495,40 @@ export const getItemsChanges = async (expense, expenseData) => {
   return [hasItemChanges, itemsData, itemsDiff];
 };
 
-export async function editExpense(req, expenseData) {
+/**
+ * Returns infos about the changes made to the allocations of a split expense. Allocations are
+ * computed again when the amount of the expense changes, as they may be defined with percentages.
+ */
+const getAllocationsChanges = async (expense, expenseData) => {
+  const amount = isNil(expenseData.amount) ? expense.amount : expenseData.amount;
+  const existingAllocations = await models.ExpenseAllocation.findAll({
+    where: { ExpenseId: expense.id },
+    order: [['id', 'ASC']],
+  });
+
+  if (isNil(expenseData.allocations) && (!existingAllocations.length || amount === expense.amount)) {
+    return [false, null];
+  }
+
+  const allocationsData = !isNil(expenseData.allocations)
+    ? expenseData.allocations
+    : existingAllocations.map(allocation => ({
+        CollectiveId: allocation.CollectiveId,
+        amount: isNil(allocation.percentage) ? allocation.amount : null,
+        percentage: allocation.percentage,
+      }));
+
+  const allocations = await getExpenseAllocationsFromData(expense.collective, amount, allocationsData);
+  const serialize = list => list.map(allocation => `${allocation.CollectiveId}-${allocation.amount}`).sort();
+  return [!isEqual(serialize(allocations), serialize(existingAllocations)), allocations];
+};
+
+/**
+ * @param {object} options
+ * @param {string} options.draftKey: the secret key sent to the payee to submit a draft expense. The payee
+ * completes the expense and it moves to PENDING.
+ */
+export async function editExpense(req, expenseData, { draftKey = null } = {}) {
   const { remoteUser } = req;
   if (!remoteUser) {
     throw new Unauthorized('You need to be logged in to edit an expense');
@@ -349,6 +549,15 @@ export async function editExpense(req, expenseData) {
 
   if (!expense) {
     throw new NotFound('Expense not found');
+  } else if (draftKey) {
+    if (expense.status !== statuses.DRAFT || get(expense.data, 'draftKey') !== draftKey) {
+      throw new Unauthorized('This draft expense does not exist or the link has expired');
+    } else if (remoteUser.CollectiveId !== expense.FromCollectiveId) {
+      // Only the invited payee can claim the draft, a forwarded link must not redirect the payout
+      throw new Unauthorized('This expense was drafted for someone else');
+    } else if (!expenseData.PayoutMethod) {
+      throw new ValidationFailed('You need to provide a payout method to submit this expense');
+    }
   } else if (!(await ExpenseLib.canEditExpense(req, expense))) {
     throw new Unauthorized("You don't have permission to edit this expense");
   }
@@ -359,7 +568,7 @@ export async function editExpense(req, expenseData) {
 
   // Load the payee profile
   const fromCollective = expenseData.fromCollective || expense.fromCollective;
-  if (expenseData.fromCollective && expenseData.fromCollective.id !== expense.fromCollective.id) {
+  if (draftKey || (expenseData.fromCollective && expenseData.fromCollective.id !== expense.fromCollective.id)) {
     if (!remoteUser.isAdmin(fromCollective.id)) {
       throw new ValidationFailed('You must be an admin of the account to submit an expense in its name');
     } else if (!fromCollective.canBeUsedAsPayoutProfile()) {
@@ -376,6 +585,19 @@ export async function editExpense(req, expenseData) {
   }
 
   const cleanExpenseData = pick(expenseData, EXPENSE_EDITABLE_FIELDS);
+  const [hasItemChanges, itemsData, itemsDiff] = await getItemsChanges(expense, expenseData);
+  if (hasItemChanges) {
+    checkExpenseItems({ ...expense.dataValues, ...cleanExpenseData }, itemsData);
+  }
+  if (itemsData) {
+    // The total of the expense is the sum of the items, converted to the collective currency
+    cleanExpenseData.amount = getTotalAmountFromItems(itemsData);
+  }
+
+  const [hasAllocationChanges, allocations] = await getAllocationsChanges(expense, {
+    ...expenseData,
+    amount: cleanExpenseData.amount,
+  });
   let payoutMethod = await expense.getPayoutMethod();
   const updatedExpense = await sequelize.transaction(async t => {
     // Update payout method if we get new data from one of the param for it
@@ -387,9 +609,7 @@ export async function editExpense(req, expenseData) {
     }
 
     // Update items
-    const [hasItemChanges, itemsData, itemsDiff] = await getItemsChanges(expense, expenseData);
     if (hasItemChanges) {
-      checkExpenseItems({ ...expense.dataValues, ...cleanExpenseData }, itemsData);
       const [newItemsData, oldItems, itemsToUpdate] = itemsDiff;
       await Promise.all([
         // Delete
@@ -407,15 +627,27 @@ export async function editExpense(req, expenseData) {
       ]);
     }
 
+    // Update allocations
+    if (hasAllocationChanges) {
+      await models.ExpenseAllocation.replaceForExpense(expense, allocations, remoteUser, t);
+    }
+
     // Update expense
-    // When updating amount, attachment or payoutMethod, we reset its status to PENDING
+    // When updating amount, attachment, payoutMethod or allocations, we reset its status to PENDING
     const PayoutMethodId = payoutMethod ? payoutMethod.id : null;
-    const shouldUpdateStatus = changesRequireStatusUpdate(
-      expense,
-      expenseData,
-      hasItemChanges,
-      PayoutMethodId !== expense.PayoutMethodId,
-    );
+    const shouldUpdateStatus =
+      hasAllocationChanges ||
+      changesRequireStatusUpdate(expense, cleanExpenseData, hasItemChanges, PayoutMethodId !== expense.PayoutMethodId);
+
+    if (shouldUpdateStatus) {
+      await models.ExpenseApproval.resetForExpense(expense.id, t);
+    }
+
+    // Drafts stay drafts until they get submitted by the payee
+    let status = expense.status;
+    if (draftKey || (shouldUpdateStatus && expense.status !== statuses.DRAFT)) {
+      status = statuses.PENDING;
+    }
 
     const existingTags = expense.tags || [];
     let tags = cleanExpenseData.tags;
@@ -444,17 +676,25 @@ export async function editExpense(req, expenseData) {
         ...cleanExpenseData,
         lastEditedById: remoteUser.id,
         incurredAt: expenseData.incurredAt || new Date(),
-        status: shouldUpdateStatus ? 'PENDING' : expense.status,
+        status,
         FromCollectiveId: fromCollective.id,
         PayoutMethodId: PayoutMethodId,
         legacyPayoutMethod: models.Expense.getLegacyPayoutMethodTypeFromPayoutMethod(payoutMethod),
         tags,
+        // The payee becomes the submitter of the draft
+        ...(draftKey && { UserId: remoteUser.id, data: omit(expense.data, ['draftKey']) }),
       },
       { transaction: t },
     );
   });
 
-  await updatedExpense.createActivity(activities.COLLECTIVE_EXPENSE_UPDATED, remoteUser);
+  const activityType = draftKey ? activities.COLLECTIVE_EXPENSE_CREATED : activities.COLLECTIVE_EXPENSE_UPDATED;
+  await updatedExpense.createActivity(activityType, remoteUser);
+  await checkForDuplicates(updatedExpense);
+  if (hasItemChanges) {
+    parseItemsReceiptsInBackground(updatedExpense);
+  }
+
   return updatedExpense;
 }
 
@@ -555,16 +795,18 @@ async function payExpenseWithPayPal(remoteUser, expense, host, paymentMethod, to
 
 async function payExpenseWithTransferwise(host, payoutMethod, expense, fees, remoteUser) {
   debug('payExpenseWithTransferwise', expense.id);
-  const [connectedAccount] = await host.getConnectedAccounts({
-    where: { service: 'transferwise', deletedAt: null },
-  });
-  if (!connectedAccount) {
-    throw new Error('Host is not connected to Transferwise');
-  }
-
   await handleTransferwisePayoutsLimit(host);
 
-  const data = await paymentProviders.transferwise.payExpense(connectedAccount, payoutMethod, expense);
+  const data = await getPayoutProviderByName('transferwise').pay(host, payoutMethod, expense);
+  // The fee was estimated for the balance in the expense currency, the payment may have been funded differently
+  if (data.quote.source !== expense.currency || data.conversion) {
+    const paymentProcessorFeeInHostCurrency = await paymentProviders.transferwise.getPaymentFeeInHostCurrency(
+      host,
+      data,
+    );
+    fees = { ...fees, paymentProcessorFeeInHostCurrency };
+  }
+
   const transactions = await createTransactions(host, expense, fees, data);
   await expense.createActivity(activities.COLLECTIVE_EXPENSE_PROCESSING, remoteUser);
   return transactions;
@@ -646,7 +888,11 @@ export async function payExpense(req, args) {
     }
 
     const balance = await expense.collective.getBalance();
-    if (expense.amount > balance) {
+    const allocations = await getExpenseAllocations(expense);
+    const isSplit = allocations.length > 1;
+    if (isSplit) {
+      await ExpenseLib.checkHasBalanceToPayExpense(expense);
+    } else if (expense.amount > balance) {
       throw new Unauthorized(
         `You don't have enough funds to pay this expense. Current balance: ${formatCurrency(
           balance,
@@ -688,7 +934,9 @@ export async function payExpense(req, args) {
       fees.paymentProcessorFeeInCollectiveCurrency = 0;
     }
 
-    if (expense.amount + fees.paymentProcessorFeeInCollectiveCurrency > balance) {
+    if (isSplit) {
+      await ExpenseLib.checkHasBalanceToPayExpense(expense, { fees: fees.paymentProcessorFeeInCollectiveCurrency });
+    } else if (expense.amount + fees.paymentProcessorFeeInCollectiveCurrency > balance) {
       throw new Error(
         `You don't have enough funds to cover for the fees of this payment method. Current balance: ${formatCurrency(
           balance,
@@ -800,13 +1048,18 @@ export async function markExpenseAsUnpaid(req, ExpenseId, processorFeeRefunded)
       throw new Unauthorized('Expense has not been paid yet');
     }
 
-    const transaction = await models.Transaction.findOne({
-      where: { ExpenseId },
+    // Split expenses have one transaction per allocated collective
+    const transactions = await models.Transaction.findAll({
+      where: { ExpenseId, type: TransactionTypes.DEBIT, RefundTransactionId: null },
       include: [{ model: models.Expense }],
     });
 
-    const paymentProcessorFeeInHostCurrency = processorFeeRefunded ? transaction.paymentProcessorFeeInHostCurrency : 0;
-    await libPayments.createRefundTransaction(transaction, paymentProcessorFeeInHostCurrency, null, expense.User);
+    for (const transaction of transactions) {
+      const paymentProcessorFeeInHostCurrency = processorFeeRefunded
+        ? transaction.paymentProcessorFeeInHostCurrency
+        : 0;
+      await libPayments.createRefundTransaction(transaction, paymentProcessorFeeInHostCurrency, null, expense.User);
+    }
 
     return expense.update({ status: statuses.APPROVED, lastEditedById: remoteUser.id });
   });
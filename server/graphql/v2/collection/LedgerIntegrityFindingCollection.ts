@@ -0,0 +1,16 @@
+import { GraphQLList, GraphQLObjectType } from 'graphql';
+
+import { Collection, CollectionFields } from '../interface/Collection';
+import { LedgerIntegrityFinding } from '../object/LedgerIntegrityFinding';
+
+export const LedgerIntegrityFindingCollection = new GraphQLObjectType({
+  name: 'LedgerIntegrityFindingCollection',
+  interfaces: [Collection],
+  description: 'A collection of "LedgerIntegrityFindings"',
+  fields: {
+    ...CollectionFields,
+    nodes: {
+      type: new GraphQLList(LedgerIntegrityFinding),
+    },
+  },
+});
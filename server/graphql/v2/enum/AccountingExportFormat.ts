@@ -0,0 +1,13 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { AccountingExportFormat as AccountingExportFormats } from '../../../lib/accounting-export';
+
+export const AccountingExportFormat = new GraphQLEnumType({
+  name: 'AccountingExportFormat',
+  description: 'The format of the journal entries exported for the accounting software of the host',
+  values: Object.keys(AccountingExportFormats).reduce((values, key) => {
+    return { ...values, [key]: { value: AccountingExportFormats[key] } };
+  }, {}),
+});
+
+export default AccountingExportFormat;
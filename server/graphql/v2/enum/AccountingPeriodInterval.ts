@@ -0,0 +1,12 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { AccountingPeriodInterval as AccountingPeriodIntervals } from '../../../models/AccountingPeriod';
+
+export const AccountingPeriodInterval = new GraphQLEnumType({
+  name: 'AccountingPeriodInterval',
+  values: Object.keys(AccountingPeriodIntervals).reduce((values, key) => {
+    return { ...values, [key]: { value: AccountingPeriodIntervals[key] } };
+  }, {}),
+});
+
+export default AccountingPeriodInterval;
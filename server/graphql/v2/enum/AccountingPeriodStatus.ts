@@ -0,0 +1,12 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { AccountingPeriodStatus as AccountingPeriodStatuses } from '../../../models/AccountingPeriod';
+
+export const AccountingPeriodStatus = new GraphQLEnumType({
+  name: 'AccountingPeriodStatus',
+  values: Object.keys(AccountingPeriodStatuses).reduce((values, key) => {
+    return { ...values, [key]: { value: AccountingPeriodStatuses[key] } };
+  }, {}),
+});
+
+export default AccountingPeriodStatus;
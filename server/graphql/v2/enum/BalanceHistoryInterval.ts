@@ -0,0 +1,13 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { BalanceHistoryInterval as BalanceHistoryIntervals } from '../../../lib/balance-snapshots';
+
+export const BalanceHistoryInterval = new GraphQLEnumType({
+  name: 'BalanceHistoryInterval',
+  description: 'The interval between two entries of a balance history. Intervals follow the calendar, in UTC.',
+  values: Object.keys(BalanceHistoryIntervals).reduce((values, key) => {
+    return { ...values, [key]: { value: BalanceHistoryIntervals[key] } };
+  }, {}),
+});
+
+export default BalanceHistoryInterval;
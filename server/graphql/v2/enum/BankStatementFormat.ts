@@ -0,0 +1,12 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { BankStatementFormat as BankStatementFormats } from '../../../models/BankStatementLine';
+
+export const BankStatementFormat = new GraphQLEnumType({
+  name: 'BankStatementFormat',
+  values: Object.keys(BankStatementFormats).reduce((values, key) => {
+    return { ...values, [key]: { value: BankStatementFormats[key] } };
+  }, {}),
+});
+
+export default BankStatementFormat;
@@ -0,0 +1,12 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { BankStatementLineStatus as BankStatementLineStatuses } from '../../../models/BankStatementLine';
+
+export const BankStatementLineStatus = new GraphQLEnumType({
+  name: 'BankStatementLineStatus',
+  values: Object.keys(BankStatementLineStatuses).reduce((values, key) => {
+    return { ...values, [key]: { value: BankStatementLineStatuses[key] } };
+  }, {}),
+});
+
+export default BankStatementLineStatus;
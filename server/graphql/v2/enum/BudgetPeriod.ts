@@ -0,0 +1,13 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { BudgetPeriod as BudgetPeriods } from '../../../lib/budgets';
+
+export const BudgetPeriod = new GraphQLEnumType({
+  name: 'BudgetPeriod',
+  description: 'The period covered by a budget. Periods follow the calendar.',
+  values: {
+    [BudgetPeriods.MONTH]: {},
+    [BudgetPeriods.QUARTER]: {},
+    [BudgetPeriods.YEAR]: {},
+  },
+});
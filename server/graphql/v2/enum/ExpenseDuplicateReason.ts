@@ -0,0 +1,22 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { ExpenseDuplicateReason as ExpenseDuplicateReasons } from '../../../models/ExpenseDuplicate';
+
+export const ExpenseDuplicateReason = new GraphQLEnumType({
+  name: 'ExpenseDuplicateReason',
+  description: 'Why an expense looks like a duplicate of another one',
+  values: {
+    [ExpenseDuplicateReasons.SAME_AMOUNT]: {
+      description: 'Both expenses have the same amount and currency',
+    },
+    [ExpenseDuplicateReasons.SAME_DATE]: {
+      description: 'Both expenses (or some of their items) were incurred on the same day',
+    },
+    [ExpenseDuplicateReasons.SIMILAR_DESCRIPTION]: {
+      description: 'The descriptions of the expenses are very similar',
+    },
+    [ExpenseDuplicateReasons.SAME_FILE]: {
+      description: 'The same file was uploaded for items of both expenses',
+    },
+  },
+});
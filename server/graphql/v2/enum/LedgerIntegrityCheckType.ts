@@ -0,0 +1,12 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { LedgerIntegrityCheckType as LedgerIntegrityCheckTypeValues } from '../../../models/LedgerIntegrityFinding';
+
+export const LedgerIntegrityCheckType = new GraphQLEnumType({
+  name: 'LedgerIntegrityCheckType',
+  values: Object.keys(LedgerIntegrityCheckTypeValues).reduce((values, key) => {
+    return { ...values, [key]: { value: LedgerIntegrityCheckTypeValues[key] } };
+  }, {}),
+});
+
+export default LedgerIntegrityCheckType;
@@ -0,0 +1,12 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { LedgerIntegrityFindingStatus as LedgerIntegrityFindingStatusValues } from '../../../models/LedgerIntegrityFinding';
+
+export const LedgerIntegrityFindingStatus = new GraphQLEnumType({
+  name: 'LedgerIntegrityFindingStatus',
+  values: Object.keys(LedgerIntegrityFindingStatusValues).reduce((values, key) => {
+    return { ...values, [key]: { value: LedgerIntegrityFindingStatusValues[key] } };
+  }, {}),
+});
+
+export default LedgerIntegrityFindingStatus;
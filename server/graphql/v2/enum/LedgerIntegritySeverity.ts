@@ -0,0 +1,12 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { LedgerIntegritySeverity as LedgerIntegritySeverityValues } from '../../../models/LedgerIntegrityFinding';
+
+export const LedgerIntegritySeverity = new GraphQLEnumType({
+  name: 'LedgerIntegritySeverity',
+  values: Object.keys(LedgerIntegritySeverityValues).reduce((values, key) => {
+    return { ...values, [key]: { value: LedgerIntegritySeverityValues[key] } };
+  }, {}),
+});
+
+export default LedgerIntegritySeverity;
@@ -0,0 +1,12 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { PayoutBatchStatus as PayoutBatchStatuses } from '../../../models/PayoutBatch';
+
+export const PayoutBatchStatus = new GraphQLEnumType({
+  name: 'PayoutBatchStatus',
+  values: Object.keys(PayoutBatchStatuses).reduce((values, key) => {
+    return { ...values, [key]: { value: PayoutBatchStatuses[key] } };
+  }, {}),
+});
+
+export default PayoutBatchStatus;
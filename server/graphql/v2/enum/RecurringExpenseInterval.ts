@@ -0,0 +1,13 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { RecurringExpenseIntervals } from '../../../models/RecurringExpense';
+
+export const RecurringExpenseInterval = new GraphQLEnumType({
+  name: 'RecurringExpenseInterval',
+  description: 'The frequency at which a recurring expense is submitted',
+  values: Object.keys(RecurringExpenseIntervals).reduce((values, key) => {
+    return { ...values, [RecurringExpenseIntervals[key]]: { value: RecurringExpenseIntervals[key] } };
+  }, {}),
+});
+
+export default RecurringExpenseInterval;
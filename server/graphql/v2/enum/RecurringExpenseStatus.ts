@@ -0,0 +1,12 @@
+import { GraphQLEnumType } from 'graphql';
+
+import { RecurringExpenseStatus as RecurringExpenseStatuses } from '../../../models/RecurringExpense';
+
+export const RecurringExpenseStatus = new GraphQLEnumType({
+  name: 'RecurringExpenseStatus',
+  values: Object.keys(RecurringExpenseStatuses).reduce((values, key) => {
+    return { ...values, [key]: { value: RecurringExpenseStatuses[key] } };
+  }, {}),
+});
+
+export default RecurringExpenseStatus;
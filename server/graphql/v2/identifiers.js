@@ -14,7 +14,9 @@ if (!salt) {
 const instances = {};
 
 export const IDENTIFIER_TYPES = {
+  ACCOUNTING_PERIOD: 'accounting-period',
   ACTIVITY: 'activity',
+  BANK_STATEMENT_LINE: 'bank-statement-line',
   COMMENT: 'comment',
   COMMENT_REACTION: 'comment-reaction',
   CONVERSATION: 'conversation',
@@ -24,6 +26,8 @@ export const IDENTIFIER_TYPES = {
   CONNECTED_ACCOUNT: 'connected-account',
   EXPENSE_ATTACHED_FILE: 'expense-attached-file',
   EXPENSE_ITEM: 'expense-item',
+  PAYOUT_BATCH: 'payout-batch',
+  RECURRING_EXPENSE: 'recurring-expense',
   TRANSACTION: 'transaction',
 };
 
@@ -0,0 +1,40 @@
+import { GraphQLInputObjectType, GraphQLInt, GraphQLString } from 'graphql';
+
+import models from '../../../models';
+import { NotFound } from '../../errors';
+import { idDecode, IDENTIFIER_TYPES } from '../identifiers';
+
+export const AccountingPeriodReferenceInput = new GraphQLInputObjectType({
+  name: 'AccountingPeriodReferenceInput',
+  fields: {
+    id: {
+      type: GraphQLString,
+      description: 'The public id identifying the accounting period',
+    },
+    legacyId: {
+      type: GraphQLInt,
+      description: 'The internal id of the accounting period',
+    },
+  },
+});
+
+/**
+ * Retrieve an accounting period from an `AccountingPeriodReferenceInput`
+ */
+export const fetchAccountingPeriodWithReference = async (
+  input: object,
+  { throwIfMissing = false } = {},
+): Promise<any> => {
+  let period = null;
+  if (input['id']) {
+    period = await models.AccountingPeriod.findByPk(idDecode(input['id'], IDENTIFIER_TYPES.ACCOUNTING_PERIOD));
+  } else if (input['legacyId']) {
+    period = await models.AccountingPeriod.findByPk(input['legacyId']);
+  }
+
+  if (!period && throwIfMissing) {
+    throw new NotFound('Accounting period not found');
+  }
+
+  return period;
+};
@@ -0,0 +1,40 @@
+import { GraphQLInputObjectType, GraphQLInt, GraphQLString } from 'graphql';
+
+import models from '../../../models';
+import { NotFound } from '../../errors';
+import { idDecode, IDENTIFIER_TYPES } from '../identifiers';
+
+export const BankStatementLineReferenceInput = new GraphQLInputObjectType({
+  name: 'BankStatementLineReferenceInput',
+  fields: {
+    id: {
+      type: GraphQLString,
+      description: 'The public id identifying the bank statement line',
+    },
+    legacyId: {
+      type: GraphQLInt,
+      description: 'The internal id of the bank statement line',
+    },
+  },
+});
+
+/**
+ * Retrieve a bank statement line from a `BankStatementLineReferenceInput`
+ */
+export const fetchBankStatementLineWithReference = async (
+  input: object,
+  { throwIfMissing = false } = {},
+): Promise<any> => {
+  let line = null;
+  if (input['id']) {
+    line = await models.BankStatementLine.findByPk(idDecode(input['id'], IDENTIFIER_TYPES.BANK_STATEMENT_LINE));
+  } else if (input['legacyId']) {
+    line = await models.BankStatementLine.findByPk(input['legacyId']);
+  }
+
+  if (!line && throwIfMissing) {
+    throw new NotFound('Bank statement line not found');
+  }
+
+  return line;
+};
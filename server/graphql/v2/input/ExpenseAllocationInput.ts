@@ -0,0 +1,40 @@
+import { GraphQLFloat, GraphQLInputObjectType, GraphQLInt, GraphQLNonNull } from 'graphql';
+
+import { ExpenseAllocationData } from '../../../lib/expense-allocations';
+
+import { AccountReferenceInput, fetchAccountWithReference } from './AccountReferenceInput';
+
+/**
+ * Input type to split an expense between multiple collectives of the same host.
+ */
+export const ExpenseAllocationInput = new GraphQLInputObjectType({
+  name: 'ExpenseAllocationInput',
+  fields: {
+    account: {
+      type: new GraphQLNonNull(AccountReferenceInput),
+      description: 'The collective paying for this share of the expense. Must be hosted by the same host.',
+    },
+    amount: {
+      type: GraphQLInt,
+      description: 'Amount in cents. Exclusive with `percentage`.',
+    },
+    percentage: {
+      type: GraphQLFloat,
+      description: 'Percentage of the total amount of the expense. Exclusive with `amount`.',
+    },
+  },
+});
+
+/**
+ * Converts a list of `ExpenseAllocationInput` to the format expected by the expenses lib
+ */
+export const getExpenseAllocationsDataFromInput = async (
+  allocations: Array<Record<string, any>>,
+): Promise<ExpenseAllocationData[]> => {
+  return Promise.all(
+    allocations.map(async allocation => {
+      const account = await fetchAccountWithReference(allocation.account, { throwIfMissing: true });
+      return { CollectiveId: account.id, amount: allocation.amount, percentage: allocation.percentage };
+    }),
+  );
+};
@@ -1,8 +1,11 @@
 import { GraphQLInputObjectType, GraphQLList, GraphQLNonNull, GraphQLString } from 'graphql';
+import { pick } from 'lodash';
 
 import { ExpenseType } from '../enum/ExpenseType';
+import { idDecode, IDENTIFIER_TYPES } from '../identifiers';
 
-import { AccountReferenceInput } from './AccountReferenceInput';
+import { AccountReferenceInput, fetchAccountWithReference } from './AccountReferenceInput';
+import { ExpenseAllocationInput, getExpenseAllocationsDataFromInput } from './ExpenseAllocationInput';
 import { ExpenseAttachedFileInput } from './ExpenseAttachedFileInput';
 import { ExpenseItemCreateInput } from './ExpenseItemCreateInput';
 import { LocationInput } from './LocationInput';
@@ -63,5 +66,44 @@ export const ExpenseCreateInput = new GraphQLInputObjectType({
       type: LocationInput,
       description: 'The address of the payee',
     },
+    allocations: {
+      type: new GraphQLList(new GraphQLNonNull(ExpenseAllocationInput)),
+      description:
+        '(Optional) To split the expense between multiple collectives of the same host. The sum of the allocations must match the total amount.',
+    },
   },
 });
+
+/**
+ * Adapts an `ExpenseCreateInput` to the format expected by the legacy `createExpense` mutation.
+ * Once we get rid of the `createExpense` endpoint in V1, the actual code to create the expense
+ * should be moved to V2 and this helper removed.
+ */
+export const getLegacyExpenseCreateData = async (expenseInput, account, req): Promise<Record<string, unknown>> => {
+  const payoutMethod = expenseInput.payoutMethod;
+  if (payoutMethod.id) {
+    payoutMethod.id = idDecode(payoutMethod.id, IDENTIFIER_TYPES.PAYOUT_METHOD);
+  }
+
+  // Support deprecated `attachments` field
+  const items = expenseInput.items || expenseInput.attachments || [];
+
+  return {
+    ...pick(expenseInput, [
+      'description',
+      'longDescription',
+      'tags',
+      'type',
+      'privateMessage',
+      'attachedFiles',
+      'invoiceInfo',
+      'payeeLocation',
+    ]),
+    items,
+    amount: items.reduce((total, item) => total + item.amount, 0),
+    PayoutMethod: payoutMethod,
+    collective: await fetchAccountWithReference(account, req),
+    fromCollective: await fetchAccountWithReference(expenseInput.payee, { throwIfMissing: true }),
+    allocations: expenseInput.allocations && (await getExpenseAllocationsDataFromInput(expenseInput.allocations)),
+  };
+};
@@ -0,0 +1,49 @@
+import { GraphQLInputObjectType, GraphQLList, GraphQLNonNull, GraphQLString } from 'graphql';
+
+import { ExpenseType } from '../enum/ExpenseType';
+
+import { ExpenseAttachedFileInput } from './ExpenseAttachedFileInput';
+import { ExpenseInviteeInput } from './ExpenseInviteeInput';
+import { ExpenseItemCreateInput } from './ExpenseItemCreateInput';
+
+/**
+ * Input type to use as the type for the expense input in draftExpenseAndInviteUser mutation.
+ * The payout method and location are left to the invited payee.
+ */
+export const ExpenseInviteDraftInput = new GraphQLInputObjectType({
+  name: 'ExpenseInviteDraftInput',
+  fields: {
+    description: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: 'Main title of the expense',
+    },
+    longDescription: {
+      type: GraphQLString,
+      description: 'Longer text to attach to the expense',
+    },
+    tags: {
+      type: new GraphQLList(GraphQLString),
+      description: 'Tags associated to the expense (ie. Food, Engineering...)',
+    },
+    type: {
+      type: new GraphQLNonNull(ExpenseType),
+      description: 'The type of the expense',
+    },
+    privateMessage: {
+      type: GraphQLString,
+      description: 'A private note that will be attached to the invoice, as HTML',
+    },
+    items: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ExpenseItemCreateInput))),
+      description: 'The list of items for this expense. Total amount will be computed from them.',
+    },
+    attachedFiles: {
+      type: new GraphQLList(new GraphQLNonNull(ExpenseAttachedFileInput)),
+      description: '(Optional) A list of files that you want to attach to this expense',
+    },
+    payee: {
+      type: new GraphQLNonNull(ExpenseInviteeInput),
+      description: 'The person invited to submit the expense',
+    },
+  },
+});
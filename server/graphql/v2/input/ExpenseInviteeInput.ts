@@ -0,0 +1,18 @@
+import { GraphQLInputObjectType, GraphQLNonNull, GraphQLString } from 'graphql';
+
+/**
+ * Input type to identify the person invited to submit a draft expense, who may not have an account yet.
+ */
+export const ExpenseInviteeInput = new GraphQLInputObjectType({
+  name: 'ExpenseInviteeInput',
+  fields: {
+    email: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: 'The email address of the payee. An account will be created for them if needed.',
+    },
+    name: {
+      type: GraphQLString,
+      description: 'The name of the payee, used if a new account has to be created',
+    },
+  },
+});
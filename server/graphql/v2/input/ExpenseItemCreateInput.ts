@@ -1,6 +1,7 @@
 import { GraphQLInputObjectType, GraphQLInt, GraphQLNonNull, GraphQLString } from 'graphql';
 
 import { DateString } from '../../v1/types';
+import { Currency } from '../enum/Currency';
 import URL from '../scalar/URL';
 
 /**
@@ -11,7 +12,12 @@ export const ExpenseItemCreateInput = new GraphQLInputObjectType({
   fields: {
     amount: {
       type: new GraphQLNonNull(GraphQLInt),
-      description: 'Amount in cents',
+      description: 'Amount in cents, in the item currency',
+    },
+    currency: {
+      type: Currency,
+      description:
+        'If the item was paid in another currency than the one of the expense. The amount will be converted using the exchange rate at the date the item was incurred.',
     },
     description: {
       type: new GraphQLNonNull(GraphQLString),
@@ -3,6 +3,7 @@ import { GraphQLInputObjectType, GraphQLList, GraphQLNonNull, GraphQLString } fr
 import { ExpenseType } from '../enum/ExpenseType';
 
 import { AccountReferenceInput } from './AccountReferenceInput';
+import { ExpenseAllocationInput } from './ExpenseAllocationInput';
 import { ExpenseAttachedFileInput } from './ExpenseAttachedFileInput';
 import { ExpenseItemInput } from './ExpenseItemInput';
 import { LocationInput } from './LocationInput';
@@ -67,5 +68,10 @@ export const ExpenseUpdateInput = new GraphQLInputObjectType({
       type: LocationInput,
       description: 'The address of the payee',
     },
+    allocations: {
+      type: new GraphQLList(new GraphQLNonNull(ExpenseAllocationInput)),
+      description:
+        'To split the expense between multiple collectives of the same host. Pass an empty list to stop splitting the expense.',
+    },
   },
 });
@@ -0,0 +1,37 @@
+import { GraphQLInputObjectType, GraphQLInt, GraphQLString } from 'graphql';
+
+import models from '../../../models';
+import { NotFound } from '../../errors';
+import { idDecode, IDENTIFIER_TYPES } from '../identifiers';
+
+export const PayoutBatchReferenceInput = new GraphQLInputObjectType({
+  name: 'PayoutBatchReferenceInput',
+  fields: {
+    id: {
+      type: GraphQLString,
+      description: 'The public id identifying the payout batch',
+    },
+    legacyId: {
+      type: GraphQLInt,
+      description: 'The internal id of the payout batch',
+    },
+  },
+});
+
+/**
+ * Retrieve a payout batch from a `PayoutBatchReferenceInput`
+ */
+export const fetchPayoutBatchWithReference = async (input: object, { throwIfMissing = false } = {}): Promise<any> => {
+  let payoutBatch = null;
+  if (input['id']) {
+    payoutBatch = await models.PayoutBatch.findByPk(idDecode(input['id'], IDENTIFIER_TYPES.PAYOUT_BATCH));
+  } else if (input['legacyId']) {
+    payoutBatch = await models.PayoutBatch.findByPk(input['legacyId']);
+  }
+
+  if (!payoutBatch && throwIfMissing) {
+    throw new NotFound('Payout batch not found');
+  }
+
+  return payoutBatch;
+};
@@ -0,0 +1,21 @@
+import { GraphQLBoolean, GraphQLInputObjectType, GraphQLInt, GraphQLString } from 'graphql';
+
+export const ProcessExpensePaymentParams = new GraphQLInputObjectType({
+  name: 'ProcessExpensePaymentParams',
+  description: 'Parameters for paying an expense',
+  fields: {
+    paymentProcessorFee: {
+      type: GraphQLInt,
+      description:
+        'The fee charged by payment processor in collective currency, or the fee refunded when used with MARK_AS_UNPAID',
+    },
+    forceManual: {
+      type: GraphQLBoolean,
+      description: 'Bypass automatic integrations (ie. PayPal, Transferwise) to process the expense manually',
+    },
+    twoFactorAuthenticatorCode: {
+      type: GraphQLString,
+      description: '2FA code for if the host account has it turned on and the transaction is large.',
+    },
+  },
+});
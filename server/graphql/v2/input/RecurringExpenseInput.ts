@@ -0,0 +1,21 @@
+import { GraphQLInputObjectType, GraphQLNonNull } from 'graphql';
+import { GraphQLDateTime } from 'graphql-iso-date';
+
+import { RecurringExpenseInterval } from '../enum/RecurringExpenseInterval';
+
+/**
+ * Input type to define how often an expense must be submitted again.
+ */
+export const RecurringExpenseInput = new GraphQLInputObjectType({
+  name: 'RecurringExpenseInput',
+  fields: {
+    interval: {
+      type: new GraphQLNonNull(RecurringExpenseInterval),
+      description: 'How often the expense will be submitted',
+    },
+    endsAt: {
+      type: GraphQLDateTime,
+      description: 'The date after which no expense will be submitted anymore. Never ends if not set.',
+    },
+  },
+});
@@ -0,0 +1,41 @@
+import { GraphQLInputObjectType, GraphQLInt, GraphQLString } from 'graphql';
+
+import models from '../../../models';
+import { NotFound } from '../../errors';
+import { idDecode, IDENTIFIER_TYPES } from '../identifiers';
+
+export const RecurringExpenseReferenceInput = new GraphQLInputObjectType({
+  name: 'RecurringExpenseReferenceInput',
+  fields: {
+    id: {
+      type: GraphQLString,
+      description: 'The public id identifying the recurring expense',
+    },
+    legacyId: {
+      type: GraphQLInt,
+      description: 'The internal id of the recurring expense',
+    },
+  },
+});
+
+/**
+ * Retrieve a recurring expense from a `RecurringExpenseReferenceInput`
+ */
+export const fetchRecurringExpenseWithReference = async (
+  input: object,
+  { throwIfMissing = false } = {},
+): Promise<any> => {
+  let recurringExpense = null;
+  if (input['id']) {
+    const id = idDecode(input['id'], IDENTIFIER_TYPES.RECURRING_EXPENSE);
+    recurringExpense = await models.RecurringExpense.findByPk(id);
+  } else if (input['legacyId']) {
+    recurringExpense = await models.RecurringExpense.findByPk(input['legacyId']);
+  }
+
+  if (!recurringExpense && throwIfMissing) {
+    throw new NotFound('Recurring expense not found');
+  }
+
+  return recurringExpense;
+};
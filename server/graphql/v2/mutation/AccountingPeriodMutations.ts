@@ -0,0 +1,77 @@
+import { GraphQLNonNull } from 'graphql';
+
+import { closeAccountingPeriod, reopenAccountingPeriod } from '../../../lib/accounting-periods';
+import { BadRequest, Forbidden, Unauthorized } from '../../errors';
+import { AccountingPeriodInterval } from '../enum/AccountingPeriodInterval';
+import {
+  AccountingPeriodReferenceInput,
+  fetchAccountingPeriodWithReference,
+} from '../input/AccountingPeriodReferenceInput';
+import { AccountReferenceInput, fetchAccountWithReference } from '../input/AccountReferenceInput';
+import { AccountingPeriod } from '../object/AccountingPeriod';
+import ISODateTime from '../scalar/ISODateTime';
+
+const accountingPeriodMutations = {
+  closeAccountingPeriod: {
+    type: new GraphQLNonNull(AccountingPeriod),
+    description:
+      'Close an accounting period of the host. The transactions of this period cannot be created, changed or deleted anymore.',
+    args: {
+      host: {
+        type: new GraphQLNonNull(AccountReferenceInput),
+      },
+      interval: {
+        type: new GraphQLNonNull(AccountingPeriodInterval),
+      },
+      date: {
+        type: new GraphQLNonNull(ISODateTime),
+        description: 'Any date in the month or year to close',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      if (!req.remoteUser) {
+        throw new Unauthorized();
+      }
+
+      const host = await fetchAccountWithReference(args.host, { loaders: req.loaders, throwIfMissing: true });
+      if (!req.remoteUser.isAdmin(host.id)) {
+        throw new Forbidden('Only host admins can close accounting periods');
+      } else if (!host.isHostAccount) {
+        throw new BadRequest('Accounting periods can only be closed for hosts');
+      }
+
+      try {
+        return await closeAccountingPeriod(host, args.interval, args.date, req.remoteUser);
+      } catch (e) {
+        throw new BadRequest(e.message);
+      }
+    },
+  },
+  reopenAccountingPeriod: {
+    type: new GraphQLNonNull(AccountingPeriod),
+    description: 'Reopen a closed accounting period, so that its transactions can be changed again',
+    args: {
+      accountingPeriod: {
+        type: new GraphQLNonNull(AccountingPeriodReferenceInput),
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      if (!req.remoteUser) {
+        throw new Unauthorized();
+      }
+
+      const period = await fetchAccountingPeriodWithReference(args.accountingPeriod, { throwIfMissing: true });
+      if (!req.remoteUser.isAdmin(period.HostCollectiveId)) {
+        throw new Forbidden('Only host admins can reopen accounting periods');
+      }
+
+      try {
+        return await reopenAccountingPeriod(period, req.remoteUser);
+      } catch (e) {
+        throw new BadRequest(e.message);
+      }
+    },
+  },
+};
+
+export default accountingPeriodMutations;
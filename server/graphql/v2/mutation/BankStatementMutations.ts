@@ -0,0 +1,145 @@
+import { GraphQLBoolean, GraphQLNonNull, GraphQLString } from 'graphql';
+
+import FEATURE from '../../../constants/feature';
+import status from '../../../constants/order_status';
+import {
+  confirmBankStatementLine,
+  ignoreBankStatementLine,
+  importBankStatement,
+} from '../../../lib/bank-reconciliation';
+import { canUseFeature } from '../../../lib/user-permissions';
+import models from '../../../models';
+import { BadRequest, FeatureNotAllowedForUser, Forbidden, Unauthorized } from '../../errors';
+import { BankStatementFormat } from '../enum/BankStatementFormat';
+import { AccountReferenceInput, fetchAccountWithReference } from '../input/AccountReferenceInput';
+import {
+  BankStatementLineReferenceInput,
+  fetchBankStatementLineWithReference,
+} from '../input/BankStatementLineReferenceInput';
+import { fetchOrderWithReference, OrderReferenceInput } from '../input/OrderReferenceInput';
+import { BankStatementImport } from '../object/BankStatementImport';
+import { BankStatementLine } from '../object/BankStatementLine';
+
+const checkRemoteUser = (req): void => {
+  if (!req.remoteUser) {
+    throw new Unauthorized();
+  } else if (!canUseFeature(req.remoteUser, FEATURE.ORDER)) {
+    throw new FeatureNotAllowedForUser();
+  }
+};
+
+/**
+ * Loads the bank statement line and makes sure the remote user is allowed to reconcile it
+ */
+const fetchBankStatementLine = async (req, reference): Promise<any> => {
+  checkRemoteUser(req);
+  const line = await fetchBankStatementLineWithReference(reference, { throwIfMissing: true });
+  if (!req.remoteUser.isAdmin(line.HostCollectiveId)) {
+    throw new Forbidden('Only host admins can reconcile bank statements');
+  }
+
+  return line;
+};
+
+const bankStatementMutations = {
+  importBankStatement: {
+    type: new GraphQLNonNull(BankStatementImport),
+    description:
+      'Import a bank statement of the host, and reconcile its credits with the pending contributions made by bank transfer',
+    args: {
+      host: {
+        type: new GraphQLNonNull(AccountReferenceInput),
+        description: 'Reference of the host owning the bank account',
+      },
+      statement: {
+        type: new GraphQLNonNull(GraphQLString),
+        description: 'The content of the bank statement',
+      },
+      format: {
+        type: new GraphQLNonNull(BankStatementFormat),
+      },
+      autoConfirm: {
+        type: new GraphQLNonNull(GraphQLBoolean),
+        defaultValue: true,
+        description:
+          'Whether the contributions matching a line by reference, amount and currency should be marked as paid right away. Otherwise, they are only proposed for review.',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      checkRemoteUser(req);
+      const host = await fetchAccountWithReference(args.host, { loaders: req.loaders, throwIfMissing: true });
+      if (!req.remoteUser.isAdmin(host.id)) {
+        throw new Forbidden('Only host admins can import bank statements');
+      } else if (!host.isHostAccount) {
+        throw new BadRequest('Bank statements can only be imported for hosts');
+      }
+
+      try {
+        return await importBankStatement(host, args.statement, args.format, req.remoteUser, {
+          autoConfirm: args.autoConfirm,
+        });
+      } catch (e) {
+        throw new BadRequest(e.message);
+      }
+    },
+  },
+  confirmBankStatementLine: {
+    type: new GraphQLNonNull(BankStatementLine),
+    description: 'Mark a pending contribution as paid with a bank statement line',
+    args: {
+      bankStatementLine: {
+        type: new GraphQLNonNull(BankStatementLineReferenceInput),
+      },
+      order: {
+        type: OrderReferenceInput,
+        description: 'The contribution paid by this line. Defaults to the proposed one.',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      const line = await fetchBankStatementLine(req, args.bankStatementLine);
+      let order;
+      if (args.order) {
+        order = await fetchOrderWithReference(args.order);
+      } else if (line.OrderId) {
+        order = await models.Order.findByPk(line.OrderId);
+      } else {
+        throw new BadRequest('No contribution was proposed for this line, please provide one');
+      }
+
+      const hostId =
+        order.CollectiveId === line.HostCollectiveId
+          ? line.HostCollectiveId
+          : await models.Collective.getHostCollectiveId(order.CollectiveId);
+      if (hostId !== line.HostCollectiveId) {
+        throw new BadRequest('This contribution was not made to a collective of this host');
+      } else if (order.status !== status.PENDING) {
+        throw new BadRequest(`Only pending contributions can be confirmed (current status: ${order.status})`);
+      }
+
+      try {
+        return await confirmBankStatementLine(line, order, req.remoteUser);
+      } catch (e) {
+        throw new BadRequest(e.message);
+      }
+    },
+  },
+  ignoreBankStatementLine: {
+    type: new GraphQLNonNull(BankStatementLine),
+    description: 'Mark a bank statement line as not related to any contribution',
+    args: {
+      bankStatementLine: {
+        type: new GraphQLNonNull(BankStatementLineReferenceInput),
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      const line = await fetchBankStatementLine(req, args.bankStatementLine);
+      try {
+        return await ignoreBankStatementLine(line);
+      } catch (e) {
+        throw new BadRequest(e.message);
+      }
+    },
+  },
+};
+
+export default bankStatementMutations;
@@ -1,4 +1,4 @@
-import { GraphQLNonNull } from 'graphql';
+import { GraphQLInt, GraphQLList, GraphQLNonNull } from 'graphql';
 import { pick } from 'lodash';
 
 import { Service } from '../../../constants/connected_account';
@@ -6,7 +6,8 @@ import { crypto } from '../../../lib/encryption';
 import * as paypal from '../../../lib/paypal';
 import * as transferwise from '../../../lib/transferwise';
 import models from '../../../models';
-import { Unauthorized, ValidationFailed } from '../../errors';
+import transferwisePaymentProvider from '../../../paymentProviders/transferwise';
+import { NotFound, Unauthorized, ValidationFailed } from '../../errors';
 import { AccountReferenceInput, fetchAccountWithReference } from '../input/AccountReferenceInput';
 import { ConnectedAccountCreateInput } from '../input/ConnectedAccountCreateInput';
 import {
@@ -14,6 +15,7 @@ import {
   fetchConnectedAccountWithReference,
 } from '../input/ConnectedAccountReferenceInput';
 import { ConnectedAccount } from '../object/ConnectedAccount';
+import { TransferWiseRecipient } from '../object/TransferWiseRecipient';
 
 const connectedAccountMutations = {
   createConnectedAccount: {
@@ -108,6 +110,40 @@ const connectedAccountMutations = {
       return connectedAccount;
     },
   },
+  pruneTransferWiseRecipients: {
+    type: new GraphQLList(TransferWiseRecipient),
+    description:
+      'Delete recipient accounts that are not used by any payout method anymore from the TransferWise profile of the host. Returns the deleted recipients.',
+    args: {
+      host: {
+        type: new GraphQLNonNull(AccountReferenceInput),
+        description: 'The host connected to TransferWise',
+      },
+      recipientIds: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLInt))),
+        description: 'The IDs of the stale recipients to delete, see `TransferWise.recipients`',
+      },
+    },
+    async resolve(_, args, req): Promise<object[]> {
+      if (!req.remoteUser) {
+        throw new Unauthorized('You need to be logged in to prune TransferWise recipients');
+      }
+
+      const host = await fetchAccountWithReference(args.host, { loaders: req.loaders, throwIfMissing: true });
+      if (!req.remoteUser.isAdmin(host.id)) {
+        throw new Unauthorized("You don't have permission to edit this collective");
+      }
+
+      const connectedAccount = await models.ConnectedAccount.findOne({
+        where: { service: Service.TRANSFERWISE, CollectiveId: host.id },
+      });
+      if (!connectedAccount) {
+        throw new NotFound('This host is not connected to TransferWise');
+      }
+
+      return transferwisePaymentProvider.deleteStaleRecipients(connectedAccount, args.recipientIds);
+    },
+  },
 };
 
 export default connectedAccountMutations;
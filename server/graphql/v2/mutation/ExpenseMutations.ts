@@ -1,16 +1,21 @@
-import { GraphQLBoolean, GraphQLInputObjectType, GraphQLInt, GraphQLNonNull, GraphQLString } from 'graphql';
+import { GraphQLList, GraphQLNonNull, GraphQLString } from 'graphql';
 import { pick } from 'lodash';
 
+import { getExpenseAllocations } from '../../../lib/expense-allocations';
+import RateLimit, { ONE_HOUR_IN_SECONDS } from '../../../lib/rate-limit';
+import { parseReceipt, ReceiptData } from '../../../lib/receipt-parser';
 import models from '../../../models';
 import {
   approveExpense,
+  cancelUnclaimedPayout,
   canDeleteExpense,
   rejectExpense,
   scheduleExpenseForPayment,
   unapproveExpense,
 } from '../../common/expenses';
-import { NotFound, Unauthorized } from '../../errors';
+import { NotFound, RateLimitExceeded, Unauthorized, ValidationFailed } from '../../errors';
 import {
+  createDraftExpense as createDraftExpenseLegacy,
   createExpense as createExpenseLegacy,
   editExpense as editExpenseLegacy,
   markExpenseAsUnpaid as markExpenseAsUnpaidLegacy,
@@ -19,14 +24,59 @@ import {
 import { ExpenseProcessAction } from '../enum/ExpenseProcessAction';
 import { idDecode, IDENTIFIER_TYPES } from '../identifiers';
 import { AccountReferenceInput, fetchAccountWithReference } from '../input/AccountReferenceInput';
-import { ExpenseCreateInput } from '../input/ExpenseCreateInput';
+import { getExpenseAllocationsDataFromInput } from '../input/ExpenseAllocationInput';
+import { ExpenseCreateInput, getLegacyExpenseCreateData } from '../input/ExpenseCreateInput';
+import { ExpenseInviteDraftInput } from '../input/ExpenseInviteDraftInput';
 import {
   ExpenseReferenceInput,
   fetchExpenseWithReference,
   getDatabaseIdFromExpenseReference,
 } from '../input/ExpenseReferenceInput';
 import { ExpenseUpdateInput } from '../input/ExpenseUpdateInput';
+import { ProcessExpensePaymentParams } from '../input/ProcessExpensePaymentParams';
 import { Expense } from '../object/Expense';
+import { ExpenseItemReceiptData } from '../object/ExpenseItemReceiptData';
+import { ProcessExpenseResult } from '../object/ProcessExpenseResult';
+import URL from '../scalar/URL';
+
+/** Maximum number of expenses that can be processed at once with `processExpenses` */
+const MAX_EXPENSES_PER_BATCH = 100;
+
+/** Maximum number of receipts a user can parse per hour with `parseExpenseReceipt` */
+const MAX_PARSED_RECEIPTS_PER_HOUR = 100;
+
+/**
+ * Applies the given action to the expense, using the shared expense helpers.
+ */
+const processExpenseAction = async (
+  req,
+  expense,
+  action: string,
+  paymentParams,
+  { alreadyScheduledAmounts = {} } = {},
+): Promise<typeof Expense> => {
+  switch (action) {
+    case 'APPROVE':
+      return approveExpense(req, expense);
+    case 'UNAPPROVE':
+      return unapproveExpense(req, expense);
+    case 'REJECT':
+      return rejectExpense(req, expense);
+    case 'MARK_AS_UNPAID':
+      return markExpenseAsUnpaidLegacy(req, expense.id, paymentParams?.paymentProcessorFee);
+    case 'SCHEDULE_FOR_PAYMENT':
+      return scheduleExpenseForPayment(req, expense, { alreadyScheduledAmounts });
+    case 'PAY':
+      return payExpenseLegacy(req, {
+        id: expense.id,
+        paymentProcessorFeeInCollectiveCurrency: paymentParams?.paymentProcessorFee,
+        forceManual: paymentParams?.forceManual,
+        twoFactorAuthenticatorCode: paymentParams?.twoFactorAuthenticatorCode,
+      });
+    default:
+      return expense;
+  }
+};
 
 const expenseMutations = {
   createExpense: {
@@ -43,33 +93,30 @@ const expenseMutations = {
       },
     },
     async resolve(_, args, req): Promise<object> {
-      const payoutMethod = args.expense.payoutMethod;
-      if (payoutMethod.id) {
-        payoutMethod.id = idDecode(payoutMethod.id, IDENTIFIER_TYPES.PAYOUT_METHOD);
-      }
-
-      // Support deprecated `attachments` field
-      const items = args.expense.items || args.expense.attachments || [];
-
-      // Right now this endpoint uses the old mutation by adapting the data for it. Once we get rid
-      // of the `createExpense` endpoint in V1, the actual code to create the expense should be moved
-      // here and cleaned.
-      return createExpenseLegacy(req.remoteUser, {
-        ...pick(args.expense, [
-          'description',
-          'longDescription',
-          'tags',
-          'type',
-          'privateMessage',
-          'attachedFiles',
-          'invoiceInfo',
-          'payeeLocation',
-        ]),
-        items,
-        amount: items.reduce((total, item) => total + item.amount, 0),
-        PayoutMethod: payoutMethod,
-        collective: await fetchAccountWithReference(args.account, req),
-        fromCollective: await fetchAccountWithReference(args.expense.payee, { throwIfMissing: true }),
+      const expenseData = await getLegacyExpenseCreateData(args.expense, args.account, req);
+      return createExpenseLegacy(req.remoteUser, expenseData);
+    },
+  },
+  draftExpenseAndInviteUser: {
+    type: new GraphQLNonNull(Expense),
+    description: `Create an expense in DRAFT on behalf of someone who may not have an account yet. They'll receive a link to complete and submit it.`,
+    args: {
+      expense: {
+        type: new GraphQLNonNull(ExpenseInviteDraftInput),
+        description: 'Expense data',
+      },
+      account: {
+        type: new GraphQLNonNull(AccountReferenceInput),
+        description: 'Account where the expense will be created',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      return createDraftExpenseLegacy(req.remoteUser, {
+        ...pick(args.expense, ['description', 'longDescription', 'tags', 'type', 'privateMessage', 'attachedFiles']),
+        items: args.expense.items,
+        amount: args.expense.items.reduce((total, item) => total + item.amount, 0),
+        payee: args.expense.payee,
+        collective: await fetchAccountWithReference(args.account, { throwIfMissing: true }),
       });
     },
   },
@@ -81,40 +128,50 @@ const expenseMutations = {
         type: new GraphQLNonNull(ExpenseUpdateInput),
         description: 'Expense data',
       },
+      draftKey: {
+        type: GraphQLString,
+        description: 'The key sent to the invited payee to submit a draft expense. The expense will move to PENDING.',
+      },
     },
-    async resolve(_, { expense }, req): Promise<object> {
+    async resolve(_, { expense, draftKey }, req): Promise<object> {
       // Support deprecated `attachments` field
       const items = expense.items || expense.attachments;
 
-      return editExpenseLegacy(req, {
-        id: idDecode(expense.id, IDENTIFIER_TYPES.EXPENSE),
-        description: expense.description,
-        tags: expense.tags,
-        type: expense.type,
-        payeeLocation: expense.payeeLocation,
-        privateMessage: expense.privateMessage,
-        invoiceInfo: expense.invoiceInfo,
-        amount: items?.reduce((total, att) => total + att.amount, 0),
-        PayoutMethod: expense.payoutMethod && {
-          id: expense.payoutMethod.id && idDecode(expense.payoutMethod.id, IDENTIFIER_TYPES.PAYOUT_METHOD),
-          data: expense.payoutMethod.data,
-          name: expense.payoutMethod.name,
-          isSaved: expense.payoutMethod.isSaved,
-          type: expense.payoutMethod.type,
+      return editExpenseLegacy(
+        req,
+        {
+          id: idDecode(expense.id, IDENTIFIER_TYPES.EXPENSE),
+          description: expense.description,
+          tags: expense.tags,
+          type: expense.type,
+          payeeLocation: expense.payeeLocation,
+          privateMessage: expense.privateMessage,
+          invoiceInfo: expense.invoiceInfo,
+          amount: items?.reduce((total, att) => total + att.amount, 0),
+          PayoutMethod: expense.payoutMethod && {
+            id: expense.payoutMethod.id && idDecode(expense.payoutMethod.id, IDENTIFIER_TYPES.PAYOUT_METHOD),
+            data: expense.payoutMethod.data,
+            name: expense.payoutMethod.name,
+            isSaved: expense.payoutMethod.isSaved,
+            type: expense.payoutMethod.type,
+          },
+          items: items?.map(item => ({
+            id: item.id && idDecode(item.id, IDENTIFIER_TYPES.EXPENSE_ITEM),
+            url: item.url,
+            amount: item.amount,
+            currency: item.currency,
+            incurredAt: item.incurredAt,
+            description: item.description,
+          })),
+          attachedFiles: expense.attachedFiles?.map(attachedFile => ({
+            id: attachedFile.id && idDecode(attachedFile.id, IDENTIFIER_TYPES.EXPENSE_ITEM),
+            url: attachedFile.url,
+          })),
+          fromCollective: expense.payee && (await fetchAccountWithReference(expense.payee, { throwIfMissing: true })),
+          allocations: expense.allocations && (await getExpenseAllocationsDataFromInput(expense.allocations)),
         },
-        items: items?.map(item => ({
-          id: item.id && idDecode(item.id, IDENTIFIER_TYPES.EXPENSE_ITEM),
-          url: item.url,
-          amount: item.amount,
-          incurredAt: item.incurredAt,
-          description: item.description,
-        })),
-        attachedFiles: expense.attachedFiles?.map(attachedFile => ({
-          id: attachedFile.id && idDecode(attachedFile.id, IDENTIFIER_TYPES.EXPENSE_ITEM),
-          url: attachedFile.url,
-        })),
-        fromCollective: expense.payee && (await fetchAccountWithReference(expense.payee, { throwIfMissing: true })),
-      });
+        { draftKey },
+      );
     },
   },
   deleteExpense: {
@@ -162,25 +219,29 @@ const expenseMutations = {
       },
       paymentParams: {
         description: 'If action is related to a payment, this object used for the payment parameters',
-        type: new GraphQLInputObjectType({
-          name: 'ProcessExpensePaymentParams',
-          description: 'Parameters for paying an expense',
-          fields: {
-            paymentProcessorFee: {
-              type: GraphQLInt,
-              description:
-                'The fee charged by payment processor in collective currency, or the fee refunded when used with MARK_AS_UNPAID',
-            },
-            forceManual: {
-              type: GraphQLBoolean,
-              description: 'Bypass automatic integrations (ie. PayPal, Transferwise) to process the expense manually',
-            },
-            twoFactorAuthenticatorCode: {
-              type: GraphQLString,
-              description: '2FA code for if the host account has it turned on and the transaction is large.',
-            },
-          },
-        }),
+        type: ProcessExpensePaymentParams,
+      },
+    },
+    async resolve(_, args, req): Promise<typeof Expense> {
+      if (!req.remoteUser) {
+        throw new Unauthorized();
+      }
+
+      const expense = await fetchExpenseWithReference(args.expense, { loaders: req.loaders, throwIfMissing: true });
+      return processExpenseAction(req, expense, args.action, args.paymentParams);
+    },
+  },
+  cancelUnclaimedPayout: {
+    type: new GraphQLNonNull(Expense),
+    description: `Cancel the PayPal payout of an expense that hasn't been claimed by the payee. The funds are returned to the host and the expense is approved again. Only works for host admins - please check permissions.canCancelUnclaimedPayout.`,
+    args: {
+      expense: {
+        type: new GraphQLNonNull(ExpenseReferenceInput),
+        description: 'Reference of the expense',
+      },
+      reason: {
+        type: GraphQLString,
+        description: 'An optional message explaining to the payee why the payout was cancelled',
       },
     },
     async resolve(_, args, req): Promise<typeof Expense> {
@@ -189,27 +250,92 @@ const expenseMutations = {
       }
 
       const expense = await fetchExpenseWithReference(args.expense, { loaders: req.loaders, throwIfMissing: true });
-      switch (args.action) {
-        case 'APPROVE':
-          return approveExpense(req, expense);
-        case 'UNAPPROVE':
-          return unapproveExpense(req, expense);
-        case 'REJECT':
-          return rejectExpense(req, expense);
-        case 'MARK_AS_UNPAID':
-          return markExpenseAsUnpaidLegacy(req, expense.id, args.paymentParams?.paymentProcessorFee);
-        case 'SCHEDULE_FOR_PAYMENT':
-          return scheduleExpenseForPayment(req, expense);
-        case 'PAY':
-          return payExpenseLegacy(req, {
-            id: expense.id,
-            paymentProcessorFeeInCollectiveCurrency: args.paymentParams?.paymentProcessorFee,
-            forceManual: args.paymentParams?.forceManual,
-            twoFactorAuthenticatorCode: args.paymentParams?.twoFactorAuthenticatorCode,
-          });
-        default:
-          return expense;
+      return cancelUnclaimedPayout(req, expense, args.reason);
+    },
+  },
+  processExpenses: {
+    type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ProcessExpenseResult))),
+    description: `Process multiple expenses with the same action. Failures are reported for each expense instead of failing the whole batch.`,
+    args: {
+      expenses: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ExpenseReferenceInput))),
+        description: 'References of the expenses to process',
+      },
+      action: {
+        type: new GraphQLNonNull(ExpenseProcessAction),
+        description: 'The action to trigger on all expenses',
+      },
+      paymentParams: {
+        description: 'If action is related to a payment, this object used for the payment parameters',
+        type: ProcessExpensePaymentParams,
+      },
+    },
+    async resolve(_, args, req): Promise<object[]> {
+      if (!req.remoteUser) {
+        throw new Unauthorized();
+      } else if (args.expenses.length > MAX_EXPENSES_PER_BATCH) {
+        throw new ValidationFailed(`You cannot process more than ${MAX_EXPENSES_PER_BATCH} expenses at once`);
       }
+
+      // Amounts scheduled for payment in this batch, by collective. The balance of the expense collective
+      // already excludes the expenses scheduled for payment, only the shares of the other collectives of split
+      // expenses need to be tracked here. Paid expenses are already reflected in the balances.
+      const alreadyScheduledAmounts: Record<number, number> = {};
+      const results = [];
+
+      // Expenses are processed sequentially to make sure balance checks include the previous items
+      for (const expenseReference of args.expenses) {
+        let expense = null;
+        try {
+          expense = await fetchExpenseWithReference(expenseReference, { loaders: req.loaders, throwIfMissing: true });
+          const options = { alreadyScheduledAmounts };
+          const updatedExpense = await processExpenseAction(req, expense, args.action, args.paymentParams, options);
+          if (args.action === 'SCHEDULE_FOR_PAYMENT') {
+            // Split expenses are scheduled on the balance of each allocated collective
+            for (const allocation of await getExpenseAllocations(expense)) {
+              if (allocation.CollectiveId === expense.CollectiveId) {
+                continue;
+              }
+
+              const previousAmount = alreadyScheduledAmounts[allocation.CollectiveId] || 0;
+              alreadyScheduledAmounts[allocation.CollectiveId] = previousAmount + allocation.amount;
+            }
+          }
+
+          results.push({ expense: updatedExpense, success: true, error: null });
+        } catch (e) {
+          const error = { code: e.extensions?.code || 'Error', message: e.message };
+          results.push({ expense, success: false, error });
+        }
+      }
+
+      return results;
+    },
+  },
+  parseExpenseReceipt: {
+    type: ExpenseItemReceiptData,
+    description: `Extract data from an uploaded receipt to pre-fill an expense item. Returns null if receipts parsing is not available.`,
+    args: {
+      url: {
+        type: new GraphQLNonNull(URL),
+        description: 'URL of the uploaded receipt',
+      },
+    },
+    async resolve(_, args, req): Promise<ReceiptData | null> {
+      if (!req.remoteUser) {
+        throw new Unauthorized();
+      }
+
+      const rateLimit = new RateLimit(
+        `parse_receipt_${req.remoteUser.id}`,
+        MAX_PARSED_RECEIPTS_PER_HOUR,
+        ONE_HOUR_IN_SECONDS,
+      );
+      if (!(await rateLimit.registerCall())) {
+        throw new RateLimitExceeded('You have parsed too many receipts, please try again later');
+      }
+
+      return parseReceipt(args.url);
     },
   },
 };
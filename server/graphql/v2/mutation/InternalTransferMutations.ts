@@ -0,0 +1,68 @@
+import { GraphQLList, GraphQLNonNull, GraphQLString } from 'graphql';
+
+import { purgeCacheForCollective } from '../../../lib/cache';
+import { createInternalTransfer } from '../../../lib/internal-transfers';
+import { BadRequest, Forbidden, Unauthorized } from '../../errors';
+import { AccountReferenceInput, fetchAccountWithReference } from '../input/AccountReferenceInput';
+import { AmountInput, getValueInCentsFromAmountInput } from '../input/AmountInput';
+import { Order } from '../object/Order';
+
+const internalTransferMutations = {
+  createInternalTransfer: {
+    type: new GraphQLNonNull(Order),
+    description:
+      'Move money between two accounts of the same host, without host or platform fees. Must be done by an admin of the source account.',
+    args: {
+      fromAccount: {
+        type: new GraphQLNonNull(AccountReferenceInput),
+        description: 'The account the money is taken from',
+      },
+      toAccount: {
+        type: new GraphQLNonNull(AccountReferenceInput),
+        description: 'The account receiving the money',
+      },
+      amount: {
+        type: new GraphQLNonNull(AmountInput),
+        description: 'In the currency of the receiving account',
+      },
+      reason: {
+        type: new GraphQLNonNull(GraphQLString),
+        description: 'Used as the description of the transactions',
+      },
+      tags: {
+        type: new GraphQLList(GraphQLString),
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      if (!req.remoteUser) {
+        throw new Unauthorized();
+      }
+
+      const fromAccount = await fetchAccountWithReference(args.fromAccount, { throwIfMissing: true });
+      const toAccount = await fetchAccountWithReference(args.toAccount, { throwIfMissing: true });
+      if (!req.remoteUser.isAdminOfCollective(fromAccount)) {
+        throw new Forbidden('You need to be an admin of the source account to transfer its money');
+      } else if (args.amount.currency && args.amount.currency !== toAccount.currency) {
+        throw new BadRequest(`The amount must be in the currency of the receiving account (${toAccount.currency})`);
+      }
+
+      let order;
+      try {
+        order = await createInternalTransfer(
+          fromAccount,
+          toAccount,
+          { amount: getValueInCentsFromAmountInput(args.amount), reason: args.reason, tags: args.tags },
+          req.remoteUser,
+        );
+      } catch (e) {
+        throw new BadRequest(e.message);
+      }
+
+      purgeCacheForCollective(fromAccount.slug);
+      purgeCacheForCollective(toAccount.slug);
+      return order;
+    },
+  },
+};
+
+export default internalTransferMutations;
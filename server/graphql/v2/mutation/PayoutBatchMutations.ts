@@ -0,0 +1,199 @@
+import { GraphQLList, GraphQLNonNull, GraphQLString } from 'graphql';
+import { get } from 'lodash';
+
+import { expenseStatus } from '../../../constants';
+import activities from '../../../constants/activities';
+import FEATURE from '../../../constants/feature';
+import { enforceTwoFactorAuthenticationOnPayouts } from '../../../lib/auth';
+import { getExpenseAllocations } from '../../../lib/expense-allocations';
+import {
+  cancelPayoutBatch,
+  checkExpensesCanBeBatched,
+  createPayoutBatchForExpenses,
+  sendPayoutBatch,
+} from '../../../lib/payout-batches';
+import { canUseFeature } from '../../../lib/user-permissions';
+import models, { sequelize } from '../../../models';
+import { PayoutBatchStatus } from '../../../models/PayoutBatch';
+import { checkCanScheduleExpenseForPayment } from '../../common/expenses';
+import {
+  BadRequest,
+  FeatureNotAllowedForUser,
+  Forbidden,
+  NotFound,
+  Unauthorized,
+  ValidationFailed,
+} from '../../errors';
+import { AccountReferenceInput, fetchAccountWithReference } from '../input/AccountReferenceInput';
+import { ExpenseReferenceInput, getDatabaseIdFromExpenseReference } from '../input/ExpenseReferenceInput';
+import { fetchPayoutBatchWithReference, PayoutBatchReferenceInput } from '../input/PayoutBatchReferenceInput';
+import { PayoutBatch } from '../object/PayoutBatch';
+
+/** Maximum number of expenses that can be paid at once with `payExpensesInBatch` */
+const MAX_EXPENSES_PER_PAYOUT_BATCH = 100;
+
+/**
+ * Loads the payout batch and makes sure the remote user is allowed to process it
+ */
+const fetchPendingPayoutBatch = async (req, reference): Promise<any> => {
+  if (!req.remoteUser) {
+    throw new Unauthorized();
+  } else if (!canUseFeature(req.remoteUser, FEATURE.EXPENSES)) {
+    throw new FeatureNotAllowedForUser();
+  }
+
+  const payoutBatch = await fetchPayoutBatchWithReference(reference, { throwIfMissing: true });
+  if (!req.remoteUser.isAdmin(payoutBatch.HostCollectiveId)) {
+    throw new Forbidden('Only host admins can process payout batches');
+  } else if (payoutBatch.status !== PayoutBatchStatus.PENDING) {
+    throw new BadRequest(`This payout batch can't be processed anymore. Current status: ${payoutBatch.status}`);
+  }
+
+  return payoutBatch;
+};
+
+/**
+ * Same rules as when paying expenses individually: hosts can require 2FA for large payouts
+ */
+export const checkTwoFactorAuthenticationForBatch = (req, host, expenses, twoFactorAuthenticatorCode): void => {
+  if (get(host, 'settings.payoutsTwoFactorAuth.enabled', false)) {
+    const minAmount = get(host, 'settings.payoutsTwoFactorAuth.expenseAmount', 100000);
+    if (expenses.some(expense => expense.amount >= minAmount)) {
+      enforceTwoFactorAuthenticationOnPayouts(req, twoFactorAuthenticatorCode);
+    }
+  }
+};
+
+const payoutBatchMutations = {
+  sendPayoutBatch: {
+    type: new GraphQLNonNull(PayoutBatch),
+    description: 'Send a pending payout batch to the payment provider',
+    args: {
+      payoutBatch: {
+        type: new GraphQLNonNull(PayoutBatchReferenceInput),
+        description: 'Reference of the payout batch to send',
+      },
+      twoFactorAuthenticatorCode: {
+        type: GraphQLString,
+        description: 'The 2FA code of the user, if the host requires it for large payouts',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      const payoutBatch = await fetchPendingPayoutBatch(req, args.payoutBatch);
+
+      const host = await req.loaders.Collective.byId.load(payoutBatch.HostCollectiveId);
+      const expenses = await models.Expense.findAll({
+        where: { PayoutBatchId: payoutBatch.id },
+        attributes: ['amount'],
+      });
+      checkTwoFactorAuthenticationForBatch(req, host, expenses, args.twoFactorAuthenticatorCode);
+      return sendPayoutBatch(payoutBatch, req.remoteUser);
+    },
+  },
+  payExpensesInBatch: {
+    type: new GraphQLNonNull(PayoutBatch),
+    description: `Pay multiple approved expenses of the host at once. With TransferWise, all the transfers are funded in a single payment. The status of each expense is available in the \`items\` of the returned batch.`,
+    args: {
+      host: {
+        type: new GraphQLNonNull(AccountReferenceInput),
+        description: 'Reference of the host paying the expenses',
+      },
+      expenses: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ExpenseReferenceInput))),
+        description: 'References of the expenses to pay. They must all use the same payout method type.',
+      },
+      twoFactorAuthenticatorCode: {
+        type: GraphQLString,
+        description: 'The 2FA code of the user, if the host requires it for large payouts',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      if (!req.remoteUser) {
+        throw new Unauthorized();
+      } else if (!canUseFeature(req.remoteUser, FEATURE.EXPENSES)) {
+        throw new FeatureNotAllowedForUser();
+      } else if (!args.expenses.length || args.expenses.length > MAX_EXPENSES_PER_PAYOUT_BATCH) {
+        throw new ValidationFailed(`You can pay between 1 and ${MAX_EXPENSES_PER_PAYOUT_BATCH} expenses at once`);
+      }
+
+      const host = await fetchAccountWithReference(args.host, { loaders: req.loaders, throwIfMissing: true });
+      if (!req.remoteUser.isAdmin(host.id)) {
+        throw new Forbidden('Only host admins can pay expenses in batch');
+      }
+
+      const expenses = await models.Expense.findAll({
+        where: { id: args.expenses.map(getDatabaseIdFromExpenseReference) },
+        include: [{ model: models.Collective, as: 'collective' }, { model: models.PayoutMethod }],
+        order: [['id', 'ASC']],
+      });
+
+      if (expenses.length !== args.expenses.length) {
+        throw new NotFound('Some of the expenses could not be found');
+      } else if (expenses.some(expense => expense.collective.HostCollectiveId !== host.id)) {
+        throw new BadRequest('All expenses must belong to collectives of this host');
+      }
+
+      checkTwoFactorAuthenticationForBatch(req, host, expenses, args.twoFactorAuthenticatorCode);
+
+      // Validate everything before changing any expense
+      try {
+        checkExpensesCanBeBatched(host, expenses);
+      } catch (e) {
+        throw new BadRequest(e.message);
+      }
+
+      // Make sure the balances can cover all the approved expenses
+      const alreadyScheduledAmounts: Record<number, number> = {};
+      const expensesToSchedule = expenses.filter(expense => expense.status !== expenseStatus.SCHEDULED_FOR_PAYMENT);
+      for (const expense of expenses) {
+        if (expensesToSchedule.includes(expense)) {
+          await checkCanScheduleExpenseForPayment(req, expense, { alreadyScheduledAmounts });
+        }
+
+        // Split expenses are scheduled on the balance of each allocated collective
+        for (const allocation of await getExpenseAllocations(expense)) {
+          const previousAmount = alreadyScheduledAmounts[allocation.CollectiveId] || 0;
+          alreadyScheduledAmounts[allocation.CollectiveId] = previousAmount + allocation.amount;
+        }
+      }
+
+      let payoutBatch;
+      try {
+        payoutBatch = await sequelize.transaction(async transaction => {
+          for (const expense of expensesToSchedule) {
+            await expense.update(
+              { status: expenseStatus.SCHEDULED_FOR_PAYMENT, lastEditedById: req.remoteUser.id, PayoutBatchId: null },
+              { transaction },
+            );
+          }
+
+          return createPayoutBatchForExpenses(host, expenses, { transaction });
+        });
+      } catch (e) {
+        throw new BadRequest(e.message);
+      }
+
+      for (const expense of expensesToSchedule) {
+        await expense.createActivity(activities.COLLECTIVE_EXPENSE_SCHEDULED_FOR_PAYMENT, req.remoteUser);
+      }
+
+      return sendPayoutBatch(payoutBatch, req.remoteUser);
+    },
+  },
+  cancelPayoutBatch: {
+    type: new GraphQLNonNull(PayoutBatch),
+    description: 'Cancel a pending payout batch. Its expenses go back to the approved status.',
+    args: {
+      payoutBatch: {
+        type: new GraphQLNonNull(PayoutBatchReferenceInput),
+        description: 'Reference of the payout batch to cancel',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      const payoutBatch = await fetchPendingPayoutBatch(req, args.payoutBatch);
+      return cancelPayoutBatch(payoutBatch);
+    },
+  },
+};
+
+export default payoutBatchMutations;
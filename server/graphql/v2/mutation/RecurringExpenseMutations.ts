@@ -0,0 +1,133 @@
+import { GraphQLNonNull } from 'graphql';
+
+import expenseType from '../../../constants/expense_type';
+import FEATURE from '../../../constants/feature';
+import { createRecurringExpenseFromExpense } from '../../../lib/recurring-expenses';
+import { canUseFeature } from '../../../lib/user-permissions';
+import { RecurringExpenseStatus } from '../../../models/RecurringExpense';
+import { BadRequest, FeatureNotAllowedForUser, Forbidden, Unauthorized, ValidationFailed } from '../../errors';
+import { createExpense as createExpenseLegacy } from '../../v1/mutations/expenses';
+import { AccountReferenceInput } from '../input/AccountReferenceInput';
+import { ExpenseCreateInput, getLegacyExpenseCreateData } from '../input/ExpenseCreateInput';
+import { RecurringExpenseInput } from '../input/RecurringExpenseInput';
+import {
+  fetchRecurringExpenseWithReference,
+  RecurringExpenseReferenceInput,
+} from '../input/RecurringExpenseReferenceInput';
+import { RecurringExpense } from '../object/RecurringExpense';
+
+/**
+ * Loads the recurring expense and makes sure the remote user is an admin of the payee
+ */
+const fetchRecurringExpenseForPayee = async (req, reference): Promise<any> => {
+  if (!req.remoteUser) {
+    throw new Unauthorized();
+  } else if (!canUseFeature(req.remoteUser, FEATURE.EXPENSES)) {
+    throw new FeatureNotAllowedForUser();
+  }
+
+  const recurringExpense = await fetchRecurringExpenseWithReference(reference, { throwIfMissing: true });
+  if (!req.remoteUser.isAdmin(recurringExpense.FromCollectiveId)) {
+    throw new Forbidden('Only the payee can update a recurring expense');
+  }
+
+  return recurringExpense;
+};
+
+const recurringExpenseMutations = {
+  createRecurringExpense: {
+    type: new GraphQLNonNull(RecurringExpense),
+    description: 'Submit an expense to a collective and submit it again automatically on every period',
+    args: {
+      expense: {
+        type: new GraphQLNonNull(ExpenseCreateInput),
+        description: 'Data of the first expense, used as a template for the next ones',
+      },
+      account: {
+        type: new GraphQLNonNull(AccountReferenceInput),
+        description: 'Account where the expenses will be created',
+      },
+      recurrence: {
+        type: new GraphQLNonNull(RecurringExpenseInput),
+        description: 'How often the expense will be submitted',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      if (!req.remoteUser) {
+        throw new Unauthorized();
+      } else if (args.expense.type !== expenseType.INVOICE) {
+        throw new ValidationFailed('Only invoices can be recurring');
+      } else if (args.recurrence.endsAt && args.recurrence.endsAt < new Date()) {
+        throw new ValidationFailed('The end date of a recurring expense must be in the future');
+      }
+
+      const expenseData = await getLegacyExpenseCreateData(args.expense, args.account, req);
+      if (!req.remoteUser.isAdmin(expenseData.fromCollective['id'])) {
+        throw new Forbidden('You must be an admin of the payee to create a recurring expense');
+      }
+
+      const expense = await createExpenseLegacy(req.remoteUser, expenseData);
+      return createRecurringExpenseFromExpense(expense, req.remoteUser, args.recurrence);
+    },
+  },
+  pauseRecurringExpense: {
+    type: new GraphQLNonNull(RecurringExpense),
+    description: 'Stop submitting a recurring expense until it gets resumed',
+    args: {
+      recurringExpense: {
+        type: new GraphQLNonNull(RecurringExpenseReferenceInput),
+        description: 'Reference of the recurring expense to pause',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      const recurringExpense = await fetchRecurringExpenseForPayee(req, args.recurringExpense);
+      if (recurringExpense.status !== RecurringExpenseStatus.ACTIVE) {
+        throw new BadRequest(
+          `Only active recurring expenses can be paused. Current status: ${recurringExpense.status}`,
+        );
+      }
+
+      return recurringExpense.pause();
+    },
+  },
+  resumeRecurringExpense: {
+    type: new GraphQLNonNull(RecurringExpense),
+    description: 'Resume a paused recurring expense. Periods skipped while it was paused are not submitted.',
+    args: {
+      recurringExpense: {
+        type: new GraphQLNonNull(RecurringExpenseReferenceInput),
+        description: 'Reference of the recurring expense to resume',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      const recurringExpense = await fetchRecurringExpenseForPayee(req, args.recurringExpense);
+      if (recurringExpense.status !== RecurringExpenseStatus.PAUSED) {
+        throw new BadRequest(
+          `Only paused recurring expenses can be resumed. Current status: ${recurringExpense.status}`,
+        );
+      }
+
+      return recurringExpense.resume();
+    },
+  },
+  cancelRecurringExpense: {
+    type: new GraphQLNonNull(RecurringExpense),
+    description: 'Stop submitting a recurring expense. Expenses already submitted are not affected.',
+    args: {
+      recurringExpense: {
+        type: new GraphQLNonNull(RecurringExpenseReferenceInput),
+        description: 'Reference of the recurring expense to cancel',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      const recurringExpense = await fetchRecurringExpenseForPayee(req, args.recurringExpense);
+      if ([RecurringExpenseStatus.CANCELLED, RecurringExpenseStatus.COMPLETED].includes(recurringExpense.status)) {
+        throw new BadRequest(`This recurring expense is already ${recurringExpense.status.toLowerCase()}`);
+      }
+
+      return recurringExpense.cancel();
+    },
+  },
+};
+
+export default recurringExpenseMutations;
@@ -0,0 +1,151 @@
+import { GraphQLList, GraphQLNonNull, GraphQLString } from 'graphql';
+import { GraphQLDateTime } from 'graphql-iso-date';
+
+import { expenseStatus } from '../../../constants';
+import FEATURE from '../../../constants/feature';
+import { getExpenseAllocations } from '../../../lib/expense-allocations';
+import {
+  checkExpensesForSepaCreditTransfer,
+  exportSepaCreditTransfer,
+  importSepaBankStatement,
+} from '../../../lib/sepa';
+import { canUseFeature } from '../../../lib/user-permissions';
+import models from '../../../models';
+import { scheduleExpenseForPayment } from '../../common/expenses';
+import {
+  BadRequest,
+  FeatureNotAllowedForUser,
+  Forbidden,
+  NotFound,
+  Unauthorized,
+  ValidationFailed,
+} from '../../errors';
+import { AccountReferenceInput, fetchAccountWithReference } from '../input/AccountReferenceInput';
+import { ExpenseReferenceInput, getDatabaseIdFromExpenseReference } from '../input/ExpenseReferenceInput';
+import { SepaBankStatementImport } from '../object/SepaBankStatementImport';
+import { SepaCreditTransferExport } from '../object/SepaCreditTransferExport';
+
+import { checkTwoFactorAuthenticationForBatch } from './PayoutBatchMutations';
+
+/** Maximum number of expenses that can be exported in a single SEPA file */
+const MAX_EXPENSES_PER_SEPA_EXPORT = 100;
+
+/**
+ * Loads the host and makes sure the remote user is one of its admins
+ */
+const fetchHostForSepa = async (req, reference): Promise<any> => {
+  if (!req.remoteUser) {
+    throw new Unauthorized();
+  } else if (!canUseFeature(req.remoteUser, FEATURE.EXPENSES)) {
+    throw new FeatureNotAllowedForUser();
+  }
+
+  const host = await fetchAccountWithReference(reference, { loaders: req.loaders, throwIfMissing: true });
+  if (!req.remoteUser.isAdmin(host.id)) {
+    throw new Forbidden('Only host admins can manage SEPA credit transfers');
+  }
+
+  return host;
+};
+
+const sepaMutations = {
+  exportSepaCreditTransfer: {
+    type: new GraphQLNonNull(SepaCreditTransferExport),
+    description: `Export approved EUR expenses of the host as a SEPA credit transfer file (pain.001), to be uploaded to the host bank. The expenses are marked as processing until they're found in a bank statement imported with \`importSepaBankStatement\`.`,
+    args: {
+      host: {
+        type: new GraphQLNonNull(AccountReferenceInput),
+        description: 'Reference of the host paying the expenses',
+      },
+      expenses: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ExpenseReferenceInput))),
+        description:
+          'References of the expenses to export. They must be in EUR and paid to a bank account with an IBAN.',
+      },
+      executionDate: {
+        type: GraphQLDateTime,
+        description: 'The date at which the bank should execute the transfers. Defaults to today.',
+      },
+      twoFactorAuthenticatorCode: {
+        type: GraphQLString,
+        description: 'The 2FA code of the user, if the host requires it for large payouts',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      const host = await fetchHostForSepa(req, args.host);
+      if (!args.expenses.length || args.expenses.length > MAX_EXPENSES_PER_SEPA_EXPORT) {
+        throw new ValidationFailed(`You can export between 1 and ${MAX_EXPENSES_PER_SEPA_EXPORT} expenses at once`);
+      }
+
+      const expenses = await models.Expense.findAll({
+        where: { id: args.expenses.map(getDatabaseIdFromExpenseReference) },
+        include: [{ model: models.Collective, as: 'collective' }, { model: models.PayoutMethod }],
+        order: [['id', 'ASC']],
+      });
+
+      if (expenses.length !== args.expenses.length) {
+        throw new NotFound('Some of the expenses could not be found');
+      }
+
+      try {
+        checkExpensesForSepaCreditTransfer(host, expenses);
+      } catch (e) {
+        throw new BadRequest(e.message);
+      }
+
+      checkTwoFactorAuthenticationForBatch(req, host, expenses, args.twoFactorAuthenticatorCode);
+
+      // Schedule the approved expenses, making sure the balances can cover all of them. The scheduled expenses
+      // are already excluded from the balance of their collective, only the shares of the other collectives of
+      // split expenses need to be tracked here.
+      const alreadyScheduledAmounts: Record<number, number> = {};
+      for (const expense of expenses) {
+        if (expense.status === expenseStatus.SCHEDULED_FOR_PAYMENT) {
+          continue;
+        }
+
+        await scheduleExpenseForPayment(req, expense, { alreadyScheduledAmounts });
+        for (const allocation of await getExpenseAllocations(expense)) {
+          if (allocation.CollectiveId !== expense.CollectiveId) {
+            const previousAmount = alreadyScheduledAmounts[allocation.CollectiveId] || 0;
+            alreadyScheduledAmounts[allocation.CollectiveId] = previousAmount + allocation.amount;
+          }
+        }
+      }
+
+      try {
+        return await exportSepaCreditTransfer(host, expenses, req.remoteUser, { executionDate: args.executionDate });
+      } catch (e) {
+        throw new BadRequest(e.message);
+      }
+    },
+  },
+  importSepaBankStatement: {
+    type: new GraphQLNonNull(SepaBankStatementImport),
+    description: 'Import a bank statement of the host (camt.053 or camt.054) to mark the exported expenses as paid',
+    args: {
+      host: {
+        type: new GraphQLNonNull(AccountReferenceInput),
+        description: 'Reference of the host owning the bank account',
+      },
+      statement: {
+        type: new GraphQLNonNull(GraphQLString),
+        description: 'The XML content of the bank statement',
+      },
+    },
+    async resolve(_, args, req): Promise<object> {
+      const host = await fetchHostForSepa(req, args.host);
+
+      let result;
+      try {
+        result = await importSepaBankStatement(host, args.statement, req.remoteUser);
+      } catch (e) {
+        throw new BadRequest(e.message);
+      }
+
+      return { paidExpenses: result.paidExpenses, ignoredEntriesCount: result.ignoredEntries.length };
+    },
+  },
+};
+
+export default sepaMutations;
@@ -1,5 +1,7 @@
+import accountingPeriodMutations from './AccountingPeriodMutations';
 import accountMutations from './AccountMutations';
 import { addFundsMutation } from './AddFundsMutations';
+import bankStatementMutations from './BankStatementMutations';
 import collectiveMutations from './CollectiveMutations';
 import commentMutations from './CommentMutations';
 import commentReactionMutations from './CommentReactionMutations';
@@ -9,10 +11,14 @@ import createCollectiveMutation from './CreateCollectiveMutation';
 import createFundMutation from './CreateFundMutation';
 import createProjectMutation from './CreateProjectMutation';
 import expenseMutations from './ExpenseMutations';
+import internalTransferMutations from './InternalTransferMutations';
 import memberMutations from './MemberMutations';
 import orderMutations from './OrderMutations';
 import paymentMethodMutations from './PaymentMethodMutations';
+import payoutBatchMutations from './PayoutBatchMutations';
 import payoutMethodMutations from './PayoutMethodMutations';
+import recurringExpenseMutations from './RecurringExpenseMutations';
+import sepaMutations from './SepaMutations';
 import transactionMutations from './TransactionMutations';
 
 const mutation = {
@@ -20,16 +26,22 @@ const mutation = {
   createCollective: createCollectiveMutation,
   createFund: createFundMutation,
   createProject: createProjectMutation,
+  ...accountingPeriodMutations,
+  ...bankStatementMutations,
   ...commentMutations,
   ...commentReactionMutations,
   ...connectedAccountMutations,
   ...conversationMutations,
   ...expenseMutations,
+  ...internalTransferMutations,
   ...accountMutations,
   ...collectiveMutations,
+  ...payoutBatchMutations,
   ...payoutMethodMutations,
   ...orderMutations,
   ...paymentMethodMutations,
+  ...recurringExpenseMutations,
+  ...sepaMutations,
   ...transactionMutations,
   ...memberMutations,
 };
@@ -0,0 +1,47 @@
+import { GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+import { GraphQLDateTime } from 'graphql-iso-date';
+
+import { BudgetPeriod } from '../enum/BudgetPeriod';
+
+import { Amount } from './Amount';
+
+export const AccountBudget = new GraphQLObjectType({
+  name: 'AccountBudget',
+  description: 'The status of a budget of the account for the current period',
+  fields: () => ({
+    period: {
+      type: new GraphQLNonNull(BudgetPeriod),
+    },
+    tag: {
+      type: GraphQLString,
+      description: 'If set, the budget only applies to the expenses with this tag',
+    },
+    amount: {
+      type: new GraphQLNonNull(Amount),
+      description: 'The maximum amount that can be spent over the period',
+      resolve(budget): object {
+        return { value: budget.amount, currency: budget.currency };
+      },
+    },
+    spent: {
+      type: new GraphQLNonNull(Amount),
+      description: 'The amount spent on paid expenses since the beginning of the period',
+      resolve(budget): object {
+        return { value: budget.spent, currency: budget.currency };
+      },
+    },
+    remaining: {
+      type: new GraphQLNonNull(Amount),
+      description: 'The amount that can still be spent over the period. Negative if the budget is exceeded.',
+      resolve(budget): object {
+        return { value: budget.remaining, currency: budget.currency };
+      },
+    },
+    startsAt: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+    },
+    endsAt: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+    },
+  }),
+});
@@ -1,9 +1,16 @@
-import { GraphQLInt, GraphQLNonNull, GraphQLObjectType } from 'graphql';
+import { GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLObjectType } from 'graphql';
 import { get, has } from 'lodash';
 
+import { BalanceHistoryInterval as BalanceHistoryIntervals, getBalanceHistory } from '../../../lib/balance-snapshots';
+import { getBudgetsStatus } from '../../../lib/budgets';
 import queries from '../../../lib/queries';
+import { BadRequest } from '../../errors';
+import { BalanceHistoryInterval } from '../enum/BalanceHistoryInterval';
 import { idEncode } from '../identifiers';
+import { AccountBudget } from '../object/AccountBudget';
 import { Amount } from '../object/Amount';
+import { BalanceHistoryEntry } from '../object/BalanceHistoryEntry';
+import ISODateTime from '../scalar/ISODateTime';
 
 export const AccountStats = new GraphQLObjectType({
   name: 'AccountStats',
@@ -26,6 +33,29 @@ export const AccountStats = new GraphQLObjectType({
           };
         },
       },
+      balanceHistory: {
+        description: 'The balance of the account at the end of each period between the two dates',
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(BalanceHistoryEntry))),
+        args: {
+          from: { type: new GraphQLNonNull(ISODateTime) },
+          to: {
+            type: ISODateTime,
+            description: 'Defaults to now',
+          },
+          interval: {
+            type: new GraphQLNonNull(BalanceHistoryInterval),
+            defaultValue: BalanceHistoryIntervals.MONTH,
+          },
+        },
+        async resolve(collective, args) {
+          try {
+            const history = await getBalanceHistory(collective, args.from, args.to || new Date(), args.interval);
+            return history.map(entry => ({ ...entry, currency: collective.currency }));
+          } catch (e) {
+            throw new BadRequest(e.message);
+          }
+        },
+      },
       monthlySpending: {
         description: 'Average amount spent per month based on the last 90 days',
         type: new GraphQLNonNull(Amount),
@@ -89,6 +119,14 @@ export const AccountStats = new GraphQLObjectType({
           }
         },
       },
+      budgets: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(AccountBudget))),
+        description: 'The status of the budgets defined by the account, for the current periods',
+        async resolve(collective) {
+          const budgets = await getBudgetsStatus(collective);
+          return budgets.map(budget => ({ ...budget, currency: collective.currency }));
+        },
+      },
     };
   },
 });
@@ -0,0 +1,18 @@
+import { GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+
+export const AccountingExport = new GraphQLObjectType({
+  name: 'AccountingExport',
+  description: 'The journal entries of a host over a period, to import in its accounting software',
+  fields: {
+    filename: {
+      type: new GraphQLNonNull(GraphQLString),
+    },
+    contentType: {
+      type: new GraphQLNonNull(GraphQLString),
+    },
+    content: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: 'The content of the file',
+    },
+  },
+});
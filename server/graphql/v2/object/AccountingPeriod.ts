@@ -0,0 +1,73 @@
+import { GraphQLInt, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+import { GraphQLDateTime } from 'graphql-iso-date';
+
+import { AccountingPeriodInterval } from '../enum/AccountingPeriodInterval';
+import { AccountingPeriodStatus } from '../enum/AccountingPeriodStatus';
+import { getIdEncodeResolver, IDENTIFIER_TYPES } from '../identifiers';
+import { Account } from '../interface/Account';
+
+const loadUserAccount = async (userId, req): Promise<object> => {
+  if (userId) {
+    const user = await req.loaders.User.byId.load(userId);
+    return user && req.loaders.Collective.byId.load(user.CollectiveId);
+  }
+};
+
+export const AccountingPeriod = new GraphQLObjectType({
+  name: 'AccountingPeriod',
+  description: 'A month or a year closed by a host. The transactions of a closed period cannot be changed.',
+  fields: () => ({
+    id: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: getIdEncodeResolver(IDENTIFIER_TYPES.ACCOUNTING_PERIOD),
+    },
+    legacyId: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'The internal database identifier of the accounting period',
+      resolve(period): number {
+        return period.id;
+      },
+    },
+    interval: {
+      type: new GraphQLNonNull(AccountingPeriodInterval),
+    },
+    status: {
+      type: new GraphQLNonNull(AccountingPeriodStatus),
+    },
+    startsAt: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+    },
+    endsAt: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+    },
+    host: {
+      type: new GraphQLNonNull(Account),
+      resolve(period, _, req): Promise<object> {
+        return req.loaders.Collective.byId.load(period.HostCollectiveId);
+      },
+    },
+    closedBy: {
+      type: Account,
+      description: 'The account of the host admin who closed this period',
+      resolve(period, _, req): Promise<object> {
+        return loadUserAccount(period.CreatedByUserId, req);
+      },
+    },
+    closedAt: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+      resolve(period): Date {
+        return period.createdAt;
+      },
+    },
+    reopenedBy: {
+      type: Account,
+      description: 'The account of the host admin who reopened this period',
+      resolve(period, _, req): Promise<object> {
+        return loadUserAccount(period.ReopenedByUserId, req);
+      },
+    },
+    reopenedAt: {
+      type: GraphQLDateTime,
+    },
+  }),
+});
@@ -0,0 +1,21 @@
+import { GraphQLNonNull, GraphQLObjectType } from 'graphql';
+import { GraphQLDateTime } from 'graphql-iso-date';
+
+import { Amount } from './Amount';
+
+export const BalanceHistoryEntry = new GraphQLObjectType({
+  name: 'BalanceHistoryEntry',
+  description: 'The balance of an account at a given date',
+  fields: () => ({
+    date: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+      description: 'The end of the period',
+    },
+    balance: {
+      type: new GraphQLNonNull(Amount),
+      resolve(entry): object {
+        return { value: entry.balance, currency: entry.currency };
+      },
+    },
+  }),
+});
@@ -0,0 +1,18 @@
+import { GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLObjectType } from 'graphql';
+
+import { BankStatementLine } from './BankStatementLine';
+
+export const BankStatementImport = new GraphQLObjectType({
+  name: 'BankStatementImport',
+  description: 'The result of importing a bank statement',
+  fields: {
+    lines: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(BankStatementLine))),
+      description: 'The imported lines, with the result of their reconciliation',
+    },
+    duplicatesCount: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'Number of lines skipped because they were already imported',
+    },
+  },
+});
@@ -0,0 +1,77 @@
+import { GraphQLInt, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+import { GraphQLDateTime } from 'graphql-iso-date';
+
+import { BankStatementFormat } from '../enum/BankStatementFormat';
+import { BankStatementLineStatus } from '../enum/BankStatementLineStatus';
+import { getIdEncodeResolver, IDENTIFIER_TYPES } from '../identifiers';
+
+import { Amount } from './Amount';
+import { Order } from './Order';
+
+export const BankStatementLine = new GraphQLObjectType({
+  name: 'BankStatementLine',
+  description: 'A line imported from the bank statement of a host, reconciled with the pending contributions',
+  fields: () => ({
+    id: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: getIdEncodeResolver(IDENTIFIER_TYPES.BANK_STATEMENT_LINE),
+    },
+    legacyId: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'The internal database identifier of the bank statement line',
+      resolve(line): number {
+        return line.id;
+      },
+    },
+    status: {
+      type: new GraphQLNonNull(BankStatementLineStatus),
+    },
+    format: {
+      type: new GraphQLNonNull(BankStatementFormat),
+      description: 'The format of the statement this line was imported from',
+    },
+    date: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+      description: 'The date on which the bank booked this line',
+    },
+    amount: {
+      type: new GraphQLNonNull(Amount),
+      description: 'Positive for credits, negative for debits',
+      resolve(line): object {
+        return { value: line.amount, currency: line.currency };
+      },
+    },
+    description: {
+      type: GraphQLString,
+      description: 'The description or reference provided with the payment',
+    },
+    counterpartyName: {
+      type: GraphQLString,
+      description: 'The name of the sender for credits, or of the recipient for debits',
+    },
+    bankReference: {
+      type: GraphQLString,
+      description: 'The unique reference of this line given by the bank',
+    },
+    order: {
+      type: Order,
+      description: 'The order paid by this line, or the one proposed as a match',
+      resolve(line, _, req): Promise<object> {
+        if (line.OrderId) {
+          return req.loaders.Order.byId.load(line.OrderId);
+        }
+      },
+    },
+    error: {
+      type: GraphQLString,
+      description: 'The error that prevented the proposed order from being confirmed automatically, if any',
+      resolve(line): string {
+        return line.data?.error || null;
+      },
+    },
+    createdAt: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+      description: 'The date on which this line was imported',
+    },
+  }),
+});
@@ -15,11 +15,16 @@ import { Account } from '../interface/Account';
 import { CollectionArgs } from '../interface/Collection';
 
 import { Activity } from './Activity';
+import { ExpenseAllocation } from './ExpenseAllocation';
 import ExpenseAttachedFile from './ExpenseAttachedFile';
+import { ExpenseDuplicate } from './ExpenseDuplicate';
 import ExpenseItem from './ExpenseItem';
 import ExpensePermissions from './ExpensePermissions';
+import { ExpenseQuote } from './ExpenseQuote';
+import { ExpenseTransferState } from './ExpenseTransferState';
 import { Location } from './Location';
 import PayoutMethod from './PayoutMethod';
+import { RecurringExpense } from './RecurringExpense';
 
 const Expense = new GraphQLObjectType({
   name: 'Expense',
@@ -208,6 +213,68 @@ const Expense = new GraphQLObjectType({
           return expense.tags || [];
         },
       },
+      allocations: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ExpenseAllocation))),
+        description: 'If the expense is split between multiple collectives, the share of each of them',
+        resolve(expense, _, req) {
+          return req.loaders.Expense.allocations.load(expense.id);
+        },
+      },
+      possibleDuplicates: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ExpenseDuplicate))),
+        description:
+          'The recent expenses of the same payee that this one may be a duplicate of. Only visible to collective and host admins.',
+        async resolve(expense, _, req) {
+          if (!(await ExpensePermissionsLib.canSeeExpenseDuplicates(req, expense))) {
+            return [];
+          } else {
+            return req.loaders.Expense.duplicates.load(expense.id);
+          }
+        },
+      },
+      budgetWarnings: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLString))),
+        description:
+          'Warnings if paying this expense would exceed the budgets of the collective. Only visible to collective and host admins.',
+        async resolve(expense, _, req) {
+          if (!(await ExpensePermissionsLib.canSeeExpenseBudgetWarnings(req, expense))) {
+            return [];
+          } else {
+            return ExpensePermissionsLib.getExpenseBudgetWarnings(req, expense);
+          }
+        },
+      },
+      quote: {
+        type: ExpenseQuote,
+        description:
+          'A preview of the fees and exchange rate that would apply if the expense was paid now with the payment provider of its payout method. Only visible to host admins.',
+        async resolve(expense, _, req) {
+          if (await ExpensePermissionsLib.canSeeExpenseQuote(req, expense)) {
+            return ExpensePermissionsLib.getExpenseQuote(req, expense);
+          }
+        },
+      },
+      transferStates: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ExpenseTransferState))),
+        description:
+          'The timeline of the transfers made to pay this expense through the payment provider (TransferWise). Only visible to the payee and the admins.',
+        async resolve(expense, _, req) {
+          if (!(await ExpensePermissionsLib.canSeeExpensePayoutMethod(req, expense))) {
+            return [];
+          } else {
+            return expense.data?.transferStates || [];
+          }
+        },
+      },
+      recurringExpense: {
+        type: RecurringExpense,
+        description: 'If this expense was submitted as part of a recurring expense, the recurring expense definition',
+        resolve(expense) {
+          if (expense.RecurringExpenseId) {
+            return models.RecurringExpense.findByPk(expense.RecurringExpenseId);
+          }
+        },
+      },
       requiredLegalDocuments: {
         type: new GraphQLList(LegalDocumentType),
         description:
@@ -0,0 +1,25 @@
+import { GraphQLFloat, GraphQLInt, GraphQLNonNull, GraphQLObjectType } from 'graphql';
+
+import { Account } from '../interface/Account';
+
+export const ExpenseAllocation = new GraphQLObjectType({
+  name: 'ExpenseAllocation',
+  description: 'The share of a split expense paid by one of the collectives',
+  fields: () => ({
+    account: {
+      type: new GraphQLNonNull(Account),
+      description: 'The account paying this share of the expense',
+      resolve(allocation, _, req): Promise<object> {
+        return req.loaders.Collective.byId.load(allocation.CollectiveId);
+      },
+    },
+    amount: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'The amount paid by this account, in the expense currency',
+    },
+    percentage: {
+      type: GraphQLFloat,
+      description: 'If the allocation was defined as a percentage of the expense amount',
+    },
+  }),
+});
@@ -0,0 +1,23 @@
+import { GraphQLList, GraphQLNonNull, GraphQLObjectType } from 'graphql';
+
+import { ExpenseDuplicateReason } from '../enum/ExpenseDuplicateReason';
+
+import { Expense } from './Expense';
+
+export const ExpenseDuplicate = new GraphQLObjectType({
+  name: 'ExpenseDuplicate',
+  description: 'A previously submitted expense that an expense may be a duplicate of',
+  fields: () => ({
+    expense: {
+      type: new GraphQLNonNull(Expense),
+      description: 'The expense that looks similar',
+      resolve(duplicate, _, req): Promise<object> {
+        return req.loaders.Expense.byId.load(duplicate.DuplicateExpenseId);
+      },
+    },
+    reasons: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ExpenseDuplicateReason))),
+      description: 'Why the expenses look similar',
+    },
+  }),
+});
@@ -1,10 +1,15 @@
-import { GraphQLInt, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+import { GraphQLFloat, GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
 import { GraphQLDateTime } from 'graphql-iso-date';
 
+import { getReceiptDataWarnings } from '../../../lib/expense-items';
+import { ReceiptData } from '../../../lib/receipt-parser';
 import { getContextPermission, PERMISSION_TYPE } from '../../common/context-permissions';
 import { getIdEncodeResolver, IDENTIFIER_TYPES } from '../identifiers';
 import URL from '../scalar/URL';
 
+import { Amount } from './Amount';
+import { ExpenseItemReceiptData } from './ExpenseItemReceiptData';
+
 const ExpenseItem = new GraphQLObjectType({
   name: 'ExpenseItem',
   description: 'Fields for an expense item',
@@ -16,7 +21,26 @@ const ExpenseItem = new GraphQLObjectType({
     },
     amount: {
       type: new GraphQLNonNull(GraphQLInt),
-      description: 'Amount of this item',
+      description: 'Amount of this item, in the expense currency',
+    },
+    originalAmount: {
+      type: Amount,
+      description: 'If the item was paid in another currency, the amount before conversion to the expense currency',
+      resolve(item): object | null {
+        if (item.originalCurrency) {
+          return { value: item.originalAmount, currency: item.originalCurrency };
+        } else {
+          return null;
+        }
+      },
+    },
+    fxRate: {
+      type: GraphQLFloat,
+      description: 'If the item was paid in another currency, the exchange rate used to convert it',
+    },
+    fxRateSource: {
+      type: GraphQLString,
+      description: 'If the item was paid in another currency, where the exchange rate comes from',
     },
     createdAt: {
       type: new GraphQLNonNull(GraphQLDateTime),
@@ -42,6 +66,30 @@ const ExpenseItem = new GraphQLObjectType({
         }
       },
     },
+    receiptData: {
+      type: ExpenseItemReceiptData,
+      description: 'Data extracted from the file linked to this item, to pre-fill the item',
+      resolve(item, _, req): ReceiptData | undefined {
+        if (getContextPermission(req, PERMISSION_TYPE.SEE_EXPENSE_ATTACHMENTS_URL, item.ExpenseId)) {
+          return item.receiptData?.url === item.url ? item.receiptData : null;
+        }
+      },
+    },
+    warnings: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLString))),
+      description: 'Potential issues with this item, like a receipt that does not match the amount',
+      async resolve(item, _, req): Promise<string[]> {
+        if (
+          !item.receiptData ||
+          !getContextPermission(req, PERMISSION_TYPE.SEE_EXPENSE_ATTACHMENTS_URL, item.ExpenseId)
+        ) {
+          return [];
+        }
+
+        const expense = await req.loaders.Expense.byId.load(item.ExpenseId);
+        return getReceiptDataWarnings(item, expense.currency);
+      },
+    },
   },
 });
 
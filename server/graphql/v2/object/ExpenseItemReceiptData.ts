@@ -0,0 +1,36 @@
+import { GraphQLObjectType, GraphQLString } from 'graphql';
+import { GraphQLDate, GraphQLDateTime } from 'graphql-iso-date';
+import { isNil } from 'lodash';
+
+import { Amount } from './Amount';
+
+export const ExpenseItemReceiptData = new GraphQLObjectType({
+  name: 'ExpenseItemReceiptData',
+  description:
+    'Data extracted from the receipt of an expense item. Only meant to pre-fill forms, must be reviewed by users.',
+  fields: {
+    amount: {
+      type: Amount,
+      description: 'The total of the receipt',
+      resolve(receiptData): object | null {
+        return isNil(receiptData.amount) ? null : { value: receiptData.amount, currency: receiptData.currency };
+      },
+    },
+    date: {
+      type: GraphQLDate,
+      description: 'The date of the receipt',
+    },
+    merchant: {
+      type: GraphQLString,
+      description: 'The name of the merchant',
+    },
+    parser: {
+      type: GraphQLString,
+      description: 'The parser used to extract the data',
+    },
+    parsedAt: {
+      type: GraphQLDateTime,
+      description: 'When the receipt was parsed',
+    },
+  },
+});
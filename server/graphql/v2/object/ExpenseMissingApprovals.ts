@@ -0,0 +1,27 @@
+import { GraphQLBoolean, GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLObjectType } from 'graphql';
+
+import { Account } from '../interface/Account';
+
+const ExpenseMissingApprovals = new GraphQLObjectType({
+  name: 'ExpenseMissingApprovals',
+  description: 'The approvals that are still required before an expense gets approved, based on the approval policy',
+  fields: () => ({
+    approvers: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'The number of additional distinct approvers needed',
+    },
+    hostAdmin: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: 'Whether an approval from a host admin is still needed',
+    },
+    accounts: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(Account))),
+      description: 'For split expenses, the allocated accounts that still need an approval from one of their admins',
+      resolve(missingApprovals, _, req): Promise<object[]> {
+        return req.loaders.Collective.byId.loadMany(missingApprovals.collectives || []);
+      },
+    },
+  }),
+});
+
+export default ExpenseMissingApprovals;
@@ -1,7 +1,10 @@
 import { GraphQLBoolean, GraphQLNonNull, GraphQLObjectType } from 'graphql';
 
+import { ExpenseMissingApprovals as ExpenseMissingApprovalsType } from '../../../lib/expense-approval-policies';
 import * as ExpenseLib from '../../common/expenses';
 
+import ExpenseMissingApprovals from './ExpenseMissingApprovals';
+
 const ExpensePermissions = new GraphQLObjectType({
   name: 'ExpensePermissions',
   description: 'Fields for the user permissions on an expense',
@@ -41,6 +44,13 @@ const ExpensePermissions = new GraphQLObjectType({
         return ExpenseLib.canApprove(req, expense);
       },
     },
+    missingApprovals: {
+      type: new GraphQLNonNull(ExpenseMissingApprovals),
+      description: 'The approvals that are still required before this expense gets approved',
+      async resolve(expense, _, req): Promise<ExpenseMissingApprovalsType> {
+        return ExpenseLib.getExpenseMissingApprovals(req, expense);
+      },
+    },
     canUnapprove: {
       type: new GraphQLNonNull(GraphQLBoolean),
       description: 'Whether the current user can unapprove this expense',
@@ -62,6 +72,13 @@ const ExpensePermissions = new GraphQLObjectType({
         return ExpenseLib.canMarkAsUnpaid(req, expense);
       },
     },
+    canCancelUnclaimedPayout: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: 'Whether the current user can cancel the unclaimed PayPal payout of this expense',
+      async resolve(expense, _, req): Promise<boolean> {
+        return ExpenseLib.canCancelUnclaimedPayout(req, expense);
+      },
+    },
     canComment: {
       type: new GraphQLNonNull(GraphQLBoolean),
       description: 'Whether the current user can comment and see comments for this expense',
@@ -0,0 +1,50 @@
+import { GraphQLBoolean, GraphQLFloat, GraphQLNonNull, GraphQLObjectType } from 'graphql';
+import { GraphQLDateTime } from 'graphql-iso-date';
+
+import PayoutMethodType from '../enum/PayoutMethodType';
+
+import { Amount } from './Amount';
+
+export const ExpenseQuote = new GraphQLObjectType({
+  name: 'ExpenseQuote',
+  description: 'A preview of the fees and exchange rate that would apply if the expense was paid now',
+  fields: () => ({
+    payoutMethodType: {
+      type: new GraphQLNonNull(PayoutMethodType),
+      description: 'The type of payout method (and payment provider) used for this quote',
+    },
+    sourceAmount: {
+      type: new GraphQLNonNull(Amount),
+      description: 'The amount that would be debited from the host, fees included',
+      resolve(quote): object {
+        return { value: quote.sourceAmount, currency: quote.sourceCurrency };
+      },
+    },
+    targetAmount: {
+      type: new GraphQLNonNull(Amount),
+      description: 'The amount that the payee would receive',
+      resolve(quote): object {
+        return { value: quote.targetAmount, currency: quote.targetCurrency };
+      },
+    },
+    fee: {
+      type: new GraphQLNonNull(Amount),
+      description: 'The fee of the payment provider',
+      resolve(quote): object {
+        return { value: quote.fee, currency: quote.sourceCurrency };
+      },
+    },
+    rate: {
+      type: new GraphQLNonNull(GraphQLFloat),
+      description: 'The exchange rate between the source and the target currencies',
+    },
+    validUntil: {
+      type: GraphQLDateTime,
+      description: 'Until when the exchange rate is guaranteed. Null for estimates.',
+    },
+    isEstimate: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: 'Whether the amounts are only an estimate, the actual fee being known after the payment',
+    },
+  }),
+});
@@ -0,0 +1,25 @@
+import { GraphQLInt, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+import { GraphQLDateTime } from 'graphql-iso-date';
+
+export const ExpenseTransferState = new GraphQLObjectType({
+  name: 'ExpenseTransferState',
+  description: 'A state change of a transfer made by the payment provider to pay an expense',
+  fields: () => ({
+    transferId: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'The ID of the transfer on the payment provider',
+    },
+    state: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: 'The state of the transfer, as returned by the payment provider (ie. outgoing_payment_sent)',
+    },
+    date: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+      description: 'When the transfer entered this state, or when we noticed it',
+    },
+    source: {
+      type: GraphQLString,
+      description: 'How the state change was received: WEBHOOK or RECONCILIATION',
+    },
+  }),
+});
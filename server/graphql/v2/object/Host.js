@@ -2,17 +2,28 @@ import { GraphQLBoolean, GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLObjectT
 import { find, get } from 'lodash';
 
 import { PAYMENT_METHOD_SERVICE, PAYMENT_METHOD_TYPE } from '../../../constants/paymentMethods';
+import { exportJournalEntries } from '../../../lib/accounting-export';
 import models from '../../../models';
-import { PayoutMethodTypes } from '../../../models/PayoutMethod';
+import { getSupportedPayoutMethods } from '../../../paymentProviders/payout-providers';
 import TransferwiseLib from '../../../paymentProviders/transferwise';
+import { BadRequest, Unauthorized } from '../../errors';
 import { PaymentMethodType, PayoutMethodType } from '../enum';
+import { AccountingExportFormat } from '../enum/AccountingExportFormat';
+import { AccountingPeriodStatus } from '../enum/AccountingPeriodStatus';
+import { BankStatementLineStatus } from '../enum/BankStatementLineStatus';
+import { PayoutBatchStatus } from '../enum/PayoutBatchStatus';
 import { Account, AccountFields } from '../interface/Account';
 import { AccountWithContributions, AccountWithContributionsFields } from '../interface/AccountWithContributions';
+import ISODateTime from '../scalar/ISODateTime';
 import URL from '../scalar/URL';
 
+import { AccountingExport } from './AccountingExport';
+import { AccountingPeriod } from './AccountingPeriod';
 import { Amount } from './Amount';
+import { BankStatementLine } from './BankStatementLine';
 import { HostPlan } from './HostPlan';
 import { PaymentMethod } from './PaymentMethod';
+import { PayoutBatch } from './PayoutBatch';
 import PayoutMethod from './PayoutMethod';
 
 export const Host = new GraphQLObjectType({
@@ -104,15 +115,103 @@ export const Host = new GraphQLObjectType({
         description: 'The list of payout methods this Host accepts for its expenses',
         async resolve(collective, _, req) {
           const connectedAccounts = await req.loaders.Collective.connectedAccounts.load(collective.id);
-          const supportedPayoutMethods = [PayoutMethodTypes.OTHER, PayoutMethodTypes.ACCOUNT_BALANCE];
-          if (connectedAccounts?.find?.(c => c.service === 'transferwise')) {
-            supportedPayoutMethods.push(PayoutMethodTypes.BANK_ACCOUNT);
+          return getSupportedPayoutMethods(collective, connectedAccounts);
+        },
+      },
+      payoutBatches: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(PayoutBatch))),
+        description: 'The batches of expenses scheduled for payment by this host. Only visible to host admins.',
+        args: {
+          status: {
+            type: new GraphQLList(PayoutBatchStatus),
+            description: 'Only return the batches with these statuses',
+          },
+        },
+        async resolve(host, args, req) {
+          if (!req.remoteUser?.isAdmin(host.id)) {
+            throw new Unauthorized('You need to be logged in as an admin of the host to see its payout batches');
+          }
+
+          const where = { HostCollectiveId: host.id };
+          if (args.status?.length) {
+            where.status = args.status;
+          }
+          return models.PayoutBatch.findAll({ where, order: [['createdAt', 'DESC']] });
+        },
+      },
+      bankStatementLines: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(BankStatementLine))),
+        description: 'The lines imported from the bank statements of this host. Only visible to host admins.',
+        args: {
+          status: {
+            type: new GraphQLList(BankStatementLineStatus),
+            description: 'Only return the lines with these statuses',
+          },
+          limit: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 100 },
+          offset: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 0 },
+        },
+        async resolve(host, args, req) {
+          if (!req.remoteUser?.isAdmin(host.id)) {
+            throw new Unauthorized('You need to be logged in as an admin of the host to see its bank statements');
+          }
+
+          const where = { HostCollectiveId: host.id };
+          if (args.status?.length) {
+            where.status = args.status;
           }
-          if (connectedAccounts?.find?.(c => c.service === 'paypal') || !collective.settings?.disablePaypalPayouts) {
-            supportedPayoutMethods.push(PayoutMethodTypes.PAYPAL);
+          return models.BankStatementLine.findAll({
+            where,
+            order: [
+              ['date', 'DESC'],
+              ['id', 'DESC'],
+            ],
+            limit: args.limit,
+            offset: args.offset,
+          });
+        },
+      },
+      accountingExport: {
+        type: new GraphQLNonNull(AccountingExport),
+        description:
+          'The transactions of this host between the two dates as journal entries, using the chart of accounts from `settings.accounting`. The period is limited to a year. Only visible to host admins.',
+        args: {
+          format: { type: new GraphQLNonNull(AccountingExportFormat) },
+          dateFrom: { type: new GraphQLNonNull(ISODateTime) },
+          dateTo: { type: new GraphQLNonNull(ISODateTime) },
+        },
+        async resolve(host, args, req) {
+          if (!req.remoteUser?.isAdmin(host.id)) {
+            throw new Unauthorized('You need to be logged in as an admin of the host to export its accounting');
           }
 
-          return supportedPayoutMethods;
+          try {
+            return await exportJournalEntries(host, args.format, args.dateFrom, args.dateTo);
+          } catch (e) {
+            throw new BadRequest(e.message);
+          }
+        },
+      },
+      accountingPeriods: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(AccountingPeriod))),
+        description: 'The accounting periods closed by this host, most recent first',
+        args: {
+          status: {
+            type: AccountingPeriodStatus,
+            description: 'Only return the periods with this status',
+          },
+        },
+        resolve(host, args) {
+          const where = { HostCollectiveId: host.id };
+          if (args.status) {
+            where.status = args.status;
+          }
+          return models.AccountingPeriod.findAll({
+            where,
+            order: [
+              ['startsAt', 'DESC'],
+              ['id', 'DESC'],
+            ],
+          });
         },
       },
       transferwiseBalances: {
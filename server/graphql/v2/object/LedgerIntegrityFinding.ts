@@ -0,0 +1,68 @@
+import { GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+import { GraphQLDateTime } from 'graphql-iso-date';
+import { GraphQLJSON } from 'graphql-type-json';
+
+import { LedgerIntegrityCheckType } from '../enum/LedgerIntegrityCheckType';
+import { LedgerIntegrityFindingStatus } from '../enum/LedgerIntegrityFindingStatus';
+import { LedgerIntegritySeverity } from '../enum/LedgerIntegritySeverity';
+import { Account } from '../interface/Account';
+
+export const LedgerIntegrityFinding = new GraphQLObjectType({
+  name: 'LedgerIntegrityFinding',
+  description: 'An issue detected in the ledger by the integrity checks',
+  fields: () => ({
+    legacyId: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'The internal database identifier of the finding',
+      resolve(finding): number {
+        return finding.id;
+      },
+    },
+    type: {
+      type: new GraphQLNonNull(LedgerIntegrityCheckType),
+      description: 'The check that detected the issue',
+    },
+    severity: {
+      type: new GraphQLNonNull(LedgerIntegritySeverity),
+    },
+    status: {
+      type: new GraphQLNonNull(LedgerIntegrityFindingStatus),
+    },
+    message: {
+      type: new GraphQLNonNull(GraphQLString),
+    },
+    host: {
+      type: Account,
+      description: 'The host of the affected transactions, if any',
+      resolve(finding, _, req): Promise<object> {
+        if (finding.HostCollectiveId) {
+          return req.loaders.Collective.byId.load(finding.HostCollectiveId);
+        }
+      },
+    },
+    transactionIds: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLInt))),
+      description: 'The internal database identifiers of the affected transactions',
+      resolve(finding): number[] {
+        return finding.TransactionIds;
+      },
+    },
+    details: {
+      type: GraphQLJSON,
+      description: 'The values that caused the issue',
+      resolve(finding): Record<string, any> {
+        return finding.data;
+      },
+    },
+    lastDetectedAt: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+    },
+    resolvedAt: {
+      type: GraphQLDateTime,
+    },
+    createdAt: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+      description: 'The date on which the issue was first detected',
+    },
+  }),
+});
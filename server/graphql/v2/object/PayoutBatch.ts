@@ -0,0 +1,88 @@
+import { GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+import { GraphQLDateTime } from 'graphql-iso-date';
+
+import models from '../../../models';
+import { PayoutBatchStatus } from '../enum/PayoutBatchStatus';
+import { PayoutMethodType } from '../enum/PayoutMethodType';
+import { getIdEncodeResolver, IDENTIFIER_TYPES } from '../identifiers';
+import { Account } from '../interface/Account';
+
+import { Expense } from './Expense';
+import { PayoutBatchItem } from './PayoutBatchItem';
+
+export const PayoutBatch = new GraphQLObjectType({
+  name: 'PayoutBatch',
+  description: 'A group of expenses scheduled for payment, paid at once with the same payout method',
+  fields: () => ({
+    id: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: getIdEncodeResolver(IDENTIFIER_TYPES.PAYOUT_BATCH),
+    },
+    legacyId: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'The internal database identifier of the payout batch',
+      resolve(payoutBatch): number {
+        return payoutBatch.id;
+      },
+    },
+    status: {
+      type: new GraphQLNonNull(PayoutBatchStatus),
+    },
+    payoutMethodType: {
+      type: new GraphQLNonNull(PayoutMethodType),
+      description: 'The type of payout method used to pay all the expenses of this batch',
+    },
+    host: {
+      type: new GraphQLNonNull(Account),
+      description: 'The host paying the expenses',
+      resolve(payoutBatch, _, req): Promise<object> {
+        return req.loaders.Collective.byId.load(payoutBatch.HostCollectiveId);
+      },
+    },
+    expenses: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(Expense))),
+      description: 'The expenses included in this batch',
+      resolve(payoutBatch): Promise<object[]> {
+        return models.Expense.findAll({ where: { PayoutBatchId: payoutBatch.id }, order: [['id', 'ASC']] });
+      },
+    },
+    items: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(PayoutBatchItem))),
+      description: 'The status of the payment of each expense. Empty until the batch is sent.',
+      async resolve(payoutBatch): Promise<object[]> {
+        const items = payoutBatch.data?.items || [];
+        const expenses = await models.Expense.findAll({ where: { id: items.map(item => item.ExpenseId) } });
+        return items
+          .map(item => ({ ...item, expense: expenses.find(expense => expense.id === item.ExpenseId) }))
+          .filter(item => item.expense);
+      },
+    },
+    errors: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLString))),
+      description: 'The errors returned by the payment provider when the batch was sent',
+      resolve(payoutBatch): string[] {
+        return payoutBatch.data?.errors || [];
+      },
+    },
+    sentBy: {
+      type: Account,
+      description: 'The account of the host admin who sent this batch, if it was sent manually',
+      async resolve(payoutBatch, _, req): Promise<object> {
+        if (payoutBatch.SentByUserId) {
+          const user = await req.loaders.User.byId.load(payoutBatch.SentByUserId);
+          return user && req.loaders.Collective.byId.load(user.CollectiveId);
+        }
+      },
+    },
+    sentAt: {
+      type: GraphQLDateTime,
+      description: 'The date on which the batch was sent to the payment provider',
+    },
+    createdAt: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+    },
+    updatedAt: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+    },
+  }),
+});
@@ -0,0 +1,45 @@
+import { GraphQLInt, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+
+import ExpenseStatus from '../enum/ExpenseStatus';
+
+import { Expense } from './Expense';
+
+export const PayoutBatchItem = new GraphQLObjectType({
+  name: 'PayoutBatchItem',
+  description: 'The payment of one of the expenses of a payout batch',
+  fields: () => ({
+    expense: {
+      type: new GraphQLNonNull(Expense),
+    },
+    status: {
+      type: new GraphQLNonNull(ExpenseStatus),
+      description: 'The current status of the expense, updated as the payment provider processes it',
+      resolve(item): string {
+        return item.expense.status;
+      },
+    },
+    batchGroupId: {
+      type: GraphQLString,
+      description: 'For TransferWise, the ID of the batch group that funded this payment',
+    },
+    transferId: {
+      type: GraphQLInt,
+      description: 'For TransferWise, the ID of the transfer created for this expense',
+    },
+    paypalBatchId: {
+      type: GraphQLString,
+      description: 'For PayPal, the ID of the PayPal batch this expense was sent in',
+    },
+    paypalItemId: {
+      type: GraphQLString,
+      description: 'For PayPal, the ID of the payout item of this expense, once PayPal has processed the batch',
+      resolve(item): string {
+        return item.paypalBatchId && item.expense.data?.['payout_item_id'];
+      },
+    },
+    error: {
+      type: GraphQLString,
+      description: 'The error returned by the payment provider for this expense, if any',
+    },
+  }),
+});
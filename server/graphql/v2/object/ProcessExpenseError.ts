@@ -0,0 +1,16 @@
+import { GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+
+export const ProcessExpenseError = new GraphQLObjectType({
+  name: 'ProcessExpenseError',
+  description: 'An error that occurred while processing an expense',
+  fields: {
+    code: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: 'A code identifying the error (ie. Forbidden, NotFound, transferwise.error.insufficientFunds)',
+    },
+    message: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: 'A human-readable description of the error',
+    },
+  },
+});
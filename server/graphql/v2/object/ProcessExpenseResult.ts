@@ -0,0 +1,23 @@
+import { GraphQLBoolean, GraphQLNonNull, GraphQLObjectType } from 'graphql';
+
+import { Expense } from './Expense';
+import { ProcessExpenseError } from './ProcessExpenseError';
+
+export const ProcessExpenseResult = new GraphQLObjectType({
+  name: 'ProcessExpenseResult',
+  description: 'The result of processing a single expense in a batch',
+  fields: {
+    expense: {
+      type: Expense,
+      description: 'The processed expense, or null if it could not be found',
+    },
+    success: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: 'Whether the action was successfully applied to this expense',
+    },
+    error: {
+      type: ProcessExpenseError,
+      description: 'The error that prevented the action from being applied, if any',
+    },
+  },
+});
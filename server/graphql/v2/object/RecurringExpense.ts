@@ -0,0 +1,69 @@
+import { GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+import { GraphQLDateTime } from 'graphql-iso-date';
+
+import models from '../../../models';
+import { RecurringExpenseInterval } from '../enum/RecurringExpenseInterval';
+import { RecurringExpenseStatus } from '../enum/RecurringExpenseStatus';
+import { getIdEncodeResolver, IDENTIFIER_TYPES } from '../identifiers';
+import { Account } from '../interface/Account';
+
+import { Expense } from './Expense';
+
+export const RecurringExpense = new GraphQLObjectType({
+  name: 'RecurringExpense',
+  description: 'An expense that gets submitted again on every period',
+  fields: () => ({
+    id: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: getIdEncodeResolver(IDENTIFIER_TYPES.RECURRING_EXPENSE),
+    },
+    legacyId: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'The internal database identifier of the recurring expense',
+      resolve(recurringExpense): number {
+        return recurringExpense.id;
+      },
+    },
+    interval: {
+      type: new GraphQLNonNull(RecurringExpenseInterval),
+    },
+    status: {
+      type: new GraphQLNonNull(RecurringExpenseStatus),
+    },
+    nextDate: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+      description: 'The date on which the next expense will be submitted',
+    },
+    endsAt: {
+      type: GraphQLDateTime,
+      description: 'The date after which no expense will be submitted anymore',
+    },
+    account: {
+      type: new GraphQLNonNull(Account),
+      description: 'The account where the expenses are submitted',
+      resolve(recurringExpense, _, req): Promise<object> {
+        return req.loaders.Collective.byId.load(recurringExpense.CollectiveId);
+      },
+    },
+    payee: {
+      type: new GraphQLNonNull(Account),
+      description: 'The account being paid by the expenses',
+      resolve(recurringExpense, _, req): Promise<object> {
+        return req.loaders.Collective.byId.load(recurringExpense.FromCollectiveId);
+      },
+    },
+    expenses: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(Expense))),
+      description: 'The expenses submitted for this recurring expense, most recent first',
+      resolve(recurringExpense): Promise<object[]> {
+        return models.Expense.findAll({
+          where: { RecurringExpenseId: recurringExpense.id },
+          order: [['incurredAt', 'DESC']],
+        });
+      },
+    },
+    createdAt: {
+      type: new GraphQLNonNull(GraphQLDateTime),
+    },
+  }),
+});
@@ -0,0 +1,18 @@
+import { GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLObjectType } from 'graphql';
+
+import { Expense } from './Expense';
+
+export const SepaBankStatementImport = new GraphQLObjectType({
+  name: 'SepaBankStatementImport',
+  description: 'The result of importing a bank statement to confirm SEPA credit transfers',
+  fields: {
+    paidExpenses: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(Expense))),
+      description: 'The expenses found in the statement, now marked as paid',
+    },
+    ignoredEntriesCount: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'Number of entries of the statement that did not match any exported expense',
+    },
+  },
+});
@@ -0,0 +1,25 @@
+import { GraphQLList, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+
+import { Expense } from './Expense';
+
+export const SepaCreditTransferExport = new GraphQLObjectType({
+  name: 'SepaCreditTransferExport',
+  description: 'A SEPA credit transfer file (pain.001), to upload to the bank of the host',
+  fields: {
+    messageId: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: 'The unique identifier of the file, used by the bank to reject duplicates',
+    },
+    filename: {
+      type: new GraphQLNonNull(GraphQLString),
+    },
+    content: {
+      type: new GraphQLNonNull(GraphQLString),
+      description: 'The XML content of the file',
+    },
+    expenses: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(Expense))),
+      description: 'The exported expenses, now processing',
+    },
+  },
+});
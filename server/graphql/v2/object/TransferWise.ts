@@ -1,7 +1,11 @@
 import { GraphQLBoolean, GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
 import GraphQLJSON, { GraphQLJSONObject } from 'graphql-type-json';
 
+import models from '../../../models';
 import transferwise from '../../../paymentProviders/transferwise';
+import { Unauthorized } from '../../errors';
+
+import { TransferWiseRecipient } from './TransferWiseRecipient';
 
 const TransferWiseFieldGroupValuesAllowed = new GraphQLObjectType({
   name: 'TransferWiseFieldVatvkluesAllowed',
@@ -86,5 +90,22 @@ export const TransferWise = new GraphQLObjectType({
         }
       },
     },
+    recipients: {
+      type: new GraphQLList(TransferWiseRecipient),
+      description:
+        'The recipient accounts created on the TransferWise profile of the host, with the payout method they are used for. Only visible to the host admins.',
+      async resolve(host, _, req) {
+        if (!host) {
+          return null;
+        } else if (!req.remoteUser?.isAdmin(host.id)) {
+          throw new Unauthorized('You need to be an admin of the host to see its TransferWise recipients');
+        }
+
+        const connectedAccount = await models.ConnectedAccount.findOne({
+          where: { service: 'transferwise', CollectiveId: host.id },
+        });
+        return connectedAccount ? transferwise.getRecipients(connectedAccount) : null;
+      },
+    },
   },
 });
@@ -0,0 +1,35 @@
+import { GraphQLBoolean, GraphQLInt, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+
+import PayoutMethod from './PayoutMethod';
+
+export const TransferWiseRecipient = new GraphQLObjectType({
+  name: 'TransferWiseRecipient',
+  description: 'A recipient account on the TransferWise profile of the host',
+  fields: {
+    id: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'The ID of the recipient on TransferWise',
+    },
+    currency: {
+      type: GraphQLString,
+    },
+    type: {
+      type: GraphQLString,
+      description: 'The type of bank account (ie. iban, sort_code, aba)',
+    },
+    accountHolderName: {
+      type: GraphQLString,
+    },
+    payoutMethod: {
+      type: PayoutMethod,
+      description: 'The payout method this recipient is used for',
+    },
+    isStale: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: 'Whether this recipient is not used by any payout method anymore. Stale recipients can be pruned.',
+      resolve(recipient): boolean {
+        return !recipient.payoutMethod;
+      },
+    },
+  },
+});
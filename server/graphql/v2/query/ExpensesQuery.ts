@@ -1,5 +1,5 @@
-import { GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLString } from 'graphql';
-import { isEmpty, partition } from 'lodash';
+import { GraphQLBoolean, GraphQLInt, GraphQLList, GraphQLNonNull, GraphQLString } from 'graphql';
+import { fromPairs, groupBy, isEmpty, partition, uniq } from 'lodash';
 
 import { expenseStatus } from '../../../constants';
 import EXPENSE_TYPE from '../../../constants/expense_type';
@@ -7,6 +7,7 @@ import { US_TAX_FORM_THRESHOLD } from '../../../constants/tax-form';
 import queries from '../../../lib/queries';
 import models, { Op, sequelize } from '../../../models';
 import { PayoutMethodTypes } from '../../../models/PayoutMethod';
+import { Unauthorized } from '../../errors';
 import { ExpenseCollection } from '../collection/ExpenseCollection';
 import ExpenseStatusFilter from '../enum/ExpenseStatusFilter';
 import { ExpenseType } from '../enum/ExpenseType';
@@ -32,13 +33,31 @@ const updateFilterConditionsForReadyToPay = async (where, include): Promise<void
 
   // Check the balances for these collectives. The following will emit an SQL like:
   // AND ((CollectiveId = 1 AND amount < 5000) OR (CollectiveId = 2 AND amount < 3000))
+  // Split expenses are ready to pay only if every allocated collective has enough funds for its share.
   if (!isEmpty(results)) {
-    const balances = await queries.getBalances(results.map(e => e.CollectiveId));
+    const allocations = await models.ExpenseAllocation.findAll({
+      where: { ExpenseId: results.map(e => e.id) },
+      attributes: ['ExpenseId', 'CollectiveId', 'amount'],
+      raw: true,
+    });
+
+    const collectiveIds = [...results.map(e => e.CollectiveId), ...allocations.map(a => a.CollectiveId)];
+    const balances = await queries.getCurrentBalances(uniq(collectiveIds));
+    const balancesByCollectiveId = fromPairs(balances.map(({ CollectiveId, balance }) => [CollectiveId, balance]));
+    const allocationsByExpenseId = groupBy(allocations, 'ExpenseId');
+    const splitExpenseIds = Object.keys(allocationsByExpenseId).map(Number);
+    const readySplitExpenseIds = splitExpenseIds.filter(expenseId =>
+      allocationsByExpenseId[expenseId].every(a => a.amount <= (balancesByCollectiveId[a.CollectiveId] || 0)),
+    );
+
+    const balanceConditions = balances.map(({ CollectiveId, balance }) => ({
+      CollectiveId,
+      amount: { [Op.lte]: balance },
+      ...(splitExpenseIds.length ? { id: { [Op.notIn]: splitExpenseIds } } : {}),
+    }));
+
     where[Op.and].push({
-      [Op.or]: balances.map(({ CollectiveId, balance }) => ({
-        CollectiveId,
-        amount: { [Op.lte]: balance },
-      })),
+      [Op.or]: readySplitExpenseIds.length ? [...balanceConditions, { id: readySplitExpenseIds }] : balanceConditions,
     });
   }
 
@@ -124,6 +143,11 @@ const ExpensesQuery = {
       type: GraphQLString,
       description: 'The term to search',
     },
+    isPossibleDuplicate: {
+      type: GraphQLBoolean,
+      description:
+        'Only return expenses that were (or were not) flagged as possible duplicates. Requires to be an admin of `host` or `account`.',
+    },
   },
   async resolve(_, args, req): Promise<CollectionReturnType> {
     const where = { [Op.and]: [] };
@@ -199,6 +223,23 @@ const ExpensesQuery = {
     if (args.dateFrom) {
       where['createdAt'] = { [Op.gte]: args.dateFrom };
     }
+    if (typeof args.isPossibleDuplicate === 'boolean') {
+      const isAdmin = [host, account].some(
+        collective =>
+          collective &&
+          (req.remoteUser?.isAdmin(collective.id) || req.remoteUser?.isAdmin(collective.HostCollectiveId)),
+      );
+      if (!isAdmin) {
+        throw new Unauthorized('You need to be an admin of the host or the account to filter possible duplicates');
+      }
+
+      const operator = args.isPossibleDuplicate ? 'IN' : 'NOT IN';
+      where[Op.and].push(
+        sequelize.literal(
+          `"Expense"."id" ${operator} (SELECT "ExpenseId" FROM "ExpenseDuplicates" WHERE "deletedAt" IS NULL)`,
+        ),
+      );
+    }
     if (args.payoutMethodType) {
       include.push({
         association: 'PayoutMethod',
@@ -218,6 +259,9 @@ const ExpensesQuery = {
       } else {
         await updateFilterConditionsForReadyToPay(where, include);
       }
+    } else {
+      // Drafts are only returned when explicitly requested
+      where['status'] = { [Op.ne]: expenseStatus.DRAFT };
     }
 
     const order = [[args.orderBy.field, args.orderBy.direction]];
@@ -0,0 +1,71 @@
+import { GraphQLList, GraphQLNonNull } from 'graphql';
+
+import models from '../../../models';
+import { LedgerIntegrityFindingStatus as LedgerIntegrityFindingStatuses } from '../../../models/LedgerIntegrityFinding';
+import { Forbidden } from '../../errors';
+import { LedgerIntegrityFindingCollection } from '../collection/LedgerIntegrityFindingCollection';
+import { LedgerIntegrityCheckType } from '../enum/LedgerIntegrityCheckType';
+import { LedgerIntegrityFindingStatus } from '../enum/LedgerIntegrityFindingStatus';
+import { LedgerIntegritySeverity } from '../enum/LedgerIntegritySeverity';
+import { AccountReferenceInput, fetchAccountWithReference } from '../input/AccountReferenceInput';
+import { CollectionArgs, CollectionReturnType } from '../interface/Collection';
+
+const LedgerIntegrityFindingsQuery = {
+  type: new GraphQLNonNull(LedgerIntegrityFindingCollection),
+  description: 'The issues detected in the ledger by the integrity checks. Only available to root users.',
+  args: {
+    ...CollectionArgs,
+    host: {
+      type: AccountReferenceInput,
+      description: 'Only return the findings affecting the transactions of this host',
+    },
+    status: {
+      type: new GraphQLList(new GraphQLNonNull(LedgerIntegrityFindingStatus)),
+      description: 'Only return the findings with these statuses',
+      defaultValue: [LedgerIntegrityFindingStatuses.OPEN],
+    },
+    severity: {
+      type: new GraphQLList(new GraphQLNonNull(LedgerIntegritySeverity)),
+      description: 'Only return the findings with these severities',
+    },
+    type: {
+      type: new GraphQLList(new GraphQLNonNull(LedgerIntegrityCheckType)),
+      description: 'Only return the findings detected by these checks',
+    },
+  },
+  async resolve(_, args, req): Promise<CollectionReturnType> {
+    if (!req.remoteUser?.isRoot()) {
+      throw new Forbidden('Only root users can see the ledger integrity findings');
+    }
+
+    const where = {};
+    if (args.host) {
+      const host = await fetchAccountWithReference(args.host, { loaders: req.loaders, throwIfMissing: true });
+      where['HostCollectiveId'] = host.id;
+    }
+    if (args.status?.length) {
+      where['status'] = args.status;
+    }
+    if (args.severity?.length) {
+      where['severity'] = args.severity;
+    }
+    if (args.type?.length) {
+      where['type'] = args.type;
+    }
+
+    const limit = Math.min(args.limit, 1000);
+    const { rows, count } = await models.LedgerIntegrityFinding.findAndCountAll({
+      where,
+      order: [
+        ['lastDetectedAt', 'DESC'],
+        ['id', 'DESC'],
+      ],
+      limit,
+      offset: args.offset,
+    });
+
+    return { nodes: rows, totalCount: count, limit, offset: args.offset };
+  },
+};
+
+export default LedgerIntegrityFindingsQuery;
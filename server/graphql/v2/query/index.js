@@ -9,6 +9,7 @@ import ExpenseQuery from './ExpenseQuery';
 import ExpensesQuery from './ExpensesQuery';
 import HostQuery from './HostQuery';
 import IndividualQuery from './IndividualQuery';
+import LedgerIntegrityFindingsQuery from './LedgerIntegrityFindingsQuery';
 import OrderQuery from './OrderQuery';
 import TierQuery from './TierQuery';
 import TransactionsQuery from './TransactionsQuery';
@@ -22,6 +23,7 @@ const query = {
   expenses: ExpensesQuery,
   expense: ExpenseQuery,
   hosts: HostsCollectionQuery,
+  ledgerIntegrityFindings: LedgerIntegrityFindingsQuery,
   order: OrderQuery,
   tier: TierQuery,
   // transaction: TransactionQuery,
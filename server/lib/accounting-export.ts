@@ -0,0 +1,235 @@
+import moment from 'moment';
+
+import models, { Op } from '../models';
+
+import { ChartOfAccounts, getChartOfAccounts } from './chart-of-accounts';
+import { exportTransactions } from './transactions';
+
+export enum AccountingExportFormat {
+  /** Intuit Interchange Format, imported as general journal entries in QuickBooks Desktop */
+  IIF = 'IIF',
+  /** The manual journals import template of Xero */
+  XERO_CSV = 'XERO_CSV',
+  /** One line per debit or credit, for any other accounting software */
+  CSV = 'CSV',
+}
+
+export type JournalLine = {
+  account: string;
+  /** In cents, positive for a debit and negative for a credit */
+  amount: number;
+};
+
+/**
+ * A balanced journal entry, made from a single transaction of the host
+ */
+export type JournalEntry = {
+  date: Date;
+  /** The id of the transaction */
+  reference: string;
+  description: string;
+  /** The slug of the collective */
+  collective: string;
+  currency: string;
+  lines: JournalLine[];
+};
+
+export type AccountingExport = {
+  filename: string;
+  contentType: string;
+  content: string;
+};
+
+/** All the transactions of the period are loaded at once, longer periods must be exported in multiple files */
+export const MAX_ACCOUNTING_EXPORT_DAYS = 366;
+
+/** Xero requires a tax rate on every line, journals from the ledger are not subject to taxes */
+const XERO_TAX_RATE = 'Tax Exempt';
+
+/**
+ * Returns the account where the amount of the transaction (without the fees) is recorded
+ */
+const getMainAccount = (transaction, chartOfAccounts: ChartOfAccounts): string => {
+  if (transaction.isRefund) {
+    return chartOfAccounts.refunds;
+  } else if (transaction.type === 'CREDIT') {
+    return chartOfAccounts.contributions;
+  }
+
+  const tags = transaction.Expense?.tags || [];
+  const tag = tags.find(tag => chartOfAccounts.expensesByTag[tag]);
+  return tag ? chartOfAccounts.expensesByTag[tag] : chartOfAccounts.expenses;
+};
+
+/**
+ * Converts a transaction of the host to a balanced journal entry, in the currency of the host.
+ * Fees are negative (positive for refunds), so a $100 contribution with a $5 host fee and a
+ * $3 payment processor fee gives:
+ *   Bank                      97 (debit)
+ *   Payment Processor Fees     3 (debit)
+ *   Contributions             95 (credit)
+ *   Host Fees                  5 (credit)
+ */
+export const getJournalEntry = (transaction, chartOfAccounts: ChartOfAccounts): JournalEntry => {
+  const amount = transaction.amountInHostCurrency;
+  const hostFee = transaction.hostFeeInHostCurrency || 0;
+  const platformFee = transaction.platformFeeInHostCurrency || 0;
+  const paymentProcessorFee = transaction.paymentProcessorFeeInHostCurrency || 0;
+  const lines = [
+    { account: chartOfAccounts.bank, amount: amount + platformFee + paymentProcessorFee },
+    { account: chartOfAccounts.paymentProcessorFees, amount: -paymentProcessorFee },
+    { account: chartOfAccounts.platformFees, amount: -platformFee },
+    { account: getMainAccount(transaction, chartOfAccounts), amount: -amount - hostFee },
+    { account: chartOfAccounts.hostFees, amount: hostFee },
+  ];
+
+  return {
+    date: transaction.createdAt,
+    reference: String(transaction.id),
+    description: transaction.description || '',
+    collective: transaction.collective?.slug || '',
+    currency: transaction.hostCurrency,
+    lines: lines.filter(line => line.amount !== 0),
+  };
+};
+
+/**
+ * Returns the journal entries for the transactions recorded by the host between the two dates
+ */
+export const getJournalEntries = async (host, dateFrom: Date, dateTo: Date): Promise<JournalEntry[]> => {
+  const chartOfAccounts = getChartOfAccounts(host);
+  const transactions = await models.Transaction.findAll({
+    where: { HostCollectiveId: host.id, createdAt: { [Op.gte]: dateFrom, [Op.lte]: dateTo } },
+    include: [
+      { model: models.Collective, as: 'collective', attributes: ['slug'] },
+      { model: models.Expense, attributes: ['tags'] },
+    ],
+    order: [
+      ['createdAt', 'ASC'],
+      ['id', 'ASC'],
+    ],
+  });
+
+  return transactions.map(transaction => getJournalEntry(transaction, chartOfAccounts));
+};
+
+const formatAmount = (amount: number): string => (amount / 100).toFixed(2);
+
+/** Values are quoted by `exportToCSV`, so quotes inside them must be escaped */
+const escapeCsvValue = (value: string): string => value.replace(/"/g, '""');
+
+const getMemo = (entry: JournalEntry): string => {
+  const memo = entry.collective ? `${entry.collective} - ${entry.description}` : entry.description;
+  return memo.replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Formats the entries as general journal transactions for QuickBooks Desktop. The first line of an
+ * entry is the `TRNS` line, the others are the `SPL` (split) lines.
+ */
+export const formatIIF = (entries: JournalEntry[]): string => {
+  const columns = ['TRNSTYPE', 'DATE', 'ACCNT', 'AMOUNT', 'DOCNUM', 'MEMO'];
+  const rows = [['!TRNS', ...columns], ['!SPL', ...columns], ['!ENDTRNS']];
+  for (const entry of entries) {
+    const date = moment.utc(entry.date).format('MM/DD/YYYY');
+    const memo = getMemo(entry);
+    entry.lines.forEach((line, index) => {
+      const type = index === 0 ? 'TRNS' : 'SPL';
+      rows.push([type, 'GENERAL JOURNAL', date, line.account, formatAmount(line.amount), entry.reference, memo]);
+    });
+    rows.push(['ENDTRNS']);
+  }
+
+  return rows.map(row => row.join('\t')).join('\n');
+};
+
+/**
+ * Formats the entries with the manual journals import template of Xero. Lines that share the same
+ * narration and date are imported as a single journal.
+ */
+export const formatXeroCSV = (entries: JournalEntry[]): string => {
+  const rows = entries.flatMap(entry =>
+    entry.lines.map(line => ({
+      '*Narration': escapeCsvValue(`#${entry.reference} ${getMemo(entry)}`),
+      '*Date': moment.utc(entry.date).format('DD/MM/YYYY'),
+      Description: escapeCsvValue(entry.description),
+      '*AccountCode': escapeCsvValue(line.account),
+      '*TaxRate': XERO_TAX_RATE,
+      '*Amount': formatAmount(line.amount),
+      TrackingName1: entry.collective ? 'Collective' : '',
+      TrackingOption1: entry.collective,
+    })),
+  );
+
+  return exportTransactions(rows, [
+    '*Narration',
+    '*Date',
+    'Description',
+    '*AccountCode',
+    '*TaxRate',
+    '*Amount',
+    'TrackingName1',
+    'TrackingOption1',
+  ]);
+};
+
+/**
+ * Formats the entries as a generic double-entry CSV, with one line per debit or credit
+ */
+export const formatDoubleEntryCSV = (entries: JournalEntry[]): string => {
+  const rows = entries.flatMap(entry =>
+    entry.lines.map(line => ({
+      date: moment.utc(entry.date).format('YYYY-MM-DD'),
+      reference: entry.reference,
+      collective: entry.collective,
+      description: escapeCsvValue(entry.description),
+      account: escapeCsvValue(line.account),
+      debit: line.amount > 0 ? formatAmount(line.amount) : '',
+      credit: line.amount < 0 ? formatAmount(-line.amount) : '',
+      currency: entry.currency,
+    })),
+  );
+
+  return exportTransactions(rows, [
+    'date',
+    'reference',
+    'collective',
+    'description',
+    'account',
+    'debit',
+    'credit',
+    'currency',
+  ]);
+};
+
+const FORMATTERS: Record<AccountingExportFormat, (entries: JournalEntry[]) => string> = {
+  [AccountingExportFormat.IIF]: formatIIF,
+  [AccountingExportFormat.XERO_CSV]: formatXeroCSV,
+  [AccountingExportFormat.CSV]: formatDoubleEntryCSV,
+};
+
+/**
+ * Exports the transactions recorded by the host between the two dates as journal entries,
+ * using the chart of accounts from its settings.
+ */
+export const exportJournalEntries = async (
+  host,
+  format: AccountingExportFormat,
+  dateFrom: Date,
+  dateTo: Date,
+): Promise<AccountingExport> => {
+  if (dateFrom > dateTo) {
+    throw new Error('The start date must be before the end date');
+  } else if (moment.utc(dateTo).diff(dateFrom, 'days', true) > MAX_ACCOUNTING_EXPORT_DAYS) {
+    throw new Error(`The accounting export is limited to ${MAX_ACCOUNTING_EXPORT_DAYS} days, use a shorter period`);
+  }
+
+  const entries = await getJournalEntries(host, dateFrom, dateTo);
+  const period = `${moment.utc(dateFrom).format('YYYY-MM-DD')}-${moment.utc(dateTo).format('YYYY-MM-DD')}`;
+  const isIIF = format === AccountingExportFormat.IIF;
+  return {
+    filename: `${host.slug}-journal-${period}.${isIIF ? 'iif' : 'csv'}`,
+    contentType: isIIF ? 'application/vnd.intuit.iif' : 'text/csv',
+    content: FORMATTERS[format](entries),
+  };
+};
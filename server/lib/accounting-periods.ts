@@ -0,0 +1,114 @@
+import moment from 'moment';
+
+import activities from '../constants/activities';
+import models, { Op } from '../models';
+import { AccountingPeriod, AccountingPeriodInterval, AccountingPeriodStatus } from '../models/AccountingPeriod';
+
+const INTERVAL_UNITS: Record<AccountingPeriodInterval, moment.unitOfTime.StartOf> = {
+  [AccountingPeriodInterval.MONTH]: 'month',
+  [AccountingPeriodInterval.YEAR]: 'year',
+};
+
+/**
+ * Returns the boundaries of the calendar month or year that contains `date`
+ */
+export const getAccountingPeriodDates = (
+  interval: AccountingPeriodInterval,
+  date: Date,
+): { startsAt: Date; endsAt: Date } => {
+  const unit = INTERVAL_UNITS[interval];
+  return {
+    startsAt: moment.utc(date).startOf(unit).toDate(),
+    endsAt: moment.utc(date).endOf(unit).toDate(),
+  };
+};
+
+const createAccountingPeriodActivity = (type: string, period: AccountingPeriod, host, user): Promise<any> => {
+  return models.Activity.create({
+    type,
+    UserId: user.id,
+    CollectiveId: host.id,
+    data: {
+      host: host.minimal,
+      user: user.minimal,
+      accountingPeriod: {
+        id: period.id,
+        interval: period.interval,
+        startsAt: period.startsAt,
+        endsAt: period.endsAt,
+      },
+    },
+  });
+};
+
+/**
+ * Closes the month or year of the host that contains `date`. The period must be over, and not
+ * already included in a closed period.
+ */
+export const closeAccountingPeriod = async (
+  host,
+  interval: AccountingPeriodInterval,
+  date: Date,
+  user,
+): Promise<AccountingPeriod> => {
+  const { startsAt, endsAt } = getAccountingPeriodDates(interval, date);
+  if (endsAt > new Date()) {
+    throw new Error('Only the periods that are over can be closed');
+  }
+
+  const existingPeriod = await models.AccountingPeriod.findOne({
+    where: {
+      HostCollectiveId: host.id,
+      status: AccountingPeriodStatus.CLOSED,
+      startsAt: { [Op.lte]: startsAt },
+      endsAt: { [Op.gte]: endsAt },
+    },
+  });
+
+  if (existingPeriod) {
+    throw new Error('This period is already closed');
+  }
+
+  const period = await models.AccountingPeriod.create({
+    HostCollectiveId: host.id,
+    CreatedByUserId: user.id,
+    interval,
+    startsAt,
+    endsAt,
+  });
+
+  await createAccountingPeriodActivity(activities.ACCOUNTING_PERIOD_CLOSED, period, host, user);
+  return period;
+};
+
+/**
+ * Reopens a closed period, so that its transactions can be changed again
+ */
+export const reopenAccountingPeriod = async (period: AccountingPeriod, user): Promise<AccountingPeriod> => {
+  if (period.status !== AccountingPeriodStatus.CLOSED) {
+    throw new Error('This period is not closed');
+  }
+
+  await period.update({
+    status: AccountingPeriodStatus.REOPENED,
+    ReopenedByUserId: user.id,
+    reopenedAt: new Date(),
+  });
+
+  const host = await models.Collective.findByPk(period.HostCollectiveId);
+  await createAccountingPeriodActivity(activities.ACCOUNTING_PERIOD_REOPENED, period, host, user);
+  return period;
+};
+
+/**
+ * Returns true if one of the transactions is dated in a period closed by its host
+ */
+export const isInClosedAccountingPeriod = async (transactions): Promise<boolean> => {
+  for (const transaction of transactions) {
+    if (await models.AccountingPeriod.findClosedPeriod(transaction.HostCollectiveId, transaction.createdAt)) {
+      return true;
+    }
+  }
+
+  return false;
+};
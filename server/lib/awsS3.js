@@ -11,4 +11,21 @@ if (config.aws.s3.key) {
     region: config.aws.s3.region,
   });
 }
+
+/**
+ * Returns the SHA-256 hash of a file uploaded through `/images`, as stored in its metadata.
+ * Returns null if S3 is not configured, or if the file was uploaded before hashes were recorded.
+ */
+export const getUploadedFileHash = async url => {
+  const { bucket } = config.aws.s3;
+  const parsedUrl = new URL(url);
+  if (!s3 || !parsedUrl.hostname.startsWith(`${bucket}.s3`)) {
+    return null;
+  }
+
+  const key = decodeURIComponent(parsedUrl.pathname.slice(1));
+  const { Metadata } = await s3.headObject({ Bucket: bucket, Key: key }).promise();
+  return Metadata?.sha256 || null;
+};
+
 export default s3;
@@ -0,0 +1,158 @@
+import { compact, groupBy, last, sumBy, uniq } from 'lodash';
+import moment from 'moment';
+
+import models, { Op } from '../models';
+
+import sequelize from './sequelize';
+
+export enum BalanceHistoryInterval {
+  DAY = 'DAY',
+  WEEK = 'WEEK',
+  MONTH = 'MONTH',
+  YEAR = 'YEAR',
+}
+
+export type BalanceHistoryEntry = {
+  /** The end of the period */
+  date: Date;
+  /** In cents, in the currency of the collective */
+  balance: number;
+};
+
+const INTERVAL_UNITS: Record<BalanceHistoryInterval, moment.unitOfTime.StartOf> = {
+  [BalanceHistoryInterval.DAY]: 'day',
+  [BalanceHistoryInterval.WEEK]: 'isoWeek',
+  [BalanceHistoryInterval.MONTH]: 'month',
+  [BalanceHistoryInterval.YEAR]: 'year',
+};
+
+/** To keep the history queries cheap */
+export const MAX_BALANCE_HISTORY_ENTRIES = 1000;
+
+/**
+ * Creates the snapshots for the days that are not covered yet, starting from the latest snapshot
+ * of each collective and host currency. Only the days before `until` are recorded. By default, the
+ * previous day is left out as well, so that the transactions still being committed when the job runs
+ * are not missed by its snapshot. The days that are not covered are computed from the transactions.
+ *
+ * @returns the number of snapshots created
+ */
+export const updateBalanceSnapshots = async (
+  until: Date = moment.utc().subtract(1, 'day').startOf('day').toDate(),
+): Promise<number> => {
+  const [, result] = await sequelize.query(
+    `
+    WITH "latestSnapshots" AS (
+      SELECT DISTINCT ON (s."CollectiveId", s."hostCurrency") s."CollectiveId", s."hostCurrency", s."date", s."balance"
+      FROM "BalanceSnapshots" s
+      ORDER BY s."CollectiveId", s."hostCurrency", s."date" DESC
+    ), "dailyAmounts" AS (
+      SELECT
+        t."CollectiveId",
+        t."hostCurrency",
+        MAX(t."currency") AS "currency",
+        (t."createdAt" AT TIME ZONE 'UTC')::date AS "date",
+        SUM(t."netAmountInCollectiveCurrency") AS "amount",
+        COALESCE(MAX(s."balance"), 0) AS "previousBalance"
+      FROM "Transactions" t
+      LEFT JOIN "latestSnapshots" s
+        ON s."CollectiveId" = t."CollectiveId" AND s."hostCurrency" IS NOT DISTINCT FROM t."hostCurrency"
+      WHERE t."deletedAt" IS NULL
+      AND t."createdAt" < :until
+      AND (s."date" IS NULL OR (t."createdAt" AT TIME ZONE 'UTC')::date > s."date")
+      GROUP BY t."CollectiveId", t."hostCurrency", (t."createdAt" AT TIME ZONE 'UTC')::date
+    )
+    INSERT INTO "BalanceSnapshots" ("CollectiveId", "hostCurrency", "currency", "date", "balance", "createdAt", "updatedAt")
+    SELECT
+      d."CollectiveId",
+      d."hostCurrency",
+      d."currency",
+      d."date",
+      d."previousBalance" + SUM(d."amount") OVER (PARTITION BY d."CollectiveId", d."hostCurrency" ORDER BY d."date"),
+      NOW(),
+      NOW()
+    FROM "dailyAmounts" d
+  `,
+    { replacements: { until } },
+  );
+
+  return result.rowCount;
+};
+
+/**
+ * Returns the end of each period between the two dates, `to` being the end of the last period
+ */
+export const getBalanceHistoryDates = (from: Date, to: Date, interval: BalanceHistoryInterval): Date[] => {
+  const unit = INTERVAL_UNITS[interval];
+  const end = moment.utc(to).endOf('day');
+  const dates = [];
+  for (let date = moment.utc(from).endOf(unit); date.isBefore(end); date = date.add(1, 'ms').endOf(unit)) {
+    dates.push(date.toDate());
+  }
+
+  dates.push(end.toDate());
+  return dates;
+};
+
+/**
+ * Returns the balance of the collective at the end of each period between the two dates. Balances are
+ * computed from the snapshots, plus the transactions recorded after the latest snapshot.
+ */
+export const getBalanceHistory = async (
+  collective,
+  from: Date,
+  to: Date,
+  interval: BalanceHistoryInterval,
+): Promise<BalanceHistoryEntry[]> => {
+  if (from > to) {
+    throw new Error('The start date must be before the end date');
+  }
+
+  const dates = getBalanceHistoryDates(from, to, interval);
+  if (dates.length > MAX_BALANCE_HISTORY_ENTRIES) {
+    throw new Error(`The balance history is limited to ${MAX_BALANCE_HISTORY_ENTRIES} entries, use a larger interval`);
+  }
+
+  const snapshots = await models.BalanceSnapshot.findAll({
+    where: { CollectiveId: collective.id, date: { [Op.lte]: moment.utc(to).format('YYYY-MM-DD') } },
+    attributes: ['hostCurrency', 'date', 'balance'],
+    order: [['date', 'ASC']],
+    raw: true,
+  });
+
+  // Transactions that are not included in the snapshots yet
+  const snapshotsByCurrency = groupBy(snapshots, 'hostCurrency');
+  const snapshotCurrencies = uniq(compact(snapshots.map(snapshot => snapshot.hostCurrency)));
+  const hasSnapshotsWithoutCurrency = snapshots.some(snapshot => !snapshot.hostCurrency);
+  const afterSnapshots = Object.values(snapshotsByCurrency).map(currencySnapshots => {
+    const { hostCurrency, date } = last(currencySnapshots);
+    return { hostCurrency, createdAt: { [Op.gte]: moment.utc(date).add(1, 'day').toDate() } };
+  });
+
+  const transactions = await models.Transaction.findAll({
+    where: {
+      CollectiveId: collective.id,
+      createdAt: { [Op.lte]: last(dates) },
+      [Op.or]: [
+        ...afterSnapshots,
+        snapshotCurrencies.length
+          ? { hostCurrency: { [Op.notIn]: snapshotCurrencies } }
+          : { hostCurrency: { [Op.ne]: null } },
+        ...(hasSnapshotsWithoutCurrency ? [] : [{ hostCurrency: null }]),
+      ],
+    },
+    attributes: ['createdAt', 'netAmountInCollectiveCurrency'],
+    raw: true,
+  });
+
+  return dates.map(date => {
+    const day = moment.utc(date).format('YYYY-MM-DD');
+    const snapshotsBalance = sumBy(Object.values(snapshotsByCurrency), currencySnapshots => {
+      const snapshot = last(currencySnapshots.filter(snapshot => snapshot.date <= day));
+      return snapshot ? Number(snapshot.balance) : 0;
+    });
+
+    const recentTransactions = transactions.filter(transaction => transaction.createdAt <= date);
+    return { date, balance: snapshotsBalance + sumBy(recentTransactions, 'netAmountInCollectiveCurrency') };
+  });
+};
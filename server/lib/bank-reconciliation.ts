@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+
+import { uniq } from 'lodash';
+
+import status from '../constants/order_status';
+import { markOrderAsPaid } from '../graphql/v1/mutations/orders';
+import models, { Op } from '../models';
+import { BankStatementFormat, BankStatementLineStatus } from '../models/BankStatementLine';
+
+import { parseBankStatement } from './bank-statements';
+import { BankStatementEntry } from './camt';
+import logger from './logger';
+
+export type BankStatementImport = {
+  /** The new lines, already reconciled */
+  lines: any[];
+  /** Number of entries skipped because they were already imported */
+  duplicatesCount: number;
+};
+
+type OrderMatch = {
+  order: any;
+  /** True if the order was found by its reference, with the same amount and currency */
+  isExactMatch: boolean;
+};
+
+/** IBANs may be written with spaces, their groups of digits must not be taken for order IDs */
+const IBAN_REGEX = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g;
+
+/** A standalone number, optionally prefixed by `#`. Dates and other identifiers are left out. */
+const REFERENCE_REGEX = /^#?(\d{1,10})[.,;:]?$/;
+
+/**
+ * Contributors are asked to use the order ID as the reference of their bank transfer,
+ * see `{reference}` in the manual payment instructions of the host.
+ */
+export const getReferences = (entry: Pick<BankStatementEntry, 'remittanceInformation' | 'endToEndId'>): number[] => {
+  const text = [entry.remittanceInformation, entry.endToEndId].filter(Boolean).join(' ').replace(IBAN_REGEX, ' ');
+  const references = text
+    .split(/\s+/)
+    .map(word => word.match(REFERENCE_REGEX)?.[1])
+    .filter(Boolean);
+
+  return uniq(references.map(reference => parseInt(reference, 10)));
+};
+
+const getPendingOrdersQuery = (host, where) => ({
+  where: { status: status.PENDING, ...where },
+  include: [
+    {
+      model: models.Collective,
+      as: 'collective',
+      required: true,
+      where: { [Op.or]: [{ HostCollectiveId: host.id }, { id: host.id }] },
+    },
+  ],
+  order: [['id', 'ASC']],
+});
+
+/**
+ * Looks for the pending order paid by a bank statement entry. Orders are matched by reference first,
+ * and fall back on the only pending order with the same amount and currency.
+ */
+export const findMatchingOrder = async (
+  host,
+  entry: BankStatementEntry,
+  excludedOrderIds: number[] = [],
+): Promise<OrderMatch | null> => {
+  if (entry.direction !== 'CREDIT') {
+    return null;
+  }
+
+  const notExcluded = excludedOrderIds.length ? { [Op.notIn]: excludedOrderIds } : { [Op.ne]: null };
+  const references = getReferences(entry);
+  if (references.length) {
+    const orders = await models.Order.findAll(
+      getPendingOrdersQuery(host, { id: { [Op.in]: references, ...notExcluded } }),
+    );
+
+    const exactMatches = orders.filter(o => o.totalAmount === entry.amount && o.currency === entry.currency);
+    if (exactMatches.length === 1) {
+      return { order: exactMatches[0], isExactMatch: true };
+    } else if (orders.length === 1) {
+      return { order: orders[0], isExactMatch: false };
+    }
+  }
+
+  const sameAmountOrders = await models.Order.findAll({
+    ...getPendingOrdersQuery(host, { id: notExcluded, totalAmount: entry.amount, currency: entry.currency }),
+    limit: 2,
+  });
+
+  return sameAmountOrders.length === 1 ? { order: sameAmountOrders[0], isExactMatch: false } : null;
+};
+
+/**
+ * Marks the order as paid with the bank statement line, through the same path as when host admins
+ * mark pending orders as paid manually.
+ */
+export const confirmBankStatementLine = async (line, order, user): Promise<any> => {
+  if (line.status === BankStatementLineStatus.MATCHED) {
+    throw new Error('This line has already been matched with an order');
+  } else if (line.amount <= 0) {
+    throw new Error('Only credits can be matched with an order');
+  }
+
+  await markOrderAsPaid(user, order.id);
+  return line.update({ status: BankStatementLineStatus.MATCHED, OrderId: order.id });
+};
+
+export const ignoreBankStatementLine = async (line): Promise<any> => {
+  if (line.status === BankStatementLineStatus.MATCHED) {
+    throw new Error('This line has already been matched with an order');
+  }
+
+  return line.update({ status: BankStatementLineStatus.IGNORED, OrderId: null });
+};
+
+/**
+ * Lines without bank reference (most CSV exports) are identified by their content and by their rank among
+ * the identical lines of the statement, so that identical transfers on the same day are all kept while
+ * re-importing the same (or an overlapping) statement doesn't duplicate them.
+ */
+const getImportKey = (entry: BankStatementEntry, date: Date, rank: number): string => {
+  const content = [
+    date.toISOString(),
+    entry.direction,
+    entry.amount,
+    entry.currency,
+    entry.remittanceInformation,
+    entry.counterpartyName,
+    entry.counterpartyIban,
+    entry.endToEndId,
+  ];
+
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([...content, rank]))
+    .digest('hex');
+};
+
+const isAlreadyImported = async (host, entry: BankStatementEntry, importKey: string): Promise<boolean> => {
+  const where = entry.bankReference ? { bankReference: entry.bankReference } : { data: { importKey } };
+  const count = await models.BankStatementLine.count({
+    where: { ...where, HostCollectiveId: host.id, currency: entry.currency },
+  });
+
+  return count > 0;
+};
+
+/**
+ * Imports the bank statement of the host and reconciles its credits with the pending orders.
+ * Every line is kept, matched or not. With `autoConfirm`, the orders that match exactly are
+ * marked as paid right away, otherwise they're only proposed for review.
+ * Pending entries are skipped, they'll be imported with the next statement once booked.
+ */
+export const importBankStatement = async (
+  host,
+  content: string,
+  format: BankStatementFormat,
+  user,
+  { autoConfirm = true }: { autoConfirm?: boolean } = {},
+): Promise<BankStatementImport> => {
+  const entries = await parseBankStatement(content, format, { defaultCurrency: host.currency });
+  const proposedLines = await models.BankStatementLine.findAll({
+    where: { HostCollectiveId: host.id, status: BankStatementLineStatus.PROPOSED },
+    attributes: ['OrderId'],
+  });
+
+  const excludedOrderIds = proposedLines.map(line => line.OrderId).filter(Boolean);
+  const lines = [];
+  let duplicatesCount = 0;
+  const ranks: Record<string, number> = {};
+  for (const entry of entries.filter(entry => entry.isBooked)) {
+    const date = entry.bookingDate || entry.valueDate || new Date();
+    const contentKey = getImportKey(entry, date, 0);
+    ranks[contentKey] = contentKey in ranks ? ranks[contentKey] + 1 : 0;
+    const importKey = getImportKey(entry, date, ranks[contentKey]);
+    if (await isAlreadyImported(host, entry, importKey)) {
+      duplicatesCount++;
+      continue;
+    }
+
+    const match = await findMatchingOrder(host, entry, excludedOrderIds);
+    let line = await models.BankStatementLine.create({
+      HostCollectiveId: host.id,
+      CreatedByUserId: user.id,
+      OrderId: match?.order.id || null,
+      status: match ? BankStatementLineStatus.PROPOSED : BankStatementLineStatus.UNMATCHED,
+      format,
+      date,
+      amount: entry.direction === 'CREDIT' ? entry.amount : -entry.amount,
+      currency: entry.currency,
+      description: entry.remittanceInformation,
+      counterpartyName: entry.counterpartyName,
+      bankReference: entry.bankReference,
+      data: {
+        endToEndId: entry.endToEndId,
+        counterpartyIban: entry.counterpartyIban,
+        valueDate: entry.valueDate,
+        importKey,
+      },
+    });
+
+    if (match) {
+      excludedOrderIds.push(match.order.id);
+      if (autoConfirm && match.isExactMatch) {
+        try {
+          line = await confirmBankStatementLine(line, match.order, user);
+        } catch (e) {
+          logger.warn(`Could not confirm order #${match.order.id} from bank statement line #${line.id}: ${e.message}`);
+          line = await line.update({ data: { ...line.data, error: e.message } });
+        }
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return { lines, duplicatesCount };
+};
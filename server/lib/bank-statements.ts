@@ -0,0 +1,199 @@
+import moment from 'moment';
+
+import { BankStatementFormat } from '../models/BankStatementLine';
+
+import { BankStatementEntry, parseCamtStatement } from './camt';
+
+/** Lower-cased CSV headers recognized for each field, in order of preference */
+const CSV_COLUMNS = {
+  date: ['booking date', 'date', 'transaction date', 'value date', 'posted date'],
+  amount: ['amount', 'transaction amount', 'value'],
+  credit: ['credit', 'credit amount', 'paid in', 'money in'],
+  debit: ['debit', 'debit amount', 'paid out', 'money out'],
+  currency: ['currency', 'transaction currency'],
+  description: ['description', 'payment reference', 'reference', 'remittance information', 'memo', 'details'],
+  bankReference: ['transaction id', 'bank reference', 'id'],
+  counterpartyName: ['counterparty', 'counterparty name', 'name', 'payer', 'payee'],
+  counterpartyIban: ['counterparty iban', 'iban'],
+};
+
+const CSV_DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'DD.MM.YYYY', 'DD-MM-YYYY', 'YYYY/MM/DD'];
+
+/**
+ * Parses an amount like `1,234.56`, `1.234,56` or `-12` and returns it in cents
+ */
+export const parseStatementAmount = (value: string): number => {
+  const cleanValue = (value || '').replace(/[^0-9,.-]/g, '');
+  if (!/[0-9]/.test(cleanValue)) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+
+  const lastSeparatorIdx = Math.max(cleanValue.lastIndexOf(','), cleanValue.lastIndexOf('.'));
+  const hasDecimals = lastSeparatorIdx !== -1 && cleanValue.length - lastSeparatorIdx - 1 <= 2;
+  const integerPart = (hasDecimals ? cleanValue.slice(0, lastSeparatorIdx) : cleanValue).replace(/[,.]/g, '');
+  const decimalPart = hasDecimals ? cleanValue.slice(lastSeparatorIdx + 1).padEnd(2, '0') : '00';
+  const amount = parseInt(`${integerPart.replace('-', '')}${decimalPart}`, 10);
+  return cleanValue.startsWith('-') ? -amount : amount;
+};
+
+/**
+ * Splits a CSV content in rows, supporting quoted values
+ */
+const parseCsvRows = (content: string, delimiter: string): string[][] => {
+  const rows = [];
+  let row = [];
+  let value = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(value.trim());
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(value.trim());
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  row.push(value.trim());
+  rows.push(row);
+  return rows.filter(r => r.some(Boolean));
+};
+
+/**
+ * Parses a CSV bank statement. As every bank has its own format, columns are detected from
+ * the headers and the currency falls back on `defaultCurrency` when there's no currency column.
+ */
+export const parseCsvStatement = (content: string, defaultCurrency?: string): BankStatementEntry[] => {
+  const firstLine = content.trim().split(/\r?\n/)[0] || '';
+  const delimiter = [';', '\t', ','].find(d => firstLine.includes(d)) || ',';
+  const [headers, ...rows] = parseCsvRows(content.trim(), delimiter);
+  const normalizedHeaders = (headers || []).map(header => header.toLowerCase().trim());
+  const columns: Record<string, number> = {};
+  for (const [field, aliases] of Object.entries(CSV_COLUMNS)) {
+    const alias = aliases.find(alias => normalizedHeaders.includes(alias));
+    if (alias) {
+      columns[field] = normalizedHeaders.indexOf(alias);
+    }
+  }
+
+  if (columns.date === undefined) {
+    throw new Error('The CSV file must have a date column');
+  } else if (columns.amount === undefined && columns.credit === undefined) {
+    throw new Error('The CSV file must have an amount or a credit column');
+  } else if (columns.currency === undefined && !defaultCurrency) {
+    throw new Error('The CSV file must have a currency column');
+  }
+
+  const getValue = (row: string[], field: string): string | null => {
+    return columns[field] !== undefined ? row[columns[field]] || null : null;
+  };
+
+  return rows.map((row, idx) => {
+    const date = moment.utc(getValue(row, 'date'), CSV_DATE_FORMATS, true);
+    if (!date.isValid()) {
+      throw new Error(`Invalid date on line ${idx + 2}: ${getValue(row, 'date')}`);
+    }
+
+    let amount;
+    if (getValue(row, 'amount')) {
+      amount = parseStatementAmount(getValue(row, 'amount'));
+    } else if (getValue(row, 'credit')) {
+      amount = Math.abs(parseStatementAmount(getValue(row, 'credit')));
+    } else {
+      amount = -Math.abs(parseStatementAmount(getValue(row, 'debit')));
+    }
+
+    return {
+      amount: Math.abs(amount),
+      currency: (getValue(row, 'currency') || defaultCurrency).toUpperCase(),
+      direction: amount >= 0 ? ('CREDIT' as const) : ('DEBIT' as const),
+      isBooked: true,
+      bookingDate: date.toDate(),
+      valueDate: null,
+      bankReference: getValue(row, 'bankReference'),
+      endToEndId: null,
+      remittanceInformation: getValue(row, 'description'),
+      counterpartyName: getValue(row, 'counterpartyName'),
+      counterpartyIban: getValue(row, 'counterpartyIban'),
+    };
+  });
+};
+
+/**
+ * Returns the value of an OFX tag. Works with both OFX 1 (SGML, closing tags are optional) and OFX 2 (XML).
+ */
+const getOfxValue = (content: string, tag: string): string | null => {
+  const match = content.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() || null : null;
+};
+
+/**
+ * Parses an OFX bank statement
+ */
+export const parseOfxStatement = (content: string): BankStatementEntry[] => {
+  const statements = content.match(/<STMTRS>[\s\S]*?<\/STMTRS>/gi);
+  if (!statements) {
+    throw new Error('No bank statement found in the OFX file');
+  }
+
+  return statements.flatMap(statement => {
+    const currency = getOfxValue(statement, 'CURDEF');
+    const transactions = statement.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+    return transactions.map(transaction => {
+      const amount = parseStatementAmount(getOfxValue(transaction, 'TRNAMT'));
+      const date = moment.utc(getOfxValue(transaction, 'DTPOSTED')?.slice(0, 8), 'YYYYMMDD', true);
+      return {
+        amount: Math.abs(amount),
+        currency: (getOfxValue(transaction, 'CURSYM') || currency)?.toUpperCase(),
+        direction: amount >= 0 ? ('CREDIT' as const) : ('DEBIT' as const),
+        isBooked: true,
+        bookingDate: date.isValid() ? date.toDate() : null,
+        valueDate: null,
+        bankReference: getOfxValue(transaction, 'FITID'),
+        endToEndId: null,
+        remittanceInformation: getOfxValue(transaction, 'MEMO'),
+        counterpartyName: getOfxValue(transaction, 'NAME') || getOfxValue(transaction, 'PAYEEID'),
+        counterpartyIban: null,
+      };
+    });
+  });
+};
+
+/**
+ * Parses a bank statement and returns all its entries, whatever its format
+ */
+export const parseBankStatement = async (
+  content: string,
+  format: BankStatementFormat,
+  { defaultCurrency }: { defaultCurrency?: string } = {},
+): Promise<BankStatementEntry[]> => {
+  switch (format) {
+    case BankStatementFormat.CSV:
+      return parseCsvStatement(content, defaultCurrency);
+    case BankStatementFormat.OFX:
+      return parseOfxStatement(content);
+    case BankStatementFormat.CAMT:
+      return parseCamtStatement(content);
+    default:
+      throw new Error(`Unsupported bank statement format: ${format}`);
+  }
+};
@@ -0,0 +1,190 @@
+import { get, isNil } from 'lodash';
+import moment from 'moment';
+
+import { getFxRate } from './currency';
+import sequelize from './sequelize';
+import { sanitizeTags } from './tags';
+import { formatCurrency } from './utils';
+
+export enum BudgetPeriod {
+  MONTH = 'MONTH',
+  QUARTER = 'QUARTER',
+  YEAR = 'YEAR',
+}
+
+/** What happens when approving an expense that would exceed a budget */
+export enum BudgetExceededAction {
+  /** The expense can be approved, but admins are warned */
+  WARN = 'WARN',
+  /** The expense cannot be approved */
+  BLOCK = 'BLOCK',
+}
+
+export type Budget = {
+  period: BudgetPeriod;
+  /** The maximum amount that can be spent over the period, in cents in the currency of the collective */
+  amount: number;
+  /** If set, the budget only applies to the expenses with this tag */
+  tag?: string;
+};
+
+/**
+ * The budgets of a collective, stored in `settings.budgets`.
+ */
+export type BudgetSettings = {
+  limits: Budget[];
+  onExceed?: BudgetExceededAction;
+};
+
+export type BudgetStatus = Budget & {
+  /** Amount spent over the current period, in cents */
+  spent: number;
+  /** Amount that can still be spent over the current period, in cents. Negative if the budget is exceeded */
+  remaining: number;
+  startsAt: Date;
+  endsAt: Date;
+};
+
+export const BUDGETS_SETTINGS_KEY = 'budgets';
+
+const PERIOD_UNITS: Record<BudgetPeriod, moment.unitOfTime.StartOf> = {
+  [BudgetPeriod.MONTH]: 'month',
+  [BudgetPeriod.QUARTER]: 'quarter',
+  [BudgetPeriod.YEAR]: 'year',
+};
+
+/**
+ * Returns an error message if the budget settings are not valid, false otherwise.
+ */
+export const validateBudgetSettings = (settings: BudgetSettings): string | false => {
+  if (typeof settings !== 'object' || !Array.isArray(settings.limits)) {
+    return 'Invalid type for budgets';
+  } else if (!isNil(settings.onExceed) && !Object.values(BudgetExceededAction).includes(settings.onExceed)) {
+    return `Budgets action must be one of: ${Object.values(BudgetExceededAction).join(', ')}`;
+  }
+
+  const keys = new Set();
+  for (const budget of settings.limits) {
+    if (!Object.values(BudgetPeriod).includes(budget?.period)) {
+      return `Budget period must be one of: ${Object.values(BudgetPeriod).join(', ')}`;
+    } else if (!Number.isInteger(budget.amount) || budget.amount < 0) {
+      return 'Budget amount must be a positive integer';
+    } else if (!isNil(budget.tag) && (typeof budget.tag !== 'string' || !budget.tag)) {
+      return 'Budget tag must be a non-empty string';
+    }
+
+    const key = `${budget.period}-${budget.tag || ''}`;
+    if (keys.has(key)) {
+      return 'There can only be one budget per period and tag';
+    }
+
+    keys.add(key);
+  }
+
+  return false;
+};
+
+/**
+ * Returns the budget settings of the collective, or null if it has no budget. Tags are sanitized
+ * the same way as the expense tags.
+ */
+export const getBudgetSettings = (collective): BudgetSettings | null => {
+  const settings = get(collective, `settings.${BUDGETS_SETTINGS_KEY}`);
+  if (!settings?.limits?.length) {
+    return null;
+  }
+
+  const limits = settings.limits.map(budget =>
+    budget.tag ? { ...budget, tag: sanitizeTags([budget.tag])[0] } : budget,
+  );
+  return { ...settings, limits };
+};
+
+/**
+ * Returns the boundaries of the calendar period (month, quarter or year) that contains `date`
+ */
+export const getBudgetPeriodDates = (
+  period: BudgetPeriod,
+  date: Date = new Date(),
+): { startsAt: Date; endsAt: Date } => {
+  const unit = PERIOD_UNITS[period];
+  return {
+    startsAt: moment.utc(date).startOf(unit).toDate(),
+    endsAt: moment.utc(date).endOf(unit).toDate(),
+  };
+};
+
+/**
+ * Returns the amount spent by the collective on paid expenses between the two dates, in cents in the
+ * currency of the collective. Refunded expenses are not counted.
+ */
+export const getSpentAmount = async (
+  collectiveId: number,
+  startsAt: Date,
+  endsAt: Date,
+  tag: string = null,
+): Promise<number> => {
+  const [result] = await sequelize.query(
+    `
+    SELECT COALESCE(-SUM(t."amount"), 0) AS "spent"
+    FROM "Transactions" t
+    INNER JOIN "Expenses" e ON e.id = t."ExpenseId"
+    WHERE t."CollectiveId" = :collectiveId
+    AND t."type" = 'DEBIT'
+    AND t."deletedAt" IS NULL
+    AND t."RefundTransactionId" IS NULL
+    AND t."createdAt" >= :startsAt
+    AND t."createdAt" <= :endsAt
+    AND e."status" = 'PAID'
+    AND e."deletedAt" IS NULL
+    AND (:tag::varchar IS NULL OR e."tags" @> ARRAY[:tag::varchar])
+  `,
+    {
+      replacements: { collectiveId, startsAt, endsAt, tag },
+      type: sequelize.QueryTypes.SELECT,
+    },
+  );
+
+  return parseInt(result.spent, 10);
+};
+
+/**
+ * Returns the status of all the budgets of the collective for the periods containing `date`
+ */
+export const getBudgetsStatus = async (collective, date: Date = new Date()): Promise<BudgetStatus[]> => {
+  const settings = getBudgetSettings(collective);
+  if (!settings) {
+    return [];
+  }
+
+  return Promise.all(
+    settings.limits.map(async budget => {
+      const { startsAt, endsAt } = getBudgetPeriodDates(budget.period, date);
+      const spent = await getSpentAmount(collective.id, startsAt, endsAt, budget.tag);
+      return { ...budget, spent, remaining: budget.amount - spent, startsAt, endsAt };
+    }),
+  );
+};
+
+/**
+ * Returns the budgets of the collective that would be exceeded by spending `amount` (in cents, in the
+ * currency of the expense) on this expense. Budgets defined for a tag only apply to the expenses with this tag.
+ */
+export const getExceededBudgets = async (collective, expense, amount: number): Promise<BudgetStatus[]> => {
+  const budgetsStatus = await getBudgetsStatus(collective);
+  const fxRate = await getFxRate(expense.currency, collective.currency);
+  const amountInCollectiveCurrency = Math.round(amount * fxRate);
+  return budgetsStatus.filter(budget => {
+    return (!budget.tag || (expense.tags || []).includes(budget.tag)) && amountInCollectiveCurrency > budget.remaining;
+  });
+};
+
+/**
+ * Returns a human-readable message for a budget exceeded by an expense
+ */
+export const getBudgetExceededMessage = (collective, budget: BudgetStatus): string => {
+  const period = PERIOD_UNITS[budget.period];
+  const remaining = formatCurrency(Math.max(budget.remaining, 0), collective.currency, 2);
+  const tagInfo = budget.tag ? ` for "${budget.tag}"` : '';
+  return `This expense exceeds the ${period}ly budget${tagInfo} of ${collective.name} (${remaining} remaining)`;
+};
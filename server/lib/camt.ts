@@ -0,0 +1,113 @@
+import { promisify } from 'util';
+
+import { castArray, get } from 'lodash';
+import xml2js from 'xml2js';
+
+import { floatAmountToCents } from './math';
+
+/**
+ * A line of a bank statement. Entries booked as a batch are split into one line per transaction
+ * when the bank provides the details.
+ */
+export type BankStatementEntry = {
+  /** In cents, always positive */
+  amount: number;
+  currency: string;
+  direction: 'CREDIT' | 'DEBIT';
+  /** Whether the entry is booked, pending entries can still change */
+  isBooked: boolean;
+  bookingDate: Date | null;
+  valueDate: Date | null;
+  /** The unique reference of the entry given by the bank */
+  bankReference: string | null;
+  /** The reference set by the initiator of the payment, ie. in a pain.001 file */
+  endToEndId: string | null;
+  remittanceInformation: string | null;
+  counterpartyName: string | null;
+  counterpartyIban: string | null;
+};
+
+const parseXml = promisify(xml2js.parseString);
+
+const getText = (node, path: string): string | null => {
+  const value = get(node, path);
+  if (value === undefined || value === null) {
+    return null;
+  } else if (typeof value === 'object') {
+    return value._ !== undefined ? String(value._).trim() : null;
+  } else {
+    return String(value).trim();
+  }
+};
+
+const getDate = (node, path: string): Date | null => {
+  const value = getText(node, `${path}.Dt`) || getText(node, `${path}.DtTm`);
+  return value ? new Date(value) : null;
+};
+
+/** `EndToEndId` is set to this value when the initiator didn't provide any */
+const MISSING_END_TO_END_ID = 'NOTPROVIDED';
+
+const parseEntry = (entry): BankStatementEntry[] => {
+  const isCredit = getText(entry, 'CdtDbtInd') === 'CRDT';
+  // Status is a code since camt.053.001.08, a string before
+  const status = getText(entry, 'Sts.Cd') || getText(entry, 'Sts');
+  const baseEntry = {
+    amount: floatAmountToCents(parseFloat(getText(entry, 'Amt'))),
+    currency: get(entry, 'Amt.$.Ccy'),
+    direction: isCredit ? ('CREDIT' as const) : ('DEBIT' as const),
+    isBooked: status === 'BOOK',
+    bookingDate: getDate(entry, 'BookgDt'),
+    valueDate: getDate(entry, 'ValDt'),
+    bankReference: getText(entry, 'AcctSvcrRef'),
+  };
+
+  const transactions = castArray(get(entry, 'NtryDtls', [])).flatMap(details => castArray(get(details, 'TxDtls', [])));
+  if (!transactions.length) {
+    transactions.push({});
+  }
+
+  return transactions.map(transaction => {
+    const counterparty = isCredit ? 'Dbtr' : 'Cdtr';
+    const endToEndId = getText(transaction, 'Refs.EndToEndId');
+    const transactionAmount = getText(transaction, 'AmtDtls.TxAmt.Amt') || getText(transaction, 'Amt');
+    return {
+      ...baseEntry,
+      amount: transactionAmount ? floatAmountToCents(parseFloat(transactionAmount)) : baseEntry.amount,
+      currency: get(transaction, 'AmtDtls.TxAmt.Amt.$.Ccy') || get(transaction, 'Amt.$.Ccy') || baseEntry.currency,
+      endToEndId: endToEndId && endToEndId !== MISSING_END_TO_END_ID ? endToEndId : null,
+      remittanceInformation:
+        castArray(get(transaction, 'RmtInf.Ustrd', []))
+          .map(line => String(line).trim())
+          .join(' ') || getText(entry, 'AddtlNtryInf'),
+      counterpartyName:
+        getText(transaction, `RltdPties.${counterparty}.Nm`) ||
+        getText(transaction, `RltdPties.${counterparty}.Pty.Nm`),
+      counterpartyIban: getText(transaction, `RltdPties.${counterparty}Acct.Id.IBAN`),
+    };
+  });
+};
+
+/**
+ * Parses an ISO 20022 bank statement (camt.053) or debit/credit notification (camt.054)
+ * and returns all its entries.
+ */
+export const parseCamtStatement = async (content: string): Promise<BankStatementEntry[]> => {
+  let document;
+  try {
+    const result = await parseXml(content, {
+      explicitArray: false,
+      tagNameProcessors: [xml2js.processors.stripPrefix],
+    });
+    document = result?.Document;
+  } catch (e) {
+    throw new Error(`Invalid XML file: ${e.message}`);
+  }
+
+  const reports = document?.BkToCstmrStmt?.Stmt || document?.BkToCstmrDbtCdtNtfctn?.Ntfctn;
+  if (!reports) {
+    throw new Error('Only camt.053 and camt.054 files are supported');
+  }
+
+  return castArray(reports).flatMap(report => castArray(get(report, 'Ntry', [])).flatMap(parseEntry));
+};
@@ -0,0 +1,81 @@
+import { get, isNil, pickBy } from 'lodash';
+
+import { sanitizeTags } from './tags';
+
+/**
+ * The general ledger accounts used for each kind of movement, identified by their name or code
+ * in the accounting software of the host.
+ */
+export type ChartOfAccounts = {
+  /** The bank account where the funds are held */
+  bank: string;
+  contributions: string;
+  hostFees: string;
+  platformFees: string;
+  paymentProcessorFees: string;
+  /** Used for the expenses that don't have a tag mapped in `expensesByTag` */
+  expenses: string;
+  expensesByTag?: Record<string, string>;
+  refunds: string;
+};
+
+/**
+ * The accounting settings of a host, stored in `settings.accounting`.
+ */
+export type AccountingSettings = {
+  chartOfAccounts?: Partial<ChartOfAccounts>;
+};
+
+export const ACCOUNTING_SETTINGS_KEY = 'accounting';
+
+export const DEFAULT_CHART_OF_ACCOUNTS: ChartOfAccounts = {
+  bank: 'Bank',
+  contributions: 'Contributions',
+  hostFees: 'Host Fees',
+  platformFees: 'Platform Fees',
+  paymentProcessorFees: 'Payment Processor Fees',
+  expenses: 'Expenses',
+  expensesByTag: {},
+  refunds: 'Refunds',
+};
+
+/**
+ * Returns an error message if the accounting settings are not valid, false otherwise.
+ */
+export const validateAccountingSettings = (settings: AccountingSettings): string | false => {
+  if (typeof settings !== 'object' || settings === null) {
+    return 'Invalid type for accounting settings';
+  } else if (isNil(settings.chartOfAccounts)) {
+    return false;
+  } else if (typeof settings.chartOfAccounts !== 'object') {
+    return 'Invalid type for the chart of accounts';
+  }
+
+  for (const [key, account] of Object.entries(settings.chartOfAccounts)) {
+    if (key === 'expensesByTag') {
+      const accounts = typeof account === 'object' && account !== null ? Object.values(account) : null;
+      if (!accounts || accounts.some(value => !value || typeof value !== 'string')) {
+        return 'The accounts of the expenses by tag must be non-empty strings';
+      }
+    } else if (!Object.keys(DEFAULT_CHART_OF_ACCOUNTS).includes(key)) {
+      return `Unknown account in the chart of accounts: ${key}`;
+    } else if (!account || typeof account !== 'string') {
+      return `The ${key} account must be a non-empty string`;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Returns the chart of accounts of the host, with the default accounts for the ones that are not configured.
+ * Tags are sanitized the same way as the expense tags.
+ */
+export const getChartOfAccounts = (host): ChartOfAccounts => {
+  const chartOfAccounts = get(host, `settings.${ACCOUNTING_SETTINGS_KEY}.chartOfAccounts`) || {};
+  const expensesByTag = Object.entries(chartOfAccounts.expensesByTag || {}).reduce((result, [tag, account]) => {
+    return { ...result, [sanitizeTags([tag])[0]]: account };
+  }, {});
+
+  return { ...DEFAULT_CHART_OF_ACCOUNTS, ...pickBy(chartOfAccounts, Boolean), expensesByTag };
+};
@@ -4,8 +4,12 @@ import { get, pick } from 'lodash';
 
 import { types as CollectiveTypes } from '../constants/collectives';
 import { MODERATION_CATEGORIES } from '../constants/moderation-categories';
+import { TransferwiseSourceCurrencyStrategy } from '../constants/transferwise';
 import { VAT_OPTIONS } from '../constants/vat';
 
+import { validateBudgetSettings } from './budgets';
+import { validateAccountingSettings } from './chart-of-accounts';
+import { validateExpenseApprovalPolicy } from './expense-approval-policies';
 import logger from './logger';
 import { md5 } from './utils';
 
@@ -35,14 +39,17 @@ export const getCollectiveAvatarUrl = (collectiveSlug, collectiveType, image, ar
 };
 
 export const COLLECTIVE_SETTINGS_KEYS_LIST = [
+  'accounting',
   'apply',
   'bitcoin',
+  'budgets',
   'categories',
   'collectivePage',
   'disableCustomContributions',
   'dismissedHelpMessages',
   'editor',
   'enableWebhooks',
+  'expenseApprovalPolicy',
   'features',
   'feesOnTop',
   'fund',
@@ -62,11 +69,13 @@ export const COLLECTIVE_SETTINGS_KEYS_LIST = [
   'matchingFund',
   'moderation',
   'paymentMethods',
+  'payoutBatches',
   'recommendedCollectives',
   'style',
   'superCollectiveTag',
   'taxDeductibleDonations',
   'tos',
+  'transferwise',
   'twitter',
   'VAT',
   'GST',
@@ -123,6 +132,34 @@ export function validateSettings(settings) {
     }
   }
 
+  if (settings.expenseApprovalPolicy) {
+    const policyError = validateExpenseApprovalPolicy(settings.expenseApprovalPolicy);
+    if (policyError) {
+      return policyError;
+    }
+  }
+
+  if (settings.budgets) {
+    const budgetsError = validateBudgetSettings(settings.budgets);
+    if (budgetsError) {
+      return budgetsError;
+    }
+  }
+
+  if (settings.accounting) {
+    const accountingError = validateAccountingSettings(settings.accounting);
+    if (accountingError) {
+      return accountingError;
+    }
+  }
+
+  if (settings.transferwise?.sourceCurrencyStrategy) {
+    const strategies = Object.values(TransferwiseSourceCurrencyStrategy);
+    if (!strategies.includes(settings.transferwise.sourceCurrencyStrategy)) {
+      return `TransferWise source currency strategy must be one of: ${strategies.join(', ')}`;
+    }
+  }
+
   if (settings.moderation?.rejectedCategories) {
     const categories = get(settings, 'moderation.rejectedCategories');
     for (const category of categories) {
@@ -31,11 +31,15 @@ export const templateNames = [
   'collective.expense.approved',
   'collective.expense.approved.for.host',
   'collective.expense.created',
+  'collective.expense.invite.drafted',
   'collective.expense.processing',
   'collective.expense.error',
   'collective.expense.error.for.host',
   'collective.expense.paid',
   'collective.expense.paid.for.host',
+  'collective.expense.payoutCancelled',
+  'collective.expense.unclaimed',
+  'collective.expense.unclaimed.for.host',
   'collective.member.created',
   'collective.monthlyreport',
   'collective.monthlyreport.text',
@@ -0,0 +1,143 @@
+import { findLast, isNil, sum, sumBy, uniq } from 'lodash';
+
+import { roles } from '../constants';
+import models from '../models';
+
+/** Allocation as provided by users. Exactly one of `amount` or `percentage` must be set. */
+export type ExpenseAllocationData = {
+  CollectiveId: number;
+  amount?: number | null;
+  percentage?: number | null;
+};
+
+/** The share of an expense paid by a single collective */
+export type ExpenseAllocationShare = {
+  CollectiveId: number;
+  amount: number;
+  percentage: number | null;
+};
+
+/**
+ * Validates the allocations of an expense and computes the amount of each of them. Amounts computed
+ * from percentages are rounded, the remainder going to the last allocation defined with a percentage.
+ *
+ * @param collective: the collective the expense was submitted to
+ * @param expenseAmount: the total amount of the expense
+ * @throws if allocations are not valid
+ */
+export const computeExpenseAllocations = async (
+  collective,
+  expenseAmount: number,
+  allocationsData: ExpenseAllocationData[] | null,
+): Promise<ExpenseAllocationShare[]> => {
+  if (!allocationsData?.length) {
+    return [];
+  } else if (!collective.HostCollectiveId || !collective.approvedAt) {
+    throw new Error('Only hosted collectives can split expenses with other collectives');
+  }
+
+  for (const allocation of allocationsData) {
+    if (isNil(allocation.amount) === isNil(allocation.percentage)) {
+      throw new Error('Each allocation must define either an amount or a percentage');
+    } else if (!isNil(allocation.amount) && (!Number.isInteger(allocation.amount) || allocation.amount <= 0)) {
+      throw new Error('Allocated amounts must be positive');
+    } else if (!isNil(allocation.percentage) && (allocation.percentage <= 0 || allocation.percentage > 100)) {
+      throw new Error('Allocated percentages must be between 0 and 100');
+    }
+  }
+
+  const collectiveIds = uniq(allocationsData.map(allocation => allocation.CollectiveId));
+  if (collectiveIds.length !== allocationsData.length) {
+    throw new Error('A collective can only be allocated once per expense');
+  }
+
+  const collectives = await models.Collective.findAll({ where: { id: collectiveIds } });
+  if (
+    collectives.length !== collectiveIds.length ||
+    collectives.some(c => c.HostCollectiveId !== collective.HostCollectiveId || !c.approvedAt)
+  ) {
+    throw new Error('All the allocated collectives must be hosted by the same host as the expense collective');
+  } else if (collectives.some(c => c.currency !== collective.currency)) {
+    throw new Error('All the allocated collectives must use the same currency as the expense');
+  }
+
+  const allocations = allocationsData.map(allocation => ({
+    CollectiveId: allocation.CollectiveId,
+    percentage: isNil(allocation.percentage) ? null : allocation.percentage,
+    amount: isNil(allocation.amount) ? Math.round((expenseAmount * allocation.percentage) / 100) : allocation.amount,
+  }));
+
+  // Compensate rounding errors on percentages
+  const remainder = expenseAmount - sumBy(allocations, 'amount');
+  const lastAllocationWithPercentage = findLast(allocations, allocation => allocation.percentage !== null);
+  if (remainder && lastAllocationWithPercentage && Math.abs(remainder) < allocations.length) {
+    lastAllocationWithPercentage.amount += remainder;
+  }
+
+  if (sumBy(allocations, 'amount') !== expenseAmount) {
+    throw new Error('The sum of all allocations must be equal to the amount of the expense');
+  }
+
+  return allocations;
+};
+
+/**
+ * Returns how the expense is split between collectives. Expenses that are not split are entirely
+ * allocated to their collective.
+ */
+export const getExpenseAllocations = async (expense): Promise<ExpenseAllocationShare[]> => {
+  const allocations = await models.ExpenseAllocation.findAll({
+    where: { ExpenseId: expense.id },
+    order: [['id', 'ASC']],
+  });
+
+  if (!allocations.length) {
+    return [{ CollectiveId: expense.CollectiveId, amount: expense.amount, percentage: null }];
+  }
+
+  return allocations.map(({ CollectiveId, amount, percentage }) => ({ CollectiveId, amount, percentage }));
+};
+
+/**
+ * Splits an amount (ie. fees) between allocations, proportionally to their share of the expense.
+ * The rounding remainder goes to the last allocation.
+ */
+export const splitAmountBetweenAllocations = (amount: number, allocations: ExpenseAllocationShare[]): number[] => {
+  const total = sumBy(allocations, 'amount');
+  const shares = allocations.map(allocation => (total ? Math.round((amount * allocation.amount) / total) : 0));
+  shares[shares.length - 1] += amount - sum(shares);
+  return shares;
+};
+
+/**
+ * Returns the IDs of the allocated collectives that didn't get an approval from one of their admins yet.
+ * The submitter of the expense never counts as an approver.
+ */
+export const getAllocatedCollectivesMissingApproval = async (
+  expense,
+  approvals: Array<{ UserId: number }>,
+): Promise<number[]> => {
+  const allocations = await models.ExpenseAllocation.findAll({
+    where: { ExpenseId: expense.id },
+    attributes: ['CollectiveId'],
+  });
+
+  const collectiveIds = allocations.map(allocation => allocation.CollectiveId);
+  const approversIds = approvals.map(approval => approval.UserId).filter(id => id !== expense.UserId);
+  if (!collectiveIds.length || !approversIds.length) {
+    return collectiveIds;
+  }
+
+  const approvers = await models.User.findAll({ where: { id: approversIds }, attributes: ['id', 'CollectiveId'] });
+  const adminMemberships = await models.Member.findAll({
+    attributes: ['CollectiveId'],
+    where: {
+      role: roles.ADMIN,
+      CollectiveId: collectiveIds,
+      MemberCollectiveId: approvers.map(user => user.CollectiveId),
+    },
+  });
+
+  const approvedCollectiveIds = new Set(adminMemberships.map(member => member.CollectiveId));
+  return collectiveIds.filter(id => !approvedCollectiveIds.has(id));
+};
@@ -0,0 +1,108 @@
+import { get, isNil, partition } from 'lodash';
+
+import expenseType from '../constants/expense_type';
+
+/**
+ * An approval policy, stored in `settings.expenseApprovalPolicy` for hosts and collectives.
+ */
+export type ExpenseApprovalPolicy = {
+  /** Number of distinct approvers required to approve an expense */
+  minApprovers?: number;
+  /** If set, `minApprovers` only applies to expenses with an amount greater or equal to this value */
+  minApproversThreshold?: number;
+  /** Whether invoices must be approved by at least one host admin */
+  requireHostAdminForInvoices?: boolean;
+};
+
+/** The approvals that are still needed before an expense can be marked as approved */
+export type ExpenseMissingApprovals = {
+  /** Number of additional distinct approvers needed */
+  approvers: number;
+  /** Whether an approval from a host admin is still needed */
+  hostAdmin: boolean;
+  /** For split expenses, the IDs of the allocated collectives still waiting for an approval from one of their admins */
+  collectives?: number[];
+};
+
+export const EXPENSE_APPROVAL_POLICY_SETTINGS_KEY = 'expenseApprovalPolicy';
+
+/**
+ * Returns an error message if the policy is not valid, false otherwise.
+ */
+export const validateExpenseApprovalPolicy = (policy: ExpenseApprovalPolicy): string | false => {
+  if (typeof policy !== 'object') {
+    return 'Invalid type for expense approval policy';
+  } else if (!isNil(policy.minApprovers) && (!Number.isInteger(policy.minApprovers) || policy.minApprovers < 1)) {
+    return 'The minimum number of approvers must be a positive integer';
+  } else if (
+    !isNil(policy.minApproversThreshold) &&
+    (!Number.isInteger(policy.minApproversThreshold) || policy.minApproversThreshold < 0)
+  ) {
+    return 'The approvers threshold must be a positive amount';
+  } else if (!isNil(policy.requireHostAdminForInvoices) && typeof policy.requireHostAdminForInvoices !== 'boolean') {
+    return 'Invalid value for requireHostAdminForInvoices';
+  } else {
+    return false;
+  }
+};
+
+/**
+ * Merges the policies defined by the host and the collective, keeping the strictest rule
+ * for each field. Returns null if none of them define a policy.
+ */
+export const getExpenseApprovalPolicy = (collective, host): ExpenseApprovalPolicy | null => {
+  const policies = [collective, host]
+    .map(account => get(account, `settings.${EXPENSE_APPROVAL_POLICY_SETTINGS_KEY}`))
+    .filter(Boolean);
+
+  if (!policies.length) {
+    return null;
+  }
+
+  return policies.reduce((result, policy) => {
+    const minApprovers = Math.max(result.minApprovers || 1, policy.minApprovers || 1);
+    const thresholds = [result.minApproversThreshold, policy.minApproversThreshold].filter(t => !isNil(t));
+    return {
+      minApprovers,
+      minApproversThreshold: thresholds.length ? Math.min(...thresholds) : undefined,
+      requireHostAdminForInvoices: Boolean(result.requireHostAdminForInvoices || policy.requireHostAdminForInvoices),
+    };
+  }, {});
+};
+
+/**
+ * Computes the approvals that are still missing for this expense.
+ *
+ * @param expense: the expense, with at least `amount`, `type` and `UserId`
+ * @param approvals: the list of `ExpenseApproval` recorded for this expense
+ * @param policy: the policy returned by `getExpenseApprovalPolicy`
+ */
+export const getMissingApprovals = (
+  expense,
+  approvals: Array<{ UserId: number | null; isHostAdmin: boolean }>,
+  policy: ExpenseApprovalPolicy | null,
+): ExpenseMissingApprovals => {
+  // Without policy, a single approval is enough, even from the submitter (like before policies existed)
+  if (!policy) {
+    return { approvers: approvals.length > 0 ? 0 : 1, hostAdmin: false };
+  }
+
+  // With a policy, the submitter can never count as an approver
+  const validApprovals = approvals.filter(approval => approval.UserId !== expense.UserId);
+  // Approvals from deleted users (without UserId) still count, each as a different approver
+  const [approvalsFromUsers, approvalsFromDeletedUsers] = partition(validApprovals, approval => approval.UserId);
+  const nbApprovers =
+    new Set(approvalsFromUsers.map(approval => approval.UserId)).size + approvalsFromDeletedUsers.length;
+
+  const isAboveThreshold = isNil(policy.minApproversThreshold) || expense.amount >= policy.minApproversThreshold;
+  const requiredApprovers = isAboveThreshold ? policy.minApprovers || 1 : 1;
+  const needsHostAdmin = Boolean(policy.requireHostAdminForInvoices) && expense.type === expenseType.INVOICE;
+  return {
+    approvers: Math.max(requiredApprovers - nbApprovers, 0),
+    hostAdmin: needsHostAdmin && !validApprovals.some(approval => approval.isHostAdmin),
+  };
+};
+
+export const isFullyApproved = (missingApprovals: ExpenseMissingApprovals): boolean => {
+  return missingApprovals.approvers === 0 && !missingApprovals.hostAdmin && !missingApprovals.collectives?.length;
+};
@@ -0,0 +1,145 @@
+import moment from 'moment';
+import { Op } from 'sequelize';
+
+import status from '../constants/expense_status';
+import models, { sequelize } from '../models';
+import { ExpenseDuplicate, ExpenseDuplicateReason } from '../models/ExpenseDuplicate';
+
+import { getUploadedFileHash } from './awsS3';
+import logger from './logger';
+
+/** Only the expenses submitted in this time frame are compared */
+const LOOKBACK_PERIOD_IN_DAYS = 180;
+
+/** Minimum ratio of common words for descriptions to be considered similar */
+const DESCRIPTION_SIMILARITY_THRESHOLD = 0.8;
+
+/** Lowercase, without accents and punctuation */
+export const normalizeDescription = (description: string | null): string => {
+  return (description || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+/** Returns the ratio of words in common between the two descriptions, between 0 and 1 */
+export const getDescriptionsSimilarity = (description1: string | null, description2: string | null): number => {
+  const words1 = new Set(normalizeDescription(description1).split(' ').filter(Boolean));
+  const words2 = new Set(normalizeDescription(description2).split(' ').filter(Boolean));
+  const allWords = new Set([...words1, ...words2]);
+  if (!allWords.size) {
+    return 0;
+  }
+
+  const commonWords = [...words1].filter(word => words2.has(word));
+  return commonWords.length / allWords.size;
+};
+
+/**
+ * Compares two expenses and their items.
+ * @returns the reasons why `expense` could be a duplicate of `otherExpense`
+ */
+export const getDuplicateReasons = (expense, items, otherExpense, otherItems): ExpenseDuplicateReason[] => {
+  const reasons = [];
+  if (expense.amount === otherExpense.amount && expense.currency === otherExpense.currency) {
+    reasons.push(ExpenseDuplicateReason.SAME_AMOUNT);
+  }
+
+  const getDays = (e, itemsList): string[] => {
+    return [e.incurredAt, ...itemsList.map(item => item.incurredAt)].filter(Boolean).map(date => {
+      return moment.utc(date).format('YYYY-MM-DD');
+    });
+  };
+  const otherDays = getDays(otherExpense, otherItems);
+  if (getDays(expense, items).some(day => otherDays.includes(day))) {
+    reasons.push(ExpenseDuplicateReason.SAME_DATE);
+  }
+
+  if (getDescriptionsSimilarity(expense.description, otherExpense.description) >= DESCRIPTION_SIMILARITY_THRESHOLD) {
+    reasons.push(ExpenseDuplicateReason.SIMILAR_DESCRIPTION);
+  }
+
+  const otherHashes = otherItems.map(item => item.fileHash).filter(Boolean);
+  if (items.some(item => item.fileHash && otherHashes.includes(item.fileHash))) {
+    reasons.push(ExpenseDuplicateReason.SAME_FILE);
+  }
+
+  return reasons;
+};
+
+/**
+ * The same file is a strong signal. Otherwise, the amount must match with either the date or the description.
+ */
+export const isPossibleDuplicate = (reasons: ExpenseDuplicateReason[]): boolean => {
+  return (
+    reasons.includes(ExpenseDuplicateReason.SAME_FILE) ||
+    (reasons.includes(ExpenseDuplicateReason.SAME_AMOUNT) &&
+      (reasons.includes(ExpenseDuplicateReason.SAME_DATE) ||
+        reasons.includes(ExpenseDuplicateReason.SIMILAR_DESCRIPTION)))
+  );
+};
+
+/** Stores the hash of the items files, if we don't have it already */
+const updateItemsFileHashes = async (items): Promise<void> => {
+  for (const item of items) {
+    if (item.url && !item.fileHash) {
+      try {
+        const fileHash = await getUploadedFileHash(item.url);
+        if (fileHash) {
+          await item.update({ fileHash });
+        }
+      } catch (e) {
+        logger.warn(`Unable to get the hash of expense item #${item.id} file: ${e.message}`);
+      }
+    }
+  }
+};
+
+/**
+ * Compares the expense with the recent expenses of the same payee and host, and records the ones
+ * it may be a duplicate of. Previous records for this expense are replaced.
+ */
+export const checkExpenseForDuplicates = async (expense): Promise<ExpenseDuplicate[]> => {
+  const collective = expense.collective || (await models.Collective.findByPk(expense.CollectiveId));
+  const items = await models.ExpenseItem.findAll({ where: { ExpenseId: expense.id } });
+  await updateItemsFileHashes(items);
+
+  const otherExpenses = await models.Expense.findAll({
+    where: {
+      id: { [Op.ne]: expense.id },
+      FromCollectiveId: expense.FromCollectiveId,
+      status: { [Op.notIn]: [status.DRAFT, status.REJECTED] },
+      createdAt: { [Op.gte]: moment(expense.createdAt).subtract(LOOKBACK_PERIOD_IN_DAYS, 'days').toDate() },
+    },
+    include: [
+      { association: 'items' },
+      {
+        association: 'collective',
+        attributes: [],
+        required: true,
+        where: collective.HostCollectiveId ? { HostCollectiveId: collective.HostCollectiveId } : { id: collective.id },
+      },
+    ],
+  });
+
+  const duplicates = otherExpenses
+    .map(otherExpense => ({
+      otherExpense,
+      reasons: getDuplicateReasons(expense, items, otherExpense, otherExpense.items),
+    }))
+    .filter(({ reasons }) => isPossibleDuplicate(reasons));
+
+  return sequelize.transaction(async transaction => {
+    await models.ExpenseDuplicate.destroy({ where: { ExpenseId: expense.id }, transaction });
+    return Promise.all(
+      duplicates.map(({ otherExpense, reasons }) =>
+        models.ExpenseDuplicate.create(
+          { ExpenseId: expense.id, DuplicateExpenseId: otherExpense.id, reasons },
+          { transaction },
+        ),
+      ),
+    );
+  });
+};
@@ -0,0 +1,108 @@
+import { isNil } from 'lodash';
+
+import models from '../models';
+import { ExpenseItemFxRateSource } from '../models/ExpenseItem';
+
+import { getFxRate } from './currency';
+import { isReceiptParserEnabled, parseReceipt } from './receipt-parser';
+import { formatCurrency } from './utils';
+
+const getTime = (date: string | Date | null | undefined): number => {
+  return date ? new Date(date).getTime() : null;
+};
+
+/**
+ * Converts the items submitted in a foreign currency to the currency of the expense, using the FX rate
+ * at the date on which each item was incurred. Items in a foreign currency are submitted with a `currency`,
+ * their `amount` being expressed in this currency.
+ *
+ * The rate of existing items is re-used as long as their original amount, currency and date don't change.
+ *
+ * @param itemsData: the items, as submitted by the user
+ * @param currency: the currency of the expense
+ * @param existingItems: the current items of the expense, if it's being edited
+ * @returns the items with `amount` in the expense currency, and the FX fields set
+ */
+export const convertExpenseItemsData = async (
+  itemsData: Record<string, any>[],
+  currency: string,
+  existingItems = [],
+): Promise<Record<string, any>[]> => {
+  const convertedItems = [];
+  for (const { currency: itemCurrency, ...itemData } of itemsData) {
+    if (!itemCurrency || itemCurrency === currency) {
+      const noConversion = { originalCurrency: null, originalAmount: null, fxRate: null, fxRateSource: null };
+      convertedItems.push({ ...itemData, ...noConversion });
+      continue;
+    } else if (isNil(itemData.amount)) {
+      throw new Error('Items submitted in a foreign currency must have an amount');
+    }
+
+    const incurredAt = itemData.incurredAt || new Date();
+    const existingItem = itemData.id && existingItems.find(item => item.id === itemData.id);
+    let fxRate, fxRateSource;
+    if (
+      existingItem?.fxRate &&
+      existingItem.originalCurrency === itemCurrency &&
+      existingItem.originalAmount === itemData.amount &&
+      getTime(existingItem.incurredAt) === getTime(incurredAt)
+    ) {
+      ({ fxRate, fxRateSource } = existingItem);
+    } else {
+      // `getFxRate` mutates the date, so we give it a copy
+      fxRate = await getFxRate(itemCurrency, currency, new Date(incurredAt));
+      fxRateSource = ExpenseItemFxRateSource.FIXER;
+    }
+
+    convertedItems.push({
+      ...itemData,
+      amount: Math.round(itemData.amount * fxRate),
+      originalCurrency: itemCurrency,
+      originalAmount: itemData.amount,
+      fxRate,
+      fxRateSource,
+    });
+  }
+
+  return convertedItems;
+};
+
+/**
+ * Parses the receipts of the items that were added or whose file changed, and stores the proposed
+ * data on the items. Meant to be run in the background after the expense has been saved.
+ */
+export const updateExpenseItemsReceiptData = async (expenseId: number): Promise<void> => {
+  if (!isReceiptParserEnabled()) {
+    return;
+  }
+
+  const items = await models.ExpenseItem.findAll({ where: { ExpenseId: expenseId } });
+  for (const item of items) {
+    if (!item.url && item.receiptData) {
+      await item.update({ receiptData: null });
+    } else if (item.url && item.receiptData?.url !== item.url) {
+      await item.update({ receiptData: await parseReceipt(item.url) });
+    }
+  }
+};
+
+/**
+ * Returns warnings for the user if the data extracted from the receipt doesn't match the item.
+ * Receipts in another currency than the item's one are not compared.
+ * @param expenseCurrency: the currency of the expense, used for items that were not converted
+ */
+export const getReceiptDataWarnings = (item, expenseCurrency: string): string[] => {
+  const receiptData = item.receiptData;
+  const itemCurrency = item.originalCurrency || expenseCurrency;
+  const itemAmount = item.originalCurrency ? item.originalAmount : item.amount;
+  if (!receiptData || !item.url || receiptData.url !== item.url || isNil(receiptData.amount)) {
+    return [];
+  } else if (receiptData.currency && receiptData.currency !== itemCurrency) {
+    return [];
+  } else if (receiptData.amount !== itemAmount) {
+    const receiptAmount = formatCurrency(receiptData.amount, itemCurrency, 2);
+    return [`The total of the receipt (${receiptAmount}) doesn't match the amount of the item`];
+  } else {
+    return [];
+  }
+};
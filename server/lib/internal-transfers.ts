@@ -0,0 +1,91 @@
+import status from '../constants/order_status';
+import { PAYMENT_METHOD_SERVICE, PAYMENT_METHOD_TYPE } from '../constants/paymentMethods';
+import models from '../models';
+
+import { getFxRate } from './currency';
+import { processOrder } from './payments';
+import { sanitizeTags, validateTags } from './tags';
+import { formatCurrency } from './utils';
+
+type InternalTransfer = {
+  /** In cents, in the currency of the recipient */
+  amount: number;
+  reason: string;
+  tags?: string[];
+};
+
+/**
+ * Moves money between two collectives of the same host. The transfer is recorded as an order paid
+ * with the `collective` payment method of the source, which creates a DEBIT/CREDIT pair without
+ * host or platform fees. Permissions must be checked by the caller.
+ */
+export const createInternalTransfer = async (
+  fromCollective,
+  collective,
+  { amount, reason, tags }: InternalTransfer,
+  user,
+): Promise<typeof models.Order> => {
+  if (fromCollective.id === collective.id) {
+    throw new Error('Cannot transfer money to the same account');
+  } else if (!fromCollective.HostCollectiveId || !fromCollective.isActive) {
+    throw new Error('Internal transfers can only be made from an active account with a host');
+  } else if (fromCollective.HostCollectiveId !== collective.HostCollectiveId || !collective.isActive) {
+    throw new Error('Internal transfers can only be made between active accounts of the same host');
+  } else if (amount <= 0) {
+    throw new Error('The amount must be positive');
+  } else if (!reason?.trim()) {
+    throw new Error('A reason must be provided');
+  }
+
+  validateTags(tags);
+  const paymentMethod = await models.PaymentMethod.findOne({
+    where: {
+      CollectiveId: fromCollective.id,
+      service: PAYMENT_METHOD_SERVICE.OPENCOLLECTIVE,
+      type: PAYMENT_METHOD_TYPE.COLLECTIVE,
+    },
+  });
+
+  if (!paymentMethod) {
+    throw new Error(`${fromCollective.name} has no balance to transfer from`);
+  }
+
+  // The amount is in the currency of the recipient, the balance in the currency of the source
+  const fxRate = await getFxRate(collective.currency, fromCollective.currency);
+  const balance = await fromCollective.getBalance();
+  if (balance < Math.round(amount * fxRate)) {
+    throw new Error(
+      `Not enough funds available (${formatCurrency(
+        balance,
+        fromCollective.currency,
+      )} left) to transfer ${formatCurrency(amount, collective.currency)}`,
+    );
+  }
+
+  const order = await models.Order.create({
+    CreatedByUserId: user.id,
+    FromCollectiveId: fromCollective.id,
+    CollectiveId: collective.id,
+    PaymentMethodId: paymentMethod.id,
+    totalAmount: amount,
+    currency: collective.currency,
+    description: reason.trim(),
+    status: status.NEW,
+    data: {
+      hostFeePercent: 0,
+      platformFeePercent: 0,
+      isInternalTransfer: true,
+      tags: sanitizeTags(tags || []),
+    },
+  });
+
+  try {
+    await order.populate();
+    await processOrder(order, {});
+  } catch (error) {
+    await order.update({ status: status.ERROR, data: { ...order.data, error: { message: error.message } } });
+    throw error;
+  }
+
+  return order.update({ status: status.PAID, processedAt: new Date() });
+};
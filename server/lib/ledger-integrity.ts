@@ -0,0 +1,351 @@
+import { uniq } from 'lodash';
+
+import models, { Op, sequelize } from '../models';
+import {
+  LedgerIntegrityCheckType,
+  LedgerIntegrityFindingStatus,
+  LedgerIntegritySeverity,
+} from '../models/LedgerIntegrityFinding';
+
+import logger from './logger';
+import { difference, netAmount, verify } from './transactions';
+
+/** An issue detected by a check, persisted as a `LedgerIntegrityFinding` */
+export type LedgerIntegrityIssue = {
+  type: LedgerIntegrityCheckType;
+  severity: LedgerIntegritySeverity;
+  /** Identifies the issue among the ones of the same type, to update the existing finding when detected again */
+  key: string;
+  HostCollectiveId: number | null;
+  TransactionIds: number[];
+  message: string;
+  data?: Record<string, any>;
+};
+
+export type LedgerIntegrityCheckOptions = {
+  /** Only check the transactions created or updated since this date */
+  since?: Date;
+};
+
+type LedgerIntegrityCheck = (options: LedgerIntegrityCheckOptions) => Promise<LedgerIntegrityIssue[]>;
+
+export type LedgerIntegrityReport = {
+  /** The open findings detected by this run */
+  findings: any[];
+  /** Number of findings resolved by this run */
+  resolvedCount: number;
+};
+
+/** Number of transactions loaded at once by the checks that need to go through all of them */
+const BATCH_SIZE = 1000;
+
+/** Differences within this amount are most likely rounding errors caused by the decimals of the FX rates */
+const ROUNDING_TOLERANCE = 1;
+
+/** Findings grouping many transactions only keep a sample of their IDs */
+const MAX_TRANSACTION_IDS_PER_FINDING = 1000;
+
+const getSinceCondition = (since: Date | undefined, alias = 't'): string => {
+  return since ? `AND ${alias}."updatedAt" >= :since` : '';
+};
+
+const selectQuery = (query: string, since?: Date): Promise<any[]> => {
+  return sequelize.query(query, { type: sequelize.QueryTypes.SELECT, replacements: { since: since || null } });
+};
+
+/**
+ * Each transaction group must have one CREDIT and one DEBIT. When both are in the same currency,
+ * the amount of one must match the net amount of the other.
+ */
+export const checkTransactionGroups: LedgerIntegrityCheck = async ({ since }) => {
+  const groups = await selectQuery(
+    `
+    SELECT
+      t."TransactionGroup",
+      ARRAY_AGG(t.id ORDER BY t.id) AS "TransactionIds",
+      COALESCE(MAX(t."HostCollectiveId") FILTER (WHERE t.type = 'CREDIT'), MAX(t."HostCollectiveId")) AS "HostCollectiveId",
+      COUNT(*) FILTER (WHERE t.type = 'CREDIT') AS "creditsCount",
+      COUNT(*) FILTER (WHERE t.type = 'DEBIT') AS "debitsCount",
+      COUNT(DISTINCT t.currency) AS "currenciesCount",
+      SUM(t.amount) FILTER (WHERE t.type = 'CREDIT') + SUM(t."netAmountInCollectiveCurrency") FILTER (WHERE t.type = 'DEBIT') AS "creditDifference",
+      SUM(t.amount) FILTER (WHERE t.type = 'DEBIT') + SUM(t."netAmountInCollectiveCurrency") FILTER (WHERE t.type = 'CREDIT') AS "debitDifference"
+    FROM "Transactions" t
+    WHERE t."deletedAt" IS NULL
+    AND t."TransactionGroup" IN (
+      SELECT t."TransactionGroup" FROM "Transactions" t
+      WHERE t."TransactionGroup" IS NOT NULL ${getSinceCondition(since)}
+    )
+    GROUP BY t."TransactionGroup"
+    HAVING COUNT(*) FILTER (WHERE t.type = 'CREDIT') != 1
+    OR COUNT(*) FILTER (WHERE t.type = 'DEBIT') != 1
+    OR (
+      COUNT(DISTINCT t.currency) = 1
+      AND (
+        ABS(SUM(t.amount) FILTER (WHERE t.type = 'CREDIT') + SUM(t."netAmountInCollectiveCurrency") FILTER (WHERE t.type = 'DEBIT')) > ${ROUNDING_TOLERANCE}
+        OR ABS(SUM(t.amount) FILTER (WHERE t.type = 'DEBIT') + SUM(t."netAmountInCollectiveCurrency") FILTER (WHERE t.type = 'CREDIT')) > ${ROUNDING_TOLERANCE}
+      )
+    )
+  `,
+    since,
+  );
+
+  return groups.map(group => {
+    const creditsCount = parseInt(group.creditsCount, 10);
+    const debitsCount = parseInt(group.debitsCount, 10);
+    const isPair = creditsCount === 1 && debitsCount === 1;
+    return {
+      type: LedgerIntegrityCheckType.TRANSACTION_GROUP_NOT_BALANCED,
+      severity: LedgerIntegritySeverity.ERROR,
+      key: group.TransactionGroup,
+      HostCollectiveId: group.HostCollectiveId,
+      TransactionIds: group.TransactionIds,
+      message: isPair
+        ? `The amounts of transaction group ${group.TransactionGroup} are not symmetrical`
+        : `Transaction group ${group.TransactionGroup} has ${creditsCount} CREDIT(s) and ${debitsCount} DEBIT(s)`,
+      data: {
+        TransactionGroup: group.TransactionGroup,
+        creditsCount,
+        debitsCount,
+        creditDifference: group.creditDifference === null ? null : parseInt(group.creditDifference, 10),
+        debitDifference: group.debitDifference === null ? null : parseInt(group.debitDifference, 10),
+      },
+    };
+  });
+};
+
+/**
+ * Refunds and refunded transactions must point to each other with `RefundTransactionId`
+ */
+export const checkRefundLinks: LedgerIntegrityCheck = async ({ since }) => {
+  const transactions = await selectQuery(
+    `
+    SELECT t.id, t."HostCollectiveId", t."RefundTransactionId", t."isRefund", r.id AS "linkedTransactionId", r."RefundTransactionId" AS "linkedRefundTransactionId"
+    FROM "Transactions" t
+    LEFT JOIN "Transactions" r ON r.id = t."RefundTransactionId" AND r."deletedAt" IS NULL
+    WHERE t."deletedAt" IS NULL ${getSinceCondition(since)}
+    AND (
+      (t."RefundTransactionId" IS NOT NULL AND r.id IS NULL)
+      OR (r.id IS NOT NULL AND r."RefundTransactionId" IS DISTINCT FROM t.id)
+      OR (t."isRefund" IS TRUE AND t."RefundTransactionId" IS NULL)
+    )
+    ORDER BY t.id
+  `,
+    since,
+  );
+
+  return transactions.map(transaction => {
+    let message;
+    if (!transaction.RefundTransactionId) {
+      message = `Refund #${transaction.id} is not linked to the refunded transaction`;
+    } else if (!transaction.linkedTransactionId) {
+      message = `Transaction #${transaction.id} is linked to the missing transaction #${transaction.RefundTransactionId}`;
+    } else {
+      message = `Transaction #${transaction.id} is linked to #${transaction.linkedTransactionId}, which is linked to #${transaction.linkedRefundTransactionId}`;
+    }
+
+    return {
+      type: LedgerIntegrityCheckType.REFUND_NOT_LINKED,
+      severity: transaction.RefundTransactionId ? LedgerIntegritySeverity.ERROR : LedgerIntegritySeverity.WARNING,
+      key: String(transaction.id),
+      HostCollectiveId: transaction.HostCollectiveId,
+      TransactionIds: [transaction.id, transaction.linkedTransactionId].filter(Boolean),
+      message,
+      data: { RefundTransactionId: transaction.RefundTransactionId },
+    };
+  });
+};
+
+/**
+ * Fees are taken from the amount, so they must be negative. Refunds move the fees back, so they must be positive.
+ */
+export const checkFeeSigns: LedgerIntegrityCheck = async ({ since }) => {
+  const transactions = await selectQuery(
+    `
+    SELECT t.id, t."HostCollectiveId", t."isRefund", t."hostFeeInHostCurrency", t."platformFeeInHostCurrency", t."paymentProcessorFeeInHostCurrency"
+    FROM "Transactions" t
+    WHERE t."deletedAt" IS NULL ${getSinceCondition(since)}
+    AND (
+      (t."isRefund" IS NOT TRUE AND (t."hostFeeInHostCurrency" > 0 OR t."platformFeeInHostCurrency" > 0 OR t."paymentProcessorFeeInHostCurrency" > 0))
+      OR (t."isRefund" IS TRUE AND (t."hostFeeInHostCurrency" < 0 OR t."platformFeeInHostCurrency" < 0 OR t."paymentProcessorFeeInHostCurrency" < 0))
+    )
+    ORDER BY t.id
+  `,
+    since,
+  );
+
+  return transactions.map(transaction => ({
+    type: LedgerIntegrityCheckType.FEE_SIGN_MISMATCH,
+    severity: LedgerIntegritySeverity.WARNING,
+    key: String(transaction.id),
+    HostCollectiveId: transaction.HostCollectiveId,
+    TransactionIds: [transaction.id],
+    message: transaction.isRefund
+      ? `Refund #${transaction.id} has negative fees`
+      : `Transaction #${transaction.id} has positive fees`,
+    data: {
+      hostFeeInHostCurrency: transaction.hostFeeInHostCurrency,
+      platformFeeInHostCurrency: transaction.platformFeeInHostCurrency,
+      paymentProcessorFeeInHostCurrency: transaction.paymentProcessorFeeInHostCurrency,
+    },
+  }));
+};
+
+/**
+ * The sign of the amounts must match the type of the transaction, and the fees must add up to the net amount
+ */
+export const checkNetAmounts: LedgerIntegrityCheck = async ({ since }) => {
+  const issues = [];
+  let lastId = 0;
+  let transactions;
+  do {
+    transactions = await models.Transaction.findAll({
+      where: { id: { [Op.gt]: lastId }, ...(since ? { updatedAt: { [Op.gte]: since } } : {}) },
+      order: [['id', 'ASC']],
+      limit: BATCH_SIZE,
+    });
+
+    for (const transaction of transactions) {
+      const offBy = difference(transaction);
+      let result = verify(transaction);
+      if (result === true && Math.abs(offBy) > ROUNDING_TOLERANCE) {
+        result = 'netAmount diff';
+      } else if (result === 'netAmount diff' && Math.abs(offBy) <= ROUNDING_TOLERANCE) {
+        result = true;
+      }
+
+      if (result !== true) {
+        issues.push({
+          type: LedgerIntegrityCheckType.NET_AMOUNT_MISMATCH,
+          severity: result === 'netAmount diff' ? LedgerIntegritySeverity.WARNING : LedgerIntegritySeverity.ERROR,
+          key: String(transaction.id),
+          HostCollectiveId: transaction.HostCollectiveId,
+          TransactionIds: [transaction.id],
+          message: `Transaction #${transaction.id} is invalid: ${result}`,
+          data: {
+            validation: result,
+            netAmountInCollectiveCurrency: transaction.netAmountInCollectiveCurrency,
+            expectedNetAmount: netAmount(transaction),
+            offBy,
+          },
+        });
+      }
+    }
+
+    lastId = transactions[transactions.length - 1]?.id;
+  } while (transactions.length === BATCH_SIZE);
+
+  return issues;
+};
+
+/**
+ * Transactions must be recorded in the currency of their host. Reported once per host and currency,
+ * as it's usually caused by a host changing its currency.
+ */
+export const checkHostCurrencies: LedgerIntegrityCheck = async ({ since }) => {
+  const mismatches = await selectQuery(
+    `
+    SELECT t."HostCollectiveId", t."hostCurrency", h.currency, ARRAY_AGG(t.id ORDER BY t.id) AS "TransactionIds"
+    FROM "Transactions" t
+    INNER JOIN "Collectives" h ON h.id = t."HostCollectiveId"
+    WHERE t."deletedAt" IS NULL ${getSinceCondition(since)}
+    AND t."hostCurrency" IS DISTINCT FROM h.currency
+    GROUP BY t."HostCollectiveId", t."hostCurrency", h.currency
+    ORDER BY t."HostCollectiveId"
+  `,
+    since,
+  );
+
+  return mismatches.map(mismatch => ({
+    type: LedgerIntegrityCheckType.HOST_CURRENCY_MISMATCH,
+    severity: LedgerIntegritySeverity.WARNING,
+    key: `${mismatch.HostCollectiveId}-${mismatch.hostCurrency}`,
+    HostCollectiveId: mismatch.HostCollectiveId,
+    TransactionIds: mismatch.TransactionIds.slice(0, MAX_TRANSACTION_IDS_PER_FINDING),
+    message: `${mismatch.TransactionIds.length} transaction(s) recorded in ${mismatch.hostCurrency} for a host in ${mismatch.currency}`,
+    data: {
+      hostCurrency: mismatch.hostCurrency,
+      expectedHostCurrency: mismatch.currency,
+      transactionsCount: mismatch.TransactionIds.length,
+    },
+  }));
+};
+
+export const LEDGER_INTEGRITY_CHECKS: Record<LedgerIntegrityCheckType, LedgerIntegrityCheck> = {
+  [LedgerIntegrityCheckType.TRANSACTION_GROUP_NOT_BALANCED]: checkTransactionGroups,
+  [LedgerIntegrityCheckType.REFUND_NOT_LINKED]: checkRefundLinks,
+  [LedgerIntegrityCheckType.FEE_SIGN_MISMATCH]: checkFeeSigns,
+  [LedgerIntegrityCheckType.NET_AMOUNT_MISMATCH]: checkNetAmounts,
+  [LedgerIntegrityCheckType.HOST_CURRENCY_MISMATCH]: checkHostCurrencies,
+};
+
+/**
+ * Creates a finding for the issue, or updates the open finding if it was already detected
+ */
+const saveIssue = async (issue: LedgerIntegrityIssue): Promise<any> => {
+  const existingFinding = await models.LedgerIntegrityFinding.findOne({
+    where: { type: issue.type, key: issue.key, status: LedgerIntegrityFindingStatus.OPEN },
+  });
+
+  if (existingFinding) {
+    return existingFinding.update({ ...issue, lastDetectedAt: new Date() });
+  } else {
+    return models.LedgerIntegrityFinding.create({ ...issue, lastDetectedAt: new Date() });
+  }
+};
+
+/**
+ * The open findings that were not detected again are resolved, unless some of their transactions
+ * were not checked because they're older than `since`.
+ */
+const resolveFindings = async (types: LedgerIntegrityCheckType[], detectedFindingIds: number[], since?: Date) => {
+  const staleFindings = await models.LedgerIntegrityFinding.findAll({
+    where: {
+      type: types,
+      status: LedgerIntegrityFindingStatus.OPEN,
+      ...(detectedFindingIds.length ? { id: { [Op.notIn]: detectedFindingIds } } : {}),
+    },
+  });
+
+  let resolvedCount = 0;
+  for (const finding of staleFindings) {
+    if (since) {
+      const uncheckedCount = await models.Transaction.count({
+        where: { id: finding.TransactionIds, updatedAt: { [Op.lt]: since } },
+      });
+
+      if (uncheckedCount > 0) {
+        continue;
+      }
+    }
+
+    await finding.update({ status: LedgerIntegrityFindingStatus.RESOLVED, resolvedAt: new Date() });
+    resolvedCount++;
+  }
+
+  return resolvedCount;
+};
+
+/**
+ * Runs the integrity checks on the ledger and persists their findings
+ */
+export const runLedgerIntegrityChecks = async ({
+  since,
+  types = Object.values(LedgerIntegrityCheckType),
+}: LedgerIntegrityCheckOptions & { types?: LedgerIntegrityCheckType[] } = {}): Promise<LedgerIntegrityReport> => {
+  const findings = [];
+  for (const type of uniq(types)) {
+    logger.info(`Running ledger integrity check ${type}...`);
+    const issues = await LEDGER_INTEGRITY_CHECKS[type]({ since });
+    for (const issue of issues) {
+      findings.push(await saveIssue(issue));
+    }
+  }
+
+  const resolvedCount = await resolveFindings(
+    types,
+    findings.map(finding => finding.id),
+    since,
+  );
+
+  return { findings, resolvedCount };
+};
@@ -348,6 +348,26 @@ async function notifyByEmail(activity) {
     case activityType.COLLECTIVE_EXPENSE_SCHEDULED_FOR_PAYMENT:
       break;
 
+    case activityType.COLLECTIVE_EXPENSE_UNCLAIMED:
+      activity.data.actions = {
+        viewLatestExpenses: `${config.host.website}/${activity.data.collective.slug}/expenses#expense${activity.data.expense.id}`,
+      };
+      notifyUserId(activity.data.expense.UserId, activity);
+      if (get(activity, 'data.host.id')) {
+        notifyAdminsOfCollective(activity.data.host.id, activity, {
+          template: 'collective.expense.unclaimed.for.host',
+          collective: activity.data.host,
+        });
+      }
+      break;
+
+    case activityType.COLLECTIVE_EXPENSE_PAYOUT_CANCELLED:
+      activity.data.actions = {
+        viewLatestExpenses: `${config.host.website}/${activity.data.collective.slug}/expenses#expense${activity.data.expense.id}`,
+      };
+      notifyUserId(activity.data.expense.UserId, activity);
+      break;
+
     case activityType.COLLECTIVE_APPROVED:
       // Funds MVP
       if (get(activity, 'data.collective.type') === 'FUND' || get(activity, 'data.collective.settings.fund') === true) {
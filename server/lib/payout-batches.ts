@@ -0,0 +1,309 @@
+import { groupBy, pick, uniq } from 'lodash';
+import { Op } from 'sequelize';
+
+import activities from '../constants/activities';
+import status from '../constants/expense_status';
+import models from '../models';
+import {
+  BATCHABLE_PAYOUT_METHOD_TYPES,
+  PayoutBatch,
+  PayoutBatchItemData,
+  PayoutBatchStatus,
+} from '../models/PayoutBatch';
+import { PayoutMethodTypes } from '../models/PayoutMethod';
+import * as paypal from '../paymentProviders/paypal/payouts';
+import transferwise from '../paymentProviders/transferwise';
+
+import { getFxRate } from './currency';
+import logger from './logger';
+import { floatAmountToCents } from './math';
+import { handleTransferwisePayoutsLimit } from './plans';
+import { createFromPaidExpense as createTransactionFromPaidExpense } from './transactions';
+
+/**
+ * Hosts can opt-in to review their payout batches before they get sent, by setting
+ * `settings.payoutBatches.requireReview`. Otherwise batches are sent as soon as they're created.
+ */
+export const requiresReview = (host): boolean => {
+  return Boolean(host?.settings?.payoutBatches?.requireReview);
+};
+
+/**
+ * Groups the expenses scheduled for payment in payout batches, by host and payout method type.
+ * Expenses are added to the pending batch of the host if there's already one, so that a batch under
+ * review gets all the expenses scheduled in the meantime.
+ */
+export const createPayoutBatches = async (): Promise<PayoutBatch[]> => {
+  const expenses = await models.Expense.findAll({
+    where: { status: status.SCHEDULED_FOR_PAYMENT, PayoutBatchId: null },
+    include: [
+      { model: models.Collective, as: 'collective', where: { HostCollectiveId: { [Op.not]: null } } },
+      { model: models.PayoutMethod, where: { type: BATCHABLE_PAYOUT_METHOD_TYPES } },
+    ],
+  });
+
+  const payoutBatches = [];
+  const groups = groupBy(expenses, e => `${e.collective.HostCollectiveId}-${e.PayoutMethod.type}`);
+  for (const groupKey of Object.keys(groups)) {
+    const groupExpenses = groups[groupKey];
+    const [firstExpense] = groupExpenses;
+    const [payoutBatch] = await models.PayoutBatch.findOrCreate({
+      where: {
+        HostCollectiveId: firstExpense.collective.HostCollectiveId,
+        payoutMethodType: firstExpense.PayoutMethod.type,
+        status: PayoutBatchStatus.PENDING,
+      },
+    });
+
+    await models.Expense.update(
+      { PayoutBatchId: payoutBatch.id },
+      { where: { id: groupExpenses.map(e => e.id), PayoutBatchId: null } },
+    );
+    payoutBatches.push(payoutBatch);
+  }
+
+  return payoutBatches;
+};
+
+/**
+ * Checks that the expenses can be paid together in a new batch: they must belong to the host, use the same
+ * batchable payout method type and not be scheduled in another batch yet.
+ */
+export const checkExpensesCanBeBatched = (host, expenses: any[]): void => {
+  const payoutMethodTypes = uniq(expenses.map(expense => expense.PayoutMethod?.type));
+  if (!expenses.length) {
+    throw new Error('A payout batch needs at least one expense');
+  } else if (payoutMethodTypes.length !== 1 || !BATCHABLE_PAYOUT_METHOD_TYPES.includes(payoutMethodTypes[0])) {
+    throw new Error(
+      `All expenses must use the same payout method, one of: ${BATCHABLE_PAYOUT_METHOD_TYPES.join(', ')}`,
+    );
+  } else if (expenses.some(expense => expense.collective?.HostCollectiveId !== host.id)) {
+    throw new Error('All expenses must belong to collectives of this host');
+  } else if (expenses.some(expense => expense.status === status.SCHEDULED_FOR_PAYMENT && expense.PayoutBatchId)) {
+    throw new Error('Some expenses are already part of a payout batch');
+  }
+};
+
+/**
+ * Creates a batch for the given expenses, to pay them all at once. Expenses must be scheduled for payment
+ * and pass `checkExpensesCanBeBatched`. The batch is not sent yet.
+ */
+export const createPayoutBatchForExpenses = async (
+  host,
+  expenses: any[],
+  { transaction = undefined } = {},
+): Promise<PayoutBatch> => {
+  checkExpensesCanBeBatched(host, expenses);
+  if (expenses.some(expense => expense.status !== status.SCHEDULED_FOR_PAYMENT)) {
+    throw new Error('All expenses must be scheduled for payment');
+  }
+
+  const payoutBatch = await models.PayoutBatch.create(
+    { HostCollectiveId: host.id, payoutMethodType: expenses[0].PayoutMethod.type },
+    { transaction },
+  );
+
+  // Expenses may have been added to another batch in the meantime
+  const [updatedCount] = await models.Expense.update(
+    { PayoutBatchId: payoutBatch.id },
+    { where: { id: expenses.map(e => e.id), status: status.SCHEDULED_FOR_PAYMENT, PayoutBatchId: null }, transaction },
+  );
+
+  if (updatedCount !== expenses.length) {
+    throw new Error('Some expenses are already part of a payout batch');
+  }
+
+  return payoutBatch;
+};
+
+/**
+ * Returns the expenses of the batch that are still waiting to be paid, with everything needed to pay them
+ */
+const getExpensesToPay = async (payoutBatch: PayoutBatch): Promise<any[]> => {
+  return models.Expense.findAll({
+    where: { PayoutBatchId: payoutBatch.id, status: status.SCHEDULED_FOR_PAYMENT },
+    include: [
+      { model: models.Collective, as: 'collective' },
+      { model: models.PayoutMethod, where: { type: payoutBatch.payoutMethodType } },
+    ],
+  });
+};
+
+const markExpensesAsErrored = async (expenses: any[], error: Error): Promise<void> => {
+  for (const expense of expenses) {
+    await expense.setError(expense.lastEditedById);
+    const user = await models.User.findByPk(expense.lastEditedById);
+    await expense.createActivity(activities.COLLECTIVE_EXPENSE_ERROR, user, { error: { message: error.message } });
+  }
+};
+
+const sendPaypalBatch = async (expenses: any[]): Promise<Record<string, any>> => {
+  try {
+    await paypal.payExpensesBatch(expenses);
+  } catch (e) {
+    // Expenses that were sent before the error keep their status
+    const unsentExpenses = expenses.filter(expense => expense.status === status.SCHEDULED_FOR_PAYMENT);
+    await markExpensesAsErrored(unsentExpenses, e);
+    return {
+      erroredExpenseIds: unsentExpenses.map(e => e.id),
+      errors: [e.message],
+      items: expenses.map(expense =>
+        expense.status === status.PROCESSING
+          ? { ExpenseId: expense.id, paypalBatchId: expense.data?.['payout_batch_id'] }
+          : { ExpenseId: expense.id, error: e.message },
+      ),
+    };
+  }
+
+  const items: PayoutBatchItemData[] = expenses.map(expense => ({
+    ExpenseId: expense.id,
+    paypalBatchId: expense.status === status.ERROR ? undefined : expense.data?.['payout_batch_id'],
+  }));
+  return {
+    paypalBatchIds: uniq(items.map(item => item.paypalBatchId).filter(Boolean)),
+    erroredExpenseIds: expenses.filter(e => e.status === status.ERROR).map(e => e.id),
+    items,
+  };
+};
+
+const sendTransferwiseBatch = async (payoutBatch: PayoutBatch, expenses: any[]): Promise<Record<string, any>> => {
+  const host = await models.Collective.findByPk(payoutBatch.HostCollectiveId);
+  const [connectedAccount] = await host.getConnectedAccounts({
+    where: { service: 'transferwise', deletedAt: null },
+  });
+
+  let batchGroups, items, failures;
+  try {
+    if (!connectedAccount) {
+      throw new Error('Host is not connected to Transferwise');
+    }
+    await handleTransferwisePayoutsLimit(host);
+    ({ batchGroups, items, failures } = await transferwise.payExpensesBatchGroup(connectedAccount, expenses));
+  } catch (e) {
+    await markExpensesAsErrored(expenses, e);
+    return {
+      erroredExpenseIds: expenses.map(e => e.id),
+      errors: [e.message],
+      items: expenses.map(expense => ({ ExpenseId: expense.id, error: e.message })),
+    };
+  }
+
+  const batchItems: PayoutBatchItemData[] = [];
+  for (const { expense, quote, recipient, transfer, batchGroupId } of items) {
+    const user = await models.User.findByPk(expense.lastEditedById);
+    const data = { quote, recipient, transfer, batchGroupId };
+    // The fee of the quote is in its source currency, like with single payments it's paid by the collective
+    const fxRate = await getFxRate(quote.sourceCurrency, host.currency);
+    const paymentProcessorFeeInHostCurrency = floatAmountToCents(quote.fee * fxRate);
+    await createTransactionFromPaidExpense(
+      host,
+      null,
+      expense,
+      null,
+      expense.UserId,
+      paymentProcessorFeeInHostCurrency,
+      0,
+      0,
+      data,
+    );
+    await expense.setProcessing(expense.lastEditedById);
+    await expense.createActivity(activities.COLLECTIVE_EXPENSE_PROCESSING, user);
+    batchItems.push({ ExpenseId: expense.id, batchGroupId, transferId: transfer.id });
+  }
+
+  for (const failure of failures) {
+    logger.error(`Error while paying TransferWise batch group for payout batch #${payoutBatch.id}: ${failure.error}`);
+    await markExpensesAsErrored(failure.expenses, failure.error);
+    batchItems.push(...failure.expenses.map(expense => ({ ExpenseId: expense.id, error: failure.error.message })));
+  }
+
+  return {
+    batchGroups: batchGroups.map(batchGroup => pick(batchGroup, ['id', 'name', 'sourceCurrency', 'status'])),
+    erroredExpenseIds: failures.flatMap(failure => failure.expenses.map(e => e.id)),
+    errors: uniq(failures.map(failure => failure.error.message)),
+    items: batchItems,
+  };
+};
+
+/**
+ * Sends the pending batch to the payment provider matching its payout method type.
+ * @param user: the host admin who triggered the payment, if any
+ */
+export const sendPayoutBatch = async (payoutBatch: PayoutBatch, user = null): Promise<PayoutBatch> => {
+  // Lock the batch first to make sure it doesn't get sent twice
+  const [updatedCount] = await models.PayoutBatch.update(
+    { status: PayoutBatchStatus.PROCESSING, SentByUserId: user?.id || null, sentAt: new Date() },
+    { where: { id: payoutBatch.id, status: PayoutBatchStatus.PENDING } },
+  );
+  if (!updatedCount) {
+    throw new Error('This payout batch has already been sent or cancelled');
+  }
+
+  await payoutBatch.reload();
+  const expenses = await getExpensesToPay(payoutBatch);
+  if (!expenses.length) {
+    return payoutBatch.update({ status: PayoutBatchStatus.CANCELLED });
+  }
+
+  let result;
+  try {
+    result =
+      payoutBatch.payoutMethodType === PayoutMethodTypes.PAYPAL
+        ? await sendPaypalBatch(expenses)
+        : await sendTransferwiseBatch(payoutBatch, expenses);
+  } catch (e) {
+    // Don't leave the batch processing with expenses that will never be paid
+    logger.error(`Error while sending payout batch #${payoutBatch.id}: ${e.message}`);
+    const unsentExpenses = expenses.filter(expense => expense.status === status.SCHEDULED_FOR_PAYMENT);
+    await markExpensesAsErrored(unsentExpenses, e);
+    const errorData = { erroredExpenseIds: unsentExpenses.map(e => e.id), errors: [e.message] };
+    return payoutBatch.update({ status: PayoutBatchStatus.ERROR, data: { ...payoutBatch.data, ...errorData } });
+  }
+
+  return payoutBatch.update({
+    status: result.erroredExpenseIds.length ? PayoutBatchStatus.ERROR : PayoutBatchStatus.PROCESSING,
+    data: { ...payoutBatch.data, ...result },
+  });
+};
+
+/**
+ * Cancels a pending batch. Its expenses are not scheduled for payment anymore and get back to
+ * the approved state so they can be paid individually.
+ */
+export const cancelPayoutBatch = async (payoutBatch: PayoutBatch): Promise<PayoutBatch> => {
+  if (payoutBatch.status !== PayoutBatchStatus.PENDING) {
+    throw new Error('Only pending payout batches can be cancelled');
+  }
+
+  await models.Expense.update(
+    { status: status.APPROVED, PayoutBatchId: null },
+    { where: { PayoutBatchId: payoutBatch.id, status: status.SCHEDULED_FOR_PAYMENT } },
+  );
+  return payoutBatch.update({ status: PayoutBatchStatus.CANCELLED });
+};
+
+/**
+ * Finalizes the batches being processed once none of their expenses are waiting for the payment provider anymore:
+ * batches are completed if their expenses were paid (or cancelled), errored if some of the payments failed.
+ * Expenses themselves are updated by the provider-specific jobs and webhooks.
+ *
+ * @returns the finalized batches
+ */
+export const updateProcessingPayoutBatches = async (): Promise<PayoutBatch[]> => {
+  const payoutBatches = await models.PayoutBatch.findAll({ where: { status: PayoutBatchStatus.PROCESSING } });
+  const finalizedBatches = [];
+  for (const payoutBatch of payoutBatches) {
+    const pendingCount = await models.Expense.count({
+      where: { PayoutBatchId: payoutBatch.id, status: [status.SCHEDULED_FOR_PAYMENT, status.PROCESSING] },
+    });
+    if (pendingCount) {
+      continue;
+    }
+
+    const erroredCount = await models.Expense.count({ where: { PayoutBatchId: payoutBatch.id, status: status.ERROR } });
+    const batchStatus = erroredCount ? PayoutBatchStatus.ERROR : PayoutBatchStatus.COMPLETED;
+    finalizedBatches.push(await payoutBatch.update({ status: batchStatus }));
+  }
+
+  return finalizedBatches;
+};
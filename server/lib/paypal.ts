@@ -2,7 +2,7 @@
 import paypal from '@paypal/payouts-sdk';
 import config from 'config';
 
-import { PayoutBatchDetails, PayoutRequestBody, PayoutRequestResult } from '../types/paypal';
+import { PayoutBatchDetails, PayoutItemDetails, PayoutRequestBody, PayoutRequestResult } from '../types/paypal';
 
 const parseError = e => {
   try {
@@ -51,14 +51,41 @@ export const executePayouts = async (
   return executeRequest(connectedAccount, request);
 };
 
+/** Maximum number of items returned by PayPal for each page of a batch details */
+const BATCH_INFO_PAGE_SIZE = 100;
+
+/**
+ * Returns the details of a payout batch, with all its items. Pages are fetched until all the items are loaded.
+ */
 export const getBatchInfo = async (
   connectedAccount: ConnectedAccount,
   batchId: string,
 ): Promise<PayoutBatchDetails> => {
-  const request = new paypal.payouts.PayoutsGetRequest(batchId);
-  request.page(1);
-  request.pageSize(100);
-  request.totalRequired(true);
+  let batchInfo: PayoutBatchDetails = null;
+  const items = [];
+  for (let page = 1; !batchInfo || page <= batchInfo.total_page; page++) {
+    const request = new paypal.payouts.PayoutsGetRequest(batchId);
+    request.page(page);
+    request.pageSize(BATCH_INFO_PAGE_SIZE);
+    request.totalRequired(true);
+    batchInfo = await executeRequest(connectedAccount, request);
+    items.push(...(batchInfo.items || []));
+    if (!batchInfo.total_page) {
+      break;
+    }
+  }
+
+  return { ...batchInfo, items };
+};
+
+/**
+ * Cancels an unclaimed payout item. PayPal refunds the item to the sender and returns its updated details.
+ */
+export const cancelPayoutItem = async (
+  connectedAccount: ConnectedAccount,
+  payoutItemId: string,
+): Promise<PayoutItemDetails> => {
+  const request = new paypal.payouts.PayoutsItemCancelRequest(payoutItemId);
   return executeRequest(connectedAccount, request);
 };
 
@@ -1026,6 +1026,10 @@ const getBalances = async (collectiveIds, until = new Date()) =>
               OR (
                 e.status = 'PROCESSING' AND e.data ->> 'payout_batch_id' IS NOT NULL
               )
+              -- Exported in a SEPA credit transfer, until found in a bank statement
+              OR (
+                e.status = 'PROCESSING' AND e.data -> 'sepaCreditTransfer' IS NOT NULL
+              )
           )
           GROUP BY
             e."CollectiveId"
@@ -1046,6 +1050,68 @@ const getBalances = async (collectiveIds, until = new Date()) =>
     { type: sequelize.QueryTypes.SELECT, replacements: { ids: collectiveIds, until } },
   );
 
+/**
+ * Same as `getBalances` for the current balance, but starts from the latest balance snapshots of the
+ * collectives so that only the recent transactions need to be summed.
+ */
+const getCurrentBalances = async collectiveIds =>
+  sequelize.query(
+    `
+        WITH "blockedFunds" AS (
+          SELECT
+            e."CollectiveId", COALESCE(sum(e.amount), 0) as sum
+          FROM
+            "Expenses" e
+          WHERE
+            e."CollectiveId" IN (:ids)
+            AND e."deletedAt" IS NULL
+            AND (
+              e.status = 'SCHEDULED_FOR_PAYMENT'
+              OR (
+                e.status = 'PROCESSING' AND e.data ->> 'payout_batch_id' IS NOT NULL
+              )
+              -- Exported in a SEPA credit transfer, until found in a bank statement
+              OR (
+                e.status = 'PROCESSING' AND e.data -> 'sepaCreditTransfer' IS NOT NULL
+              )
+          )
+          GROUP BY
+            e."CollectiveId"
+        ), "latestSnapshots" AS (
+          SELECT DISTINCT ON (s."CollectiveId", s."hostCurrency")
+            s."CollectiveId", s."hostCurrency", s."balance",
+            (s."date" + INTERVAL '1 day')::timestamp AT TIME ZONE 'UTC' AS "until"
+          FROM
+            "BalanceSnapshots" s
+          WHERE
+            s."CollectiveId" IN (:ids)
+          ORDER BY
+            s."CollectiveId", s."hostCurrency", s."date" DESC
+        ), "amounts" AS (
+          SELECT s."CollectiveId", s."balance" AS "amount"
+          FROM "latestSnapshots" s
+          UNION ALL
+          SELECT t."CollectiveId", t."netAmountInCollectiveCurrency" AS "amount"
+          FROM "Transactions" t
+          LEFT JOIN "latestSnapshots" s
+            ON s."CollectiveId" = t."CollectiveId" AND s."hostCurrency" IS NOT DISTINCT FROM t."hostCurrency"
+          WHERE
+            t."CollectiveId" IN (:ids)
+            AND t."deletedAt" IS NULL
+            AND (s."until" IS NULL OR t."createdAt" >= s."until")
+        )
+        SELECT
+          a."CollectiveId",
+          COALESCE(sum(a."amount") - COALESCE(max(bf.sum), 0), 0)::bigint AS "balance"
+        FROM
+          "amounts" a
+        LEFT JOIN "blockedFunds" bf ON a."CollectiveId" = bf."CollectiveId"
+        GROUP BY
+          a."CollectiveId";
+      `,
+    { type: sequelize.QueryTypes.SELECT, replacements: { ids: collectiveIds } },
+  );
+
 const serializeCollectivesResult = JSON.stringify;
 
 const unserializeCollectivesResult = string => {
@@ -1071,6 +1137,7 @@ const getCollectivesWithMinBackers = memoize(getCollectivesWithMinBackersQuery,
 const queries = {
   getHosts,
   getBalances,
+  getCurrentBalances,
   getTaxFormsRequiredForExpenses,
   getTaxFormsRequiredForAccounts,
   getCollectivesOrderedByMonthlySpending,
@@ -0,0 +1,126 @@
+import { maxBy } from 'lodash';
+
+import { SUPPORTED_CURRENCIES } from '../../constants/currencies';
+
+import { ReceiptParserResult } from './types';
+
+const CURRENCY_SYMBOLS = { $: 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR' };
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const AMOUNT_REGEX = /([$€£¥₹])?\s?(\d{1,3}(?:[,.\s]\d{3})+[.,]\d{2}|\d+[.,]\d{2})(?!\d)\s?([$€£¥₹])?/g;
+
+const TOTAL_LINE_REGEX = /\b(grand\s+total|total|amount\s+(due|paid)|balance\s+due|montant|gesamt|importe)\b/i;
+
+const EXCLUDED_TOTAL_LINE_REGEX = /\bsub-?\s?total\b|\btotal\s+(tax|vat|tva)\b|^(tax|vat|tva|discount)\b/i;
+
+const IGNORED_MERCHANT_LINE_REGEX = /^(receipt|invoice|facture|rechnung|factura|page\b)/i;
+
+/** Parses an amount like `1,234.56` or `1.234,56` to cents */
+const parseAmount = (str: string): number => {
+  const digits = str.replace(/\s/g, '');
+  const integerPart = digits.slice(0, -3).replace(/[.,]/g, '');
+  return parseInt(integerPart, 10) * 100 + parseInt(digits.slice(-2), 10);
+};
+
+const formatDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || fullYear < 2000 || fullYear > 2100) {
+    return null;
+  } else {
+    return date.toISOString().slice(0, 10);
+  }
+};
+
+/**
+ * Returns the first date found in the text, as `YYYY-MM-DD`. For numeric dates, the day comes first
+ * with dots (European format) and the month comes first with slashes, unless it's not a valid month.
+ */
+export const extractDate = (text: string): string | null => {
+  const patterns: [RegExp, (match: RegExpMatchArray) => string | null][] = [
+    [/\b(\d{4})-(\d{2})-(\d{2})\b/, m => formatDate(+m[1], +m[2], +m[3])],
+    [/\b(\d{1,2})\.(\d{1,2})\.(\d{2,4})\b/, m => formatDate(+m[3], +m[2], +m[1])],
+    [
+      /\b(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})\b/,
+      m => formatDate(+m[3], +m[1], +m[2]) || formatDate(+m[3], +m[2], +m[1]),
+    ],
+    [
+      /\b([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/i,
+      m =>
+        MONTHS.includes(m[1].toLowerCase()) ? formatDate(+m[3], MONTHS.indexOf(m[1].toLowerCase()) + 1, +m[2]) : null,
+    ],
+    [
+      /\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})\b/i,
+      m =>
+        MONTHS.includes(m[2].toLowerCase()) ? formatDate(+m[3], MONTHS.indexOf(m[2].toLowerCase()) + 1, +m[1]) : null,
+    ],
+  ];
+
+  for (const [regex, parse] of patterns) {
+    const match = text.match(regex);
+    const date = match && parse(match);
+    if (date) {
+      return date;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Returns the currency of the receipt: an ISO code if there's one next to an amount, otherwise the
+ * currency matching the first currency symbol.
+ */
+export const extractCurrency = (text: string): string | null => {
+  for (const [, codeBefore, codeAfter] of text.matchAll(/\b([A-Z]{3})\s?\d|\d\s?([A-Z]{3})\b/g)) {
+    const isoCode = codeBefore || codeAfter;
+    if (SUPPORTED_CURRENCIES.includes(isoCode)) {
+      return isoCode;
+    }
+  }
+
+  const symbol = text.match(/[$€£¥₹]/);
+  return symbol ? CURRENCY_SYMBOLS[symbol[0]] : null;
+};
+
+/**
+ * Returns the total of the receipt, in cents. We look for the last line that looks like a total,
+ * and fallback on the biggest amount of the receipt.
+ */
+export const extractTotalAmount = (lines: string[]): number | null => {
+  const getAmounts = (line: string): number[] => [...line.matchAll(AMOUNT_REGEX)].map(m => parseAmount(m[2]));
+  const totalLines = lines.filter(line => TOTAL_LINE_REGEX.test(line) && !EXCLUDED_TOTAL_LINE_REGEX.test(line));
+  for (const line of totalLines.reverse()) {
+    const amounts = getAmounts(line);
+    if (amounts.length) {
+      return amounts[amounts.length - 1];
+    }
+  }
+
+  return maxBy(lines.flatMap(getAmounts)) ?? null;
+};
+
+/** The merchant is usually the first line of the receipt, which holds its name or logo */
+export const extractMerchant = (lines: string[]): string | null => {
+  const merchantLine = lines.find(line => /[a-z]{2}/i.test(line) && !IGNORED_MERCHANT_LINE_REGEX.test(line));
+  return merchantLine ? merchantLine.slice(0, 255) : null;
+};
+
+/**
+ * Proposes structured data for a receipt from its text content, using simple heuristics. Results
+ * are meant to pre-fill forms and must always be reviewed by users.
+ */
+export const extractReceiptDataFromText = (text: string): ReceiptParserResult => {
+  const lines = text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  return {
+    amount: extractTotalAmount(lines),
+    currency: extractCurrency(text),
+    date: extractDate(text),
+    merchant: extractMerchant(lines),
+  };
+};
@@ -0,0 +1,78 @@
+import config from 'config';
+import { get } from 'lodash';
+import fetch from 'node-fetch';
+
+import { isValidUploadedImage } from '../images';
+import logger from '../logger';
+
+import makeLocalParser from './local';
+import { ReceiptParser, ReceiptParserResult } from './types';
+
+export const PROVIDER_TYPES = {
+  LOCAL: 'LOCAL',
+  NONE: 'NONE',
+};
+
+/** Receipts bigger than that will not be parsed */
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/** The result of the parsing, as stored on expense items */
+export type ReceiptData = ReceiptParserResult & {
+  /** The URL of the parsed file, to know when a receipt needs to be parsed again */
+  url: string;
+  parser: string;
+  parsedAt: string;
+};
+
+export const getProvider = (providerType: string): ReceiptParser | null => {
+  switch (providerType) {
+    case PROVIDER_TYPES.LOCAL:
+      return makeLocalParser();
+    case PROVIDER_TYPES.NONE:
+      return null;
+    default:
+      throw new Error(`Unsupported receipt parser: ${providerType}`);
+  }
+};
+
+let defaultProvider;
+
+const getDefaultProvider = (): ReceiptParser | null => {
+  if (defaultProvider === undefined) {
+    defaultProvider = getProvider(get(config, 'receiptParser.provider') || PROVIDER_TYPES.NONE);
+  }
+  return defaultProvider;
+};
+
+export const isReceiptParserEnabled = (): boolean => Boolean(getDefaultProvider());
+
+/**
+ * Downloads an uploaded receipt and proposes structured data for it. Failures are logged and
+ * return empty results, as receipts parsing should never prevent users from submitting expenses.
+ * @returns null if parsing receipts is disabled
+ */
+export const parseReceipt = async (url: string, provider = getDefaultProvider()): Promise<ReceiptData | null> => {
+  if (!provider) {
+    return null;
+  }
+
+  const emptyResult = { amount: null, currency: null, date: null, merchant: null };
+  const receiptData = { url, parser: provider.name, parsedAt: new Date().toISOString(), ...emptyResult };
+  if (!isValidUploadedImage(url)) {
+    return receiptData;
+  }
+
+  try {
+    const response = await fetch(url, { size: MAX_FILE_SIZE, timeout: get(config, 'receiptParser.timeout') });
+    if (!response.ok) {
+      throw new Error(`Got a ${response.status} error while downloading the file`);
+    }
+
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim();
+    const result = await provider.parse(await response.buffer(), contentType);
+    return { ...receiptData, ...result };
+  } catch (e) {
+    logger.warn(`Unable to parse receipt ${url}: ${e.message}`);
+    return receiptData;
+  }
+};
@@ -0,0 +1,22 @@
+import { extractReceiptDataFromText } from './heuristics';
+import { extractTextFromPdf } from './pdf';
+import { ReceiptParser, ReceiptParserResult } from './types';
+
+/**
+ * Offline parser: reads the text layer of PDF receipts and extracts data with heuristics. Images
+ * are not supported as they would require OCR.
+ */
+const makeLocalParser = (): ReceiptParser => ({
+  name: 'LOCAL',
+  async parse(file: Buffer): Promise<ReceiptParserResult | null> {
+    // Uploaded files don't always have the right content type, so we check the file signature
+    if (file.slice(0, 5).toString('latin1') !== '%PDF-') {
+      return null;
+    }
+
+    const text = await extractTextFromPdf(file);
+    return text ? extractReceiptDataFromText(text) : null;
+  },
+});
+
+export default makeLocalParser;
@@ -0,0 +1,176 @@
+import zlib from 'zlib';
+
+/** Uploaded files are untrusted: these limits protect the API from decompression bombs and huge documents */
+const MAX_PDF_SIZE = 10 * 1024 * 1024;
+const MAX_STREAMS = 200;
+const MAX_INFLATED_STREAM_SIZE = 2 * 1024 * 1024;
+const MAX_TOTAL_CONTENT_SIZE = 10 * 1024 * 1024;
+
+/** Only the end of the dictionary is needed to know the filters of a stream */
+const MAX_DICTIONARY_LENGTH = 1024;
+
+/**
+ * Text operators we care about in content streams: strings, arrays delimiters, numbers (for
+ * kerning in TJ arrays), text positioning (Td, TD, T*, Tm) and text showing (Tj, TJ, ', ").
+ */
+const TOKEN_REGEX = /\((?:\\[\s\S]|[^\\)])*\)|\[|\]|(-?\d*\.?\d+)\s+(-?\d*\.?\d+)\s+T[dD]\b|T\*|Tm\b|Tj\b|TJ\b|ET\b|'|"|-?\d*\.?\d+/g;
+
+/** In TJ arrays, a large negative kerning usually means a space between two words */
+const KERNING_SPACE_THRESHOLD = -200;
+
+const ESCAPE_SEQUENCES = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+
+/** Decodes a PDF literal string, without the parentheses */
+const decodePdfString = (str: string): string => {
+  return str
+    .replace(/\\(\d{1,3}|[\s\S])/g, (_, escaped) => {
+      if (/^\d+$/.test(escaped)) {
+        return String.fromCharCode(parseInt(escaped, 8));
+      } else if (escaped === '\n' || escaped === '\r') {
+        return ''; // Line continuation
+      } else {
+        return ESCAPE_SEQUENCES[escaped] ?? escaped;
+      }
+    })
+    .replace(/\x80/g, '€'); // WinAnsiEncoding
+};
+
+/** Extracts the lines of text shown by the operators of a content stream */
+const extractTextFromContentStream = (content: string): string[] => {
+  const lines = [];
+  let currentLine = '';
+  let pendingText = '';
+  let inArray = false;
+
+  const flushLine = (): void => {
+    if (currentLine.trim()) {
+      lines.push(currentLine.trim());
+    }
+    currentLine = '';
+  };
+
+  for (const [token, , ty] of content.matchAll(TOKEN_REGEX)) {
+    if (token.startsWith('(')) {
+      pendingText += decodePdfString(token.slice(1, -1));
+    } else if (token === '[') {
+      inArray = true;
+    } else if (token === ']') {
+      inArray = false;
+    } else if (token === 'Tj' || token === 'TJ') {
+      currentLine += pendingText;
+      pendingText = '';
+    } else if (token === "'" || token === '"') {
+      flushLine();
+      currentLine = pendingText;
+      pendingText = '';
+    } else if (ty !== undefined) {
+      // Moving horizontally on the same line (Td/TD) is a space, otherwise it's a new line
+      if (parseFloat(ty) === 0) {
+        currentLine += ' ';
+      } else {
+        flushLine();
+      }
+    } else if (token === 'T*' || token === 'Tm' || token === 'ET') {
+      flushLine();
+    } else if (inArray && parseFloat(token) < KERNING_SPACE_THRESHOLD) {
+      pendingText += ' ';
+    }
+  }
+
+  flushLine();
+  return lines;
+};
+
+/**
+ * Inflates the stream asynchronously (off the main thread), aborting as soon as the output gets
+ * larger than `maxLength`. `maxOutputLength` is not supported by all the Node versions we run.
+ */
+const inflate = (content: Buffer, maxLength: number): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let length = 0;
+    const inflater = zlib.createInflate();
+    inflater.on('data', chunk => {
+      length += chunk.length;
+      if (length > maxLength) {
+        inflater.destroy();
+        reject(new Error('Stream is too large'));
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    inflater.on('error', reject);
+    inflater.on('end', () => resolve(Buffer.concat(chunks)));
+    inflater.end(content);
+  });
+};
+
+type PdfStream = { dictionary: string; content: string };
+
+/**
+ * Lists the streams of the file with their dictionary. Uses plain string searches rather than a regex
+ * to stay linear on crafted inputs.
+ */
+const getStreams = (raw: string): PdfStream[] => {
+  const streams = [];
+  let position = 0;
+  while (streams.length < MAX_STREAMS) {
+    const streamIndex = raw.indexOf('stream', position);
+    if (streamIndex === -1) {
+      break;
+    } else if (raw.slice(streamIndex - 3, streamIndex) === 'end') {
+      position = streamIndex + 6;
+      continue;
+    }
+
+    const contentStart = streamIndex + (raw.startsWith('\r\n', streamIndex + 6) ? 8 : 7);
+    const contentEnd = raw.indexOf('endstream', contentStart);
+    if (contentEnd === -1) {
+      break;
+    }
+
+    const dictionaryStart = Math.max(raw.lastIndexOf('obj', streamIndex), streamIndex - MAX_DICTIONARY_LENGTH, 0);
+    streams.push({ dictionary: raw.slice(dictionaryStart, streamIndex), content: raw.slice(contentStart, contentEnd) });
+    position = contentEnd + 9;
+  }
+
+  return streams;
+};
+
+/**
+ * A minimal, dependency-free extractor for the text layer of PDF files. Only supports uncompressed
+ * and Flate-compressed content streams with literal strings, which covers most receipts generated
+ * by billing software. Scanned documents don't have a text layer and will return an empty string.
+ */
+export const extractTextFromPdf = async (file: Buffer): Promise<string> => {
+  const raw = file.toString('latin1');
+  if (!raw.startsWith('%PDF-')) {
+    throw new Error('Not a PDF file');
+  } else if (file.length > MAX_PDF_SIZE) {
+    throw new Error('PDF file is too large');
+  }
+
+  const lines = [];
+  let totalContentSize = 0;
+  for (const { dictionary, content: streamContent } of getStreams(raw)) {
+    let content = Buffer.from(streamContent, 'latin1');
+    if (dictionary.includes('/FlateDecode')) {
+      try {
+        content = await inflate(content, MAX_INFLATED_STREAM_SIZE);
+      } catch {
+        continue; // Corrupted stream, too large once inflated or unsupported filter chain
+      }
+    } else if (dictionary.includes('/Filter')) {
+      continue; // Images, fonts...etc
+    }
+
+    totalContentSize += content.length;
+    if (totalContentSize > MAX_TOTAL_CONTENT_SIZE) {
+      break;
+    }
+
+    lines.push(...extractTextFromContentStream(content.toString('latin1')));
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,19 @@
+/** The data proposed by a parser for a receipt. All fields are optional, as parsers may not find them. */
+export type ReceiptParserResult = {
+  /** Total of the receipt, in cents */
+  amount: number | null;
+  /** ISO code of the currency */
+  currency: string | null;
+  /** Date of the receipt, as `YYYY-MM-DD` */
+  date: string | null;
+  merchant: string | null;
+};
+
+/**
+ * Interface to implement for receipt parsers. Parsers get the content of the uploaded file and return
+ * `null` if they don't support its format.
+ */
+export interface ReceiptParser {
+  name: string;
+  parse(file: Buffer, contentType: string): Promise<ReceiptParserResult | null>;
+}
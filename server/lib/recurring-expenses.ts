@@ -0,0 +1,121 @@
+import { pick } from 'lodash';
+import { Op } from 'sequelize';
+
+import expenseType from '../constants/expense_type';
+import { createExpense } from '../graphql/v1/mutations/expenses';
+import models from '../models';
+import {
+  RecurringExpense,
+  RecurringExpenseIntervals,
+  RecurringExpenseStatus,
+  RecurringExpenseTemplate,
+} from '../models/RecurringExpense';
+
+import logger from './logger';
+
+/** Safety net to avoid generating too many expenses at once for a single recurring expense */
+const MAX_OCCURRENCES_PER_RUN = 12;
+
+/**
+ * Makes the given expense recurring: a new expense with the same payee, payout method, tags
+ * and items will be submitted every `interval`, until `endsAt` if defined.
+ * @param user: the user in the name of whom the next expenses will be submitted
+ */
+export const createRecurringExpenseFromExpense = async (
+  expense,
+  user,
+  { interval, endsAt = null }: { interval: RecurringExpenseIntervals; endsAt?: Date },
+): Promise<RecurringExpense> => {
+  if (expense.type !== expenseType.INVOICE) {
+    throw new Error('Only invoices can be recurring');
+  } else if (expense.RecurringExpenseId) {
+    throw new Error('This expense is already recurring');
+  }
+
+  const items = expense.items || (await expense.getItems());
+  const template: RecurringExpenseTemplate = {
+    ...pick(expense, ['description', 'longDescription', 'type', 'tags', 'privateMessage', 'invoiceInfo']),
+    payeeLocation: expense.payeeLocation,
+    // Items paid in a foreign currency will be converted again with the rate of the next period
+    items: items.map(item => ({
+      ...pick(item, ['description', 'amount', 'url']),
+      ...(item.originalCurrency && { amount: item.originalAmount, currency: item.originalCurrency }),
+    })),
+  };
+
+  const nextDate = RecurringExpense.getNextDate(expense.incurredAt || expense.createdAt, interval);
+  const recurringExpense = await models.RecurringExpense.create({
+    CollectiveId: expense.CollectiveId,
+    FromCollectiveId: expense.FromCollectiveId,
+    UserId: user.id,
+    PayoutMethodId: expense.PayoutMethodId,
+    interval,
+    endsAt,
+    nextDate,
+    template,
+    status: endsAt && nextDate > endsAt ? RecurringExpenseStatus.COMPLETED : RecurringExpenseStatus.ACTIVE,
+  });
+
+  await expense.update({ RecurringExpenseId: recurringExpense.id });
+  return recurringExpense;
+};
+
+/**
+ * Submits the expense for the next period of the recurring expense, using the same permission
+ * checks as if the payee was submitting it.
+ */
+export const generateNextExpense = async (recurringExpense: RecurringExpense): Promise<any> => {
+  const user = await models.User.findByPk(recurringExpense.UserId);
+  if (!user) {
+    throw new Error(`The user who created the recurring expense #${recurringExpense.id} does not exist anymore`);
+  }
+
+  const { items, ...template } = recurringExpense.template;
+  const incurredAt = recurringExpense.nextDate;
+  const expense = await createExpense(user, {
+    ...template,
+    incurredAt,
+    items: items.map(item => ({ ...item, incurredAt })),
+    amount: items.reduce((total, item) => total + item.amount, 0),
+    collective: await models.Collective.findByPk(recurringExpense.CollectiveId),
+    fromCollective: await models.Collective.findByPk(recurringExpense.FromCollectiveId),
+    PayoutMethod: recurringExpense.PayoutMethodId && { id: recurringExpense.PayoutMethodId },
+  });
+
+  await expense.update({ RecurringExpenseId: recurringExpense.id });
+  const nextDate = RecurringExpense.getNextDate(incurredAt, recurringExpense.interval);
+  await recurringExpense.update({
+    nextDate,
+    status: recurringExpense.isOver(nextDate) ? RecurringExpenseStatus.COMPLETED : recurringExpense.status,
+  });
+
+  return expense;
+};
+
+/**
+ * Generates the expenses for all the active recurring expenses that are due. Recurring expenses that
+ * can't be generated anymore (payee not admin anymore, collective archived...etc) are paused.
+ */
+export const generateDueRecurringExpenses = async (date = new Date()): Promise<any[]> => {
+  const recurringExpenses = await models.RecurringExpense.findAll({
+    where: { status: RecurringExpenseStatus.ACTIVE, nextDate: { [Op.lte]: date } },
+  });
+
+  const expenses = [];
+  for (const recurringExpense of recurringExpenses) {
+    try {
+      for (let i = 0; i < MAX_OCCURRENCES_PER_RUN; i++) {
+        if (recurringExpense.status !== RecurringExpenseStatus.ACTIVE || recurringExpense.nextDate > date) {
+          break;
+        }
+
+        expenses.push(await generateNextExpense(recurringExpense));
+      }
+    } catch (e) {
+      logger.error(`Error while generating recurring expense #${recurringExpense.id}: ${e.message}`);
+      await recurringExpense.pause();
+    }
+  }
+
+  return expenses;
+};
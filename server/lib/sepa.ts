@@ -0,0 +1,292 @@
+import { deburr, round, sumBy } from 'lodash';
+import moment from 'moment';
+import xml2js from 'xml2js';
+
+import activities from '../constants/activities';
+import status from '../constants/expense_status';
+import models from '../models';
+import { PayoutMethodTypes } from '../models/PayoutMethod';
+
+import { BankStatementEntry, parseCamtStatement } from './camt';
+import logger from './logger';
+import { createFromPaidExpense as createTransactionFromPaidExpense } from './transactions';
+
+/** SEPA credit transfers can only be made in euros */
+export const SEPA_CURRENCY = 'EUR';
+
+const PAIN_001_NAMESPACE = 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.03';
+
+/** Expense statuses that can be exported in a SEPA credit transfer file */
+const EXPORTABLE_STATUSES = [status.APPROVED, status.SCHEDULED_FOR_PAYMENT];
+
+export type SepaAccount = {
+  name: string;
+  iban: string;
+  bic: string | null;
+};
+
+/** The SEPA export of an expense, stored in `expense.data.sepaCreditTransfer` */
+export type SepaCreditTransferData = {
+  messageId: string;
+  endToEndId: string;
+  exportedAt: string;
+  requestedExecutionDate: string;
+  /** Date at which the bank executed the transfer, set when importing the bank statement */
+  executedAt?: string;
+};
+
+export type SepaCreditTransferExport = {
+  messageId: string;
+  filename: string;
+  content: string;
+  expenses: any[];
+};
+
+export type SepaBankStatementImport = {
+  paidExpenses: any[];
+  /** Entries of the statement that don't match any exported expense */
+  ignoredEntries: BankStatementEntry[];
+};
+
+/**
+ * Returns true if the IBAN has a valid format and checksum
+ */
+export const isValidIban = (iban: string): boolean => {
+  if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  const digits = `${iban.slice(4)}${iban.slice(0, 4)}`.replace(/[A-Z]/g, c => (c.charCodeAt(0) - 55).toString());
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + parseInt(digit, 10)) % 97;
+  }
+
+  return remainder === 1;
+};
+
+/**
+ * Looks for a value in the bank account details, no matter how deep it is or how its key is cased.
+ * Bank accounts details come from TransferWise forms or are typed manually by hosts, so the
+ * same information can be stored under different keys.
+ */
+const findAccountDetail = (data: Record<string, any>, keys: string[]): string | null => {
+  for (const [key, value] of Object.entries(data || {})) {
+    if (value && typeof value === 'object') {
+      const nestedValue = findAccountDetail(value, keys);
+      if (nestedValue) {
+        return nestedValue;
+      }
+    } else if (value && keys.includes(key.toLowerCase())) {
+      return String(value);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Returns the SEPA account described in the data of a bank account payout method,
+ * or null if it doesn't have a valid IBAN.
+ */
+export const getSepaAccount = (payoutMethodData: Record<string, any>): SepaAccount | null => {
+  const iban = findAccountDetail(payoutMethodData, ['iban'])?.replace(/\s/g, '').toUpperCase();
+  if (!iban || !isValidIban(iban)) {
+    return null;
+  }
+
+  const bic = findAccountDetail(payoutMethodData, ['bic', 'swift', 'swiftcode'])?.replace(/\s/g, '').toUpperCase();
+  return { name: payoutMethodData.accountHolderName, iban, bic: bic || null };
+};
+
+/**
+ * SEPA files only accept a subset of the latin characters
+ */
+const formatSepaText = (text: string, maxLength: number): string => {
+  return deburr(text || '')
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength);
+};
+
+export const getExpenseEndToEndId = (expense): string => `OC-EXPENSE-${expense.id}`;
+
+/**
+ * Returns the bank account of the host used to pay the expenses, from the account details
+ * used for manual bank transfers.
+ */
+const getHostSepaAccount = async (host): Promise<SepaAccount> => {
+  const bankAccount = await models.PayoutMethod.findOne({
+    where: { CollectiveId: host.id, data: { isManualBankTransfer: true } },
+  });
+  const account = bankAccount && getSepaAccount(bankAccount.data);
+  if (!account) {
+    throw new Error('The bank account details of the host must include a valid IBAN to export SEPA transfers');
+  }
+
+  return { ...account, name: account.name || host.name };
+};
+
+/**
+ * Makes sure the expenses can be paid with a SEPA credit transfer from the host bank account.
+ * Expenses must be loaded with their collective and payout method.
+ */
+export const checkExpensesForSepaCreditTransfer = (host, expenses: any[]): void => {
+  for (const expense of expenses) {
+    if (expense.collective?.HostCollectiveId !== host.id) {
+      throw new Error(`Expense #${expense.id} does not belong to a collective of this host`);
+    } else if (!EXPORTABLE_STATUSES.includes(expense.status)) {
+      throw new Error(`Expense #${expense.id} must be approved to be exported (current status: ${expense.status})`);
+    } else if (expense.currency !== SEPA_CURRENCY) {
+      throw new Error(`Expense #${expense.id} must be in ${SEPA_CURRENCY} to be paid with a SEPA transfer`);
+    } else if (expense.PayoutMethod?.type !== PayoutMethodTypes.BANK_ACCOUNT) {
+      throw new Error(`Expense #${expense.id} must be paid to a bank account`);
+    } else if (!getSepaAccount(expense.PayoutMethod.data)) {
+      throw new Error(`The bank account of expense #${expense.id} doesn't have a valid IBAN`);
+    }
+  }
+};
+
+/**
+ * Generates an ISO 20022 pain.001 file with one credit transfer per expense, that can be
+ * uploaded to the bank of the host.
+ */
+export const generateSepaCreditTransferFile = (
+  debtor: SepaAccount,
+  expenses: any[],
+  { messageId, executionDate, createdAt = new Date() }: { messageId: string; executionDate: Date; createdAt?: Date },
+): string => {
+  const formatAmount = (amount: number): string => round(amount / 100, 2).toFixed(2);
+  const controlSum = formatAmount(sumBy(expenses, 'amount'));
+  const getAgent = (account: SepaAccount) => ({
+    FinInstnId: account.bic ? { BIC: account.bic } : { Othr: { Id: 'NOTPROVIDED' } },
+  });
+
+  const transfers = expenses.map(expense => {
+    const creditor = getSepaAccount(expense.PayoutMethod.data);
+    return {
+      PmtId: { EndToEndId: getExpenseEndToEndId(expense) },
+      Amt: { InstdAmt: { $: { Ccy: SEPA_CURRENCY }, _: formatAmount(expense.amount) } },
+      ...(creditor.bic ? { CdtrAgt: getAgent(creditor) } : {}),
+      Cdtr: { Nm: formatSepaText(creditor.name, 70) },
+      CdtrAcct: { Id: { IBAN: creditor.iban } },
+      RmtInf: { Ustrd: formatSepaText(`Expense #${expense.id}: ${expense.description}`, 140) },
+    };
+  });
+
+  const document = {
+    Document: {
+      $: { xmlns: PAIN_001_NAMESPACE },
+      CstmrCdtTrfInitn: {
+        GrpHdr: {
+          MsgId: messageId,
+          CreDtTm: moment.utc(createdAt).format('YYYY-MM-DDTHH:mm:ss'),
+          NbOfTxs: expenses.length,
+          CtrlSum: controlSum,
+          InitgPty: { Nm: formatSepaText(debtor.name, 70) },
+        },
+        PmtInf: {
+          PmtInfId: messageId,
+          PmtMtd: 'TRF',
+          BtchBookg: 'false',
+          NbOfTxs: expenses.length,
+          CtrlSum: controlSum,
+          PmtTpInf: { SvcLvl: { Cd: 'SEPA' } },
+          ReqdExctnDt: moment(executionDate).format('YYYY-MM-DD'),
+          Dbtr: { Nm: formatSepaText(debtor.name, 70) },
+          DbtrAcct: { Id: { IBAN: debtor.iban } },
+          DbtrAgt: getAgent(debtor),
+          ChrgBr: 'SLEV',
+          CdtTrfTxInf: transfers,
+        },
+      },
+    },
+  };
+
+  return new xml2js.Builder({ xmldec: { version: '1.0', encoding: 'UTF-8' } }).buildObject(document);
+};
+
+/**
+ * Exports the expenses as a SEPA credit transfer file. The expenses are marked as processing until
+ * they're found in a bank statement, see `importSepaBankStatement`.
+ * Expenses must be loaded with their collective and payout method.
+ */
+export const exportSepaCreditTransfer = async (
+  host,
+  expenses: any[],
+  user,
+  { executionDate = new Date() }: { executionDate?: Date } = {},
+): Promise<SepaCreditTransferExport> => {
+  checkExpensesForSepaCreditTransfer(host, expenses);
+  const debtor = await getHostSepaAccount(host);
+  const createdAt = new Date();
+  const messageId = `OC-${host.id}-${moment.utc(createdAt).format('YYYYMMDDHHmmss')}`;
+  const content = generateSepaCreditTransferFile(debtor, expenses, { messageId, executionDate, createdAt });
+
+  for (const expense of expenses) {
+    const sepaCreditTransfer: SepaCreditTransferData = {
+      messageId,
+      endToEndId: getExpenseEndToEndId(expense),
+      exportedAt: createdAt.toISOString(),
+      requestedExecutionDate: moment(executionDate).format('YYYY-MM-DD'),
+    };
+
+    await expense.update({
+      status: status.PROCESSING,
+      lastEditedById: user.id,
+      // Exported expenses are not part of the payout batches anymore
+      PayoutBatchId: null,
+      data: { ...expense.data, sepaCreditTransfer },
+    });
+    await expense.createActivity(activities.COLLECTIVE_EXPENSE_PROCESSING, user);
+  }
+
+  return { messageId, filename: `${messageId}.xml`, content, expenses };
+};
+
+/**
+ * Imports a camt.053 or camt.054 statement of the host bank account, and marks as paid the exported
+ * expenses found in it. The transfers are matched on their end-to-end reference and amount.
+ */
+export const importSepaBankStatement = async (host, content: string, user): Promise<SepaBankStatementImport> => {
+  const entries = await parseCamtStatement(content);
+  const paidExpenses = [];
+  const ignoredEntries = [];
+  for (const entry of entries) {
+    const expenseId = entry.endToEndId?.match(/^OC-EXPENSE-(\d+)$/)?.[1];
+    const expense =
+      expenseId &&
+      entry.direction === 'DEBIT' &&
+      entry.isBooked &&
+      (await models.Expense.findByPk(expenseId, { include: [{ model: models.Collective, as: 'collective' }] }));
+
+    if (
+      !expense ||
+      expense.status !== status.PROCESSING ||
+      expense.collective.HostCollectiveId !== host.id ||
+      expense.data?.sepaCreditTransfer?.endToEndId !== entry.endToEndId ||
+      expense.amount !== entry.amount ||
+      expense.currency !== entry.currency
+    ) {
+      ignoredEntries.push(entry);
+      continue;
+    }
+
+    const executedAt = entry.bookingDate || entry.valueDate || new Date();
+    logger.info(`Expense #${expense.id} was paid by bank transfer on ${executedAt.toISOString()}`);
+    await createTransactionFromPaidExpense(host, null, expense, null, expense.UserId, 0, 0, 0);
+    await expense.update({
+      status: status.PAID,
+      lastEditedById: user.id,
+      data: {
+        ...expense.data,
+        sepaCreditTransfer: { ...expense.data.sepaCreditTransfer, executedAt: executedAt.toISOString() },
+      },
+    });
+    await expense.createActivity(activities.COLLECTIVE_EXPENSE_PAID, user, { isManualPayout: true });
+    paidExpenses.push(expense);
+  }
+
+  return { paidExpenses, ignoredEntries };
+};
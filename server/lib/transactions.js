@@ -1,6 +1,7 @@
 import { TransactionTypes } from '../constants/transactions';
 import { getFxRate } from '../lib/currency';
 import errors from '../lib/errors';
+import { getExpenseAllocations, splitAmountBetweenAllocations } from '../lib/expense-allocations';
 import { toNegative } from '../lib/math';
 import { exportToCSV } from '../lib/utils';
 import models, { Op, sequelize } from '../models';
@@ -128,33 +129,49 @@ export async function createFromPaidExpense(
 
   // We assume that all expenses are in Collective currency
   // (otherwise, ledger breaks with a triple currency conversion)
-  const transaction = {
-    netAmountInCollectiveCurrency:
-      -1 *
-      (expense.amount +
-        paymentProcessorFeeInCollectiveCurrency +
-        hostFeeInCollectiveCurrency +
-        platformFeeInCollectiveCurrency),
-    hostCurrency,
-    paymentProcessorFeeInHostCurrency: toNegative(paymentProcessorFeeInHostCurrency),
-    hostFeeInHostCurrency: toNegative(hostFeeInHostCurrency),
-    platformFeeInHostCurrency: toNegative(platformFeeInHostCurrency),
-    ExpenseId: expense.id,
-    type: TransactionTypes.DEBIT,
-    amount: -expense.amount,
-    currency: expense.currency,
-    description: expense.description,
-    CreatedByUserId: UserId,
-    CollectiveId: expense.CollectiveId,
-    FromCollectiveId: expense.FromCollectiveId,
-    HostCollectiveId: host.id,
-    PaymentMethodId: paymentMethod ? paymentMethod.id : null,
-    data: transactionData,
-  };
+  // Split expenses record a DEBIT for each allocated collective, with fees split proportionally.
+  const allocations = await getExpenseAllocations(expense);
+  const splitFees = fee => splitAmountBetweenAllocations(fee, allocations);
+  const paymentProcessorFeesInHostCurrency = splitFees(paymentProcessorFeeInHostCurrency);
+  const hostFeesInHostCurrency = splitFees(hostFeeInHostCurrency);
+  const platformFeesInHostCurrency = splitFees(platformFeeInHostCurrency);
+  const paymentProcessorFeesInCollectiveCurrency = splitFees(paymentProcessorFeeInCollectiveCurrency);
+  const hostFeesInCollectiveCurrency = splitFees(hostFeeInCollectiveCurrency);
+  const platformFeesInCollectiveCurrency = splitFees(platformFeeInCollectiveCurrency);
+
+  const transactions = [];
+  for (const [index, allocation] of allocations.entries()) {
+    const transaction = {
+      netAmountInCollectiveCurrency:
+        -1 *
+        (allocation.amount +
+          paymentProcessorFeesInCollectiveCurrency[index] +
+          hostFeesInCollectiveCurrency[index] +
+          platformFeesInCollectiveCurrency[index]),
+      hostCurrency,
+      paymentProcessorFeeInHostCurrency: toNegative(paymentProcessorFeesInHostCurrency[index]),
+      hostFeeInHostCurrency: toNegative(hostFeesInHostCurrency[index]),
+      platformFeeInHostCurrency: toNegative(platformFeesInHostCurrency[index]),
+      ExpenseId: expense.id,
+      type: TransactionTypes.DEBIT,
+      amount: -allocation.amount,
+      currency: expense.currency,
+      description: expense.description,
+      CreatedByUserId: UserId,
+      CollectiveId: allocation.CollectiveId,
+      FromCollectiveId: expense.FromCollectiveId,
+      HostCollectiveId: host.id,
+      PaymentMethodId: paymentMethod ? paymentMethod.id : null,
+      data: transactionData,
+    };
+
+    transaction.hostCurrencyFxRate = hostCurrencyFxRate;
+    transaction.amountInHostCurrency = -Math.round(hostCurrencyFxRate * allocation.amount); // amountInHostCurrency is an INTEGER (in cents)
+    transactions.push(await models.Transaction.createDoubleEntry(transaction));
+  }
 
-  transaction.hostCurrencyFxRate = hostCurrencyFxRate;
-  transaction.amountInHostCurrency = -Math.round(hostCurrencyFxRate * expense.amount); // amountInHostCurrency is an INTEGER (in cents)
-  return models.Transaction.createDoubleEntry(transaction);
+  // Split expenses return one transaction per allocated collective
+  return transactions.length === 1 ? transactions[0] : transactions;
 }
 
 /**
@@ -11,10 +11,13 @@ import { isNull, omitBy, startCase, toInteger, toUpper } from 'lodash';
 
 import { TransferwiseError } from '../graphql/errors';
 import {
+  BalanceConversion,
+  BatchGroup,
   BorderlessAccount,
   CurrencyPair,
   Profile,
   Quote,
+  QuoteV2,
   RecipientAccount,
   Transfer,
   WebhookEvent,
@@ -116,17 +119,26 @@ interface CreateQuote {
   targetCurrency: string;
   targetAmount?: number;
   sourceAmount?: number;
+  /** Quotes are for payouts by default, conversions are used to move money between balances */
+  type?: 'BALANCE_PAYOUT' | 'BALANCE_CONVERSION';
 }
 export const createQuote = async (
   token: string,
-  { profileId: profile, sourceCurrency, targetCurrency, targetAmount, sourceAmount }: CreateQuote,
+  {
+    profileId: profile,
+    sourceCurrency,
+    targetCurrency,
+    targetAmount,
+    sourceAmount,
+    type = 'BALANCE_PAYOUT',
+  }: CreateQuote,
 ): Promise<Quote> => {
   const data = {
     profile,
     source: sourceCurrency,
     target: targetCurrency,
     rateType: 'FIXED',
-    type: 'BALANCE_PAYOUT',
+    type,
     targetAmount,
     sourceAmount,
   };
@@ -136,6 +148,27 @@ export const createQuote = async (
   });
 };
 
+/**
+ * Creates an authenticated quote using the v2 API. These quotes are required to create transfers in batch groups.
+ */
+export const createQuoteV2 = async (
+  token: string,
+  { profileId: profile, sourceCurrency, targetCurrency, targetAmount, sourceAmount }: CreateQuote,
+): Promise<QuoteV2> => {
+  const data = {
+    profile,
+    sourceCurrency,
+    targetCurrency,
+    targetAmount,
+    sourceAmount,
+    payOut: 'BANK_TRANSFER',
+  };
+  return requestDataAndThrowParsedError(axios.post, `/v2/quotes`, {
+    headers: { Authorization: `Bearer ${token}` },
+    data,
+  });
+};
+
 interface CreateRecipientAccount extends RecipientAccount {
   profileId: number;
 }
@@ -154,6 +187,19 @@ export const createRecipientAccount = async (
   };
 };
 
+export const getRecipientAccounts = async (token: string, profileId: number): Promise<RecipientAccount[]> => {
+  return requestDataAndThrowParsedError(axios.get, `/v1/accounts`, {
+    headers: { Authorization: `Bearer ${token}` },
+    params: { profile: profileId },
+  });
+};
+
+export const deleteRecipientAccount = async (token: string, recipientId: number): Promise<void> => {
+  return requestDataAndThrowParsedError(axios.delete, `/v1/accounts/${recipientId}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+};
+
 export interface CreateTransfer {
   accountId: number;
   quoteId: number;
@@ -201,6 +247,116 @@ export const fundTransfer = async (
   );
 };
 
+interface CreateBatchGroup {
+  profileId: number;
+  name: string;
+  sourceCurrency: string;
+}
+export const createBatchGroup = async (
+  token: string,
+  { profileId, name, sourceCurrency }: CreateBatchGroup,
+): Promise<BatchGroup> => {
+  return requestDataAndThrowParsedError(axios.post, `/v3/profiles/${profileId}/batch-groups`, {
+    data: { name, sourceCurrency },
+    headers: { Authorization: `Bearer ${token}` },
+  });
+};
+
+export const getBatchGroup = async (token: string, profileId: number, batchGroupId: string): Promise<BatchGroup> => {
+  return requestDataAndThrowParsedError(axios.get, `/v3/profiles/${profileId}/batch-groups/${batchGroupId}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+};
+
+export interface CreateBatchGroupTransfer {
+  accountId: number;
+  quoteUuid: string;
+  uuid: string;
+  details?: CreateTransfer['details'];
+}
+export const createBatchGroupTransfer = async (
+  token: string,
+  profileId: number,
+  batchGroupId: string,
+  { accountId: targetAccount, quoteUuid, uuid: customerTransactionId, details }: CreateBatchGroupTransfer,
+): Promise<Transfer> => {
+  const data = { targetAccount, quoteUuid, customerTransactionId, details };
+  return requestDataAndThrowParsedError(
+    axios.post,
+    `/v3/profiles/${profileId}/batch-groups/${batchGroupId}/transfers`,
+    {
+      data,
+      headers: { Authorization: `Bearer ${token}` },
+    },
+  );
+};
+
+const updateBatchGroupStatus = async (
+  token: string,
+  profileId: number,
+  batchGroup: BatchGroup,
+  status: 'COMPLETED' | 'CANCELLED',
+): Promise<BatchGroup> => {
+  return requestDataAndThrowParsedError(axios.patch, `/v3/profiles/${profileId}/batch-groups/${batchGroup.id}`, {
+    data: { status, version: batchGroup.version },
+    headers: { Authorization: `Bearer ${token}` },
+  });
+};
+
+/**
+ * Marks the batch group as complete, no transfer can be added after that and the group can be funded.
+ */
+export const completeBatchGroup = async (
+  token: string,
+  profileId: number,
+  batchGroup: BatchGroup,
+): Promise<BatchGroup> => {
+  return updateBatchGroupStatus(token, profileId, batchGroup, 'COMPLETED');
+};
+
+export const cancelBatchGroup = async (
+  token: string,
+  profileId: number,
+  batchGroup: BatchGroup,
+): Promise<BatchGroup> => {
+  return updateBatchGroupStatus(token, profileId, batchGroup, 'CANCELLED');
+};
+
+/**
+ * Funds all the transfers of a completed batch group at once, using the balance of the source currency.
+ */
+export const fundBatchGroup = async (token: string, profileId: number, batchGroupId: string): Promise<BatchGroup> => {
+  return requestDataAndThrowParsedError(
+    axios.post,
+    `/v3/profiles/${profileId}/batch-payments/${batchGroupId}/payments`,
+    {
+      data: { type: 'BALANCE' },
+      headers: { Authorization: `Bearer ${token}` },
+    },
+    'Unable to fund batch group, please check your balance and try again.',
+  );
+};
+
+/**
+ * Converts money between two balances of a borderless account, using a `BALANCE_CONVERSION` quote.
+ */
+export const convertBalance = async (
+  token: string,
+  borderlessAccountId: number,
+  quoteId: number,
+  uuid: string,
+): Promise<BalanceConversion> => {
+  return requestDataAndThrowParsedError(
+    axios.post,
+    `/v1/borderless-accounts/${borderlessAccountId}/conversions`,
+    {
+      data: { quoteId },
+      headers: { Authorization: `Bearer ${token}`, 'X-idempotence-uuid': uuid },
+    },
+    'Unable to convert between balances, please check your balances and try again.',
+  );
+};
+
 export const getProfiles = async (token: string): Promise<Profile[]> => {
   return requestDataAndThrowParsedError(
     axios.get,
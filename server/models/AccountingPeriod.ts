@@ -0,0 +1,162 @@
+import { Model, Op } from 'sequelize';
+
+import { AccountingPeriodClosed } from '../graphql/errors';
+import restoreSequelizeAttributesOnClass from '../lib/restore-sequelize-attributes-on-class';
+
+export enum AccountingPeriodInterval {
+  MONTH = 'MONTH',
+  YEAR = 'YEAR',
+}
+
+/**
+ * Lifecycle of an accounting period:
+ * closed -> reopened
+ * Closing the same period again creates a new entry, so that the history is kept.
+ */
+export enum AccountingPeriodStatus {
+  CLOSED = 'CLOSED',
+  REOPENED = 'REOPENED',
+}
+
+/**
+ * Sequelize model to represent an AccountingPeriod, linked to the `AccountingPeriods` table.
+ * Once a period is closed by the host, the transactions dated in this period can't be created,
+ * altered or deleted anymore. Corrections must be posted as new transactions in an open period.
+ */
+export class AccountingPeriod extends Model<AccountingPeriod> {
+  public readonly id!: number;
+  public HostCollectiveId!: number;
+  public interval!: AccountingPeriodInterval;
+  public startsAt!: Date;
+  public endsAt!: Date;
+  public status!: AccountingPeriodStatus;
+  public CreatedByUserId!: number;
+  public ReopenedByUserId: number;
+  public reopenedAt: Date;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+  public deletedAt: Date;
+
+  constructor(...args) {
+    super(...args);
+    restoreSequelizeAttributesOnClass(new.target, this);
+  }
+
+  /**
+   * Returns the closed period of the host that contains `date`, or null if the date is in an open period.
+   */
+  static async findClosedPeriod(HostCollectiveId: number, date: Date): Promise<AccountingPeriod | null> {
+    if (!HostCollectiveId) {
+      return null;
+    }
+
+    return AccountingPeriod.findOne({
+      where: {
+        HostCollectiveId,
+        status: AccountingPeriodStatus.CLOSED,
+        startsAt: { [Op.lte]: date },
+        endsAt: { [Op.gte]: date },
+      },
+    });
+  }
+
+  /**
+   * Throws if `date` is in a period closed by the host
+   */
+  static async assertIsOpen(HostCollectiveId: number, date: Date = new Date()): Promise<void> {
+    const period = await AccountingPeriod.findClosedPeriod(HostCollectiveId, date);
+    if (period) {
+      const from = period.startsAt.toISOString().slice(0, 10);
+      const to = period.endsAt.toISOString().slice(0, 10);
+      throw new AccountingPeriodClosed(
+        `The accounting period from ${from} to ${to} is closed, the transactions of this period can't be changed`,
+      );
+    }
+  }
+}
+
+export default (sequelize, DataTypes): typeof AccountingPeriod => {
+  // Link the model to database fields
+  AccountingPeriod.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      HostCollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      interval: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        validate: {
+          isIn: {
+            args: [Object.values(AccountingPeriodInterval)],
+            msg: `Must be one of ${Object.values(AccountingPeriodInterval)}`,
+          },
+        },
+      },
+      startsAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      endsAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        defaultValue: AccountingPeriodStatus.CLOSED,
+        validate: {
+          isIn: {
+            args: [Object.values(AccountingPeriodStatus)],
+            msg: `Must be one of ${Object.values(AccountingPeriodStatus)}`,
+          },
+        },
+      },
+      CreatedByUserId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Users' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      ReopenedByUserId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Users' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      reopenedAt: {
+        type: DataTypes.DATE,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      sequelize,
+      paranoid: true,
+      tableName: 'AccountingPeriods',
+    },
+  );
+
+  return AccountingPeriod;
+};
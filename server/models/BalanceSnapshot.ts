@@ -0,0 +1,92 @@
+import moment from 'moment';
+import { Model, Op } from 'sequelize';
+
+import restoreSequelizeAttributesOnClass from '../lib/restore-sequelize-attributes-on-class';
+
+/**
+ * Sequelize model to represent a BalanceSnapshot, linked to the `BalanceSnapshots` table.
+ * A snapshot is the balance of a collective at the end of a day (UTC), for the transactions recorded
+ * in a given host currency. Snapshots are only created for the days with transactions, so the balance
+ * on a date is given by the most recent snapshot before it.
+ *
+ * Snapshots are derived from the transactions: they are created by the `update-balance-snapshots` cron
+ * and removed when an older transaction is changed, to be computed again.
+ */
+export class BalanceSnapshot extends Model<BalanceSnapshot> {
+  public readonly id!: number;
+  public CollectiveId!: number;
+  public hostCurrency: string;
+  public currency!: string;
+  public date!: string;
+  /** Sum of `netAmountInCollectiveCurrency` until the end of the day, in cents */
+  public balance!: number;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+
+  constructor(...args) {
+    super(...args);
+    restoreSequelizeAttributesOnClass(new.target, this);
+  }
+
+  /**
+   * Removes the snapshots of the collective that include the transactions of `date`
+   */
+  static async invalidate(CollectiveId: number, date: Date): Promise<void> {
+    if (CollectiveId && date < moment.utc().startOf('day').toDate()) {
+      const day = moment.utc(date).format('YYYY-MM-DD');
+      await BalanceSnapshot.destroy({ where: { CollectiveId, date: { [Op.gte]: day } } });
+    }
+  }
+}
+
+export default (sequelize, DataTypes): typeof BalanceSnapshot => {
+  // Link the model to database fields
+  BalanceSnapshot.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      CollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      hostCurrency: {
+        type: DataTypes.STRING(3),
+        allowNull: true,
+      },
+      currency: {
+        type: DataTypes.STRING(3),
+        allowNull: false,
+      },
+      date: {
+        type: DataTypes.DATEONLY,
+        allowNull: false,
+      },
+      balance: {
+        type: DataTypes.BIGINT,
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'BalanceSnapshots',
+    },
+  );
+
+  return BalanceSnapshot;
+};
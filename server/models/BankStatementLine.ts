@@ -0,0 +1,154 @@
+import { Model } from 'sequelize';
+
+import restoreSequelizeAttributesOnClass from '../lib/restore-sequelize-attributes-on-class';
+
+/** Formats of the bank statements that hosts can import */
+export enum BankStatementFormat {
+  CSV = 'CSV',
+  OFX = 'OFX',
+  /** ISO 20022 bank statement (camt.053) or notification (camt.054) */
+  CAMT = 'CAMT',
+}
+
+/**
+ * Lifecycle of a bank statement line:
+ * unmatched -> matched
+ * unmatched -> proposed -> matched
+ * unmatched | proposed -> ignored
+ */
+export enum BankStatementLineStatus {
+  /** No pending order could be found for this line */
+  UNMATCHED = 'UNMATCHED',
+  /** A pending order looks like a match, it must be confirmed by an host admin */
+  PROPOSED = 'PROPOSED',
+  /** The order was marked as paid with this line */
+  MATCHED = 'MATCHED',
+  /** Not related to a contribution, like outgoing payments or bank fees */
+  IGNORED = 'IGNORED',
+}
+
+/**
+ * Sequelize model to represent a BankStatementLine, linked to the `BankStatementLines` table.
+ * Every line imported from the bank statements of a host is kept, to investigate the credits
+ * that couldn't be matched to a pending order.
+ */
+export class BankStatementLine extends Model<BankStatementLine> {
+  public readonly id!: number;
+  public HostCollectiveId!: number;
+  public CreatedByUserId!: number;
+  public OrderId: number;
+  public status!: BankStatementLineStatus;
+  public format!: BankStatementFormat;
+  public date!: Date;
+  /** In cents, positive for credits and negative for debits */
+  public amount!: number;
+  public currency!: string;
+  public description: string;
+  public counterpartyName: string;
+  public bankReference: string;
+  public data: Record<string, any>;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+  public deletedAt: Date;
+
+  constructor(...args) {
+    super(...args);
+    restoreSequelizeAttributesOnClass(new.target, this);
+  }
+}
+
+export default (sequelize, DataTypes): typeof BankStatementLine => {
+  // Link the model to database fields
+  BankStatementLine.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      HostCollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      CreatedByUserId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Users' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      OrderId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Orders' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      status: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        defaultValue: BankStatementLineStatus.UNMATCHED,
+        validate: {
+          isIn: {
+            args: [Object.values(BankStatementLineStatus)],
+            msg: `Must be one of ${Object.values(BankStatementLineStatus)}`,
+          },
+        },
+      },
+      format: {
+        type: DataTypes.ENUM(...Object.values(BankStatementFormat)),
+        allowNull: false,
+      },
+      date: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      amount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      currency: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        validate: {
+          len: [3, 3],
+        },
+      },
+      description: {
+        type: DataTypes.TEXT,
+      },
+      counterpartyName: {
+        type: DataTypes.STRING,
+      },
+      bankReference: {
+        type: DataTypes.STRING,
+      },
+      data: {
+        type: DataTypes.JSONB,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      sequelize,
+      paranoid: true,
+      tableName: 'BankStatementLines',
+    },
+  );
+
+  return BankStatementLine;
+};
@@ -2289,6 +2289,14 @@ export default function (Sequelize, DataTypes) {
     return get(result, '[0].balance') || 0;
   };
 
+  /**
+   * Same as `getBalance()` for the current balance, computed from the latest balance snapshots
+   */
+  Collective.prototype.getCurrentBalance = async function () {
+    const result = await queries.getCurrentBalances([this.id]);
+    return get(result, '[0].balance') || 0;
+  };
+
   Collective.prototype.getYearlyIncome = function () {
     /*
       Three cases:
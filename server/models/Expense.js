@@ -138,6 +138,22 @@ export default function (Sequelize, DataTypes) {
         allowNull: true,
       },
 
+      PayoutBatchId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'PayoutBatches' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+
+      RecurringExpenseId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'RecurringExpenses' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+
       privateMessage: {
         type: DataTypes.STRING,
         set(value) {
@@ -301,7 +317,7 @@ export default function (Sequelize, DataTypes) {
       CollectiveId: this.collective.id,
       ExpenseId: this.id,
       data: {
-        ...pick(data, ['isManualPayout', 'error']),
+        ...pick(data, ['isManualPayout', 'error', 'unclaimedDays', 'reason']),
         host: get(host, 'minimal'),
         collective: { ...this.collective.minimal, isActive: this.collective.isActive },
         user: submittedByUserCollective.minimal,
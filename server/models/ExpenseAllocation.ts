@@ -0,0 +1,120 @@
+import { Model, Transaction } from 'sequelize';
+
+import restoreSequelizeAttributesOnClass from '../lib/restore-sequelize-attributes-on-class';
+
+/**
+ * Sequelize model to represent an ExpenseAllocation, linked to the `ExpenseAllocations` table.
+ * When an expense is split between multiple collectives of the same host, each allocation
+ * records the share of the expense paid by one collective.
+ */
+export class ExpenseAllocation extends Model<ExpenseAllocation> {
+  public readonly id!: number;
+  public ExpenseId!: number;
+  public CollectiveId!: number;
+  public amount!: number;
+  public percentage: number | null;
+  public CreatedByUserId: number;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+  public deletedAt: Date;
+
+  constructor(...args) {
+    super(...args);
+    restoreSequelizeAttributesOnClass(new.target, this);
+  }
+
+  /**
+   * Replaces the allocations of the expense with the given ones
+   */
+  static async replaceForExpense(
+    expense,
+    allocations: Array<{ CollectiveId: number; amount: number; percentage?: number | null }>,
+    user,
+    dbTransaction: Transaction | null = null,
+  ): Promise<ExpenseAllocation[]> {
+    await ExpenseAllocation.destroy({ where: { ExpenseId: expense.id }, transaction: dbTransaction });
+    return Promise.all(
+      allocations.map(allocation =>
+        ExpenseAllocation.create(
+          {
+            ExpenseId: expense.id,
+            CollectiveId: allocation.CollectiveId,
+            amount: allocation.amount,
+            percentage: allocation.percentage || null,
+            CreatedByUserId: user?.id || null,
+          },
+          { transaction: dbTransaction },
+        ),
+      ),
+    );
+  }
+}
+
+export default (sequelize, DataTypes): typeof ExpenseAllocation => {
+  // Link the model to database fields
+  ExpenseAllocation.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      ExpenseId: {
+        type: DataTypes.INTEGER,
+        references: { model: 'Expenses', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      CollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { model: 'Collectives', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      amount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        validate: {
+          min: 1,
+        },
+      },
+      percentage: {
+        type: DataTypes.FLOAT,
+        allowNull: true,
+        validate: {
+          min: 0,
+          max: 100,
+        },
+      },
+      CreatedByUserId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Users' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      sequelize,
+      paranoid: true,
+      tableName: 'ExpenseAllocations',
+    },
+  );
+
+  return ExpenseAllocation;
+};
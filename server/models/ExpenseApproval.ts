@@ -0,0 +1,83 @@
+import { Model, Transaction } from 'sequelize';
+
+import restoreSequelizeAttributesOnClass from '../lib/restore-sequelize-attributes-on-class';
+
+/**
+ * Sequelize model to represent an ExpenseApproval, linked to the `ExpenseApprovals` table.
+ * Each entry records the approval of an expense by a single user.
+ */
+export class ExpenseApproval extends Model<ExpenseApproval> {
+  public readonly id!: number;
+  public ExpenseId!: number;
+  /** Null if the user was deleted, the approval still counts */
+  public UserId: number | null;
+  public isHostAdmin!: boolean;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+  public deletedAt: Date;
+
+  constructor(...args) {
+    super(...args);
+    restoreSequelizeAttributesOnClass(new.target, this);
+  }
+
+  /**
+   * Removes all the approvals recorded for this expense. Must be called whenever the expense goes back
+   * to a state where it needs to be approved again (unapproved, rejected, edited...etc).
+   */
+  static async resetForExpense(expenseId: number, dbTransaction: Transaction | null = null): Promise<number> {
+    return ExpenseApproval.destroy({ where: { ExpenseId: expenseId }, transaction: dbTransaction });
+  }
+}
+
+export default (sequelize, DataTypes): typeof ExpenseApproval => {
+  // Link the model to database fields
+  ExpenseApproval.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      ExpenseId: {
+        type: DataTypes.INTEGER,
+        references: { model: 'Expenses', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      UserId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Users' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      isHostAdmin: {
+        type: DataTypes.BOOLEAN,
+        defaultValue: false,
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      sequelize,
+      paranoid: true,
+      tableName: 'ExpenseApprovals',
+    },
+  );
+
+  return ExpenseApproval;
+};
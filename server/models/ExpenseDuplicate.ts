@@ -0,0 +1,89 @@
+import { Model } from 'sequelize';
+
+import restoreSequelizeAttributesOnClass from '../lib/restore-sequelize-attributes-on-class';
+
+/** Why an expense looks like a duplicate of another one */
+export enum ExpenseDuplicateReason {
+  SAME_AMOUNT = 'SAME_AMOUNT',
+  SAME_DATE = 'SAME_DATE',
+  SIMILAR_DESCRIPTION = 'SIMILAR_DESCRIPTION',
+  SAME_FILE = 'SAME_FILE',
+}
+
+/**
+ * Sequelize model to represent an ExpenseDuplicate, linked to the `ExpenseDuplicates` table.
+ * Records that an expense may be a duplicate of a previously submitted one, see `server/lib/expense-duplicates`.
+ */
+export class ExpenseDuplicate extends Model<ExpenseDuplicate> {
+  public readonly id!: number;
+  public ExpenseId!: number;
+  public DuplicateExpenseId!: number;
+  public reasons!: ExpenseDuplicateReason[];
+  public createdAt!: Date;
+  public updatedAt!: Date;
+  public deletedAt: Date;
+
+  constructor(...args) {
+    super(...args);
+    restoreSequelizeAttributesOnClass(new.target, this);
+  }
+}
+
+export default (sequelize, DataTypes): typeof ExpenseDuplicate => {
+  // Link the model to database fields
+  ExpenseDuplicate.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      ExpenseId: {
+        type: DataTypes.INTEGER,
+        references: { model: 'Expenses', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      DuplicateExpenseId: {
+        type: DataTypes.INTEGER,
+        references: { model: 'Expenses', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      reasons: {
+        type: DataTypes.ARRAY(DataTypes.STRING),
+        allowNull: false,
+        validate: {
+          isValidReasons(reasons: string[]): void {
+            const validReasons = Object.values(ExpenseDuplicateReason) as string[];
+            if (!reasons?.length || reasons.some(reason => !validReasons.includes(reason))) {
+              throw new Error(`Reasons must be one of: ${validReasons}`);
+            }
+          },
+        },
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      sequelize,
+      paranoid: true,
+      tableName: 'ExpenseDuplicates',
+    },
+  );
+
+  return ExpenseDuplicate;
+};
@@ -1,10 +1,16 @@
 import { pick } from 'lodash';
-import { Model, Transaction } from 'sequelize';
+import { Model, Op, Transaction } from 'sequelize';
 
 import { diffDBEntries } from '../lib/data';
 import { isValidUploadedImage } from '../lib/images';
+import { ReceiptData } from '../lib/receipt-parser';
 import restoreSequelizeAttributesOnClass from '../lib/restore-sequelize-attributes-on-class';
 
+/** Where the FX rate used to convert an item to the expense currency comes from */
+export enum ExpenseItemFxRateSource {
+  FIXER = 'FIXER',
+}
+
 /**
  * Sequelize model to represent an ExpenseItem, linked to the `ExpenseItems` table.
  */
@@ -19,8 +25,24 @@ export class ExpenseItem extends Model<ExpenseItem> {
   public deletedAt: Date;
   public incurredAt!: Date;
   public description: string;
+  public originalCurrency: string | null;
+  public originalAmount: number | null;
+  public fxRate: number | null;
+  public fxRateSource: ExpenseItemFxRateSource | null;
+  public receiptData: ReceiptData | null;
+  public fileHash: string | null;
 
-  private static editableFields = ['amount', 'url', 'description', 'incurredAt'];
+  // FX fields are not set by users directly but always computed with `convertExpenseItemsData`
+  private static editableFields = [
+    'amount',
+    'url',
+    'description',
+    'incurredAt',
+    'originalCurrency',
+    'originalAmount',
+    'fxRate',
+    'fxRateSource',
+  ];
 
   constructor(...args) {
     super(...args);
@@ -62,6 +84,14 @@ export class ExpenseItem extends Model<ExpenseItem> {
   static async updateFromData(itemData: object, dbTransaction: Transaction | null): Promise<ExpenseItem> {
     const id = itemData['id'];
     const cleanData = ExpenseItem.cleanData(itemData);
+    if (cleanData['url'] !== undefined) {
+      // The hash of the previous file is recomputed by the duplicates detection
+      await ExpenseItem.update(
+        { fileHash: null },
+        { where: { id, url: { [Op.ne]: cleanData['url'] } }, transaction: dbTransaction },
+      );
+    }
+
     return ExpenseItem.update(cleanData, { where: { id }, transaction: dbTransaction });
   }
 
@@ -125,6 +155,42 @@ export default (sequelize, DataTypes): typeof ExpenseItem => {
         defaultValue: DataTypes.NOW,
         allowNull: false,
       },
+      originalCurrency: {
+        type: DataTypes.STRING(3),
+        allowNull: true,
+        validate: {
+          len: [3, 3],
+        },
+      },
+      originalAmount: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        validate: {
+          min: 1,
+        },
+      },
+      fxRate: {
+        type: DataTypes.FLOAT,
+        allowNull: true,
+      },
+      fxRateSource: {
+        type: DataTypes.STRING,
+        allowNull: true,
+        validate: {
+          isIn: {
+            args: [Object.values(ExpenseItemFxRateSource)],
+            msg: `Must be one of: ${Object.values(ExpenseItemFxRateSource)}`,
+          },
+        },
+      },
+      receiptData: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      fileHash: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
       ExpenseId: {
         type: DataTypes.INTEGER,
         references: { model: 'Expenses', key: 'id' },
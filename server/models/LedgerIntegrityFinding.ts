@@ -0,0 +1,155 @@
+import { Model } from 'sequelize';
+
+import restoreSequelizeAttributesOnClass from '../lib/restore-sequelize-attributes-on-class';
+
+/** The checks run on the ledger, see `server/lib/ledger-integrity.ts` */
+export enum LedgerIntegrityCheckType {
+  /** A transaction group is not made of one CREDIT and one DEBIT with symmetrical amounts */
+  TRANSACTION_GROUP_NOT_BALANCED = 'TRANSACTION_GROUP_NOT_BALANCED',
+  /** `RefundTransactionId` is missing, points to a missing transaction or is not reciprocal */
+  REFUND_NOT_LINKED = 'REFUND_NOT_LINKED',
+  /** Fees must be negative, or positive for refunds */
+  FEE_SIGN_MISMATCH = 'FEE_SIGN_MISMATCH',
+  /** The amounts and fees of a transaction don't add up to its net amount */
+  NET_AMOUNT_MISMATCH = 'NET_AMOUNT_MISMATCH',
+  /** Transactions recorded in a different currency than the one of their host */
+  HOST_CURRENCY_MISMATCH = 'HOST_CURRENCY_MISMATCH',
+}
+
+export enum LedgerIntegritySeverity {
+  /** Needs to be fixed, the balances are wrong */
+  ERROR = 'ERROR',
+  /** Needs to be investigated, but can be legitimate */
+  WARNING = 'WARNING',
+}
+
+/**
+ * Lifecycle of a finding:
+ * open -> resolved, when the issue is not detected anymore
+ */
+export enum LedgerIntegrityFindingStatus {
+  OPEN = 'OPEN',
+  RESOLVED = 'RESOLVED',
+}
+
+/**
+ * Sequelize model to represent a LedgerIntegrityFinding, linked to the `LedgerIntegrityFindings` table.
+ * A finding is an issue detected in the ledger by one of the integrity checks. The same issue
+ * detected again updates the existing finding, identified by its type and `key`.
+ */
+export class LedgerIntegrityFinding extends Model<LedgerIntegrityFinding> {
+  public readonly id!: number;
+  public type!: LedgerIntegrityCheckType;
+  public severity!: LedgerIntegritySeverity;
+  public status!: LedgerIntegrityFindingStatus;
+  public key!: string;
+  public HostCollectiveId: number;
+  public TransactionIds!: number[];
+  public message!: string;
+  public data: Record<string, any>;
+  public lastDetectedAt!: Date;
+  public resolvedAt: Date;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+  public deletedAt: Date;
+
+  constructor(...args) {
+    super(...args);
+    restoreSequelizeAttributesOnClass(new.target, this);
+  }
+}
+
+export default (sequelize, DataTypes): typeof LedgerIntegrityFinding => {
+  // Link the model to database fields
+  LedgerIntegrityFinding.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      type: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        validate: {
+          isIn: {
+            args: [Object.values(LedgerIntegrityCheckType)],
+            msg: `Must be one of ${Object.values(LedgerIntegrityCheckType)}`,
+          },
+        },
+      },
+      severity: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        validate: {
+          isIn: {
+            args: [Object.values(LedgerIntegritySeverity)],
+            msg: `Must be one of ${Object.values(LedgerIntegritySeverity)}`,
+          },
+        },
+      },
+      status: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        defaultValue: LedgerIntegrityFindingStatus.OPEN,
+        validate: {
+          isIn: {
+            args: [Object.values(LedgerIntegrityFindingStatus)],
+            msg: `Must be one of ${Object.values(LedgerIntegrityFindingStatus)}`,
+          },
+        },
+      },
+      key: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      HostCollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      TransactionIds: {
+        type: DataTypes.ARRAY(DataTypes.INTEGER),
+        allowNull: false,
+        defaultValue: [],
+      },
+      message: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+      },
+      data: {
+        type: DataTypes.JSONB,
+      },
+      lastDetectedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      resolvedAt: {
+        type: DataTypes.DATE,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      sequelize,
+      paranoid: true,
+      tableName: 'LedgerIntegrityFindings',
+    },
+  );
+
+  return LedgerIntegrityFinding;
+};
@@ -0,0 +1,130 @@
+import { Model } from 'sequelize';
+
+import restoreSequelizeAttributesOnClass from '../lib/restore-sequelize-attributes-on-class';
+
+import { PayoutMethodTypes } from './PayoutMethod';
+
+/**
+ * Lifecycle of a payout batch:
+ * pending -> processing -> completed
+ * pending -> processing -> error
+ * pending -> cancelled
+ */
+export enum PayoutBatchStatus {
+  /** Waiting to be sent, hosts can review the batch at this stage */
+  PENDING = 'PENDING',
+  /** Sent to the payment provider */
+  PROCESSING = 'PROCESSING',
+  /** All the expenses of the batch have been paid, or cancelled after being sent */
+  COMPLETED = 'COMPLETED',
+  /** The payment provider rejected the batch, or some of its expenses */
+  ERROR = 'ERROR',
+  /** Cancelled by an host admin before being sent */
+  CANCELLED = 'CANCELLED',
+}
+
+/** What we know about the payment of each expense of the batch, stored in `data.items` when the batch is sent */
+export type PayoutBatchItemData = {
+  ExpenseId: number;
+  /** For TransferWise, the batch group that funded the transfer */
+  batchGroupId?: string;
+  /** For TransferWise, the ID of the transfer created for the expense */
+  transferId?: number;
+  /** For PayPal, the ID of the PayPal batch the expense was sent in. Large payouts are split in multiple batches. */
+  paypalBatchId?: string;
+  /** The error returned by the payment provider for this expense, if any */
+  error?: string;
+};
+
+/** Payout method types that can be paid in batch */
+export const BATCHABLE_PAYOUT_METHOD_TYPES = [PayoutMethodTypes.PAYPAL, PayoutMethodTypes.BANK_ACCOUNT];
+
+/**
+ * Sequelize model to represent a PayoutBatch, linked to the `PayoutBatches` table.
+ * A batch groups the expenses scheduled for payment by host and payout method type.
+ */
+export class PayoutBatch extends Model<PayoutBatch> {
+  public readonly id!: number;
+  public HostCollectiveId!: number;
+  public payoutMethodType!: PayoutMethodTypes;
+  public status!: PayoutBatchStatus;
+  public data: Record<string, any>;
+  public SentByUserId: number;
+  public sentAt: Date;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+  public deletedAt: Date;
+
+  constructor(...args) {
+    super(...args);
+    restoreSequelizeAttributesOnClass(new.target, this);
+  }
+}
+
+export default (sequelize, DataTypes): typeof PayoutBatch => {
+  // Link the model to database fields
+  PayoutBatch.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      HostCollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      payoutMethodType: {
+        type: DataTypes.ENUM(...BATCHABLE_PAYOUT_METHOD_TYPES),
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        defaultValue: PayoutBatchStatus.PENDING,
+        validate: {
+          isIn: {
+            args: [Object.values(PayoutBatchStatus)],
+            msg: `Must be one of ${Object.values(PayoutBatchStatus)}`,
+          },
+        },
+      },
+      data: {
+        type: DataTypes.JSONB,
+      },
+      SentByUserId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Users' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      sentAt: {
+        type: DataTypes.DATE,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      sequelize,
+      paranoid: true,
+      tableName: 'PayoutBatches',
+    },
+  );
+
+  return PayoutBatch;
+};
@@ -0,0 +1,182 @@
+import moment from 'moment';
+import { Model } from 'sequelize';
+
+import restoreSequelizeAttributesOnClass from '../lib/restore-sequelize-attributes-on-class';
+
+export enum RecurringExpenseIntervals {
+  MONTH = 'month',
+  QUARTER = 'quarter',
+  YEAR = 'year',
+}
+
+/**
+ * active -> paused -> active
+ * active -> completed (once `endsAt` is reached)
+ * active|paused -> cancelled
+ */
+export enum RecurringExpenseStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED',
+  CANCELLED = 'CANCELLED',
+  COMPLETED = 'COMPLETED',
+}
+
+/** The fields copied from the expense to generate the next ones */
+export interface RecurringExpenseTemplate {
+  description: string;
+  longDescription?: string;
+  type: string;
+  tags?: string[];
+  privateMessage?: string;
+  invoiceInfo?: string;
+  payeeLocation?: { address?: string; country?: string };
+  items: { description?: string; amount: number; currency?: string; url?: string }[];
+}
+
+/**
+ * Sequelize model to represent a RecurringExpense, linked to the `RecurringExpenses` table.
+ * Defines an expense that gets submitted again on every period, see `server/lib/recurring-expenses`.
+ */
+export class RecurringExpense extends Model<RecurringExpense> {
+  public readonly id!: number;
+  public CollectiveId!: number;
+  public FromCollectiveId!: number;
+  public UserId!: number;
+  public PayoutMethodId: number;
+  public interval!: RecurringExpenseIntervals;
+  public status!: RecurringExpenseStatus;
+  public template!: RecurringExpenseTemplate;
+  public nextDate!: Date;
+  public endsAt: Date;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+  public deletedAt: Date;
+
+  constructor(...args) {
+    super(...args);
+    restoreSequelizeAttributesOnClass(new.target, this);
+  }
+
+  static getNextDate(date: Date, interval: RecurringExpenseIntervals): Date {
+    return moment.utc(date).add(1, interval).toDate();
+  }
+
+  /** Whether the given occurrence date is past the end date of this recurring expense */
+  isOver(date: Date = this.nextDate): boolean {
+    return Boolean(this.endsAt) && date > this.endsAt;
+  }
+
+  async pause(): Promise<RecurringExpense> {
+    return this.update({ status: RecurringExpenseStatus.PAUSED });
+  }
+
+  /**
+   * Resumes a paused recurring expense. Periods that were skipped while it was paused are not generated.
+   */
+  async resume(): Promise<RecurringExpense> {
+    let nextDate = this.nextDate;
+    while (nextDate < new Date()) {
+      nextDate = RecurringExpense.getNextDate(nextDate, this.interval);
+    }
+
+    const status = this.isOver(nextDate) ? RecurringExpenseStatus.COMPLETED : RecurringExpenseStatus.ACTIVE;
+    return this.update({ status, nextDate });
+  }
+
+  async cancel(): Promise<RecurringExpense> {
+    return this.update({ status: RecurringExpenseStatus.CANCELLED });
+  }
+}
+
+export default (sequelize, DataTypes): typeof RecurringExpense => {
+  // Link the model to database fields
+  RecurringExpense.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      CollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      FromCollectiveId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Collectives' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      UserId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'Users' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      PayoutMethodId: {
+        type: DataTypes.INTEGER,
+        references: { key: 'id', model: 'PayoutMethods' },
+        onDelete: 'SET NULL',
+        onUpdate: 'CASCADE',
+        allowNull: true,
+      },
+      interval: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        validate: {
+          isIn: {
+            args: [Object.values(RecurringExpenseIntervals)],
+            msg: `Must be one of ${Object.values(RecurringExpenseIntervals)}`,
+          },
+        },
+      },
+      status: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        defaultValue: RecurringExpenseStatus.ACTIVE,
+        validate: {
+          isIn: {
+            args: [Object.values(RecurringExpenseStatus)],
+            msg: `Must be one of ${Object.values(RecurringExpenseStatus)}`,
+          },
+        },
+      },
+      template: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      nextDate: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      endsAt: {
+        type: DataTypes.DATE,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      sequelize,
+      paranoid: true,
+      tableName: 'RecurringExpenses',
+    },
+  );
+
+  return RecurringExpense;
+};
@@ -16,6 +16,33 @@ import CustomDataTypes from './DataTypes';
 
 const debug = debugLib('models:Transaction');
 
+/**
+ * Changing these fields alters the ledger, which is not allowed for the transactions dated in an
+ * accounting period closed by the host. Links like `RefundTransactionId` can still be updated.
+ */
+const LEDGER_FIELDS = [
+  'type',
+  'amount',
+  'currency',
+  'amountInHostCurrency',
+  'hostCurrency',
+  'hostCurrencyFxRate',
+  'hostFeeInHostCurrency',
+  'platformFeeInHostCurrency',
+  'paymentProcessorFeeInHostCurrency',
+  'netAmountInCollectiveCurrency',
+  'taxAmount',
+  'CollectiveId',
+  'FromCollectiveId',
+  'HostCollectiveId',
+  'TransactionGroup',
+  'isRefund',
+  'createdAt',
+];
+
+/** Changing these fields requires to compute the balance snapshots of the collective again */
+const BALANCE_FIELDS = ['CollectiveId', 'hostCurrency', 'netAmountInCollectiveCurrency', 'createdAt'];
+
 /*
  * Transaction model
  * - this indicates that money was moved in the system
@@ -227,11 +254,39 @@ export default (Sequelize, DataTypes) => {
       },
 
       hooks: {
-        afterCreate: transaction => {
+        beforeCreate: transaction => {
+          return models.AccountingPeriod.assertIsOpen(transaction.HostCollectiveId, transaction.createdAt);
+        },
+        beforeUpdate: async transaction => {
+          if (!LEDGER_FIELDS.some(field => transaction.changed(field))) {
+            return;
+          }
+
+          const previousDate = transaction.previous('createdAt') || transaction.createdAt;
+          await models.AccountingPeriod.assertIsOpen(transaction.previous('HostCollectiveId'), previousDate);
+          if (transaction.changed('createdAt') || transaction.changed('HostCollectiveId')) {
+            await models.AccountingPeriod.assertIsOpen(transaction.HostCollectiveId, transaction.createdAt);
+          }
+        },
+        beforeDestroy: transaction => {
+          return models.AccountingPeriod.assertIsOpen(transaction.HostCollectiveId, transaction.createdAt);
+        },
+        afterCreate: async transaction => {
+          await models.BalanceSnapshot.invalidate(transaction.CollectiveId, transaction.createdAt);
           Transaction.createActivity(transaction);
           // intentionally returns null, needs to be async (https://github.com/petkaantonov/bluebird/blob/master/docs/docs/warning-explanations.md#warning-a-promise-was-created-in-a-handler-but-was-not-returned-from-it)
           return null;
         },
+        afterUpdate: async transaction => {
+          if (BALANCE_FIELDS.some(field => transaction.changed(field))) {
+            const previousDate = transaction.previous('createdAt') || transaction.createdAt;
+            await models.BalanceSnapshot.invalidate(transaction.previous('CollectiveId'), previousDate);
+            await models.BalanceSnapshot.invalidate(transaction.CollectiveId, transaction.createdAt);
+          }
+        },
+        afterDestroy: transaction => {
+          return models.BalanceSnapshot.invalidate(transaction.CollectiveId, transaction.createdAt);
+        },
       },
     },
   );
@@ -0,0 +1,80 @@
+import { Model } from 'sequelize';
+
+import restoreSequelizeAttributesOnClass from '../lib/restore-sequelize-attributes-on-class';
+
+/**
+ * Sequelize model to represent a TransferwiseRecipient, linked to the `TransferwiseRecipients` table.
+ * Caches the recipient account created on the TransferWise profile of a host for a payout method, so that
+ * it can be reused for the next payments. `dataHash` is the hash of the payout method data used to create
+ * the recipient: when it changes, the recipient is recreated.
+ */
+export class TransferwiseRecipient extends Model<TransferwiseRecipient> {
+  public readonly id!: number;
+  public PayoutMethodId!: number;
+  public ConnectedAccountId!: number;
+  public recipientId!: number;
+  public dataHash!: string;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+  public deletedAt: Date;
+
+  constructor(...args) {
+    super(...args);
+    restoreSequelizeAttributesOnClass(new.target, this);
+  }
+}
+
+export default (sequelize, DataTypes): typeof TransferwiseRecipient => {
+  // Link the model to database fields
+  TransferwiseRecipient.init(
+    {
+      id: {
+        type: DataTypes.INTEGER,
+        primaryKey: true,
+        autoIncrement: true,
+      },
+      PayoutMethodId: {
+        type: DataTypes.INTEGER,
+        references: { model: 'PayoutMethods', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      ConnectedAccountId: {
+        type: DataTypes.INTEGER,
+        references: { model: 'ConnectedAccounts', key: 'id' },
+        onDelete: 'CASCADE',
+        onUpdate: 'CASCADE',
+        allowNull: false,
+      },
+      recipientId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      dataHash: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      deletedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      sequelize,
+      paranoid: true,
+      tableName: 'TransferwiseRecipients',
+    },
+  );
+
+  return TransferwiseRecipient;
+};
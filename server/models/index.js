@@ -13,8 +13,11 @@ export function setupModels(client) {
    */
 
   [
+    'AccountingPeriod',
     'Activity',
     'Application',
+    'BalanceSnapshot',
+    'BankStatementLine',
     'ConnectedAccount',
     'Collective',
     'Comment',
@@ -23,20 +26,27 @@ export function setupModels(client) {
     'ConversationFollower',
     'CurrencyExchangeRate',
     'Expense',
+    'ExpenseAllocation',
+    'ExpenseDuplicate',
+    'ExpenseApproval',
     'ExpenseAttachedFile',
     'ExpenseItem',
+    'LedgerIntegrityFinding',
     'LegalDocument',
     'Member',
     'MemberInvitation',
     'Notification',
     'Order',
     'PaymentMethod',
+    'PayoutBatch',
     'PayoutMethod',
+    'RecurringExpense',
     'RequiredLegalDocument',
     'Session',
     'Subscription',
     'Tier',
     'Transaction',
+    'TransferwiseRecipient',
     'Update',
     'User',
   ].forEach(model => {
@@ -143,6 +153,8 @@ export function setupModels(client) {
   // Expense
   m.Expense.belongsTo(m.User);
   m.Expense.belongsTo(m.PayoutMethod);
+  m.Expense.belongsTo(m.PayoutBatch);
+  m.Expense.belongsTo(m.RecurringExpense);
   m.Expense.belongsTo(m.Collective, {
     foreignKey: 'CollectiveId',
     as: 'collective',
@@ -151,6 +163,8 @@ export function setupModels(client) {
     foreignKey: 'FromCollectiveId',
     as: 'fromCollective',
   });
+  m.Expense.hasMany(m.ExpenseAllocation, { as: 'allocations' });
+  m.Expense.hasMany(m.ExpenseApproval, { as: 'approvals' });
   m.Expense.hasMany(m.ExpenseAttachedFile, { as: 'attachedFiles' });
   m.Expense.hasMany(m.ExpenseItem, { as: 'items' });
   m.Expense.hasMany(m.Transaction);
@@ -160,6 +174,22 @@ export function setupModels(client) {
   // Expense items
   m.ExpenseItem.belongsTo(m.Expense);
 
+  // Expense allocations
+  m.ExpenseAllocation.belongsTo(m.Expense);
+  m.ExpenseAllocation.belongsTo(m.Collective, { foreignKey: 'CollectiveId', as: 'collective' });
+
+  // Expense duplicates
+  m.ExpenseDuplicate.belongsTo(m.Expense);
+  m.ExpenseDuplicate.belongsTo(m.Expense, { foreignKey: 'DuplicateExpenseId', as: 'duplicateExpense' });
+
+  // TransferWise recipients
+  m.TransferwiseRecipient.belongsTo(m.PayoutMethod);
+  m.TransferwiseRecipient.belongsTo(m.ConnectedAccount);
+
+  // Expense approvals
+  m.ExpenseApproval.belongsTo(m.Expense);
+  m.ExpenseApproval.belongsTo(m.User);
+
   // Expense attached files
   m.ExpenseAttachedFile.belongsTo(m.Expense);
 
@@ -209,6 +239,34 @@ export function setupModels(client) {
   m.PayoutMethod.belongsTo(m.Collective);
   m.Collective.hasMany(m.PayoutMethod);
 
+  // Ledger integrity findings
+  m.LedgerIntegrityFinding.belongsTo(m.Collective, { foreignKey: 'HostCollectiveId', as: 'host' });
+
+  // Payout batch
+  m.PayoutBatch.belongsTo(m.Collective, { foreignKey: 'HostCollectiveId', as: 'host' });
+  m.PayoutBatch.belongsTo(m.User, { foreignKey: 'SentByUserId', as: 'sentByUser' });
+  m.PayoutBatch.hasMany(m.Expense, { as: 'expenses' });
+
+  // Bank statement lines
+  m.BankStatementLine.belongsTo(m.Collective, { foreignKey: 'HostCollectiveId', as: 'host' });
+  m.BankStatementLine.belongsTo(m.User, { foreignKey: 'CreatedByUserId', as: 'createdByUser' });
+  m.BankStatementLine.belongsTo(m.Order);
+
+  // Balance snapshots
+  m.BalanceSnapshot.belongsTo(m.Collective, { foreignKey: 'CollectiveId', as: 'collective' });
+
+  // Accounting periods
+  m.AccountingPeriod.belongsTo(m.Collective, { foreignKey: 'HostCollectiveId', as: 'host' });
+  m.AccountingPeriod.belongsTo(m.User, { foreignKey: 'CreatedByUserId', as: 'createdByUser' });
+  m.AccountingPeriod.belongsTo(m.User, { foreignKey: 'ReopenedByUserId', as: 'reopenedByUser' });
+
+  // Recurring expenses
+  m.RecurringExpense.belongsTo(m.Collective, { foreignKey: 'CollectiveId', as: 'collective' });
+  m.RecurringExpense.belongsTo(m.Collective, { foreignKey: 'FromCollectiveId', as: 'fromCollective' });
+  m.RecurringExpense.belongsTo(m.User);
+  m.RecurringExpense.belongsTo(m.PayoutMethod);
+  m.RecurringExpense.hasMany(m.Expense, { as: 'expenses' });
+
   // Tier
   m.Tier.belongsTo(m.Collective);
 
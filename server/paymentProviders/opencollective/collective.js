@@ -1,5 +1,5 @@
 import Promise from 'bluebird';
-import { get } from 'lodash';
+import { get, pick } from 'lodash';
 
 import { TransactionTypes } from '../../constants/transactions';
 import { getFxRate } from '../../lib/currency';
@@ -44,8 +44,16 @@ paymentMethodProvider.processOrder = async order => {
     );
   }
 
+  // Different collectives on the same host may have different currencies
+  // That's bad design. We should always keep the same host currency everywhere and only use the currency
+  // of the collective for display purposes (using the fxrate at the time of display)
+  // Anyway, until we change that, when we give money to a collective that has a different currency
+  // we need to compute the equivalent using the fxrate of the day
+  const fxrate = await getFxRate(order.currency, order.paymentMethod.currency);
+  const totalAmountInPaymentMethodCurrency = order.totalAmount * fxrate;
+
   const balance = await paymentMethodProvider.getBalance(order.paymentMethod);
-  if (balance < order.totalAmount) {
+  if (balance < totalAmountInPaymentMethodCurrency) {
     throw new Error(
       `Not enough funds available (${formatCurrency(
         balance,
@@ -64,14 +72,6 @@ paymentMethodProvider.processOrder = async order => {
     PaymentMethodId: order.PaymentMethodId,
   };
 
-  // Different collectives on the same host may have different currencies
-  // That's bad design. We should always keep the same host currency everywhere and only use the currency
-  // of the collective for display purposes (using the fxrate at the time of display)
-  // Anyway, until we change that, when we give money to a collective that has a different currency
-  // we need to compute the equivalent using the fxrate of the day
-  const fxrate = await getFxRate(order.currency, order.paymentMethod.currency);
-  const totalAmountInPaymentMethodCurrency = order.totalAmount * fxrate;
-
   const feeOnTop = order.data?.platformFee || 0;
   const hostFeeInHostCurrency = paymentsLib.calcFee((order.totalAmount - feeOnTop) * fxrate, hostFeePercent);
   const platformFeeInHostCurrency = !feeOnTop
@@ -94,6 +94,7 @@ paymentMethodProvider.processOrder = async order => {
     description: order.description,
     data: {
       isFeesOnTop: order.data?.isFeesOnTop,
+      ...pick(order.data, ['isInternalTransfer', 'tags']),
     },
   };
 
@@ -0,0 +1,55 @@
+import { uniq } from 'lodash';
+
+import { PayoutMethodTypes } from '../models/PayoutMethod';
+import { PayoutProvider } from '../types/PayoutProvider';
+
+import paypal from './paypal/payout-provider';
+import transferwise from './transferwise/payout-provider';
+
+/** Payout methods that are always supported, as they're paid by marking the expense as paid */
+const ALWAYS_SUPPORTED_PAYOUT_METHODS = [PayoutMethodTypes.OTHER, PayoutMethodTypes.ACCOUNT_BALANCE];
+
+/**
+ * The registered payout providers. When multiple providers support the same payout method, the first
+ * one enabled by the host is used.
+ */
+const payoutProviders: PayoutProvider[] = [transferwise, paypal];
+
+/**
+ * Registers a new payout provider, making its payout methods available to the hosts that enable it.
+ */
+export const registerPayoutProvider = (provider: PayoutProvider): void => {
+  if (payoutProviders.some(p => p.name === provider.name)) {
+    throw new Error(`A payout provider named ${provider.name} is already registered`);
+  }
+
+  payoutProviders.push(provider);
+};
+
+export const getPayoutProviders = (): PayoutProvider[] => [...payoutProviders];
+
+export const getPayoutProviderByName = (name: string): PayoutProvider | undefined => {
+  return payoutProviders.find(p => p.name === name);
+};
+
+/**
+ * Returns the provider used by the host to pay this type of payout method, or undefined if the
+ * host cannot pay it automatically.
+ */
+export const getPayoutProviderForHost = (
+  host,
+  connectedAccounts: { service: string }[],
+  payoutMethodType: PayoutMethodTypes,
+): PayoutProvider | undefined => {
+  return payoutProviders.find(
+    p => p.payoutMethodTypes.includes(payoutMethodType) && p.isEnabledForHost(host, connectedAccounts),
+  );
+};
+
+/**
+ * Returns the payout methods accepted by the host for its expenses, based on the providers it enabled.
+ */
+export const getSupportedPayoutMethods = (host, connectedAccounts: { service: string }[]): PayoutMethodTypes[] => {
+  const enabledProviders = payoutProviders.filter(p => p.isEnabledForHost(host, connectedAccounts));
+  return uniq([...ALWAYS_SUPPORTED_PAYOUT_METHODS, ...enabledProviders.flatMap(p => p.payoutMethodTypes)]);
+};
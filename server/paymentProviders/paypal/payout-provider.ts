@@ -0,0 +1,70 @@
+import { groupBy, values } from 'lodash';
+
+import logger from '../../lib/logger';
+import { PayoutMethodTypes } from '../../models/PayoutMethod';
+import { PayoutProvider, PayoutQuote } from '../../types/PayoutProvider';
+
+import adaptive from './adaptive';
+import { cancelUnclaimedPayoutItem, checkBatchStatus, payExpensesBatch } from './payouts';
+import webhook from './webhook';
+
+/**
+ * PayPal Payouts. Hosts that haven't disabled it can also pay PayPal expenses with their
+ * PayPal adaptive payment method, so it's enabled by default.
+ */
+const paypalPayoutProvider: PayoutProvider = {
+  name: 'paypal',
+  payoutMethodTypes: [PayoutMethodTypes.PAYPAL],
+
+  isEnabledForHost(host, connectedAccounts): boolean {
+    return Boolean(connectedAccounts?.find?.(c => c.service === 'paypal')) || !host.settings?.disablePaypalPayouts;
+  },
+
+  async getRequiredFields(): Promise<any> {
+    return [{ key: 'email', name: 'Email', type: 'text', required: true }];
+  },
+
+  /** PayPal doesn't provide quotes, fees are estimated from the usual PayPal rates */
+  async quote(host, payoutMethod, expense): Promise<PayoutQuote> {
+    const fee = Math.round(
+      await adaptive.fees({ amount: expense.amount, currency: expense.collective.currency, host }),
+    );
+
+    return {
+      payoutMethodType: PayoutMethodTypes.PAYPAL,
+      sourceAmount: expense.amount + fee,
+      sourceCurrency: expense.currency,
+      targetAmount: expense.amount,
+      targetCurrency: expense.currency,
+      fee,
+      rate: 1,
+      validUntil: null,
+      isEstimate: true,
+    };
+  },
+
+  async pay(host, payoutMethod, expense): Promise<Record<string, any>> {
+    expense.collective = expense.collective || (await expense.getCollective());
+    expense.PayoutMethod = payoutMethod;
+    const [updatedExpense] = await payExpensesBatch([expense]);
+    return updatedExpense.data;
+  },
+
+  async checkStatus(expenses): Promise<void> {
+    const batches = values(groupBy(expenses, 'data.payout_batch_id'));
+    for (const batch of batches) {
+      logger.info(`Checking host ${batch[0]?.collective?.HostCollectiveId} batch with ${batch.length} expense(s)...`);
+      await checkBatchStatus(batch).catch(e => {
+        logger.error(
+          `Error while checking the PayPal payouts of host #${batch[0]?.collective?.HostCollectiveId}: ${e.message}`,
+        );
+      });
+    }
+  },
+
+  handleWebhook: webhook,
+
+  cancel: cancelUnclaimedPayoutItem,
+};
+
+export default paypalPayoutProvider;
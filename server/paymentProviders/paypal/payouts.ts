@@ -1,6 +1,7 @@
 /* eslint-disable camelcase */
 
-import { isNil, round, toNumber } from 'lodash';
+import config from 'config';
+import { chunk, isNil, round, toNumber } from 'lodash';
 import moment from 'moment';
 
 import activities from '../../constants/activities';
@@ -11,7 +12,20 @@ import { createFromPaidExpense as createTransactionFromPaidExpense } from '../..
 import models from '../../models';
 import { PayoutItemDetails } from '../../types/paypal';
 
-export const payExpensesBatch = async (expenses: any[]): Promise<any[]> => {
+/**
+ * PayPal accepts up to 15,000 items per payout request. Large payouts are split in smaller requests so that
+ * a rejected request doesn't affect all the expenses at once.
+ */
+export const MAX_ITEMS_PER_PAYOUT_REQUEST = 500;
+
+/**
+ * Pays the expenses with PayPal Payouts. Expenses are sent in one or more payout requests, each of them creating a
+ * batch on PayPal. The ID of the PayPal batch is stored in the data of each expense to check its status later.
+ */
+export const payExpensesBatch = async (
+  expenses: any[],
+  maxItemsPerRequest = MAX_ITEMS_PER_PAYOUT_REQUEST,
+): Promise<any[]> => {
   const [firstExpense] = expenses;
   const isSameHost = expenses.every(
     e =>
@@ -45,32 +59,72 @@ export const payExpensesBatch = async (expenses: any[]): Promise<any[]> => {
     sender_item_id: expense.id,
   });
 
-  const requestBody = {
-    sender_batch_header: {
-      recipient_type: 'EMAIL',
-      email_message: 'Good news, your expense was paid!',
-      sender_batch_id: `${firstExpense.collective.slug}-${moment().format('DDMMYYYY-HHmm')}`,
-      email_subject: `Expense Payout for ${firstExpense.collective.name}`,
-    },
-    items: expenses.map(getExpenseItem),
-  };
+  // Batches can include expenses from multiple collectives of the same host
+  const isSameCollective = expenses.every(e => e.CollectiveId === firstExpense.CollectiveId);
+  const sender = isSameCollective ? firstExpense.collective : host;
+  const senderBatchId = `${sender.slug}-${moment().format('DDMMYYYY-HHmm')}`;
+  const chunks = chunk(expenses, maxItemsPerRequest);
+  const updatedExpenses = [];
+  for (const [index, chunkExpenses] of chunks.entries()) {
+    const requestBody = {
+      sender_batch_header: {
+        recipient_type: 'EMAIL',
+        email_message: 'Good news, your expense was paid!',
+        sender_batch_id: chunks.length > 1 ? `${senderBatchId}-${index + 1}` : senderBatchId,
+        email_subject: `Expense Payout for ${sender.name}`,
+      },
+      items: chunkExpenses.map(getExpenseItem),
+    };
+
+    try {
+      const response = await paypal.executePayouts(connectedAccount, requestBody);
+      for (const e of chunkExpenses) {
+        await e.update({ data: response.batch_header, status: status.PROCESSING });
+        const user = await models.User.findByPk(e.lastEditedById);
+        await e.createActivity(activities.COLLECTIVE_EXPENSE_PROCESSING, user);
+        updatedExpenses.push(e);
+      }
+    } catch (error) {
+      for (const e of chunkExpenses) {
+        await e.update({ status: status.ERROR });
+        const user = await models.User.findByPk(e.lastEditedById);
+        await e.createActivity(activities.COLLECTIVE_EXPENSE_ERROR, user, { error: { message: error.message } });
+        updatedExpenses.push(e);
+      }
+    }
+  }
+
+  return updatedExpenses;
+};
+
+type UnclaimedItemData = {
+  /** Date at which the item was first seen as unclaimed */
+  unclaimedSince: string;
+  /** Number of delays from `paypal.payouts.unclaimedNotificationDelays` for which a notification was sent */
+  unclaimedNotificationsSent: number;
+};
 
-  try {
-    const response = await paypal.executePayouts(connectedAccount, requestBody);
-    const updateExpenses = expenses.map(async e => {
-      await e.update({ data: response.batch_header, status: status.PROCESSING });
-      const user = await models.User.findByPk(e.lastEditedById);
-      await e.createActivity(activities.COLLECTIVE_EXPENSE_PROCESSING, user);
-    });
-    return Promise.all(updateExpenses);
-  } catch (error) {
-    const updateExpenses = expenses.map(async e => {
-      await e.update({ status: status.ERROR });
-      const user = await models.User.findByPk(e.lastEditedById);
-      await e.createActivity(activities.COLLECTIVE_EXPENSE_ERROR, user, { error: { message: error.message } });
-    });
-    return Promise.all(updateExpenses);
+/**
+ * Keeps track of how long the item has been unclaimed, and notifies the payee and the host admins
+ * once each of the delays (in days) configured in `paypal.payouts.unclaimedNotificationDelays` is reached.
+ * When multiple delays are reached at once, only one notification is sent.
+ */
+const checkUnclaimedItem = async (item: PayoutItemDetails, expense: any): Promise<UnclaimedItemData> => {
+  const unclaimedSince = expense.data.unclaimedSince || item.time_processed || new Date().toISOString();
+  const unclaimedDays = moment().diff(moment(unclaimedSince), 'days');
+  const notificationsSent = expense.data.unclaimedNotificationsSent || 0;
+  const delays: number[] = config.paypal.payouts?.unclaimedNotificationDelays || [];
+  const reachedDelays = delays.filter(delay => unclaimedDays >= delay).length;
+  if (reachedDelays > notificationsSent) {
+    logger.info(`PayPal payout for expense #${expense.id} has been unclaimed for ${unclaimedDays} days.`);
+    await expense.createActivity(
+      activities.COLLECTIVE_EXPENSE_UNCLAIMED,
+      { id: expense.lastEditedById },
+      { unclaimedDays },
+    );
   }
+
+  return { unclaimedSince, unclaimedNotificationsSent: Math.max(reachedDelays, notificationsSent) };
 };
 
 export const checkBatchItemStatus = async (item: PayoutItemDetails, expense: any, host: any) => {
@@ -79,8 +133,14 @@ export const checkBatchItemStatus = async (item: PayoutItemDetails, expense: any
 
   if (expense.data.payout_batch_id !== item.payout_batch_id) {
     throw new Error(`Item does not belongs to expense it claims it does.`);
+  } else if (expense.data.payoutItemCancelledAt) {
+    // The cancellation is notified like a regular return, but the expense was already put back to approved
+    logger.debug(`Payout item for expense #${expense.id} was cancelled, ignoring its status.`);
+    return expense;
   }
 
+  let data: Record<string, any> = item;
+
   const paymentProcessorFeeInHostCurrency = round(toNumber(item.payout_item_fee?.value) * 100);
   switch (item.transaction_status) {
     case 'SUCCESS':
@@ -115,15 +175,47 @@ export const checkBatchItemStatus = async (item: PayoutItemDetails, expense: any
         );
       }
       break;
+    case 'UNCLAIMED': // Link sent to a non-paypal user, waiting for being claimed.
+      data = { ...item, ...(await checkUnclaimedItem(item, expense)) };
+      break;
     // Ignore cases
     case 'ONHOLD':
-    case 'UNCLAIMED': // Link sent to a non-paypal user, waiting for being claimed.
     case 'PENDING':
     default:
       logger.debug(`Expense is still being processed, nothing to do but wait.`);
       break;
   }
-  await expense.update({ data: item });
+  await expense.update({ data });
+  return expense;
+};
+
+/**
+ * Cancels the unclaimed PayPal payout item of the expense, which refunds it to the host, and puts the
+ * expense back to approved so that it can be paid again.
+ */
+export const cancelUnclaimedPayoutItem = async (expense: any, user: any, reason?: string): Promise<any> => {
+  if (expense.status !== status.PROCESSING || expense.data?.transaction_status !== 'UNCLAIMED') {
+    throw new Error('Only the unclaimed PayPal payouts can be cancelled');
+  }
+
+  const collective = expense.collective || (await expense.getCollective());
+  const host = await collective.getHostCollective();
+  const [connectedAccount] = await host.getConnectedAccounts({
+    where: { service: 'paypal', deletedAt: null },
+  });
+  if (!connectedAccount) {
+    throw new Error(`Host is not connected to PayPal Payouts.`);
+  }
+
+  const item = await paypal.cancelPayoutItem(connectedAccount, expense.data['payout_item_id']);
+  await expense.update({
+    status: status.APPROVED,
+    lastEditedById: user.id,
+    data: { ...expense.data, ...item, payoutItemCancelledAt: new Date().toISOString() },
+  });
+  await expense.createActivity(activities.COLLECTIVE_EXPENSE_PAYOUT_CANCELLED, user, {
+    reason: reason || 'The PayPal payout was not claimed by the payee and has been cancelled by the host.',
+  });
   return expense;
 };
 
@@ -145,7 +237,11 @@ export const checkBatchStatus = async (batch: any[]): Promise<any[]> => {
   const batchInfo = await paypal.getBatchInfo(connectedAccount, batchId);
   const checkExpense = async (expense: any): Promise<any> => {
     try {
-      const item = batchInfo.items.find(i => i.payout_item.sender_item_id === expense.id.toString());
+      const item = batchInfo.items.find(
+        i =>
+          (expense.data.payout_item_id && i.payout_item_id === expense.data.payout_item_id) ||
+          i.payout_item.sender_item_id === expense.id.toString(),
+      );
       if (!item) {
         throw new Error('Could not find expense in payouts batch');
       }
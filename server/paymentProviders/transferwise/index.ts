@@ -1,14 +1,25 @@
 import crypto from 'crypto';
 
-import { find, has, pick } from 'lodash';
+import { ceil, find, groupBy, has, omit, pick, sumBy, uniq } from 'lodash';
 import { v4 as uuid } from 'uuid';
 
+import { TransferwiseSourceCurrencyStrategy } from '../../constants/transferwise';
 import { TransferwiseError } from '../../graphql/errors';
 import cache from '../../lib/cache';
+import { getFxRate } from '../../lib/currency';
+import { floatAmountToCents } from '../../lib/math';
 import * as transferwise from '../../lib/transferwise';
 import models from '../../models';
 import { ConnectedAccount } from '../../types/ConnectedAccount';
-import { Balance, Quote, RecipientAccount, Transfer } from '../../types/transferwise';
+import {
+  Balance,
+  BatchGroup,
+  BorderlessAccount,
+  Quote,
+  QuoteV2,
+  RecipientAccount,
+  Transfer,
+} from '../../types/transferwise';
 
 const hashObject = obj => crypto.createHash('sha1').update(JSON.stringify(obj)).digest('hex').slice(0, 7);
 
@@ -53,17 +64,197 @@ async function quoteExpense(connectedAccount, payoutMethod, expense): Promise<Qu
   return quote;
 }
 
+/**
+ * Returns the recipient account of the payout method on the host profile. Recipients are cached per payout method
+ * and connected account to avoid creating a new one on every payment. If the payout method data changed since the
+ * recipient was created, a new one is created: the previous one is kept on TransferWise and can be pruned.
+ */
+async function getOrCreateRecipient(connectedAccount, payoutMethod): Promise<RecipientAccount> {
+  const dataHash = hashObject(payoutMethod.data);
+  const cachedRecipient = await models.TransferwiseRecipient.findOne({
+    where: { PayoutMethodId: payoutMethod.id, ConnectedAccountId: connectedAccount.id },
+  });
+
+  if (cachedRecipient?.dataHash === dataHash) {
+    return { ...payoutMethod.data, id: cachedRecipient.recipientId };
+  } else if (cachedRecipient) {
+    await cachedRecipient.destroy();
+  }
+
+  const recipient = await transferwise.createRecipientAccount(connectedAccount.token, {
+    profileId: connectedAccount.data.id,
+    ...payoutMethod.data,
+  });
+
+  await models.TransferwiseRecipient.create({
+    PayoutMethodId: payoutMethod.id,
+    ConnectedAccountId: connectedAccount.id,
+    recipientId: recipient.id,
+    dataHash,
+  });
+
+  return recipient;
+}
+
+export type RecipientAccountWithPayoutMethod = RecipientAccount & {
+  /** The payout method this recipient is used for, null if it's not used by any payout method */
+  payoutMethod: any;
+};
+
+/**
+ * Lists the recipient accounts of the host profile, with the payout method they're currently used for.
+ */
+async function getRecipients(connectedAccount): Promise<RecipientAccountWithPayoutMethod[]> {
+  await populateProfileId(connectedAccount);
+  const recipients = await transferwise.getRecipientAccounts(connectedAccount.token, connectedAccount.data.id);
+  const cachedRecipients = await models.TransferwiseRecipient.findAll({
+    where: { ConnectedAccountId: connectedAccount.id },
+    include: [{ model: models.PayoutMethod, required: true }],
+  });
+
+  return recipients.map(recipient => {
+    const cachedRecipient = cachedRecipients.find(r => r.recipientId === recipient.id);
+    return { ...recipient, payoutMethod: cachedRecipient?.PayoutMethod || null };
+  });
+}
+
+/**
+ * Deletes recipient accounts from the host profile. Only the recipients that are not used by any payout
+ * method anymore can be deleted.
+ * @returns the deleted recipients
+ */
+async function deleteStaleRecipients(connectedAccount, recipientIds: number[]): Promise<RecipientAccount[]> {
+  const recipients = await getRecipients(connectedAccount);
+  const recipientsToDelete = recipients.filter(recipient => recipientIds.includes(recipient.id));
+  if (recipientsToDelete.length !== uniq(recipientIds).length) {
+    throw new TransferwiseError('Some recipients could not be found', 'transferwise.error.recipientNotFound');
+  } else if (recipientsToDelete.some(recipient => recipient.payoutMethod)) {
+    throw new TransferwiseError(
+      'Recipients that are used by a payout method cannot be deleted',
+      'transferwise.error.recipientInUse',
+    );
+  }
+
+  for (const recipient of recipientsToDelete) {
+    await transferwise.deleteRecipientAccount(connectedAccount.token, recipient.id);
+  }
+
+  await models.TransferwiseRecipient.destroy({
+    where: { ConnectedAccountId: connectedAccount.id, recipientId: recipientsToDelete.map(r => r.id) },
+  });
+
+  return recipientsToDelete.map(recipient => omit(recipient, ['payoutMethod']));
+}
+
+const hasEnoughFunds = (balances: Balance[], quote: Quote): boolean => {
+  const balance = balances.find(b => b.currency === quote.source);
+  return Boolean(balance && balance.amount.value >= quote.sourceAmount);
+};
+
+/**
+ * Quotes the payment from the first other balance that can fund it on its own.
+ * @returns the new quote, or null if no other balance has enough funds
+ */
+async function quoteFromOtherBalance(connectedAccount, balances: Balance[], quote: Quote): Promise<Quote | null> {
+  for (const balance of balances) {
+    if (balance.currency === quote.source || balance.amount.value <= 0) {
+      continue;
+    }
+
+    const otherQuote = await transferwise.createQuote(connectedAccount.token, {
+      profileId: connectedAccount.data.id,
+      sourceCurrency: balance.currency,
+      targetCurrency: quote.target,
+      targetAmount: quote.targetAmount,
+    });
+    if (balance.amount.value >= otherQuote.sourceAmount) {
+      return otherQuote;
+    }
+  }
+
+  return null;
+}
+
+/** A conversion between two balances made before a payment, stored in the transaction data */
+export type BalanceConversionData = {
+  id: number;
+  quoteId: number;
+  sourceCurrency: string;
+  sourceAmount: number;
+  targetCurrency: string;
+  targetAmount: number;
+  rate: number;
+  /** The cost of the conversion, in the source currency */
+  fee: number;
+};
+
+/**
+ * Converts the amount missing to fund the payment from the first other balance that can cover it.
+ * @returns the conversion, or null if no other balance has enough funds
+ */
+async function convertMissingAmount(
+  connectedAccount,
+  account: BorderlessAccount,
+  quote: Quote,
+): Promise<BalanceConversionData | null> {
+  const sourceBalance = account.balances.find(b => b.currency === quote.source);
+  const missingAmount = ceil(quote.sourceAmount - (sourceBalance?.amount.value || 0), 2);
+  for (const balance of account.balances) {
+    if (balance.currency === quote.source || balance.amount.value <= 0) {
+      continue;
+    }
+
+    const conversionQuote = await transferwise.createQuote(connectedAccount.token, {
+      profileId: connectedAccount.data.id,
+      sourceCurrency: balance.currency,
+      targetCurrency: quote.source,
+      targetAmount: missingAmount,
+      type: 'BALANCE_CONVERSION',
+    });
+    if (balance.amount.value >= conversionQuote.sourceAmount) {
+      const conversion = await transferwise.convertBalance(
+        connectedAccount.token,
+        account.id,
+        conversionQuote.id,
+        uuid(),
+      );
+      return {
+        id: conversion.id,
+        quoteId: conversionQuote.id,
+        sourceCurrency: conversionQuote.source,
+        sourceAmount: conversionQuote.sourceAmount,
+        targetCurrency: conversionQuote.target,
+        targetAmount: conversionQuote.targetAmount,
+        rate: conversionQuote.rate,
+        fee: conversionQuote.fee,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pays the expense with a single transfer. By default, the transfer is funded from the balance in the currency
+ * of the expense. If this balance is not enough, `sourceCurrencyStrategy` defines whether another balance
+ * is used instead or if the missing amount is converted from another balance first.
+ */
 async function payExpense(
   connectedAccount,
   payoutMethod,
   expense,
+  {
+    sourceCurrencyStrategy = TransferwiseSourceCurrencyStrategy.EXPENSE_CURRENCY,
+  }: { sourceCurrencyStrategy?: TransferwiseSourceCurrencyStrategy } = {},
 ): Promise<{
   quote: Quote;
   recipient: RecipientAccount;
   fund: { status: string; errorCode: string };
   transfer: Transfer;
+  sourceCurrencyStrategy: TransferwiseSourceCurrencyStrategy;
+  conversion: BalanceConversionData | null;
 }> {
-  const quote = await quoteExpense(connectedAccount, payoutMethod, expense);
+  let quote = await quoteExpense(connectedAccount, payoutMethod, expense);
 
   const account = await transferwise.getBorderlessAccount(connectedAccount.token, connectedAccount.data.id);
   if (!account) {
@@ -72,8 +263,22 @@ async function payExpense(
       'transferwise.error.accountnotfound',
     );
   }
-  const balance = account.balances.find(b => b.currency === quote.source);
-  if (!balance || balance.amount.value < quote.sourceAmount) {
+
+  let balances = account.balances;
+  let conversion = null;
+  if (!hasEnoughFunds(balances, quote)) {
+    if (sourceCurrencyStrategy === TransferwiseSourceCurrencyStrategy.OTHER_BALANCE) {
+      quote = (await quoteFromOtherBalance(connectedAccount, balances, quote)) || quote;
+    } else if (sourceCurrencyStrategy === TransferwiseSourceCurrencyStrategy.CONVERT_BALANCE) {
+      conversion = await convertMissingAmount(connectedAccount, account, quote);
+      if (conversion) {
+        // Make sure the converted amount is available before funding the transfer
+        balances = await getAccountBalances(connectedAccount);
+      }
+    }
+  }
+
+  if (!hasEnoughFunds(balances, quote)) {
     throw new TransferwiseError(
       `You don't have enough funds in your ${quote.source} balance. Please top up your account considering the source amount of ${quote.sourceAmount} (includes the fee ${quote.fee}) and try again.`,
       'transferwise.error.insufficientFunds',
@@ -81,10 +286,7 @@ async function payExpense(
     );
   }
 
-  const recipient = await transferwise.createRecipientAccount(connectedAccount.token, {
-    profileId: connectedAccount.data.id,
-    ...payoutMethod.data,
-  });
+  const recipient = await getOrCreateRecipient(connectedAccount, payoutMethod);
 
   const transferOptions: transferwise.CreateTransfer = {
     accountId: recipient.id,
@@ -108,7 +310,154 @@ async function payExpense(
     throw e;
   }
 
-  return { quote, recipient, transfer, fund };
+  return { quote, recipient, transfer, fund, sourceCurrencyStrategy, conversion };
+}
+
+/**
+ * Returns the fees of a payment made with `payExpense` in the currency of the host: the fee of the quote
+ * that was funded, plus the cost of the balance conversion if any.
+ */
+async function getPaymentFeeInHostCurrency(
+  host,
+  { quote, conversion }: { quote: Quote; conversion: BalanceConversionData | null },
+): Promise<number> {
+  let fee = quote.fee * (await getFxRate(quote.source, host.currency));
+  if (conversion) {
+    fee += conversion.fee * (await getFxRate(conversion.sourceCurrency, host.currency));
+  }
+
+  return floatAmountToCents(fee);
+}
+
+export type BatchGroupItem = {
+  batchGroupId: string;
+  expense: any;
+  quote: QuoteV2 & { fee: number };
+  recipient: RecipientAccount;
+  transfer: Transfer;
+};
+
+export type BatchGroupFailure = {
+  expenses: any[];
+  error: Error;
+};
+
+/**
+ * Pays multiple expenses at once using TransferWise batch groups: one transfer is created for each expense
+ * and the whole group is funded in a single payment. As batch groups have a single source currency,
+ * expenses are split in one group per currency and each group succeeds or fails independently.
+ *
+ * Failures are tracked per expense: if an expense can't be quoted or its transfer can't be created, it's
+ * left out of the group and reported in `failures` while the other expenses of the group still get paid.
+ */
+async function payExpensesBatchGroup(
+  connectedAccount,
+  expenses: any[],
+): Promise<{ batchGroups: BatchGroup[]; items: BatchGroupItem[]; failures: BatchGroupFailure[] }> {
+  await populateProfileId(connectedAccount);
+  const profileId = connectedAccount.data.id;
+  const account = await transferwise.getBorderlessAccount(connectedAccount.token, profileId);
+  if (!account) {
+    throw new TransferwiseError(
+      `We can't retrieve your Transferwise borderless account. Please re-connect or contact support at support@opencollective.com.`,
+      'transferwise.error.accountnotfound',
+    );
+  }
+
+  const batchGroups = [];
+  const items = [];
+  const failures = [];
+  const expensesByCurrency = groupBy(expenses, 'currency');
+  for (const currency of Object.keys(expensesByCurrency)) {
+    // Quote all expenses first to make sure the balance can cover the whole group
+    const quotes = [];
+    for (const expense of expensesByCurrency[currency]) {
+      try {
+        const { rate } = await getTemporaryQuote(connectedAccount, expense.PayoutMethod, expense);
+        const quote = await transferwise.createQuoteV2(connectedAccount.token, {
+          profileId,
+          sourceCurrency: currency,
+          targetCurrency: expense.PayoutMethod.data.currency,
+          targetAmount: (expense.amount / 100) * rate,
+        });
+        const paymentOption = quote.paymentOptions.find(o => o.payIn === 'BALANCE' && o.payOut === quote.payOut);
+        // Keep the fee at the root of the quote, like with v1 quotes, as it's what the ledger expects
+        quotes.push({ expense, quote: { ...quote, fee: paymentOption?.fee.total || 0 } });
+      } catch (error) {
+        failures.push({ expenses: [expense], error });
+      }
+    }
+
+    if (!quotes.length) {
+      continue;
+    }
+
+    let batchGroup = null;
+    const groupItems = [];
+    try {
+      const sourceAmount = sumBy(quotes, 'quote.sourceAmount');
+      const balance = account.balances.find(b => b.currency === currency);
+      if (!balance || balance.amount.value < sourceAmount) {
+        throw new TransferwiseError(
+          `You don't have enough funds in your ${currency} balance. Please top up your account considering the source amount of ${sourceAmount} and try again.`,
+          'transferwise.error.insufficientFunds',
+          { currency },
+        );
+      }
+
+      batchGroup = await transferwise.createBatchGroup(connectedAccount.token, {
+        profileId,
+        name: uuid(),
+        sourceCurrency: currency,
+      });
+
+      for (const { expense, quote } of quotes) {
+        try {
+          const payoutMethod = expense.PayoutMethod;
+          const recipient = await getOrCreateRecipient(connectedAccount, payoutMethod);
+
+          const transferOptions: transferwise.CreateBatchGroupTransfer = {
+            accountId: recipient.id,
+            quoteUuid: quote.id,
+            uuid: uuid(),
+          };
+          // Append reference to currencies that require it.
+          if (currenciesThatRequireReference.includes(payoutMethod.data.currency)) {
+            transferOptions.details = { reference: `${expense.id}` };
+          }
+          const transfer = await transferwise.createBatchGroupTransfer(
+            connectedAccount.token,
+            profileId,
+            batchGroup.id,
+            transferOptions,
+          );
+          groupItems.push({ batchGroupId: batchGroup.id, expense, quote, recipient, transfer });
+        } catch (error) {
+          failures.push({ expenses: [expense], error });
+        }
+      }
+
+      if (!groupItems.length) {
+        await transferwise.cancelBatchGroup(connectedAccount.token, profileId, batchGroup).catch(() => null);
+        continue;
+      }
+
+      batchGroup = await transferwise.completeBatchGroup(connectedAccount.token, profileId, batchGroup);
+      batchGroup = await transferwise.fundBatchGroup(connectedAccount.token, profileId, batchGroup.id);
+      batchGroups.push(batchGroup);
+      items.push(...groupItems);
+    } catch (error) {
+      if (batchGroup && batchGroup.status !== 'CANCELLED') {
+        await transferwise.cancelBatchGroup(connectedAccount.token, profileId, batchGroup).catch(() => null);
+      }
+
+      // The expenses that were already excluded from the group have their own failure
+      const groupExpenses = groupItems.length ? groupItems.map(item => item.expense) : quotes.map(q => q.expense);
+      failures.push({ expenses: groupExpenses, error });
+    }
+  }
+
+  return { batchGroups, items, failures };
 }
 
 async function getAvailableCurrencies(
@@ -190,4 +539,8 @@ export default {
   getTemporaryQuote,
   quoteExpense,
   payExpense,
+  getPaymentFeeInHostCurrency,
+  payExpensesBatchGroup,
+  getRecipients,
+  deleteStaleRecipients,
 };
@@ -0,0 +1,94 @@
+import moment from 'moment';
+
+import { TransferwiseError } from '../../graphql/errors';
+import cache from '../../lib/cache';
+import logger from '../../lib/logger';
+import { floatAmountToCents } from '../../lib/math';
+import models from '../../models';
+import { PayoutMethodTypes } from '../../models/PayoutMethod';
+import { PayoutProvider, PayoutQuote } from '../../types/PayoutProvider';
+
+import { reconcileExpenseTransfer } from './transfer-state';
+import webhook from './webhook';
+import transferwise from '.';
+
+/** Temporary quotes from TransferWise don't have an expiration time, their rate is guaranteed for this duration */
+const QUOTE_VALIDITY_IN_MINUTES = 30;
+
+const getConnectedAccount = host => {
+  return models.ConnectedAccount.findOne({ where: { service: 'transferwise', CollectiveId: host.id } });
+};
+
+/**
+ * TransferWise, used to pay bank accounts. Payments are funded from the TransferWise balances of the host.
+ */
+const transferwisePayoutProvider: PayoutProvider = {
+  name: 'transferwise',
+  payoutMethodTypes: [PayoutMethodTypes.BANK_ACCOUNT],
+
+  isEnabledForHost(host, connectedAccounts): boolean {
+    return Boolean(connectedAccounts?.find?.(c => c.service === 'transferwise'));
+  },
+
+  getRequiredFields(host, currency, accountDetails): Promise<any> {
+    return transferwise.getRequiredBankInformation(host, currency, accountDetails);
+  },
+
+  /** Uses a temporary quote, cached until its rate is not guaranteed anymore */
+  async quote(host, payoutMethod, expense): Promise<PayoutQuote | null> {
+    const connectedAccount = await getConnectedAccount(host);
+    if (!connectedAccount) {
+      return null;
+    }
+
+    const cacheKey = `expense_quote_${expense.id}_${expense.amount}_${expense.currency}_${payoutMethod.data.currency}`;
+    const fromCache = await cache.get(cacheKey);
+    if (fromCache) {
+      return { ...fromCache, validUntil: new Date(fromCache.validUntil) };
+    }
+
+    const quote = await transferwise.getTemporaryQuote(connectedAccount, payoutMethod, expense);
+    const validUntil = moment(quote.createdTime).add(QUOTE_VALIDITY_IN_MINUTES, 'minutes');
+    const expenseQuote = {
+      payoutMethodType: PayoutMethodTypes.BANK_ACCOUNT,
+      sourceAmount: floatAmountToCents(quote.sourceAmount),
+      sourceCurrency: quote.source,
+      targetAmount: floatAmountToCents(quote.targetAmount),
+      targetCurrency: quote.target,
+      fee: floatAmountToCents(quote.fee),
+      rate: quote.rate,
+      validUntil: validUntil.toDate(),
+      isEstimate: false,
+    };
+
+    const ttl = validUntil.diff(moment(), 'seconds');
+    if (ttl > 0) {
+      cache.set(cacheKey, expenseQuote, ttl);
+    }
+
+    return expenseQuote;
+  },
+
+  async pay(host, payoutMethod, expense): Promise<Record<string, any>> {
+    const connectedAccount = await getConnectedAccount(host);
+    if (!connectedAccount) {
+      throw new TransferwiseError('Host is not connected to Transferwise', 'transferwise.error.notConnected');
+    }
+
+    return transferwise.payExpense(connectedAccount, payoutMethod, expense, {
+      sourceCurrencyStrategy: host.settings?.transferwise?.sourceCurrencyStrategy,
+    });
+  },
+
+  async checkStatus(expenses): Promise<void> {
+    for (const expense of expenses) {
+      await reconcileExpenseTransfer(expense).catch(e => {
+        logger.error(`Error while checking the TransferWise transfer of expense #${expense.id}: ${e.message}`);
+      });
+    }
+  },
+
+  handleWebhook: webhook,
+};
+
+export default transferwisePayoutProvider;
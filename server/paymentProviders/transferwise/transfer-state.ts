@@ -0,0 +1,121 @@
+import activities from '../../constants/activities';
+import status from '../../constants/expense_status';
+import { TransactionTypes } from '../../constants/transactions';
+import { isInClosedAccountingPeriod } from '../../lib/accounting-periods';
+import logger from '../../lib/logger';
+import { createRefundTransaction } from '../../lib/payments';
+import * as transferwise from '../../lib/transferwise';
+import models from '../../models';
+import { TransferStatus } from '../../types/transferwise';
+
+/** The state of a transfer once the money has been sent to the recipient */
+export const SENT_TRANSFER_STATE: TransferStatus = 'outgoing_payment_sent';
+
+/** States in which the money won't reach the recipient, or was sent back */
+export const FAILED_TRANSFER_STATES: TransferStatus[] = ['cancelled', 'funds_refunded', 'bounced_back', 'charged_back'];
+
+/** How we learned about a state change */
+export enum TransferStateSource {
+  WEBHOOK = 'WEBHOOK',
+  RECONCILIATION = 'RECONCILIATION',
+}
+
+/** An entry of the transfers history, stored in `expense.data.transferStates` */
+export type ExpenseTransferState = {
+  transferId: number;
+  state: TransferStatus;
+  date: string;
+  source: TransferStateSource;
+};
+
+/**
+ * Appends the state to the history of the transfer stored on the expense, unless it's already
+ * the last known state of this transfer.
+ * @returns true if the state was recorded
+ */
+const recordTransferState = async (expense, entry: ExpenseTransferState): Promise<boolean> => {
+  const history: ExpenseTransferState[] = expense.data?.transferStates || [];
+  const transferHistory = history.filter(e => e.transferId === entry.transferId);
+  if (transferHistory[transferHistory.length - 1]?.state === entry.state) {
+    return false;
+  }
+
+  await expense.update({ data: { ...expense.data, transferStates: [...history, entry] } });
+  return true;
+};
+
+/**
+ * Deletes the transactions of the expense, unless they're in a closed accounting period. In that case,
+ * they are refunded so that the correction is recorded in the current period.
+ */
+const removeExpenseTransactions = async (expense): Promise<void> => {
+  const transactions = await models.Transaction.findAll({ where: { ExpenseId: expense.id } });
+  if (!(await isInClosedAccountingPeriod(transactions))) {
+    await models.Transaction.destroy({ where: { ExpenseId: expense.id }, individualHooks: true });
+    return;
+  }
+
+  const debits = transactions.filter(t => t.type === TransactionTypes.DEBIT && !t.RefundTransactionId);
+  for (const transaction of debits) {
+    await createRefundTransaction(transaction, transaction.paymentProcessorFeeInHostCurrency, null, null);
+  }
+};
+
+/**
+ * Records the new state of a transfer and updates the expense accordingly. Used by both the webhook
+ * and the reconciliation job, so it must be safe to call multiple times with the same state.
+ *
+ * - When the transfer is sent, the expense is marked as paid
+ * - When the transfer fails or the money comes back, the expense is marked as errored and its transactions are removed,
+ *   or refunded if they are in an accounting period closed by the host
+ * - Intermediate states are only recorded in the history
+ */
+export const handleTransferState = async (
+  expense,
+  transferId: number,
+  state: TransferStatus,
+  { date = new Date().toISOString(), source }: { date?: string; source: TransferStateSource },
+): Promise<void> => {
+  await recordTransferState(expense, { transferId, state, date, source });
+
+  if (state === SENT_TRANSFER_STATE && expense.status === status.PROCESSING) {
+    logger.info(`Transfer ${transferId} sent, marking expense #${expense.id} as paid.`);
+    await expense.setPaid(expense.lastEditedById);
+    const user = await models.User.findByPk(expense.lastEditedById);
+    await expense.createActivity(activities.COLLECTIVE_EXPENSE_PAID, user);
+  } else if (FAILED_TRANSFER_STATES.includes(state) && [status.PROCESSING, status.PAID].includes(expense.status)) {
+    logger.info(`Transfer ${transferId} ${state}, setting expense #${expense.id} status to Error.`);
+    await removeExpenseTransactions(expense);
+    await expense.setError(expense.lastEditedById);
+    await expense.createActivity(activities.COLLECTIVE_EXPENSE_ERROR);
+  }
+};
+
+/**
+ * Fetches the state of the transfer of an expense paid with TransferWise and handles it, in case a webhook
+ * was missed. The expense must be loaded with its collective and transactions.
+ */
+export const reconcileExpenseTransfer = async (expense): Promise<void> => {
+  const host = await expense.collective.getHostCollective();
+  if (!host) {
+    throw new Error(`Could not find the host embursing the expense.`);
+  }
+  const [connectedAccount] = await host.getConnectedAccounts({
+    where: { service: 'transferwise', deletedAt: null },
+  });
+  if (!connectedAccount) {
+    throw new Error(`Host is not connected to Transferwise.`);
+  }
+  const transaction = expense.Transactions.find(t => t.data?.transfer?.id);
+  if (!transaction) {
+    throw new Error(`Could not find any transactions associated with expense.`);
+  }
+  const transfer = await transferwise.getTransfer(connectedAccount.token, transaction.data.transfer.id);
+  if (transfer.status === 'processing') {
+    logger.info(`Transfer ${transfer.id} is still being processed, nothing to do but wait.`);
+  }
+
+  await handleTransferState(expense, transaction.data.transfer.id, transfer.status, {
+    source: TransferStateSource.RECONCILIATION,
+  });
+};
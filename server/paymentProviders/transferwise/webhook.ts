@@ -1,21 +1,17 @@
 import { Request } from 'express';
-import moment from 'moment';
-import { Op } from 'sequelize';
 
-import activities from '../../constants/activities';
 import logger from '../../lib/logger';
 import { verifyEvent } from '../../lib/transferwise';
 import models from '../../models';
 import { TransferStateChangeEvent } from '../../types/transferwise';
 
+import { handleTransferState, TransferStateSource } from './transfer-state';
+
 async function handleTransferStateChange(event: TransferStateChangeEvent): Promise<void> {
   const transaction = await models.Transaction.findOne({
-    where: {
-      data: { transfer: { id: event.data.resource.id } },
-      updatedAt: {
-        [Op.gte]: moment().subtract(10, 'days').toDate(),
-      },
-    },
+    // No date filter: refunds (`bounced_back`, `charged_back`) can be notified long after the payment.
+    // The id is compared as a string to use the `transactions__transferwise_transfer_id` index.
+    where: { data: { transfer: { id: event.data.resource.id.toString() } } },
     include: [{ model: models.Expense, as: 'Expense' }],
   });
 
@@ -24,19 +20,11 @@ async function handleTransferStateChange(event: TransferStateChangeEvent): Promi
     logger.debug('Ignoring transferwise event.', event);
     return;
   }
-  const expense = transaction.Expense;
-
-  if (event.data.current_state === 'outgoing_payment_sent') {
-    logger.info(`Transfer sent, marking expense as paid.`, event);
-    await expense.setPaid(expense.lastEditedById);
-    const user = await models.User.findByPk(expense.lastEditedById);
-    await expense.createActivity(activities.COLLECTIVE_EXPENSE_PAID, user);
-  } else if (event.data.current_state === 'funds_refunded') {
-    logger.info(`Transfer failed, setting status to Error and deleting existing transactions.`, event);
-    await models.Transaction.destroy({ where: { ExpenseId: expense.id } });
-    await expense.setError(expense.lastEditedById);
-    await expense.createActivity(activities.COLLECTIVE_EXPENSE_ERROR);
-  }
+
+  await handleTransferState(transaction.Expense, event.data.resource.id, event.data.current_state, {
+    date: event.data.occurred_at,
+    source: TransferStateSource.WEBHOOK,
+  });
 }
 
 async function webhook(req: Request & { rawBody: string }): Promise<void> {
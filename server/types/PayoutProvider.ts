@@ -0,0 +1,52 @@
+import { Request } from 'express';
+
+import { PayoutMethodTypes } from '../models/PayoutMethod';
+
+/** A preview of the payment of an expense, amounts are in cents */
+export type PayoutQuote = {
+  payoutMethodType: PayoutMethodTypes;
+  /** The amount debited from the host, fees included */
+  sourceAmount: number;
+  sourceCurrency: string;
+  /** The amount received by the payee */
+  targetAmount: number;
+  targetCurrency: string;
+  /** The fee of the payment provider, in the source currency */
+  fee: number;
+  rate: number;
+  /** Until when the rate is guaranteed, null for estimates */
+  validUntil: Date | null;
+  /** Whether the amounts are only an estimate, the actual fee being known after the payment */
+  isEstimate: boolean;
+};
+
+/**
+ * A payment rail that hosts can use to pay expenses, ie. PayPal Payouts or TransferWise.
+ * Providers are registered in `server/paymentProviders/payout-providers`.
+ */
+export interface PayoutProvider {
+  /** A unique name for the provider, usually the service of its connected account */
+  name: string;
+  /** The types of payout methods this provider can pay */
+  payoutMethodTypes: PayoutMethodTypes[];
+  /** Whether the host has enabled this provider, ie. by connecting an account */
+  isEnabledForHost(host, connectedAccounts: { service: string }[]): boolean;
+  /**
+   * Returns the description of the information needed on the payout method to be paid with this provider,
+   * in the format of the provider. `accountDetails` can be passed to validate a partially filled form.
+   */
+  getRequiredFields(host, currency: string, accountDetails?: Record<string, any>): Promise<any>;
+  /** Returns a preview of the payment, or null if the expense cannot be paid with this provider */
+  quote(host, payoutMethod, expense): Promise<PayoutQuote | null>;
+  /**
+   * Sends the payment of the expense and updates its status. Returns the data recorded by
+   * the provider for this payment.
+   */
+  pay(host, payoutMethod, expense): Promise<Record<string, any>>;
+  /** Checks the status of the payments of these expenses, in case a webhook was missed */
+  checkStatus(expenses: any[]): Promise<void>;
+  /** Handles a notification sent by the provider about a payment */
+  handleWebhook(req: Request): Promise<void>;
+  /** Cancels a payment that hasn't reached the payee yet, if the provider supports it */
+  cancel?(expense, user, reason?: string): Promise<any>;
+}
@@ -94,6 +94,9 @@ export type PayoutBatchDetails = {
     };
   };
   items: PayoutItemDetails[];
+  /** Only returned when requested with `total_required` */
+  total_items?: number;
+  total_page?: number;
 };
 
 type PayPalLink = {
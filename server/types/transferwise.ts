@@ -17,6 +17,42 @@ export type Quote = {
   ofSourceAmount: boolean;
 };
 
+export type QuoteV2PaymentOption = {
+  disabled: boolean;
+  estimatedDelivery: string;
+  formattedEstimatedDelivery: string;
+  fee: {
+    transferwise: number;
+    payIn: number;
+    discount: number;
+    total: number;
+  };
+  sourceAmount: number;
+  targetAmount: number;
+  sourceCurrency: string;
+  targetCurrency: string;
+  payIn: string;
+  payOut: string;
+};
+
+export type QuoteV2 = {
+  id: string;
+  sourceCurrency: string;
+  targetCurrency: string;
+  sourceAmount: number;
+  targetAmount: number;
+  payOut: string;
+  rate: number;
+  createdTime: string;
+  user: number;
+  profile: number;
+  rateType: string;
+  rateExpirationTime: string;
+  status: string;
+  expirationTime: string;
+  paymentOptions: QuoteV2PaymentOption[];
+};
+
 export type RecipientAccount = {
   id?: number;
   currency: string;
@@ -121,7 +157,8 @@ export type TransferStatus =
   | 'outgoing_payment_sent'
   | 'cancelled'
   | 'funds_refunded'
-  | 'bounced_back';
+  | 'bounced_back'
+  | 'charged_back';
 
 /* eslint-disable camelcase */
 export interface WebhookEvent {
@@ -154,7 +191,7 @@ export type Transfer = {
   targetAccount: number;
   sourceAccount: null | number;
   quote: number;
-  status: string;
+  status: TransferStatus;
   reference?: string;
   rate: number;
   created: string;
@@ -221,3 +258,24 @@ export type BorderlessAccount = {
   eligible: boolean;
   balances: Balance[];
 };
+
+export type BalanceConversion = {
+  id: number;
+  type: 'CONVERSION';
+  state: 'COMPLETED' | string;
+  sourceAmount: { value: number; currency: string };
+  targetAmount: { value: number; currency: string };
+  rate: number;
+  feeAmounts: Array<{ value: number; currency: string }>;
+};
+
+export type BatchGroupStatus = 'NEW' | 'COMPLETED' | 'CANCELLED';
+
+export type BatchGroup = {
+  id: string;
+  version: number;
+  name: string;
+  sourceCurrency: string;
+  status: BatchGroupStatus;
+  transferIds: number[];
+};
@@ -0,0 +1,97 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+
+import { run as payScheduledExpenses } from '../../../cron/hourly/10-pay-scheduled-expenses-payouts';
+import status from '../../../server/constants/expense_status';
+import models from '../../../server/models';
+import { PayoutBatchStatus } from '../../../server/models/PayoutBatch';
+import { PayoutMethodTypes } from '../../../server/models/PayoutMethod';
+import * as paypal from '../../../server/paymentProviders/paypal/payouts';
+import { fakeCollective, fakeExpense, fakeHost, fakePayoutMethod, multiple } from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('cron/hourly/10-pay-scheduled-expenses-payouts', () => {
+  const sandbox = sinon.createSandbox();
+  let payExpensesBatch, payoutMethod;
+
+  afterEach(sandbox.restore);
+  beforeEach(utils.resetTestDB);
+  beforeEach(async () => {
+    payExpensesBatch = sandbox.stub(paypal, 'payExpensesBatch').resolves();
+    payoutMethod = await fakePayoutMethod({
+      type: PayoutMethodTypes.PAYPAL,
+      data: {
+        email: 'nicolas@cage.com',
+      },
+    });
+  });
+
+  const fakeScheduledExpenses = collective =>
+    multiple(fakeExpense, 3, {
+      status: status.SCHEDULED_FOR_PAYMENT,
+      amount: 10000,
+      CollectiveId: collective.id,
+      currency: 'USD',
+      PayoutMethodId: payoutMethod.id,
+      category: 'Engineering',
+      type: 'INVOICE',
+      description: 'May Invoice',
+    });
+
+  it('bundle expenses by hostId', async () => {
+    const collectives = await multiple(fakeCollective, 2, { isHostAccount: true });
+    for (const collective of collectives) {
+      await fakeScheduledExpenses(collective);
+    }
+
+    await payScheduledExpenses();
+
+    expect(payExpensesBatch.callCount).to.eq(2);
+    for (let call = 0; call < payExpensesBatch.callCount; call++) {
+      const args = payExpensesBatch.getCall(call).args[0];
+      const hostIds = args.map(c => c.collective.HostCollectiveId);
+      expect(hostIds.every(id => id === hostIds[0])).to.be.true;
+    }
+
+    const payoutBatches = await models.PayoutBatch.findAll();
+    expect(payoutBatches).to.have.length(2);
+    payoutBatches.forEach(batch => {
+      expect(batch.payoutMethodType).to.eq(PayoutMethodTypes.PAYPAL);
+      expect(batch.status).to.eq(PayoutBatchStatus.PROCESSING);
+    });
+  });
+
+  it('groups the expenses of all the collectives of the same host', async () => {
+    const host = await fakeHost();
+    const collectives = await multiple(fakeCollective, 2, { HostCollectiveId: host.id });
+    for (const collective of collectives) {
+      await fakeScheduledExpenses(collective);
+    }
+
+    await payScheduledExpenses();
+
+    expect(payExpensesBatch.callCount).to.eq(1);
+    expect(payExpensesBatch.getCall(0).args[0]).to.have.length(6);
+  });
+
+  it('does not send the batches of hosts that review them', async () => {
+    const host = await fakeHost({ settings: { payoutBatches: { requireReview: true } } });
+    const collective = await fakeCollective({ HostCollectiveId: host.id });
+    const expenses = await fakeScheduledExpenses(collective);
+
+    await payScheduledExpenses();
+
+    expect(payExpensesBatch.called).to.be.false;
+    const payoutBatch = await models.PayoutBatch.findOne({ where: { HostCollectiveId: host.id } });
+    expect(payoutBatch.status).to.eq(PayoutBatchStatus.PENDING);
+
+    // Expenses scheduled later are added to the same batch
+    const [newExpense] = await fakeScheduledExpenses(collective);
+    await payScheduledExpenses();
+    await newExpense.reload();
+    await expenses[0].reload();
+    expect(newExpense.PayoutBatchId).to.eq(payoutBatch.id);
+    expect(expenses[0].PayoutBatchId).to.eq(payoutBatch.id);
+    expect(await models.PayoutBatch.count()).to.eq(1);
+  });
+});
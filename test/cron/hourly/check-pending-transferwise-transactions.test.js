@@ -80,6 +80,41 @@ describe('cron/hourly/check-pending-transferwise-transactions.js', () => {
     expect(expense).to.have.property('status', status.PAID);
   });
 
+  it('should record intermediate states in the transfer history without changing the expense', async () => {
+    getTransfer.resolves({ status: 'funds_converted' });
+    await checkPendingTransfers();
+    await checkPendingTransfers();
+
+    await expense.reload();
+    expect(expense).to.have.property('status', status.PROCESSING);
+    expect(expense.data.transferStates).to.have.length(1);
+    expect(expense.data.transferStates[0]).to.include({
+      transferId: 1234,
+      state: 'funds_converted',
+      source: 'RECONCILIATION',
+    });
+  });
+
+  it('should set paid expenses as error if the transfer bounced back', async () => {
+    await expense.update({ status: status.PAID });
+    getTransfer.resolves({ status: 'bounced_back' });
+    await checkPendingTransfers();
+
+    await expense.reload();
+    expect(expense).to.have.property('status', status.ERROR);
+    expect(expense.data.transferStates.map(s => s.state)).to.deep.eq(['bounced_back']);
+    const transactions = await expense.getTransactions();
+    expect(transactions).to.be.empty;
+  });
+
+  it('should set expense as error if the transfer was cancelled', async () => {
+    getTransfer.resolves({ status: 'cancelled' });
+    await checkPendingTransfers();
+
+    await expense.reload();
+    expect(expense).to.have.property('status', status.ERROR);
+  });
+
   it('should ignore expenses manually marked as paid', async () => {
     getTransfer.resolves({ status: 'outgoing_payment_sent' });
     const manualExpense = await fakeExpense({
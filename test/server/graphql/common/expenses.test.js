@@ -1,4 +1,5 @@
 import { expect } from 'chai';
+import sinon from 'sinon';
 
 import {
   canApprove,
@@ -12,10 +13,19 @@ import {
   canSeeExpenseInvoiceInfo,
   canSeeExpensePayeeLocation,
   canSeeExpensePayoutMethod,
+  canSeeExpenseQuote,
   canUnapprove,
+  getExpenseQuote,
 } from '../../../../server/graphql/common/expenses';
+import * as transferwiseLib from '../../../../server/lib/transferwise';
 import { PayoutMethodTypes } from '../../../../server/models/PayoutMethod';
-import { fakeCollective, fakeExpense, fakePayoutMethod, fakeUser } from '../../../test-helpers/fake-data';
+import {
+  fakeCollective,
+  fakeConnectedAccount,
+  fakeExpense,
+  fakePayoutMethod,
+  fakeUser,
+} from '../../../test-helpers/fake-data';
 import { makeRequest } from '../../../utils';
 
 describe('server/graphql/common/expenses', () => {
@@ -128,6 +138,83 @@ describe('server/graphql/common/expenses', () => {
     });
   });
 
+  describe('canSeeExpenseQuote', () => {
+    it('can only be seen by host admins', async () => {
+      expect(await canSeeExpenseQuote(publicReq, expense)).to.be.false;
+      expect(await canSeeExpenseQuote(randomUserReq, expense)).to.be.false;
+      expect(await canSeeExpenseQuote(collectiveAdminReq, expense)).to.be.false;
+      expect(await canSeeExpenseQuote(collectiveAccountantReq, expense)).to.be.false;
+      expect(await canSeeExpenseQuote(hostAdminReq, expense)).to.be.true;
+      expect(await canSeeExpenseQuote(hostAccountantReq, expense)).to.be.false;
+      expect(await canSeeExpenseQuote(expenseOwnerReq, expense)).to.be.false;
+    });
+  });
+
+  describe('getExpenseQuote', () => {
+    const sandbox = sinon.createSandbox();
+    let getTemporaryQuote;
+
+    before(async () => {
+      getTemporaryQuote = sandbox.stub(transferwiseLib, 'getTemporaryQuote').resolves({
+        source: 'USD',
+        target: 'EUR',
+        sourceAmount: 101.14,
+        targetAmount: 90.44,
+        rate: 0.9044,
+        fee: 1.14,
+        createdTime: new Date().toISOString(),
+      });
+      await fakeConnectedAccount({
+        CollectiveId: collective.HostCollectiveId,
+        service: 'transferwise',
+        token: 'fake-token',
+        data: { type: 'business', id: 0 },
+      });
+    });
+
+    after(() => sandbox.restore());
+
+    it('returns the TransferWise quote for bank accounts, cached for its validity', async () => {
+      const payoutMethod = await fakePayoutMethod({
+        type: PayoutMethodTypes.BANK_ACCOUNT,
+        data: { currency: 'EUR', type: 'iban', accountHolderName: 'Nicolas Cage', details: {} },
+      });
+      const bankExpense = await fakeExpense({
+        CollectiveId: collective.id,
+        PayoutMethodId: payoutMethod.id,
+        status: 'APPROVED',
+        amount: 10000,
+        currency: 'USD',
+      });
+
+      const quote = await getExpenseQuote(hostAdminReq, bankExpense);
+      expect(quote).to.include({ sourceAmount: 10114, targetAmount: 9044, fee: 114, rate: 0.9044, isEstimate: false });
+      expect(quote.validUntil).to.be.a('date');
+
+      await getExpenseQuote(hostAdminReq, bankExpense);
+      expect(getTemporaryQuote.calledOnce).to.be.true;
+    });
+
+    it('returns an estimate for PayPal', async () => {
+      const payoutMethod = await fakePayoutMethod({ type: PayoutMethodTypes.PAYPAL });
+      const paypalExpense = await fakeExpense({
+        CollectiveId: collective.id,
+        PayoutMethodId: payoutMethod.id,
+        status: 'APPROVED',
+        amount: 10000,
+        currency: collective.currency,
+      });
+
+      const quote = await getExpenseQuote(hostAdminReq, paypalExpense);
+      expect(quote).to.include({ targetAmount: 10000, rate: 1, isEstimate: true, validUntil: null });
+      expect(quote.sourceAmount).to.eq(10000 + quote.fee);
+    });
+
+    it('returns null for payout methods that cannot be paid automatically', async () => {
+      expect(await getExpenseQuote(hostAdminReq, expense)).to.be.null;
+    });
+  });
+
   describe('canEditExpense', () => {
     it('only if not processing or paid', async () => {
       await expense.update({ status: 'PENDING' });
@@ -1,16 +1,19 @@
 import { expect } from 'chai';
 import gqlV2 from 'fake-tag';
 import { pick } from 'lodash';
+import sinon from 'sinon';
 
 import { expenseStatus } from '../../../../../server/constants';
 import { payExpense } from '../../../../../server/graphql/v1/mutations/expenses.js';
 import { idEncode, IDENTIFIER_TYPES } from '../../../../../server/graphql/v2/identifiers';
+import emailLib from '../../../../../server/lib/email';
 import models from '../../../../../server/models';
 import { randEmail, randUrl } from '../../../../stores';
 import {
   fakeCollective,
   fakeExpense,
   fakeExpenseItem,
+  fakeHost,
   fakePayoutMethod,
   fakeTransaction,
   fakeUser,
@@ -36,6 +39,36 @@ const createExpenseMutation = gqlV2/* GraphQL */ `
   }
 `;
 
+const draftExpenseAndInviteUserMutation = gqlV2/* GraphQL */ `
+  mutation DraftExpenseAndInviteUser($expense: ExpenseInviteDraftInput!, $account: AccountReferenceInput!) {
+    draftExpenseAndInviteUser(expense: $expense, account: $account) {
+      id
+      legacyId
+      status
+      amount
+      payee {
+        legacyId
+      }
+    }
+  }
+`;
+
+const submitDraftExpenseMutation = gqlV2/* GraphQL */ `
+  mutation SubmitDraftExpense($expense: ExpenseUpdateInput!, $draftKey: String) {
+    editExpense(expense: $expense, draftKey: $draftKey) {
+      id
+      status
+      payoutMethod {
+        type
+      }
+      payeeLocation {
+        address
+        country
+      }
+    }
+  }
+`;
+
 const deleteExpenseMutation = gqlV2/* GraphQL */ `
   mutation DeleteExpense($expense: ExpenseReferenceInput!) {
     deleteExpense(expense: $expense) {
@@ -93,6 +126,26 @@ const processExpenseMutation = gqlV2/* GraphQL */ `
   }
 `;
 
+const processExpensesMutation = gqlV2/* GraphQL */ `
+  mutation ProcessExpenses(
+    $expenses: [ExpenseReferenceInput!]!
+    $action: ExpenseProcessAction!
+    $paymentParams: ProcessExpensePaymentParams
+  ) {
+    processExpenses(expenses: $expenses, action: $action, paymentParams: $paymentParams) {
+      success
+      expense {
+        legacyId
+        status
+      }
+      error {
+        code
+        message
+      }
+    }
+  }
+`;
+
 /** A small helper to prepare an expense item to be submitted to GQLV2 */
 const convertExpenseItemId = item => {
   return item?.id ? { ...item, id: idEncode(item.id, IDENTIFIER_TYPES.EXPENSE_ITEM) } : item;
@@ -178,6 +231,154 @@ describe('server/graphql/v2/mutation/ExpenseMutations', () => {
     });
   });
 
+  describe('draftExpenseAndInviteUser', () => {
+    const sandbox = sinon.createSandbox();
+    let collectiveAdmin, collective, sendEmail;
+
+    const getDraftExpenseData = (email = randEmail()) => ({
+      description: 'Design work',
+      type: 'INVOICE',
+      items: [
+        { description: 'Logo', amount: 3000 },
+        { description: 'Website mockups', amount: 7000 },
+      ],
+      payee: { email, name: 'Invited Designer' },
+    });
+
+    beforeEach(async () => {
+      sendEmail = sandbox.stub(emailLib, 'send').resolves();
+      collectiveAdmin = await fakeUser();
+      collective = await fakeCollective({ admin: collectiveAdmin.collective });
+    });
+
+    afterEach(() => {
+      sandbox.restore();
+    });
+
+    it('must be an admin of the collective', async () => {
+      const result = await graphqlQueryV2(
+        draftExpenseAndInviteUserMutation,
+        { expense: getDraftExpenseData(), account: { legacyId: collective.id } },
+        await fakeUser(),
+      );
+
+      expect(result.errors).to.exist;
+      expect(result.errors[0].message).to.eq('Only collective admins can invite someone to submit an expense');
+    });
+
+    it('creates a draft expense and sends the invitation to the payee', async () => {
+      const email = randEmail();
+      const result = await graphqlQueryV2(
+        draftExpenseAndInviteUserMutation,
+        { expense: getDraftExpenseData(email), account: { legacyId: collective.id } },
+        collectiveAdmin,
+      );
+
+      result.errors && console.error(result.errors);
+      expect(result.errors).to.not.exist;
+      const draftExpense = result.data.draftExpenseAndInviteUser;
+      expect(draftExpense.status).to.eq('DRAFT');
+      expect(draftExpense.amount).to.eq(10000);
+
+      const payeeUser = await models.User.findOne({ where: { email } });
+      expect(draftExpense.payee.legacyId).to.eq(payeeUser.CollectiveId);
+
+      const expense = await models.Expense.findByPk(draftExpense.legacyId);
+      expect(expense.data.draftKey).to.exist;
+      expect(sendEmail.calledOnce).to.be.true;
+      expect(sendEmail.firstCall.args[0]).to.eq('collective.expense.invite.drafted');
+      expect(sendEmail.firstCall.args[1]).to.eq(email);
+      expect(sendEmail.firstCall.args[2].draftUrl).to.include(`?key=${expense.data.draftKey}`);
+    });
+
+    it('lets the invited payee submit the expense with the key', async () => {
+      const email = randEmail();
+      const result = await graphqlQueryV2(
+        draftExpenseAndInviteUserMutation,
+        { expense: getDraftExpenseData(email), account: { legacyId: collective.id } },
+        collectiveAdmin,
+      );
+
+      const expense = await models.Expense.findByPk(result.data.draftExpenseAndInviteUser.legacyId);
+      const payeeUser = await models.User.findOne({ where: { email } });
+      const submittedExpenseData = {
+        id: idEncode(expense.id, IDENTIFIER_TYPES.EXPENSE),
+        payoutMethod: { type: 'PAYPAL', data: { email } },
+        payeeLocation: { address: '123 Potatoes street', country: 'BE' },
+      };
+
+      // Must provide a valid key
+      const variables = { expense: submittedExpenseData, draftKey: 'not-the-right-key' };
+      const resultWithInvalidKey = await graphqlQueryV2(submitDraftExpenseMutation, variables, payeeUser);
+      expect(resultWithInvalidKey.errors).to.exist;
+      expect(resultWithInvalidKey.errors[0].message).to.eq('This draft expense does not exist or the link has expired');
+
+      const submitResult = await graphqlQueryV2(
+        submitDraftExpenseMutation,
+        { expense: submittedExpenseData, draftKey: expense.data.draftKey },
+        payeeUser,
+      );
+
+      submitResult.errors && console.error(submitResult.errors);
+      expect(submitResult.errors).to.not.exist;
+      expect(submitResult.data.editExpense.status).to.eq('PENDING');
+      expect(submitResult.data.editExpense.payoutMethod.type).to.eq('PAYPAL');
+      expect(submitResult.data.editExpense.payeeLocation).to.deep.eq(submittedExpenseData.payeeLocation);
+
+      await expense.reload();
+      expect(expense.UserId).to.eq(payeeUser.id);
+      expect(expense.data.draftKey).to.not.exist;
+    });
+
+    it('does not let another user claim the draft with the key', async () => {
+      const result = await graphqlQueryV2(
+        draftExpenseAndInviteUserMutation,
+        { expense: getDraftExpenseData(), account: { legacyId: collective.id } },
+        collectiveAdmin,
+      );
+
+      const expense = await models.Expense.findByPk(result.data.draftExpenseAndInviteUser.legacyId);
+      const otherUser = await fakeUser();
+      const submittedExpenseData = {
+        id: idEncode(expense.id, IDENTIFIER_TYPES.EXPENSE),
+        payee: { legacyId: otherUser.CollectiveId },
+        payoutMethod: { type: 'PAYPAL', data: { email: otherUser.email } },
+      };
+
+      const submitResult = await graphqlQueryV2(
+        submitDraftExpenseMutation,
+        { expense: submittedExpenseData, draftKey: expense.data.draftKey },
+        otherUser,
+      );
+
+      expect(submitResult.errors).to.exist;
+      expect(submitResult.errors[0].message).to.eq('This expense was drafted for someone else');
+      await expense.reload();
+      expect(expense.status).to.eq('DRAFT');
+      expect(expense.FromCollectiveId).to.not.eq(otherUser.CollectiveId);
+    });
+
+    it('stays a draft when edited by the collective admins', async () => {
+      const result = await graphqlQueryV2(
+        draftExpenseAndInviteUserMutation,
+        { expense: getDraftExpenseData(), account: { legacyId: collective.id } },
+        collectiveAdmin,
+      );
+
+      const expenseId = result.data.draftExpenseAndInviteUser.id;
+      const items = [{ description: 'Logo', amount: 5000 }];
+      const editResult = await graphqlQueryV2(
+        editExpenseMutation,
+        { expense: { id: expenseId, items } },
+        collectiveAdmin,
+      );
+      editResult.errors && console.error(editResult.errors);
+      expect(editResult.errors).to.not.exist;
+      expect(editResult.data.editExpense.status).to.eq('DRAFT');
+      expect(editResult.data.editExpense.amount).to.eq(5000);
+    });
+  });
+
   describe('editExpense', () => {
     describe('goes back to pending if editing critical fields', () => {
       it('Payout', async () => {
@@ -424,6 +625,86 @@ describe('server/graphql/v2/mutation/ExpenseMutations', () => {
         const result = await graphqlQueryV2(processExpenseMutation, mutationParams, collectiveAdmin);
         expect(result.data.processExpense.status).to.eq('APPROVED');
       });
+
+      describe('with an approval policy', () => {
+        let policyHost, policyHostAdmin, policyCollective, secondCollectiveAdmin;
+
+        before(async () => {
+          policyHostAdmin = await fakeUser();
+          secondCollectiveAdmin = await fakeUser();
+          policyHost = await fakeHost({
+            admin: policyHostAdmin.collective,
+            settings: { expenseApprovalPolicy: { requireHostAdminForInvoices: true } },
+          });
+          policyCollective = await fakeCollective({
+            HostCollectiveId: policyHost.id,
+            admin: collectiveAdmin.collective,
+            settings: { expenseApprovalPolicy: { minApprovers: 2, minApproversThreshold: 10000 } },
+          });
+          await policyCollective.addUserWithRole(secondCollectiveAdmin, 'ADMIN');
+        });
+
+        it('Collects approvals until the policy is satisfied', async () => {
+          const expense = await fakeExpense({
+            CollectiveId: policyCollective.id,
+            status: 'PENDING',
+            type: 'RECEIPT',
+            amount: 20000,
+          });
+
+          const mutationParams = { expenseId: expense.id, action: 'APPROVE' };
+          const result1 = await graphqlQueryV2(processExpenseMutation, mutationParams, collectiveAdmin);
+          result1.errors && console.error(result1.errors);
+          expect(result1.data.processExpense.status).to.eq('PENDING');
+
+          // Same user cannot approve twice
+          const result2 = await graphqlQueryV2(processExpenseMutation, mutationParams, collectiveAdmin);
+          expect(result2.errors).to.exist;
+          expect(result2.errors[0].message).to.eq('You are authenticated but forbidden to perform this action');
+
+          const result3 = await graphqlQueryV2(processExpenseMutation, mutationParams, secondCollectiveAdmin);
+          expect(result3.data.processExpense.status).to.eq('APPROVED');
+          expect(await models.ExpenseApproval.count({ where: { ExpenseId: expense.id } })).to.eq(2);
+        });
+
+        it('Requires a host admin approval for invoices', async () => {
+          const expense = await fakeExpense({
+            CollectiveId: policyCollective.id,
+            status: 'PENDING',
+            type: 'INVOICE',
+            amount: 5000,
+          });
+
+          const mutationParams = { expenseId: expense.id, action: 'APPROVE' };
+          const result1 = await graphqlQueryV2(processExpenseMutation, mutationParams, collectiveAdmin);
+          expect(result1.data.processExpense.status).to.eq('PENDING');
+          const result2 = await graphqlQueryV2(processExpenseMutation, mutationParams, policyHostAdmin);
+          expect(result2.data.processExpense.status).to.eq('APPROVED');
+        });
+
+        it('Submitter cannot approve', async () => {
+          const expense = await fakeExpense({
+            CollectiveId: policyCollective.id,
+            UserId: collectiveAdmin.id,
+            status: 'PENDING',
+          });
+
+          const mutationParams = { expenseId: expense.id, action: 'APPROVE' };
+          const result = await graphqlQueryV2(processExpenseMutation, mutationParams, collectiveAdmin);
+          expect(result.errors).to.exist;
+          expect(result.errors[0].message).to.eq('You are authenticated but forbidden to perform this action');
+        });
+
+        it('Resets the approvals when the expense is rejected', async () => {
+          const expense = await fakeExpense({ CollectiveId: policyCollective.id, status: 'PENDING', amount: 20000 });
+          const approveParams = { expenseId: expense.id, action: 'APPROVE' };
+          await graphqlQueryV2(processExpenseMutation, approveParams, collectiveAdmin);
+          const rejectParams = { expenseId: expense.id, action: 'REJECT' };
+          const result = await graphqlQueryV2(processExpenseMutation, rejectParams, secondCollectiveAdmin);
+          expect(result.data.processExpense.status).to.eq('REJECTED');
+          expect(await models.ExpenseApproval.count({ where: { ExpenseId: expense.id } })).to.eq(0);
+        });
+      });
     });
 
     describe('UNAPPROVE', () => {
@@ -753,4 +1034,92 @@ describe('server/graphql/v2/mutation/ExpenseMutations', () => {
       });
     });
   });
+
+  describe('processExpenses', () => {
+    let collective, hostAdmin, collectiveAdmin;
+
+    before(async () => {
+      hostAdmin = await fakeUser();
+      collectiveAdmin = await fakeUser();
+      const host = await fakeCollective({ admin: hostAdmin.collective });
+      collective = await fakeCollective({ HostCollectiveId: host.id, admin: collectiveAdmin.collective });
+    });
+
+    it('Needs to be authenticated', async () => {
+      const expense = await fakeExpense({ CollectiveId: collective.id, status: 'PENDING' });
+      const mutationParams = { expenses: [{ legacyId: expense.id }], action: 'APPROVE' };
+      const result = await graphqlQueryV2(processExpensesMutation, mutationParams);
+      expect(result.errors).to.exist;
+      expect(result.errors[0].message).to.eq('You need to be authenticated to perform this action');
+    });
+
+    it('Returns a result for each expense without failing the whole batch', async () => {
+      const pendingExpense = await fakeExpense({ CollectiveId: collective.id, status: 'PENDING' });
+      const paidExpense = await fakeExpense({ CollectiveId: collective.id, status: 'PAID' });
+      const mutationParams = {
+        expenses: [{ legacyId: pendingExpense.id }, { legacyId: paidExpense.id }, { legacyId: 0 }],
+        action: 'APPROVE',
+      };
+
+      const result = await graphqlQueryV2(processExpensesMutation, mutationParams, collectiveAdmin);
+      result.errors && console.error(result.errors);
+      expect(result.errors).to.not.exist;
+
+      const [pendingResult, paidResult, missingResult] = result.data.processExpenses;
+      expect(pendingResult.success).to.be.true;
+      expect(pendingResult.expense.status).to.eq('APPROVED');
+      expect(pendingResult.error).to.be.null;
+      expect(paidResult.success).to.be.false;
+      expect(paidResult.expense.status).to.eq('PAID');
+      expect(paidResult.error.code).to.eq('Forbidden');
+      expect(missingResult.success).to.be.false;
+      expect(missingResult.expense).to.be.null;
+      expect(missingResult.error.code).to.eq('NotFound');
+    });
+
+    it('Accounts for the expenses already scheduled in the batch when checking the balance', async () => {
+      const batchCollective = await fakeCollective({ HostCollectiveId: collective.HostCollectiveId });
+      await fakeTransaction({ type: 'CREDIT', CollectiveId: batchCollective.id, amount: 1500 });
+      const payoutMethod = await fakePayoutMethod({ type: 'OTHER' });
+      const expenseParams = { CollectiveId: batchCollective.id, status: 'APPROVED', PayoutMethodId: payoutMethod.id };
+      const expense1 = await fakeExpense({ ...expenseParams, amount: 1000 });
+      const expense2 = await fakeExpense({ ...expenseParams, amount: 1000 });
+      const mutationParams = {
+        expenses: [{ legacyId: expense1.id }, { legacyId: expense2.id }],
+        action: 'SCHEDULE_FOR_PAYMENT',
+      };
+
+      const result = await graphqlQueryV2(processExpensesMutation, mutationParams, hostAdmin);
+      result.errors && console.error(result.errors);
+      expect(result.errors).to.not.exist;
+
+      const [result1, result2] = result.data.processExpenses;
+      expect(result1.success).to.be.true;
+      expect(result1.expense.status).to.eq('SCHEDULED_FOR_PAYMENT');
+      expect(result2.success).to.be.false;
+      expect(result2.expense.status).to.eq('APPROVED');
+      expect(result2.error.message).to.include("You don't have enough funds to pay this expense");
+    });
+
+    it('Schedules all the expenses when the balance covers them', async () => {
+      const batchCollective = await fakeCollective({ HostCollectiveId: collective.HostCollectiveId });
+      await fakeTransaction({ type: 'CREDIT', CollectiveId: batchCollective.id, amount: 2500 });
+      const payoutMethod = await fakePayoutMethod({ type: 'OTHER' });
+      const expenseParams = { CollectiveId: batchCollective.id, status: 'APPROVED', PayoutMethodId: payoutMethod.id };
+      const expense1 = await fakeExpense({ ...expenseParams, amount: 1000 });
+      const expense2 = await fakeExpense({ ...expenseParams, amount: 1000 });
+      const mutationParams = {
+        expenses: [{ legacyId: expense1.id }, { legacyId: expense2.id }],
+        action: 'SCHEDULE_FOR_PAYMENT',
+      };
+
+      const result = await graphqlQueryV2(processExpensesMutation, mutationParams, hostAdmin);
+      result.errors && console.error(result.errors);
+      expect(result.errors).to.not.exist;
+      result.data.processExpenses.forEach(expenseResult => {
+        expect(expenseResult.success).to.be.true;
+        expect(expenseResult.expense.status).to.eq('SCHEDULED_FOR_PAYMENT');
+      });
+    });
+  });
 });
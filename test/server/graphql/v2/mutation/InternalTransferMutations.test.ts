@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import gqlV2 from 'fake-tag';
+
+import models from '../../../../../server/models';
+import {
+  fakeCollective,
+  fakeHost,
+  fakePaymentMethod,
+  fakeTransaction,
+  fakeUser,
+} from '../../../../test-helpers/fake-data';
+import { graphqlQueryV2 } from '../../../../utils';
+import * as utils from '../../../../utils';
+
+const createInternalTransferMutation = gqlV2/* GraphQL */ `
+  mutation CreateInternalTransfer(
+    $fromAccount: AccountReferenceInput!
+    $toAccount: AccountReferenceInput!
+    $amount: AmountInput!
+    $reason: String!
+  ) {
+    createInternalTransfer(fromAccount: $fromAccount, toAccount: $toAccount, amount: $amount, reason: $reason) {
+      id
+      status
+      amount {
+        valueInCents
+      }
+    }
+  }
+`;
+
+describe('server/graphql/v2/mutation/InternalTransferMutations', () => {
+  let adminUser, fromCollective, collective;
+
+  before(utils.resetTestDB);
+  before(async () => {
+    adminUser = await fakeUser();
+    const host = await fakeHost({ currency: 'USD' });
+    fromCollective = await fakeCollective({ HostCollectiveId: host.id, currency: 'USD', admin: adminUser.collective });
+    collective = await fakeCollective({ HostCollectiveId: host.id, currency: 'USD' });
+    await fakePaymentMethod({ CollectiveId: fromCollective.id, service: 'opencollective', type: 'collective' });
+    await fakeTransaction({
+      type: 'CREDIT',
+      CollectiveId: fromCollective.id,
+      HostCollectiveId: host.id,
+      amount: 10000,
+      amountInHostCurrency: 10000,
+      netAmountInCollectiveCurrency: 10000,
+    });
+  });
+
+  describe('createInternalTransfer', () => {
+    const getVariables = () => ({
+      fromAccount: { legacyId: fromCollective.id },
+      toAccount: { legacyId: collective.id },
+      amount: { valueInCents: 2500, currency: 'USD' },
+      reason: 'Share of the grant',
+    });
+
+    it('must be logged in', async () => {
+      const result = await graphqlQueryV2(createInternalTransferMutation, getVariables());
+      expect(result.errors).to.exist;
+      expect(result.errors[0].extensions.code).to.eq('Unauthorized');
+    });
+
+    it('must be an admin of the source account', async () => {
+      const collectiveAdmin = await fakeUser();
+      await collective.addUserWithRole(collectiveAdmin, 'ADMIN');
+      const result = await graphqlQueryV2(createInternalTransferMutation, getVariables(), collectiveAdmin);
+      expect(result.errors).to.exist;
+      expect(result.errors[0].extensions.code).to.eq('Forbidden');
+      expect(result.errors[0].message).to.eq('You need to be an admin of the source account to transfer its money');
+      expect(await models.Order.count({ where: { FromCollectiveId: fromCollective.id } })).to.eq(0);
+    });
+
+    it('transfers the money', async () => {
+      const result = await graphqlQueryV2(createInternalTransferMutation, getVariables(), adminUser);
+      result.errors && console.error(result.errors);
+      expect(result.errors).to.not.exist;
+      expect(result.data.createInternalTransfer.status).to.eq('PAID');
+      expect(result.data.createInternalTransfer.amount.valueInCents).to.eq(2500);
+      expect(await fromCollective.getBalance()).to.eq(7500);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { expect } from 'chai';
+import gqlV2 from 'fake-tag';
+import sinon from 'sinon';
+
+import status from '../../../../../server/constants/expense_status';
+import { createPayoutBatches } from '../../../../../server/lib/payout-batches';
+import { PayoutBatchStatus } from '../../../../../server/models/PayoutBatch';
+import { PayoutMethodTypes } from '../../../../../server/models/PayoutMethod';
+import * as paypal from '../../../../../server/paymentProviders/paypal/payouts';
+import {
+  fakeCollective,
+  fakeExpense,
+  fakeHost,
+  fakePayoutMethod,
+  fakeTransaction,
+  fakeUser,
+  multiple,
+} from '../../../../test-helpers/fake-data';
+import { graphqlQueryV2 } from '../../../../utils';
+import * as utils from '../../../../utils';
+
+const sendPayoutBatchMutation = gqlV2/* GraphQL */ `
+  mutation sendPayoutBatch($payoutBatch: PayoutBatchReferenceInput!) {
+    sendPayoutBatch(payoutBatch: $payoutBatch) {
+      id
+      status
+      sentBy {
+        id
+        slug
+      }
+      expenses {
+        id
+        status
+      }
+    }
+  }
+`;
+
+const cancelPayoutBatchMutation = gqlV2/* GraphQL */ `
+  mutation cancelPayoutBatch($payoutBatch: PayoutBatchReferenceInput!) {
+    cancelPayoutBatch(payoutBatch: $payoutBatch) {
+      id
+      status
+      expenses {
+        id
+        status
+      }
+    }
+  }
+`;
+
+const payExpensesInBatchMutation = gqlV2/* GraphQL */ `
+  mutation payExpensesInBatch($host: AccountReferenceInput!, $expenses: [ExpenseReferenceInput!]!) {
+    payExpensesInBatch(host: $host, expenses: $expenses) {
+      id
+      status
+      payoutMethodType
+      items {
+        status
+        error
+        expense {
+          legacyId
+        }
+      }
+    }
+  }
+`;
+
+describe('server/graphql/v2/mutation/PayoutBatchMutations', () => {
+  const sandbox = sinon.createSandbox();
+  let hostAdmin, collectiveAdmin, host, collective, payoutMethod, payoutBatch, payExpensesBatch;
+
+  afterEach(sandbox.restore);
+  beforeEach(utils.resetTestDB);
+  beforeEach(async () => {
+    payExpensesBatch = sandbox.stub(paypal, 'payExpensesBatch').resolves();
+    hostAdmin = await fakeUser();
+    collectiveAdmin = await fakeUser();
+    host = await fakeHost({ admin: hostAdmin.collective, settings: { payoutBatches: { requireReview: true } } });
+    collective = await fakeCollective({ admin: collectiveAdmin.collective, HostCollectiveId: host.id });
+    payoutMethod = await fakePayoutMethod({ type: PayoutMethodTypes.PAYPAL });
+    await fakeExpense({
+      status: status.SCHEDULED_FOR_PAYMENT,
+      CollectiveId: collective.id,
+      PayoutMethodId: payoutMethod.id,
+    });
+    [payoutBatch] = await createPayoutBatches();
+  });
+
+  describe('sendPayoutBatch', () => {
+    it('must be an admin of the host', async () => {
+      const result = await graphqlQueryV2(
+        sendPayoutBatchMutation,
+        { payoutBatch: { legacyId: payoutBatch.id } },
+        collectiveAdmin,
+      );
+      expect(result.errors).to.exist;
+      expect(result.errors[0].message).to.eq('Only host admins can process payout batches');
+      expect(payExpensesBatch.called).to.be.false;
+    });
+
+    it('sends the batch to the payment provider', async () => {
+      const result = await graphqlQueryV2(
+        sendPayoutBatchMutation,
+        { payoutBatch: { legacyId: payoutBatch.id } },
+        hostAdmin,
+      );
+      result.errors && console.error(result.errors);
+      expect(result.errors).to.not.exist;
+      expect(result.data.sendPayoutBatch.status).to.eq(PayoutBatchStatus.PROCESSING);
+      expect(result.data.sendPayoutBatch.sentBy.slug).to.eq(hostAdmin.collective.slug);
+      expect(payExpensesBatch.calledOnce).to.be.true;
+    });
+
+    it('cannot send a batch that is not pending', async () => {
+      await payoutBatch.update({ status: PayoutBatchStatus.CANCELLED });
+      const result = await graphqlQueryV2(
+        sendPayoutBatchMutation,
+        { payoutBatch: { legacyId: payoutBatch.id } },
+        hostAdmin,
+      );
+      expect(result.errors).to.exist;
+      expect(result.errors[0].message).to.include("This payout batch can't be processed anymore");
+    });
+  });
+
+  describe('cancelPayoutBatch', () => {
+    it('cancels the batch and unschedules its expenses', async () => {
+      const result = await graphqlQueryV2(
+        cancelPayoutBatchMutation,
+        { payoutBatch: { legacyId: payoutBatch.id } },
+        hostAdmin,
+      );
+      result.errors && console.error(result.errors);
+      expect(result.errors).to.not.exist;
+      expect(result.data.cancelPayoutBatch.status).to.eq(PayoutBatchStatus.CANCELLED);
+      expect(result.data.cancelPayoutBatch.expenses).to.be.empty;
+    });
+  });
+
+  describe('payExpensesInBatch', () => {
+    let expenses;
+
+    beforeEach(async () => {
+      await fakeTransaction({ CollectiveId: collective.id, amount: 1000000 });
+      expenses = await multiple(fakeExpense, 2, {
+        status: status.APPROVED,
+        amount: 1000,
+        currency: collective.currency,
+        CollectiveId: collective.id,
+        PayoutMethodId: payoutMethod.id,
+      });
+    });
+
+    it('must be an admin of the host', async () => {
+      const args = { host: { legacyId: host.id }, expenses: expenses.map(e => ({ legacyId: e.id })) };
+      const result = await graphqlQueryV2(payExpensesInBatchMutation, args, collectiveAdmin);
+      expect(result.errors).to.exist;
+      expect(result.errors[0].message).to.eq('Only host admins can pay expenses in batch');
+    });
+
+    it('schedules the expenses and pays them in a single batch', async () => {
+      const args = { host: { legacyId: host.id }, expenses: expenses.map(e => ({ legacyId: e.id })) };
+      const result = await graphqlQueryV2(payExpensesInBatchMutation, args, hostAdmin);
+      result.errors && console.error(result.errors);
+      expect(result.errors).to.not.exist;
+
+      const batch = result.data.payExpensesInBatch;
+      expect(batch.status).to.eq(PayoutBatchStatus.PROCESSING);
+      expect(batch.payoutMethodType).to.eq(PayoutMethodTypes.PAYPAL);
+      expect(batch.items.map(item => item.expense.legacyId)).to.have.members(expenses.map(e => e.id));
+      expect(payExpensesBatch.calledOnce).to.be.true;
+      expect(payExpensesBatch.firstCall.args[0]).to.have.length(2);
+    });
+
+    it('does not schedule any expense if they cannot be paid in batch', async () => {
+      const bankAccount = await fakePayoutMethod({ type: PayoutMethodTypes.BANK_ACCOUNT });
+      await expenses[1].update({ PayoutMethodId: bankAccount.id });
+      const args = { host: { legacyId: host.id }, expenses: expenses.map(e => ({ legacyId: e.id })) };
+      const result = await graphqlQueryV2(payExpensesInBatchMutation, args, hostAdmin);
+      expect(result.errors).to.exist;
+      expect(result.errors[0].message).to.include('All expenses must use the same payout method');
+
+      for (const expense of expenses) {
+        await expense.reload();
+        expect(expense.status).to.eq(status.APPROVED);
+      }
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { expect } from 'chai';
+import gqlV2 from 'fake-tag';
+
+import expenseType from '../../../../../server/constants/expense_type';
+import { idEncode, IDENTIFIER_TYPES } from '../../../../../server/graphql/v2/identifiers';
+import { createRecurringExpenseFromExpense } from '../../../../../server/lib/recurring-expenses';
+import models from '../../../../../server/models';
+import { RecurringExpenseIntervals, RecurringExpenseStatus } from '../../../../../server/models/RecurringExpense';
+import { fakeCollective, fakeExpense, fakePayoutMethod, fakeUser } from '../../../../test-helpers/fake-data';
+import { graphqlQueryV2 } from '../../../../utils';
+import * as utils from '../../../../utils';
+
+const createRecurringExpenseMutation = gqlV2/* GraphQL */ `
+  mutation createRecurringExpense(
+    $expense: ExpenseCreateInput!
+    $account: AccountReferenceInput!
+    $recurrence: RecurringExpenseInput!
+  ) {
+    createRecurringExpense(expense: $expense, account: $account, recurrence: $recurrence) {
+      id
+      legacyId
+      interval
+      status
+      nextDate
+      expenses {
+        id
+        status
+        recurringExpense {
+          id
+        }
+      }
+    }
+  }
+`;
+
+const pauseRecurringExpenseMutation = gqlV2/* GraphQL */ `
+  mutation pauseRecurringExpense($recurringExpense: RecurringExpenseReferenceInput!) {
+    pauseRecurringExpense(recurringExpense: $recurringExpense) {
+      id
+      status
+    }
+  }
+`;
+
+const cancelRecurringExpenseMutation = gqlV2/* GraphQL */ `
+  mutation cancelRecurringExpense($recurringExpense: RecurringExpenseReferenceInput!) {
+    cancelRecurringExpense(recurringExpense: $recurringExpense) {
+      id
+      status
+    }
+  }
+`;
+
+describe('server/graphql/v2/mutation/RecurringExpenseMutations', () => {
+  let payee, collective, payoutMethod;
+
+  beforeEach(utils.resetTestDB);
+  beforeEach(async () => {
+    payee = await fakeUser();
+    collective = await fakeCollective();
+    payoutMethod = await fakePayoutMethod({ CollectiveId: payee.CollectiveId });
+  });
+
+  describe('createRecurringExpense', () => {
+    const getExpenseData = (data = {}) => ({
+      description: 'Monthly hosting',
+      type: expenseType.INVOICE,
+      payee: { legacyId: payee.CollectiveId },
+      payoutMethod: { id: idEncode(payoutMethod.id, IDENTIFIER_TYPES.PAYOUT_METHOD) },
+      items: [{ description: 'Servers', amount: 4200 }],
+      ...data,
+    });
+
+    it('submits the first expense and creates the recurring expense', async () => {
+      const result = await graphqlQueryV2(
+        createRecurringExpenseMutation,
+        {
+          expense: getExpenseData(),
+          account: { legacyId: collective.id },
+          recurrence: { interval: 'month' },
+        },
+        payee,
+      );
+
+      result.errors && console.error(result.errors);
+      expect(result.errors).to.not.exist;
+      const recurringExpense = result.data.createRecurringExpense;
+      expect(recurringExpense.interval).to.eq('month');
+      expect(recurringExpense.status).to.eq('ACTIVE');
+      expect(recurringExpense.expenses).to.have.length(1);
+      expect(recurringExpense.expenses[0].status).to.eq('PENDING');
+      expect(recurringExpense.expenses[0].recurringExpense.id).to.eq(recurringExpense.id);
+    });
+
+    it('only works with invoices', async () => {
+      const result = await graphqlQueryV2(
+        createRecurringExpenseMutation,
+        {
+          expense: getExpenseData({ type: expenseType.RECEIPT }),
+          account: { legacyId: collective.id },
+          recurrence: { interval: 'month' },
+        },
+        payee,
+      );
+
+      expect(result.errors).to.exist;
+      expect(result.errors[0].message).to.eq('Only invoices can be recurring');
+      expect(await models.Expense.count()).to.eq(0);
+    });
+  });
+
+  describe('pause and cancel', () => {
+    let recurringExpense;
+
+    beforeEach(async () => {
+      const expense = await fakeExpense({
+        type: expenseType.INVOICE,
+        UserId: payee.id,
+        FromCollectiveId: payee.CollectiveId,
+        CollectiveId: collective.id,
+        PayoutMethodId: payoutMethod.id,
+      });
+      recurringExpense = await createRecurringExpenseFromExpense(expense, payee, {
+        interval: RecurringExpenseIntervals.MONTH,
+      });
+    });
+
+    it('must be an admin of the payee', async () => {
+      const args = { recurringExpense: { legacyId: recurringExpense.id } };
+      const result = await graphqlQueryV2(pauseRecurringExpenseMutation, args, await fakeUser());
+      expect(result.errors).to.exist;
+      expect(result.errors[0].message).to.eq('Only the payee can update a recurring expense');
+    });
+
+    it('pauses the recurring expense', async () => {
+      const args = { recurringExpense: { legacyId: recurringExpense.id } };
+      const result = await graphqlQueryV2(pauseRecurringExpenseMutation, args, payee);
+      expect(result.errors).to.not.exist;
+      expect(result.data.pauseRecurringExpense.status).to.eq(RecurringExpenseStatus.PAUSED);
+    });
+
+    it('cancels the recurring expense', async () => {
+      const args = { recurringExpense: { legacyId: recurringExpense.id } };
+      const result = await graphqlQueryV2(cancelRecurringExpenseMutation, args, payee);
+      expect(result.errors).to.not.exist;
+      expect(result.data.cancelRecurringExpense.status).to.eq(RecurringExpenseStatus.CANCELLED);
+
+      const secondResult = await graphqlQueryV2(cancelRecurringExpenseMutation, args, payee);
+      expect(secondResult.errors).to.exist;
+      expect(secondResult.errors[0].message).to.eq('This recurring expense is already cancelled');
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { expect } from 'chai';
+import { sumBy } from 'lodash';
+
+import {
+  AccountingExportFormat,
+  exportJournalEntries,
+  formatDoubleEntryCSV,
+  formatIIF,
+  formatXeroCSV,
+  getJournalEntry,
+} from '../../../server/lib/accounting-export';
+import { DEFAULT_CHART_OF_ACCOUNTS } from '../../../server/lib/chart-of-accounts';
+import { fakeCollective, fakeExpense, fakeHost, fakeTransaction } from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('server/lib/accounting-export', () => {
+  const chartOfAccounts = { ...DEFAULT_CHART_OF_ACCOUNTS, expensesByTag: { travel: 'Travel' } };
+  const createdAt = new Date('2020-10-15T10:00:00Z');
+
+  const contribution = {
+    id: 1,
+    type: 'CREDIT',
+    createdAt,
+    description: 'Monthly "financial" contribution',
+    collective: { slug: 'babel' },
+    hostCurrency: 'USD',
+    amountInHostCurrency: 10000,
+    hostFeeInHostCurrency: -500,
+    platformFeeInHostCurrency: 0,
+    paymentProcessorFeeInHostCurrency: -300,
+  };
+
+  const expense = {
+    id: 2,
+    type: 'DEBIT',
+    createdAt,
+    description: 'Flight to the conference',
+    collective: { slug: 'babel' },
+    hostCurrency: 'USD',
+    amountInHostCurrency: -5000,
+    hostFeeInHostCurrency: 0,
+    platformFeeInHostCurrency: 0,
+    paymentProcessorFeeInHostCurrency: -100,
+    Expense: { tags: ['conference', 'travel'] },
+  };
+
+  describe('getJournalEntry', () => {
+    it('splits a contribution between the bank, the fees and the contributions accounts', () => {
+      const entry = getJournalEntry(contribution, chartOfAccounts);
+      expect(entry.reference).to.eq('1');
+      expect(entry.collective).to.eq('babel');
+      expect(entry.lines).to.deep.eq([
+        { account: 'Bank', amount: 9700 },
+        { account: 'Payment Processor Fees', amount: 300 },
+        { account: 'Contributions', amount: -9500 },
+        { account: 'Host Fees', amount: -500 },
+      ]);
+    });
+
+    it('uses the account of the expense tag', () => {
+      const entry = getJournalEntry(expense, chartOfAccounts);
+      expect(entry.lines).to.deep.eq([
+        { account: 'Bank', amount: -5100 },
+        { account: 'Payment Processor Fees', amount: 100 },
+        { account: 'Travel', amount: 5000 },
+      ]);
+
+      const untagged = getJournalEntry({ ...expense, Expense: { tags: ['conference'] } }, chartOfAccounts);
+      expect(untagged.lines[2].account).to.eq('Expenses');
+    });
+
+    it('records refunds in the refunds account', () => {
+      const refund = {
+        ...contribution,
+        type: 'DEBIT',
+        isRefund: true,
+        amountInHostCurrency: -10000,
+        hostFeeInHostCurrency: 500,
+        paymentProcessorFeeInHostCurrency: 300,
+      };
+
+      const entry = getJournalEntry(refund, chartOfAccounts);
+      expect(entry.lines).to.deep.eq([
+        { account: 'Bank', amount: -9700 },
+        { account: 'Payment Processor Fees', amount: -300 },
+        { account: 'Refunds', amount: 9500 },
+        { account: 'Host Fees', amount: 500 },
+      ]);
+    });
+
+    it('always returns balanced entries', () => {
+      const transaction = { ...contribution, platformFeeInHostCurrency: -250 };
+      expect(sumBy(getJournalEntry(transaction, chartOfAccounts).lines, 'amount')).to.eq(0);
+    });
+  });
+
+  describe('formatters', () => {
+    const entries = [getJournalEntry(contribution, chartOfAccounts), getJournalEntry(expense, chartOfAccounts)];
+
+    it('formats IIF general journal entries', () => {
+      const lines = formatIIF(entries).split('\n');
+      expect(lines.slice(0, 3)).to.deep.eq([
+        '!TRNS\tTRNSTYPE\tDATE\tACCNT\tAMOUNT\tDOCNUM\tMEMO',
+        '!SPL\tTRNSTYPE\tDATE\tACCNT\tAMOUNT\tDOCNUM\tMEMO',
+        '!ENDTRNS',
+      ]);
+      expect(lines[3]).to.eq(
+        'TRNS\tGENERAL JOURNAL\t10/15/2020\tBank\t97.00\t1\tbabel - Monthly "financial" contribution',
+      );
+      expect(lines[4]).to.match(/^SPL\tGENERAL JOURNAL\t10\/15\/2020\tPayment Processor Fees\t3.00\t1\t/);
+      expect(lines[7]).to.eq('ENDTRNS');
+      expect(lines.filter(line => line === 'ENDTRNS')).to.have.length(2);
+    });
+
+    it('formats Xero manual journals', () => {
+      const lines = formatXeroCSV(entries).split('\n');
+      expect(lines[0]).to.eq(
+        '"*Narration","*Date","Description","*AccountCode","*TaxRate","*Amount","TrackingName1","TrackingOption1"',
+      );
+      expect(lines[1]).to.eq(
+        '"#1 babel - Monthly ""financial"" contribution","15/10/2020","Monthly ""financial"" contribution","Bank","Tax Exempt","97.00","Collective","babel"',
+      );
+      expect(lines[7]).to.include('"Travel","Tax Exempt","50.00"');
+    });
+
+    it('formats a double-entry CSV', () => {
+      const lines = formatDoubleEntryCSV(entries).split('\n');
+      expect(lines[0]).to.eq('"date","reference","collective","description","account","debit","credit","currency"');
+      expect(lines[1]).to.eq('"2020-10-15","1","babel","Monthly ""financial"" contribution","Bank","97.00","","USD"');
+      expect(lines[3]).to.eq(
+        '"2020-10-15","1","babel","Monthly ""financial"" contribution","Contributions","","95.00","USD"',
+      );
+      expect(lines).to.have.length(8);
+    });
+  });
+
+  describe('exportJournalEntries', () => {
+    let host, collective;
+
+    before(utils.resetTestDB);
+    before(async () => {
+      host = await fakeHost({
+        slug: 'accounting-host',
+        currency: 'USD',
+        settings: { accounting: { chartOfAccounts: { bank: '1000', expensesByTag: { travel: '6200' } } } },
+      });
+      collective = await fakeCollective({ HostCollectiveId: host.id, currency: 'USD' });
+      const paidExpense = await fakeExpense({ CollectiveId: collective.id, tags: ['travel'] });
+      await fakeTransaction({
+        type: 'DEBIT',
+        CollectiveId: collective.id,
+        HostCollectiveId: host.id,
+        ExpenseId: paidExpense.id,
+        amount: -5000,
+        amountInHostCurrency: -5000,
+        netAmountInCollectiveCurrency: -5000,
+        createdAt,
+      });
+      await fakeTransaction({
+        CollectiveId: collective.id,
+        HostCollectiveId: host.id,
+        createdAt: new Date('2020-01-01'),
+      });
+    });
+
+    it('exports the transactions of the period with the chart of accounts of the host', async () => {
+      const dateFrom = new Date('2020-10-01');
+      const dateTo = new Date('2020-10-31');
+      const result = await exportJournalEntries(host, AccountingExportFormat.CSV, dateFrom, dateTo);
+      expect(result.filename).to.eq('accounting-host-journal-2020-10-01-2020-10-31.csv');
+      expect(result.contentType).to.eq('text/csv');
+
+      const lines = result.content.split('\n');
+      expect(lines).to.have.length(3);
+      expect(lines[1]).to.include('"1000","","50.00","USD"');
+      expect(lines[2]).to.include('"6200","50.00","","USD"');
+    });
+
+    it('rejects invalid periods', async () => {
+      const promise = exportJournalEntries(
+        host,
+        AccountingExportFormat.IIF,
+        new Date('2020-11-01'),
+        new Date('2020-10-01'),
+      );
+      await expect(promise).to.be.rejectedWith('The start date must be before the end date');
+    });
+
+    it('rejects periods longer than a year', async () => {
+      const promise = exportJournalEntries(
+        host,
+        AccountingExportFormat.CSV,
+        new Date('2019-01-01'),
+        new Date('2020-10-01'),
+      );
+      await expect(promise).to.be.rejectedWith('The accounting export is limited to 366 days');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { expect } from 'chai';
+import { v4 as uuid } from 'uuid';
+
+import activities from '../../../server/constants/activities';
+import {
+  closeAccountingPeriod,
+  getAccountingPeriodDates,
+  isInClosedAccountingPeriod,
+  reopenAccountingPeriod,
+} from '../../../server/lib/accounting-periods';
+import { createRefundTransaction } from '../../../server/lib/payments';
+import models from '../../../server/models';
+import { AccountingPeriodInterval, AccountingPeriodStatus } from '../../../server/models/AccountingPeriod';
+import { fakeCollective, fakeHost, fakeTransaction, fakeUser } from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('server/lib/accounting-periods', () => {
+  describe('getAccountingPeriodDates', () => {
+    it('returns the boundaries of the month or year', () => {
+      const date = new Date('2020-02-15T12:00:00Z');
+      const month = getAccountingPeriodDates(AccountingPeriodInterval.MONTH, date);
+      expect(month.startsAt.toISOString()).to.eq('2020-02-01T00:00:00.000Z');
+      expect(month.endsAt.toISOString()).to.eq('2020-02-29T23:59:59.999Z');
+
+      const year = getAccountingPeriodDates(AccountingPeriodInterval.YEAR, date);
+      expect(year.startsAt.toISOString()).to.eq('2020-01-01T00:00:00.000Z');
+      expect(year.endsAt.toISOString()).to.eq('2020-12-31T23:59:59.999Z');
+    });
+  });
+
+  describe('closing and reopening', () => {
+    let host, collective, user;
+
+    beforeEach(utils.resetTestDB);
+    beforeEach(async () => {
+      user = await fakeUser();
+      host = await fakeHost({ currency: 'USD' });
+      collective = await fakeCollective({ HostCollectiveId: host.id, currency: 'USD' });
+    });
+
+    /** Creates a $10 contribution to the collective, returns the CREDIT transaction */
+    const fakeContribution = async (createdAt: Date) => {
+      const TransactionGroup = uuid();
+      const contributor = await fakeCollective({ HostCollectiveId: null, type: 'USER' });
+      const fees = { hostFeeInHostCurrency: 0, platformFeeInHostCurrency: 0, paymentProcessorFeeInHostCurrency: 0 };
+      await fakeTransaction({
+        ...fees,
+        TransactionGroup,
+        CollectiveId: contributor.id,
+        FromCollectiveId: collective.id,
+        amount: -1000,
+        createdAt,
+      });
+
+      return fakeTransaction({
+        ...fees,
+        TransactionGroup,
+        CollectiveId: collective.id,
+        FromCollectiveId: contributor.id,
+        HostCollectiveId: host.id,
+        amount: 1000,
+        createdAt,
+      });
+    };
+
+    it('closes a period and records an activity', async () => {
+      const period = await closeAccountingPeriod(host, AccountingPeriodInterval.YEAR, new Date('2019-06-01'), user);
+      expect(period.status).to.eq(AccountingPeriodStatus.CLOSED);
+      expect(period.startsAt.toISOString()).to.eq('2019-01-01T00:00:00.000Z');
+
+      const activity = await models.Activity.findOne({ where: { type: activities.ACCOUNTING_PERIOD_CLOSED } });
+      expect(activity.CollectiveId).to.eq(host.id);
+      expect(activity.UserId).to.eq(user.id);
+      expect(activity.data.accountingPeriod.id).to.eq(period.id);
+    });
+
+    it('cannot close a period that is not over or already closed', async () => {
+      const closeCurrentMonth = closeAccountingPeriod(host, AccountingPeriodInterval.MONTH, new Date(), user);
+      await expect(closeCurrentMonth).to.be.rejectedWith('Only the periods that are over can be closed');
+
+      await closeAccountingPeriod(host, AccountingPeriodInterval.YEAR, new Date('2019-06-01'), user);
+      const closeMonth = closeAccountingPeriod(host, AccountingPeriodInterval.MONTH, new Date('2019-03-01'), user);
+      await expect(closeMonth).to.be.rejectedWith('This period is already closed');
+    });
+
+    it('reopens a period and records an activity', async () => {
+      const period = await closeAccountingPeriod(host, AccountingPeriodInterval.MONTH, new Date('2020-01-10'), user);
+      await reopenAccountingPeriod(period, user);
+      expect(period.status).to.eq(AccountingPeriodStatus.REOPENED);
+      expect(period.ReopenedByUserId).to.eq(user.id);
+      expect(await models.Activity.count({ where: { type: activities.ACCOUNTING_PERIOD_REOPENED } })).to.eq(1);
+      await expect(reopenAccountingPeriod(period, user)).to.be.rejectedWith('This period is not closed');
+    });
+
+    it('locks the transactions of the closed periods', async () => {
+      const transaction = await fakeContribution(new Date('2020-01-10'));
+      const period = await closeAccountingPeriod(host, AccountingPeriodInterval.MONTH, new Date('2020-01-10'), user);
+      expect(await isInClosedAccountingPeriod([transaction])).to.be.true;
+
+      const error = 'The accounting period from 2020-01-01 to 2020-01-31 is closed';
+      await expect(fakeContribution(new Date('2020-01-20'))).to.be.rejectedWith(error);
+      await expect(transaction.update({ amountInHostCurrency: 500 })).to.be.rejectedWith(error);
+      await expect(transaction.destroy()).to.be.rejectedWith(error);
+
+      // Changes that don't alter the ledger are still allowed
+      await transaction.update({ description: 'Updated description' });
+
+      // Other hosts and periods are not affected
+      await fakeContribution(new Date('2020-02-01'));
+      await fakeTransaction({ HostCollectiveId: (await fakeHost()).id, createdAt: new Date('2020-01-20') });
+
+      await reopenAccountingPeriod(period, user);
+      await transaction.update({ amountInHostCurrency: 500 });
+    });
+
+    it('posts the refunds of transactions in closed periods in the current period', async () => {
+      const transaction = await fakeContribution(new Date('2020-01-10'));
+      await closeAccountingPeriod(host, AccountingPeriodInterval.MONTH, new Date('2020-01-10'), user);
+
+      const refunded = await createRefundTransaction(transaction, 0, null, user);
+      expect(refunded.RefundTransactionId).to.exist;
+      const refund = await models.Transaction.findByPk(refunded.RefundTransactionId);
+      expect(refund.createdAt > new Date('2020-02-01')).to.be.true;
+    });
+  });
+});
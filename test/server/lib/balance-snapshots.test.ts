@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+
+import {
+  BalanceHistoryInterval,
+  getBalanceHistory,
+  getBalanceHistoryDates,
+  updateBalanceSnapshots,
+} from '../../../server/lib/balance-snapshots';
+import models from '../../../server/models';
+import { fakeCollective, fakeHost, fakeTransaction } from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('server/lib/balance-snapshots', () => {
+  describe('getBalanceHistoryDates', () => {
+    it('returns the end of each period, the last one being the end of the last day', () => {
+      const dates = getBalanceHistoryDates(
+        new Date('2020-01-15T10:00:00Z'),
+        new Date('2020-03-10T10:00:00Z'),
+        BalanceHistoryInterval.MONTH,
+      );
+
+      expect(dates.map(date => date.toISOString())).to.deep.eq([
+        '2020-01-31T23:59:59.999Z',
+        '2020-02-29T23:59:59.999Z',
+        '2020-03-10T23:59:59.999Z',
+      ]);
+    });
+
+    it('does not duplicate the last date when it is the end of a period', () => {
+      const dates = getBalanceHistoryDates(
+        new Date('2020-01-01T00:00:00Z'),
+        new Date('2020-01-03T10:00:00Z'),
+        BalanceHistoryInterval.DAY,
+      );
+
+      expect(dates).to.have.length(3);
+    });
+  });
+
+  describe('snapshots', () => {
+    let host, collective;
+
+    beforeEach(utils.resetTestDB);
+    beforeEach(async () => {
+      host = await fakeHost({ currency: 'USD' });
+      collective = await fakeCollective({ HostCollectiveId: host.id, currency: 'USD' });
+    });
+
+    const fakeCredit = (createdAt, amount) =>
+      fakeTransaction({
+        type: 'CREDIT',
+        CollectiveId: collective.id,
+        HostCollectiveId: host.id,
+        hostCurrency: 'USD',
+        currency: 'USD',
+        amount,
+        amountInHostCurrency: amount,
+        netAmountInCollectiveCurrency: amount,
+        createdAt,
+      });
+
+    it('records the balance at the end of each day with transactions', async () => {
+      await fakeCredit(new Date('2020-01-01T10:00:00Z'), 1000);
+      await fakeCredit(new Date('2020-01-01T20:00:00Z'), 500);
+      await fakeCredit(new Date('2020-01-03T10:00:00Z'), 200);
+
+      expect(await updateBalanceSnapshots(new Date('2020-01-10'))).to.eq(2);
+      const snapshots = await models.BalanceSnapshot.findAll({
+        where: { CollectiveId: collective.id },
+        order: [['date', 'ASC']],
+      });
+
+      expect(snapshots.map(s => [s.date, s.balance])).to.deep.eq([
+        ['2020-01-01', 1500],
+        ['2020-01-03', 1700],
+      ]);
+
+      // Only the new days are recorded
+      await fakeCredit(new Date('2020-01-11T10:00:00Z'), 300);
+      expect(await updateBalanceSnapshots(new Date('2020-01-20'))).to.eq(1);
+      const latestSnapshot = await models.BalanceSnapshot.findOne({ where: { date: '2020-01-11' } });
+      expect(latestSnapshot.balance).to.eq(2000);
+    });
+
+    it('invalidates the snapshots when a transaction is added in the past', async () => {
+      await fakeCredit(new Date('2020-01-01T10:00:00Z'), 1000);
+      await fakeCredit(new Date('2020-01-03T10:00:00Z'), 200);
+      await updateBalanceSnapshots(new Date('2020-01-10'));
+
+      await fakeCredit(new Date('2020-01-02T10:00:00Z'), 100);
+      const snapshots = await models.BalanceSnapshot.findAll({ where: { CollectiveId: collective.id } });
+      expect(snapshots.map(s => s.date)).to.deep.eq(['2020-01-01']);
+    });
+
+    it('returns the same balances with or without snapshots', async () => {
+      await fakeCredit(new Date('2020-01-01T10:00:00Z'), 1000);
+      await fakeCredit(new Date('2020-02-03T10:00:00Z'), 200);
+      await fakeCredit(new Date('2020-03-03T10:00:00Z'), -300);
+      const args: [Date, Date, BalanceHistoryInterval] = [
+        new Date('2020-01-01'),
+        new Date('2020-03-31'),
+        BalanceHistoryInterval.MONTH,
+      ];
+
+      const withoutSnapshots = await getBalanceHistory(collective, ...args);
+      expect(withoutSnapshots.map(entry => entry.balance)).to.deep.eq([1000, 1200, 900]);
+
+      await updateBalanceSnapshots(new Date('2020-02-15'));
+      expect(await getBalanceHistory(collective, ...args)).to.deep.eq(withoutSnapshots);
+    });
+  });
+});
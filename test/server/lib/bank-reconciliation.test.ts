@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+
+import status from '../../../server/constants/order_status';
+import {
+  confirmBankStatementLine,
+  getReferences,
+  ignoreBankStatementLine,
+  importBankStatement,
+} from '../../../server/lib/bank-reconciliation';
+import { BankStatementFormat, BankStatementLineStatus } from '../../../server/models/BankStatementLine';
+import { fakeCollective, fakeHost, fakeOrder, fakeUser } from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('server/lib/bank-reconciliation', () => {
+  let host, collective, hostAdmin;
+
+  beforeEach(utils.resetTestDB);
+  beforeEach(async () => {
+    hostAdmin = await fakeUser();
+    host = await fakeHost({ currency: 'EUR', admin: hostAdmin.collective });
+    collective = await fakeCollective({ HostCollectiveId: host.id, currency: 'EUR' });
+  });
+
+  const fakePendingOrder = (totalAmount: number, data = {}) => {
+    return fakeOrder({ CollectiveId: collective.id, status: status.PENDING, currency: 'EUR', totalAmount, ...data });
+  };
+
+  const generateCsvStatement = (lines: string[]) => ['Date;Amount;Description;Transaction ID', ...lines].join('\n');
+
+  describe('importBankStatement', () => {
+    it('confirms the orders matching by reference, amount and currency', async () => {
+      const order = await fakePendingOrder(5000);
+      const statement = generateCsvStatement([`2021-03-01;50,00;Contribution ${order.id};TX-1`]);
+      const result = await importBankStatement(host, statement, BankStatementFormat.CSV, hostAdmin);
+
+      expect(result.lines).to.have.length(1);
+      expect(result.lines[0].status).to.eq(BankStatementLineStatus.MATCHED);
+      expect(result.lines[0].OrderId).to.eq(order.id);
+      await order.reload();
+      expect(order.status).to.eq(status.PAID);
+    });
+
+    it('only proposes the matches that are not exact or when auto-confirm is disabled', async () => {
+      const wrongAmountOrder = await fakePendingOrder(5000);
+      const referencedOrder = await fakePendingOrder(2000);
+      const sameAmountOrder = await fakePendingOrder(7777);
+      const statement = generateCsvStatement([
+        `2021-03-01;45,00;Contribution ${wrongAmountOrder.id};TX-1`,
+        `2021-03-01;20,00;Contribution ${referencedOrder.id};TX-2`,
+        `2021-03-02;77,77;Thanks!;TX-3`,
+        `2021-03-02;12,00;Unknown;TX-4`,
+        `2021-03-03;-10,00;Bank fees;TX-5`,
+      ]);
+
+      const { lines } = await importBankStatement(host, statement, BankStatementFormat.CSV, hostAdmin, {
+        autoConfirm: false,
+      });
+
+      expect(lines.map(line => [line.status, line.OrderId, line.amount])).to.deep.eq([
+        [BankStatementLineStatus.PROPOSED, wrongAmountOrder.id, 4500],
+        [BankStatementLineStatus.PROPOSED, referencedOrder.id, 2000],
+        [BankStatementLineStatus.PROPOSED, sameAmountOrder.id, 7777],
+        [BankStatementLineStatus.UNMATCHED, null, 1200],
+        [BankStatementLineStatus.UNMATCHED, null, -1000],
+      ]);
+
+      await referencedOrder.reload();
+      expect(referencedOrder.status).to.eq(status.PENDING);
+    });
+
+    it('ignores the orders of other hosts', async () => {
+      const otherCollective = await fakeCollective({ currency: 'EUR' });
+      const order = await fakeOrder({ CollectiveId: otherCollective.id, status: status.PENDING, totalAmount: 5000 });
+      const statement = generateCsvStatement([`2021-03-01;50,00;Contribution ${order.id};TX-1`]);
+      const { lines } = await importBankStatement(host, statement, BankStatementFormat.CSV, hostAdmin);
+
+      expect(lines[0].status).to.eq(BankStatementLineStatus.UNMATCHED);
+      await order.reload();
+      expect(order.status).to.eq(status.PENDING);
+    });
+
+    it('skips the lines that were already imported', async () => {
+      const statement = generateCsvStatement([`2021-03-01;12,00;Unknown;TX-1`]);
+      await importBankStatement(host, statement, BankStatementFormat.CSV, hostAdmin);
+      const result = await importBankStatement(host, statement, BankStatementFormat.CSV, hostAdmin);
+      expect(result.lines).to.be.empty;
+      expect(result.duplicatesCount).to.eq(1);
+    });
+
+    it('keeps the identical lines of a statement', async () => {
+      const statement = generateCsvStatement([`2021-03-01;12,00;;`, `2021-03-01;12,00;;`, `2021-03-01;15,00;;`]);
+      const result = await importBankStatement(host, statement, BankStatementFormat.CSV, hostAdmin);
+      expect(result.lines).to.have.length(3);
+
+      const reimport = await importBankStatement(host, statement, BankStatementFormat.CSV, hostAdmin);
+      expect(reimport.lines).to.be.empty;
+      expect(reimport.duplicatesCount).to.eq(3);
+    });
+  });
+
+  describe('getReferences', () => {
+    it('only uses standalone numbers as order IDs', () => {
+      expect(getReferences({ remittanceInformation: 'Contribution #1234, thanks', endToEndId: '5678' })).to.deep.eq([
+        1234,
+        5678,
+      ]);
+      expect(getReferences({ remittanceInformation: 'Order 42.', endToEndId: null })).to.deep.eq([42]);
+    });
+
+    it('ignores dates and IBANs', () => {
+      const remittanceInformation = 'Paid on 2021-03-01 from DE89 3704 0044 0532 0130 00 ref INV12345';
+      expect(getReferences({ remittanceInformation, endToEndId: null })).to.be.empty;
+    });
+  });
+
+  describe('confirmBankStatementLine', () => {
+    it('marks the order as paid', async () => {
+      const order = await fakePendingOrder(5000);
+      const statement = generateCsvStatement([`2021-03-01;50,00;Thanks!;TX-1`]);
+      const { lines } = await importBankStatement(host, statement, BankStatementFormat.CSV, hostAdmin, {
+        autoConfirm: false,
+      });
+
+      const line = await confirmBankStatementLine(lines[0], order, hostAdmin);
+      expect(line.status).to.eq(BankStatementLineStatus.MATCHED);
+      await order.reload();
+      expect(order.status).to.eq(status.PAID);
+      await expect(ignoreBankStatementLine(line)).to.be.rejectedWith('This line has already been matched');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+
+import { parseCsvStatement, parseOfxStatement, parseStatementAmount } from '../../../server/lib/bank-statements';
+
+describe('server/lib/bank-statements', () => {
+  describe('parseStatementAmount', () => {
+    it('supports the common decimal and thousands separators', () => {
+      expect(parseStatementAmount('12')).to.eq(1200);
+      expect(parseStatementAmount('12.5')).to.eq(1250);
+      expect(parseStatementAmount('1,234.56')).to.eq(123456);
+      expect(parseStatementAmount('1.234,56')).to.eq(123456);
+      expect(parseStatementAmount('1,234')).to.eq(123400);
+      expect(parseStatementAmount('-€ 42,00')).to.eq(-4200);
+    });
+
+    it('throws if there is no amount', () => {
+      expect(() => parseStatementAmount('')).to.throw('Invalid amount');
+      expect(() => parseStatementAmount('N/A')).to.throw('Invalid amount');
+    });
+  });
+
+  describe('parseCsvStatement', () => {
+    it('detects the columns from the headers', () => {
+      const content = [
+        'Booking Date;Amount;Currency;Counterparty;Description;Transaction ID',
+        '01.03.2021;"1.050,00";EUR;Jesse Pinkman;"Order 42; thanks!";TX-1',
+        '02.03.2021;-12,50;EUR;Bank;Fees;TX-2',
+      ].join('\r\n');
+
+      const entries = parseCsvStatement(content);
+      expect(entries).to.have.length(2);
+      expect(entries[0]).to.deep.include({
+        amount: 105000,
+        currency: 'EUR',
+        direction: 'CREDIT',
+        counterpartyName: 'Jesse Pinkman',
+        remittanceInformation: 'Order 42; thanks!',
+        bankReference: 'TX-1',
+      });
+      expect(entries[0].bookingDate.toISOString()).to.eq('2021-03-01T00:00:00.000Z');
+      expect(entries[1]).to.deep.include({ amount: 1250, direction: 'DEBIT', bankReference: 'TX-2' });
+    });
+
+    it('supports separate credit and debit columns and a default currency', () => {
+      const content = ['Date,Paid in,Paid out,Reference', '2021-03-01,25.00,,Order 42', '2021-03-02,,10.00,Rent'].join(
+        '\n',
+      );
+
+      const entries = parseCsvStatement(content, 'gbp');
+      expect(entries.map(e => [e.amount, e.currency, e.direction])).to.deep.eq([
+        [2500, 'GBP', 'CREDIT'],
+        [1000, 'GBP', 'DEBIT'],
+      ]);
+    });
+
+    it('throws if a required column is missing', () => {
+      expect(() => parseCsvStatement('Amount,Currency\n10,EUR')).to.throw('The CSV file must have a date column');
+      expect(() => parseCsvStatement('Date,Amount\n2021-03-01,10')).to.throw(
+        'The CSV file must have a currency column',
+      );
+      expect(() => parseCsvStatement('Date,Amount,Currency\n31/31/2021,10,EUR')).to.throw('Invalid date on line 2');
+    });
+  });
+
+  describe('parseOfxStatement', () => {
+    it('parses the transactions of an OFX 1 statement', () => {
+      const content = `
+OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20210301120000[-5:EST]
+<TRNAMT>50.00
+<FITID>FIT-1
+<NAME>Jesse Pinkman
+<MEMO>Order 42
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20210302
+<TRNAMT>-5.00
+<FITID>FIT-2
+<NAME>Bank fees
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+      const entries = parseOfxStatement(content);
+      expect(entries).to.have.length(2);
+      expect(entries[0]).to.deep.include({
+        amount: 5000,
+        currency: 'USD',
+        direction: 'CREDIT',
+        bankReference: 'FIT-1',
+        counterpartyName: 'Jesse Pinkman',
+        remittanceInformation: 'Order 42',
+      });
+      expect(entries[0].bookingDate.toISOString()).to.eq('2021-03-01T00:00:00.000Z');
+      expect(entries[1]).to.deep.include({ amount: 500, direction: 'DEBIT', remittanceInformation: null });
+    });
+
+    it('throws if there is no statement', () => {
+      expect(() => parseOfxStatement('<OFX></OFX>')).to.throw('No bank statement found in the OFX file');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+
+import {
+  BudgetExceededAction,
+  BudgetPeriod,
+  getBudgetPeriodDates,
+  getBudgetSettings,
+  getBudgetsStatus,
+  getExceededBudgets,
+  validateBudgetSettings,
+} from '../../../server/lib/budgets';
+import * as libcurrency from '../../../server/lib/currency';
+import { fakeCollective, fakeExpense, fakeTransaction } from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('server/lib/budgets', () => {
+  describe('validateBudgetSettings', () => {
+    it('accepts valid settings', () => {
+      const limits = [
+        { period: BudgetPeriod.MONTH, amount: 1000 },
+        { period: BudgetPeriod.MONTH, amount: 500, tag: 'travel' },
+        { period: BudgetPeriod.YEAR, amount: 10000 },
+      ];
+
+      expect(validateBudgetSettings({ limits })).to.be.false;
+      expect(validateBudgetSettings({ limits, onExceed: BudgetExceededAction.BLOCK })).to.be.false;
+    });
+
+    it('rejects invalid settings', () => {
+      expect(validateBudgetSettings({ limits: 42 } as any)).to.eq('Invalid type for budgets');
+      expect(validateBudgetSettings({ limits: [], onExceed: 'IGNORE' } as any)).to.eq(
+        'Budgets action must be one of: WARN, BLOCK',
+      );
+      expect(validateBudgetSettings({ limits: [{ period: 'WEEK', amount: 100 }] } as any)).to.eq(
+        'Budget period must be one of: MONTH, QUARTER, YEAR',
+      );
+      expect(validateBudgetSettings({ limits: [{ period: BudgetPeriod.YEAR, amount: -100 }] })).to.eq(
+        'Budget amount must be a positive integer',
+      );
+      expect(
+        validateBudgetSettings({
+          limits: [
+            { period: BudgetPeriod.YEAR, amount: 100 },
+            { period: BudgetPeriod.YEAR, amount: 200 },
+          ],
+        }),
+      ).to.eq('There can only be one budget per period and tag');
+    });
+  });
+
+  describe('getBudgetSettings', () => {
+    it('sanitizes tags like the expense ones', () => {
+      const settings = { budgets: { limits: [{ period: BudgetPeriod.MONTH, amount: 100, tag: ' Travel ' }] } };
+      expect(getBudgetSettings({ settings }).limits[0].tag).to.eq('travel');
+      expect(getBudgetSettings({ settings: { budgets: { limits: [] } } })).to.be.null;
+    });
+  });
+
+  describe('getBudgetPeriodDates', () => {
+    it('returns the calendar period containing the date', () => {
+      const date = new Date('2020-08-15T12:00:00Z');
+      const quarter = getBudgetPeriodDates(BudgetPeriod.QUARTER, date);
+      expect(quarter.startsAt.toISOString()).to.eq('2020-07-01T00:00:00.000Z');
+      expect(quarter.endsAt.toISOString()).to.eq('2020-09-30T23:59:59.999Z');
+      expect(getBudgetPeriodDates(BudgetPeriod.MONTH, date).startsAt.toISOString()).to.eq('2020-08-01T00:00:00.000Z');
+      expect(getBudgetPeriodDates(BudgetPeriod.YEAR, date).endsAt.toISOString()).to.eq('2020-12-31T23:59:59.999Z');
+    });
+  });
+
+  describe('getBudgetsStatus', () => {
+    let collective;
+
+    beforeEach(utils.resetTestDB);
+    beforeEach(async () => {
+      collective = await fakeCollective({
+        settings: {
+          budgets: {
+            limits: [
+              { period: BudgetPeriod.MONTH, amount: 10000 },
+              { period: BudgetPeriod.MONTH, amount: 3000, tag: 'travel' },
+            ],
+          },
+        },
+      });
+
+      const fakePaidExpense = async (amount, tags, status = 'PAID') => {
+        const expense = await fakeExpense({ CollectiveId: collective.id, amount, tags, status, items: [] });
+        return fakeTransaction({ CollectiveId: collective.id, ExpenseId: expense.id, amount: -amount });
+      };
+
+      await fakePaidExpense(2000, ['travel']);
+      await fakePaidExpense(5000, ['engineering']);
+      await fakePaidExpense(1000, ['travel'], 'APPROVED'); // Marked as unpaid
+    });
+
+    it('computes the amount spent on paid expenses for each budget', async () => {
+      const budgets = await getBudgetsStatus(collective);
+      expect(budgets.map(({ spent, remaining }) => ({ spent, remaining }))).to.deep.eq([
+        { spent: 7000, remaining: 3000 },
+        { spent: 2000, remaining: 1000 },
+      ]);
+    });
+
+    it('returns the budgets that would be exceeded by an expense', async () => {
+      const expense = { tags: ['travel'] };
+      expect(await getExceededBudgets(collective, expense, 1000)).to.have.length(0);
+      expect((await getExceededBudgets(collective, expense, 1500)).map(b => b.tag)).to.deep.eq(['travel']);
+      expect(await getExceededBudgets(collective, { tags: null }, 1500)).to.have.length(0);
+      expect(await getExceededBudgets(collective, { tags: null }, 5000)).to.have.length(1);
+    });
+
+    it('converts the amount of the expense to the currency of the collective', async () => {
+      const getFxRate = sinon.stub(libcurrency, 'getFxRate').resolves(1.5);
+      try {
+        const expense = { tags: ['travel'], currency: 'EUR' };
+        expect(await getExceededBudgets(collective, expense, 600)).to.have.length(0);
+        expect((await getExceededBudgets(collective, expense, 800)).map(b => b.tag)).to.deep.eq(['travel']);
+        expect(getFxRate.calledWith('EUR', collective.currency)).to.be.true;
+      } finally {
+        getFxRate.restore();
+      }
+    });
+  });
+});
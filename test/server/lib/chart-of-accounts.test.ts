@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+
+import {
+  DEFAULT_CHART_OF_ACCOUNTS,
+  getChartOfAccounts,
+  validateAccountingSettings,
+} from '../../../server/lib/chart-of-accounts';
+
+describe('server/lib/chart-of-accounts', () => {
+  describe('validateAccountingSettings', () => {
+    it('accepts valid settings', () => {
+      expect(validateAccountingSettings({})).to.be.false;
+      expect(
+        validateAccountingSettings({
+          chartOfAccounts: { bank: '1000', hostFees: '4000', expensesByTag: { travel: '6200' } },
+        }),
+      ).to.be.false;
+    });
+
+    it('rejects invalid settings', () => {
+      expect(validateAccountingSettings(null)).to.eq('Invalid type for accounting settings');
+      expect(validateAccountingSettings({ chartOfAccounts: 'Bank' } as any)).to.eq(
+        'Invalid type for the chart of accounts',
+      );
+      expect(validateAccountingSettings({ chartOfAccounts: { cash: '1000' } } as any)).to.eq(
+        'Unknown account in the chart of accounts: cash',
+      );
+      expect(validateAccountingSettings({ chartOfAccounts: { bank: 1000 } } as any)).to.eq(
+        'The bank account must be a non-empty string',
+      );
+      expect(validateAccountingSettings({ chartOfAccounts: { expensesByTag: { travel: '' } } })).to.eq(
+        'The accounts of the expenses by tag must be non-empty strings',
+      );
+    });
+  });
+
+  describe('getChartOfAccounts', () => {
+    it('uses the default accounts when not configured', () => {
+      expect(getChartOfAccounts({ settings: {} })).to.deep.eq(DEFAULT_CHART_OF_ACCOUNTS);
+    });
+
+    it('merges the configured accounts and sanitizes the tags', () => {
+      const host = {
+        settings: { accounting: { chartOfAccounts: { bank: '1000', expensesByTag: { Travel: '6200' } } } },
+      };
+      const chartOfAccounts = getChartOfAccounts(host);
+      expect(chartOfAccounts.bank).to.eq('1000');
+      expect(chartOfAccounts.contributions).to.eq(DEFAULT_CHART_OF_ACCOUNTS.contributions);
+      expect(chartOfAccounts.expensesByTag).to.deep.eq({ travel: '6200' });
+    });
+  });
+});
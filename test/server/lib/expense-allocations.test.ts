@@ -0,0 +1,148 @@
+import { expect } from 'chai';
+
+import {
+  computeExpenseAllocations,
+  getAllocatedCollectivesMissingApproval,
+  getExpenseAllocations,
+  splitAmountBetweenAllocations,
+} from '../../../server/lib/expense-allocations';
+import models from '../../../server/models';
+import { fakeCollective, fakeExpense, fakeHost, fakeUser } from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('server/lib/expense-allocations', () => {
+  let host, collective, otherCollective;
+
+  beforeEach(utils.resetTestDB);
+  beforeEach(async () => {
+    host = await fakeHost();
+    collective = await fakeCollective({ HostCollectiveId: host.id, approvedAt: new Date() });
+    otherCollective = await fakeCollective({ HostCollectiveId: host.id, approvedAt: new Date() });
+  });
+
+  describe('computeExpenseAllocations', () => {
+    it('returns an empty list if the expense is not split', async () => {
+      expect(await computeExpenseAllocations(collective, 1000, null)).to.deep.eq([]);
+      expect(await computeExpenseAllocations(collective, 1000, [])).to.deep.eq([]);
+    });
+
+    it('computes amounts from percentages and compensates rounding errors', async () => {
+      const allocations = await computeExpenseAllocations(collective, 1001, [
+        { CollectiveId: collective.id, percentage: 50 },
+        { CollectiveId: otherCollective.id, percentage: 50 },
+      ]);
+
+      expect(allocations).to.deep.eq([
+        { CollectiveId: collective.id, amount: 501, percentage: 50 },
+        { CollectiveId: otherCollective.id, amount: 500, percentage: 50 },
+      ]);
+    });
+
+    it('supports mixing amounts and percentages', async () => {
+      const allocations = await computeExpenseAllocations(collective, 1000, [
+        { CollectiveId: collective.id, amount: 400 },
+        { CollectiveId: otherCollective.id, percentage: 60 },
+      ]);
+
+      expect(allocations).to.deep.eq([
+        { CollectiveId: collective.id, amount: 400, percentage: null },
+        { CollectiveId: otherCollective.id, amount: 600, percentage: 60 },
+      ]);
+    });
+
+    it('requires the sum of allocations to match the expense amount', async () => {
+      const allocations = [
+        { CollectiveId: collective.id, amount: 400 },
+        { CollectiveId: otherCollective.id, amount: 400 },
+      ];
+
+      await expect(computeExpenseAllocations(collective, 1000, allocations)).to.be.rejectedWith(
+        'The sum of all allocations must be equal to the amount of the expense',
+      );
+    });
+
+    it('requires either an amount or a percentage', async () => {
+      const allocations = [{ CollectiveId: collective.id, amount: 1000, percentage: 100 }];
+      await expect(computeExpenseAllocations(collective, 1000, allocations)).to.be.rejectedWith(
+        'Each allocation must define either an amount or a percentage',
+      );
+    });
+
+    it('only allows collectives of the same host', async () => {
+      const collectiveWithOtherHost = await fakeCollective({ approvedAt: new Date() });
+      const allocations = [
+        { CollectiveId: collective.id, percentage: 50 },
+        { CollectiveId: collectiveWithOtherHost.id, percentage: 50 },
+      ];
+
+      await expect(computeExpenseAllocations(collective, 1000, allocations)).to.be.rejectedWith(
+        'All the allocated collectives must be hosted by the same host as the expense collective',
+      );
+    });
+
+    it('only allows a collective once', async () => {
+      const allocations = [
+        { CollectiveId: collective.id, percentage: 50 },
+        { CollectiveId: collective.id, percentage: 50 },
+      ];
+
+      await expect(computeExpenseAllocations(collective, 1000, allocations)).to.be.rejectedWith(
+        'A collective can only be allocated once per expense',
+      );
+    });
+  });
+
+  describe('getExpenseAllocations', () => {
+    it('allocates the full amount to the expense collective if the expense is not split', async () => {
+      const expense = await fakeExpense({ CollectiveId: collective.id, amount: 1000 });
+      expect(await getExpenseAllocations(expense)).to.deep.eq([
+        { CollectiveId: collective.id, amount: 1000, percentage: null },
+      ]);
+    });
+
+    it('returns the allocations of split expenses', async () => {
+      const expense = await fakeExpense({ CollectiveId: collective.id, amount: 1000 });
+      await models.ExpenseAllocation.create({ ExpenseId: expense.id, CollectiveId: collective.id, amount: 300 });
+      await models.ExpenseAllocation.create({ ExpenseId: expense.id, CollectiveId: otherCollective.id, amount: 700 });
+
+      expect(await getExpenseAllocations(expense)).to.deep.eq([
+        { CollectiveId: collective.id, amount: 300, percentage: null },
+        { CollectiveId: otherCollective.id, amount: 700, percentage: null },
+      ]);
+    });
+  });
+
+  describe('splitAmountBetweenAllocations', () => {
+    it('splits proportionally, with the remainder on the last allocation', () => {
+      const allocations = [
+        { CollectiveId: 1, amount: 500, percentage: null },
+        { CollectiveId: 2, amount: 250, percentage: null },
+        { CollectiveId: 3, amount: 250, percentage: null },
+      ];
+
+      expect(splitAmountBetweenAllocations(101, allocations)).to.deep.eq([51, 25, 25]);
+      expect(splitAmountBetweenAllocations(-99, allocations)).to.deep.eq([-49, -25, -25]);
+    });
+  });
+
+  describe('getAllocatedCollectivesMissingApproval', () => {
+    it('returns the collectives without an approval from one of their admins', async () => {
+      const submitter = await fakeUser();
+      const admin = await fakeUser();
+      await collective.addUserWithRole(admin, 'ADMIN');
+      await otherCollective.addUserWithRole(submitter, 'ADMIN');
+      const expense = await fakeExpense({ CollectiveId: collective.id, UserId: submitter.id, amount: 1000 });
+      await models.ExpenseAllocation.create({ ExpenseId: expense.id, CollectiveId: collective.id, amount: 500 });
+      await models.ExpenseAllocation.create({ ExpenseId: expense.id, CollectiveId: otherCollective.id, amount: 500 });
+
+      expect(await getAllocatedCollectivesMissingApproval(expense, [])).to.have.members([
+        collective.id,
+        otherCollective.id,
+      ]);
+
+      // The submitter's approval never counts
+      const approvals = [{ UserId: admin.id }, { UserId: submitter.id }];
+      expect(await getAllocatedCollectivesMissingApproval(expense, approvals)).to.deep.eq([otherCollective.id]);
+    });
+  });
+});
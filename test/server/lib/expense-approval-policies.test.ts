@@ -0,0 +1,97 @@
+import { expect } from 'chai';
+
+import {
+  getExpenseApprovalPolicy,
+  getMissingApprovals,
+  isFullyApproved,
+  validateExpenseApprovalPolicy,
+} from '../../../server/lib/expense-approval-policies';
+
+describe('server/lib/expense-approval-policies', () => {
+  describe('validateExpenseApprovalPolicy', () => {
+    it('accepts valid policies', () => {
+      expect(validateExpenseApprovalPolicy({})).to.be.false;
+      expect(validateExpenseApprovalPolicy({ minApprovers: 2, minApproversThreshold: 10000 })).to.be.false;
+      expect(validateExpenseApprovalPolicy({ requireHostAdminForInvoices: true })).to.be.false;
+    });
+
+    it('rejects invalid policies', () => {
+      expect(validateExpenseApprovalPolicy({ minApprovers: 0 })).to.be.a('string');
+      expect(validateExpenseApprovalPolicy({ minApprovers: 1.5 })).to.be.a('string');
+      expect(validateExpenseApprovalPolicy({ minApproversThreshold: -1 })).to.be.a('string');
+    });
+  });
+
+  describe('getExpenseApprovalPolicy', () => {
+    it('returns null if no policy is defined', () => {
+      expect(getExpenseApprovalPolicy({ settings: {} }, { settings: {} })).to.be.null;
+      expect(getExpenseApprovalPolicy({ settings: {} }, null)).to.be.null;
+    });
+
+    it('merges host and collective policies, keeping the strictest rules', () => {
+      const collective = { settings: { expenseApprovalPolicy: { minApprovers: 3, minApproversThreshold: 50000 } } };
+      const host = {
+        settings: {
+          expenseApprovalPolicy: { minApprovers: 2, minApproversThreshold: 10000, requireHostAdminForInvoices: true },
+        },
+      };
+
+      expect(getExpenseApprovalPolicy(collective, host)).to.deep.eq({
+        minApprovers: 3,
+        minApproversThreshold: 10000,
+        requireHostAdminForInvoices: true,
+      });
+    });
+  });
+
+  describe('getMissingApprovals', () => {
+    const expense = { UserId: 1, amount: 20000, type: 'INVOICE' };
+
+    it('only needs one approval without policy', () => {
+      expect(getMissingApprovals(expense, [], null)).to.deep.eq({ approvers: 1, hostAdmin: false });
+      const approvals = [{ UserId: 2, isHostAdmin: false }];
+      expect(isFullyApproved(getMissingApprovals(expense, approvals, null))).to.be.true;
+    });
+
+    it('requires distinct approvers above the threshold', () => {
+      const policy = { minApprovers: 2, minApproversThreshold: 10000 };
+      const approvals = [{ UserId: 2, isHostAdmin: false }];
+      expect(getMissingApprovals(expense, approvals, policy)).to.deep.eq({ approvers: 1, hostAdmin: false });
+      expect(getMissingApprovals({ ...expense, amount: 5000 }, approvals, policy).approvers).to.eq(0);
+      approvals.push({ UserId: 3, isHostAdmin: false });
+      expect(isFullyApproved(getMissingApprovals(expense, approvals, policy))).to.be.true;
+    });
+
+    it('lets the submitter approve their own expense without policy', () => {
+      const approvals = [{ UserId: 1, isHostAdmin: false }];
+      expect(isFullyApproved(getMissingApprovals(expense, approvals, null))).to.be.true;
+    });
+
+    it('never counts the submitter as an approver when a policy is set', () => {
+      const policy = { minApprovers: 2 };
+      const approvals = [
+        { UserId: 1, isHostAdmin: true },
+        { UserId: 2, isHostAdmin: false },
+      ];
+      expect(getMissingApprovals(expense, approvals, policy).approvers).to.eq(1);
+    });
+
+    it('still counts the approvals of deleted users', () => {
+      const policy = { minApprovers: 2 };
+      const approvals = [
+        { UserId: null, isHostAdmin: false },
+        { UserId: null, isHostAdmin: false },
+      ];
+      expect(getMissingApprovals(expense, approvals, policy).approvers).to.eq(0);
+    });
+
+    it('requires a host admin for invoices', () => {
+      const policy = { requireHostAdminForInvoices: true };
+      const approvals = [{ UserId: 2, isHostAdmin: false }];
+      expect(getMissingApprovals(expense, approvals, policy)).to.deep.eq({ approvers: 0, hostAdmin: true });
+      expect(getMissingApprovals({ ...expense, type: 'RECEIPT' }, approvals, policy).hostAdmin).to.be.false;
+      approvals.push({ UserId: 3, isHostAdmin: true });
+      expect(isFullyApproved(getMissingApprovals(expense, approvals, policy))).to.be.true;
+    });
+  });
+});
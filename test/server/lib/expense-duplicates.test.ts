@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+
+import {
+  checkExpenseForDuplicates,
+  getDescriptionsSimilarity,
+  getDuplicateReasons,
+  isPossibleDuplicate,
+  normalizeDescription,
+} from '../../../server/lib/expense-duplicates';
+import models from '../../../server/models';
+import { ExpenseDuplicateReason } from '../../../server/models/ExpenseDuplicate';
+import { fakeCollective, fakeExpense, fakeExpenseItem, fakeHost, fakeUser } from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('server/lib/expense-duplicates', () => {
+  describe('getDescriptionsSimilarity', () => {
+    it('normalizes descriptions', () => {
+      expect(normalizeDescription('  Déjeuner, Équipe #3!')).to.eq('dejeuner equipe 3');
+      expect(normalizeDescription(null)).to.eq('');
+    });
+
+    it('returns the ratio of common words', () => {
+      expect(getDescriptionsSimilarity('Hosting - October', 'hosting october')).to.eq(1);
+      expect(getDescriptionsSimilarity('Hosting October', 'Hosting November')).to.eq(1 / 3);
+      expect(getDescriptionsSimilarity('', null)).to.eq(0);
+    });
+  });
+
+  describe('getDuplicateReasons', () => {
+    const expense = { amount: 1000, currency: 'USD', description: 'Hosting October', incurredAt: '2020-10-01' };
+
+    it('compares amounts, dates, descriptions and files', () => {
+      const items = [{ incurredAt: '2020-10-02T10:00:00Z', fileHash: 'abc' }];
+      const otherExpense = { ...expense, description: 'Hosting (October)', incurredAt: '2020-09-01' };
+      const otherItems = [{ incurredAt: '2020-10-02T18:00:00Z', fileHash: 'abc' }];
+      expect(getDuplicateReasons(expense, items, otherExpense, otherItems)).to.deep.eq([
+        ExpenseDuplicateReason.SAME_AMOUNT,
+        ExpenseDuplicateReason.SAME_DATE,
+        ExpenseDuplicateReason.SIMILAR_DESCRIPTION,
+        ExpenseDuplicateReason.SAME_FILE,
+      ]);
+    });
+
+    it('does not match amounts in different currencies', () => {
+      const otherExpense = { ...expense, currency: 'EUR', description: 'Other', incurredAt: '2020-09-01' };
+      expect(getDuplicateReasons(expense, [], otherExpense, [])).to.deep.eq([]);
+    });
+  });
+
+  describe('isPossibleDuplicate', () => {
+    it('requires the same file, or the same amount with another matching criteria', () => {
+      expect(isPossibleDuplicate([ExpenseDuplicateReason.SAME_FILE])).to.be.true;
+      expect(isPossibleDuplicate([ExpenseDuplicateReason.SAME_AMOUNT, ExpenseDuplicateReason.SAME_DATE])).to.be.true;
+      expect(isPossibleDuplicate([ExpenseDuplicateReason.SAME_AMOUNT])).to.be.false;
+      expect(isPossibleDuplicate([ExpenseDuplicateReason.SAME_DATE, ExpenseDuplicateReason.SIMILAR_DESCRIPTION])).to.be
+        .false;
+    });
+  });
+
+  describe('checkExpenseForDuplicates', () => {
+    let host, collective, user;
+
+    beforeEach(utils.resetTestDB);
+    beforeEach(async () => {
+      host = await fakeHost();
+      collective = await fakeCollective({ HostCollectiveId: host.id });
+      user = await fakeUser();
+    });
+
+    const fakeExpenseWithItem = async (collectiveId, expenseData = {}) => {
+      const expense = await fakeExpense({
+        UserId: user.id,
+        CollectiveId: collectiveId,
+        amount: 1000,
+        description: 'Hosting October',
+        items: [],
+        ...expenseData,
+      });
+      await fakeExpenseItem({ ExpenseId: expense.id, amount: expense.amount, incurredAt: expense.incurredAt });
+      return expense;
+    };
+
+    it('records the expenses submitted by the same payee on the same host', async () => {
+      const otherCollective = await fakeCollective({ HostCollectiveId: host.id });
+      const duplicate = await fakeExpenseWithItem(otherCollective.id);
+      await fakeExpenseWithItem(collective.id, { status: 'REJECTED' });
+      await fakeExpenseWithItem((await fakeCollective()).id);
+      await fakeExpenseWithItem(collective.id, { UserId: (await fakeUser()).id });
+      await fakeExpenseWithItem(collective.id, { amount: 2000 });
+
+      const expense = await fakeExpenseWithItem(collective.id);
+      const results = await checkExpenseForDuplicates(expense);
+      expect(results).to.have.length(1);
+      expect(results[0].DuplicateExpenseId).to.eq(duplicate.id);
+      expect(results[0].reasons).to.deep.eq([
+        ExpenseDuplicateReason.SAME_AMOUNT,
+        ExpenseDuplicateReason.SAME_DATE,
+        ExpenseDuplicateReason.SIMILAR_DESCRIPTION,
+      ]);
+    });
+
+    it('replaces the previous records when the expense is checked again', async () => {
+      await fakeExpenseWithItem(collective.id);
+      const expense = await fakeExpenseWithItem(collective.id);
+      expect(await checkExpenseForDuplicates(expense)).to.have.length(1);
+
+      await expense.update({ amount: 5000 });
+      expect(await checkExpenseForDuplicates(expense)).to.have.length(0);
+      expect(await models.ExpenseDuplicate.count({ where: { ExpenseId: expense.id } })).to.eq(0);
+    });
+  });
+});
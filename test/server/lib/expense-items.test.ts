@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+import sinon from 'sinon';
+
+import * as libcurrency from '../../../server/lib/currency';
+import { convertExpenseItemsData, getReceiptDataWarnings } from '../../../server/lib/expense-items';
+import { ExpenseItemFxRateSource } from '../../../server/models/ExpenseItem';
+
+describe('server/lib/expense-items', () => {
+  describe('convertExpenseItemsData', () => {
+    let sandbox, getFxRateStub;
+
+    beforeEach(() => {
+      sandbox = sinon.createSandbox();
+      getFxRateStub = sandbox.stub(libcurrency, 'getFxRate').resolves(1.2);
+    });
+
+    afterEach(() => {
+      sandbox.restore();
+    });
+
+    it('does not convert items in the expense currency', async () => {
+      const items = await convertExpenseItemsData([{ amount: 1000 }, { amount: 500, currency: 'USD' }], 'USD');
+      expect(getFxRateStub.called).to.be.false;
+      expect(items).to.deep.eq([
+        { amount: 1000, originalCurrency: null, originalAmount: null, fxRate: null, fxRateSource: null },
+        { amount: 500, originalCurrency: null, originalAmount: null, fxRate: null, fxRateSource: null },
+      ]);
+    });
+
+    it('converts items in a foreign currency with the rate at the date they were incurred', async () => {
+      const incurredAt = new Date('2020-10-01');
+      const items = await convertExpenseItemsData([{ amount: 1001, currency: 'EUR', incurredAt }], 'USD');
+
+      expect(getFxRateStub.firstCall.args[0]).to.eq('EUR');
+      expect(getFxRateStub.firstCall.args[1]).to.eq('USD');
+      expect(getFxRateStub.firstCall.args[2].getTime()).to.eq(incurredAt.getTime());
+      expect(items).to.deep.eq([
+        {
+          amount: 1201,
+          incurredAt,
+          originalCurrency: 'EUR',
+          originalAmount: 1001,
+          fxRate: 1.2,
+          fxRateSource: ExpenseItemFxRateSource.FIXER,
+        },
+      ]);
+    });
+
+    it('re-uses the rate of existing items if they did not change', async () => {
+      const incurredAt = new Date('2020-10-01');
+      const existingItems = [
+        { id: 1, amount: 1100, originalCurrency: 'EUR', originalAmount: 1000, fxRate: 1.1, incurredAt },
+        { id: 2, amount: 1100, originalCurrency: 'EUR', originalAmount: 1000, fxRate: 1.1, incurredAt },
+      ];
+
+      const items = await convertExpenseItemsData(
+        [
+          { id: 1, amount: 1000, currency: 'EUR', incurredAt: incurredAt.toISOString() },
+          { id: 2, amount: 2000, currency: 'EUR', incurredAt: incurredAt.toISOString() },
+        ],
+        'USD',
+        existingItems,
+      );
+
+      expect(getFxRateStub.callCount).to.eq(1);
+      expect(items[0].amount).to.eq(1100);
+      expect(items[0].fxRate).to.eq(1.1);
+      expect(items[1].amount).to.eq(2400);
+      expect(items[1].fxRate).to.eq(1.2);
+    });
+
+    it('requires an amount for items in a foreign currency', async () => {
+      await expect(convertExpenseItemsData([{ currency: 'EUR' }], 'USD')).to.be.rejectedWith(
+        'Items submitted in a foreign currency must have an amount',
+      );
+    });
+  });
+
+  describe('getReceiptDataWarnings', () => {
+    const url = 'https://opencollective-test.s3.us-west-1.amazonaws.com/receipt.pdf';
+    const receiptData = { url, amount: 1000, currency: 'USD', date: null, merchant: null };
+
+    it('warns if the total of the receipt does not match the amount of the item', () => {
+      expect(getReceiptDataWarnings({ url, amount: 1000, receiptData }, 'USD')).to.deep.eq([]);
+      expect(getReceiptDataWarnings({ url, amount: 1500, receiptData }, 'USD')).to.deep.eq([
+        "The total of the receipt ($10.00) doesn't match the amount of the item",
+      ]);
+    });
+
+    it('compares the original amount for items in a foreign currency', () => {
+      const item = { url, amount: 1200, originalAmount: 1000, originalCurrency: 'USD', receiptData };
+      expect(getReceiptDataWarnings(item, 'EUR')).to.deep.eq([]);
+    });
+
+    it('ignores receipts in another currency or for another file', () => {
+      expect(getReceiptDataWarnings({ url, amount: 1500, receiptData }, 'EUR')).to.deep.eq([]);
+      expect(getReceiptDataWarnings({ url: `${url}?v2`, amount: 1500, receiptData }, 'USD')).to.deep.eq([]);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+
+import { createInternalTransfer } from '../../../server/lib/internal-transfers';
+import models from '../../../server/models';
+import { fakeCollective, fakeHost, fakePaymentMethod, fakeTransaction, fakeUser } from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('server/lib/internal-transfers', () => {
+  let host, fromCollective, collective, user;
+
+  beforeEach(utils.resetTestDB);
+  beforeEach(async () => {
+    user = await fakeUser();
+    host = await fakeHost({ currency: 'USD' });
+    fromCollective = await fakeCollective({ HostCollectiveId: host.id, currency: 'USD', isActive: true });
+    collective = await fakeCollective({ HostCollectiveId: host.id, currency: 'USD', isActive: true });
+    await fakePaymentMethod({ CollectiveId: fromCollective.id, service: 'opencollective', type: 'collective' });
+    await fakeTransaction({
+      type: 'CREDIT',
+      CollectiveId: fromCollective.id,
+      HostCollectiveId: host.id,
+      amount: 10000,
+      amountInHostCurrency: 10000,
+      netAmountInCollectiveCurrency: 10000,
+    });
+  });
+
+  it('creates a DEBIT/CREDIT pair without fees', async () => {
+    const transfer = { amount: 2500, reason: 'Share of the grant', tags: ['Grants', 'grants'] };
+    const order = await createInternalTransfer(fromCollective, collective, transfer, user);
+    expect(order.status).to.eq('PAID');
+    expect(order.description).to.eq('Share of the grant');
+
+    const transactions = await models.Transaction.findAll({ where: { OrderId: order.id } });
+    expect(transactions).to.have.length(2);
+    const credit = transactions.find(t => t.type === 'CREDIT');
+    const debit = transactions.find(t => t.type === 'DEBIT');
+    expect(credit.CollectiveId).to.eq(collective.id);
+    expect(credit.netAmountInCollectiveCurrency).to.eq(2500);
+    expect(credit.hostFeeInHostCurrency).to.eq(0);
+    expect(credit.platformFeeInHostCurrency).to.eq(0);
+    expect(credit.data).to.deep.include({ isInternalTransfer: true, tags: ['grants'] });
+    expect(debit.CollectiveId).to.eq(fromCollective.id);
+    expect(debit.TransactionGroup).to.eq(credit.TransactionGroup);
+    expect(await fromCollective.getBalance()).to.eq(7500);
+  });
+
+  it('rejects transfers between collectives of different hosts', async () => {
+    const otherCollective = await fakeCollective({ isActive: true });
+    const transfer = { amount: 2500, reason: 'Share of the grant' };
+    await expect(createInternalTransfer(fromCollective, otherCollective, transfer, user)).to.be.rejectedWith(
+      'Internal transfers can only be made between active accounts of the same host',
+    );
+  });
+
+  it('rejects transfers above the balance', async () => {
+    const transfer = { amount: 20000, reason: 'Everything' };
+    await expect(createInternalTransfer(fromCollective, collective, transfer, user)).to.be.rejectedWith(
+      'Not enough funds available',
+    );
+    expect(await models.Order.count({ where: { FromCollectiveId: fromCollective.id } })).to.eq(0);
+  });
+});
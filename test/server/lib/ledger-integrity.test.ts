@@ -0,0 +1,146 @@
+import { expect } from 'chai';
+import { v4 as uuid } from 'uuid';
+
+import {
+  checkFeeSigns,
+  checkHostCurrencies,
+  checkNetAmounts,
+  checkRefundLinks,
+  checkTransactionGroups,
+  runLedgerIntegrityChecks,
+} from '../../../server/lib/ledger-integrity';
+import {
+  LedgerIntegrityCheckType,
+  LedgerIntegrityFindingStatus,
+  LedgerIntegritySeverity,
+} from '../../../server/models/LedgerIntegrityFinding';
+import { fakeCollective, fakeHost, fakeTransaction } from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('server/lib/ledger-integrity', () => {
+  let host, collective, contributor;
+
+  beforeEach(utils.resetTestDB);
+  beforeEach(async () => {
+    host = await fakeHost({ currency: 'USD' });
+    collective = await fakeCollective({ HostCollectiveId: host.id, currency: 'USD' });
+    contributor = await fakeCollective({ HostCollectiveId: null, type: 'USER' });
+  });
+
+  /** Creates a valid CREDIT/DEBIT pair for a $10 contribution with $1 of host fees */
+  const fakeTransactionPair = async ({ credit = {}, debit = {} } = {}) => {
+    const TransactionGroup = uuid();
+    const creditTransaction = await fakeTransaction({
+      TransactionGroup,
+      CollectiveId: collective.id,
+      FromCollectiveId: contributor.id,
+      HostCollectiveId: host.id,
+      amount: 1000,
+      amountInHostCurrency: 1000,
+      hostFeeInHostCurrency: -100,
+      netAmountInCollectiveCurrency: 900,
+      ...credit,
+    });
+    const debitTransaction = await fakeTransaction({
+      TransactionGroup,
+      CollectiveId: contributor.id,
+      FromCollectiveId: collective.id,
+      amount: -900,
+      amountInHostCurrency: -900,
+      hostFeeInHostCurrency: -100,
+      netAmountInCollectiveCurrency: -1000,
+      ...debit,
+    });
+
+    return [creditTransaction, debitTransaction];
+  };
+
+  describe('checks', () => {
+    it('returns no issue for a valid ledger', async () => {
+      await fakeTransactionPair();
+      for (const check of [checkTransactionGroups, checkRefundLinks, checkFeeSigns, checkNetAmounts]) {
+        expect(await check({})).to.be.empty;
+      }
+    });
+
+    it('detects unbalanced transaction groups', async () => {
+      const [credit] = await fakeTransactionPair({ debit: { amount: -800, amountInHostCurrency: -800 } });
+      const orphan = await fakeTransaction({ TransactionGroup: uuid(), HostCollectiveId: host.id });
+
+      const issues = await checkTransactionGroups({});
+      expect(issues).to.have.length(2);
+      expect(issues.find(i => i.key === credit.TransactionGroup).message).to.include('are not symmetrical');
+      expect(issues.find(i => i.key === orphan.TransactionGroup).message).to.include('has 1 CREDIT(s) and 0 DEBIT(s)');
+      expect(issues[0].severity).to.eq(LedgerIntegritySeverity.ERROR);
+    });
+
+    it('detects refunds that are not linked both ways', async () => {
+      const [credit] = await fakeTransactionPair();
+      const [refund] = await fakeTransactionPair({ credit: { isRefund: true }, debit: { isRefund: true } });
+      await credit.update({ RefundTransactionId: refund.id });
+
+      const issues = await checkRefundLinks({});
+      const transactionIds = issues.map(issue => issue.key);
+      expect(transactionIds).to.include(String(credit.id));
+      expect(transactionIds).to.include(String(refund.id));
+    });
+
+    it('detects fees with the wrong sign', async () => {
+      const [credit] = await fakeTransactionPair({ credit: { platformFeeInHostCurrency: 50 } });
+      const issues = await checkFeeSigns({});
+      expect(issues.map(issue => issue.TransactionIds)).to.deep.eq([[credit.id]]);
+      expect(issues[0].message).to.eq(`Transaction #${credit.id} has positive fees`);
+    });
+
+    it('detects net amounts that do not add up', async () => {
+      const [credit] = await fakeTransactionPair({ credit: { netAmountInCollectiveCurrency: 500 } });
+      const issues = await checkNetAmounts({});
+      expect(issues).to.have.length(1);
+      expect(issues[0].TransactionIds).to.deep.eq([credit.id]);
+      expect(issues[0].data).to.deep.include({ expectedNetAmount: 900, offBy: 400 });
+    });
+
+    it('groups host currency mismatches by host and currency', async () => {
+      await fakeTransactionPair({ credit: { hostCurrency: 'EUR' } });
+      await fakeTransactionPair({ credit: { hostCurrency: 'EUR' } });
+      const issues = await checkHostCurrencies({});
+      expect(issues).to.have.length(1);
+      expect(issues[0].key).to.eq(`${host.id}-EUR`);
+      expect(issues[0].TransactionIds).to.have.length(2);
+    });
+  });
+
+  describe('runLedgerIntegrityChecks', () => {
+    it('persists the findings and resolves them once fixed', async () => {
+      const [credit] = await fakeTransactionPair({ credit: { platformFeeInHostCurrency: 50 } });
+      const types = [LedgerIntegrityCheckType.FEE_SIGN_MISMATCH];
+
+      const firstReport = await runLedgerIntegrityChecks({ types });
+      expect(firstReport.findings).to.have.length(1);
+      expect(firstReport.findings[0].HostCollectiveId).to.eq(host.id);
+      expect(firstReport.findings[0].status).to.eq(LedgerIntegrityFindingStatus.OPEN);
+
+      // Detecting the issue again updates the same finding
+      const secondReport = await runLedgerIntegrityChecks({ types });
+      expect(secondReport.findings[0].id).to.eq(firstReport.findings[0].id);
+
+      await credit.update({ platformFeeInHostCurrency: 0 });
+      const thirdReport = await runLedgerIntegrityChecks({ types });
+      expect(thirdReport.findings).to.be.empty;
+      expect(thirdReport.resolvedCount).to.eq(1);
+      await firstReport.findings[0].reload();
+      expect(firstReport.findings[0].status).to.eq(LedgerIntegrityFindingStatus.RESOLVED);
+    });
+
+    it('does not resolve the findings on transactions older than the checked period', async () => {
+      await fakeTransactionPair({ credit: { platformFeeInHostCurrency: 50 } });
+      const types = [LedgerIntegrityCheckType.FEE_SIGN_MISMATCH];
+      const { findings } = await runLedgerIntegrityChecks({ types });
+
+      const report = await runLedgerIntegrityChecks({ types, since: new Date(Date.now() + 60000) });
+      expect(report.resolvedCount).to.eq(0);
+      await findings[0].reload();
+      expect(findings[0].status).to.eq(LedgerIntegrityFindingStatus.OPEN);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/* eslint-disable camelcase */
+import { expect } from 'chai';
+import sinon from 'sinon';
+
+import status from '../../../server/constants/expense_status';
+import {
+  cancelPayoutBatch,
+  createPayoutBatches,
+  createPayoutBatchForExpenses,
+  sendPayoutBatch,
+  updateProcessingPayoutBatches,
+} from '../../../server/lib/payout-batches';
+import models from '../../../server/models';
+import { PayoutBatchStatus } from '../../../server/models/PayoutBatch';
+import { PayoutMethodTypes } from '../../../server/models/PayoutMethod';
+import * as paypal from '../../../server/paymentProviders/paypal/payouts';
+import transferwise from '../../../server/paymentProviders/transferwise';
+import {
+  fakeCollective,
+  fakeConnectedAccount,
+  fakeExpense,
+  fakeHost,
+  fakePayoutMethod,
+  fakeUser,
+} from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('server/lib/payout-batches', () => {
+  const sandbox = sinon.createSandbox();
+  let host, collective, bankAccount, paypalAccount;
+
+  afterEach(sandbox.restore);
+  beforeEach(utils.resetTestDB);
+  beforeEach(async () => {
+    host = await fakeHost();
+    collective = await fakeCollective({ HostCollectiveId: host.id });
+    bankAccount = await fakePayoutMethod({ type: PayoutMethodTypes.BANK_ACCOUNT });
+    paypalAccount = await fakePayoutMethod({ type: PayoutMethodTypes.PAYPAL });
+  });
+
+  const fakeScheduledExpense = (payoutMethod, data = {}) =>
+    fakeExpense({
+      status: status.SCHEDULED_FOR_PAYMENT,
+      amount: 10000,
+      currency: 'USD',
+      CollectiveId: collective.id,
+      PayoutMethodId: payoutMethod.id,
+      ...data,
+    });
+
+  describe('createPayoutBatches', () => {
+    it('groups scheduled expenses by host and payout method type', async () => {
+      const bankExpense = await fakeScheduledExpense(bankAccount);
+      const paypalExpense = await fakeScheduledExpense(paypalAccount);
+      const otherCollective = await fakeCollective({ HostCollectiveId: host.id });
+      const otherPaypalExpense = await fakeScheduledExpense(paypalAccount, { CollectiveId: otherCollective.id });
+      const approvedExpense = await fakeExpense({ status: status.APPROVED, PayoutMethodId: paypalAccount.id });
+
+      const payoutBatches = await createPayoutBatches();
+      expect(payoutBatches).to.have.length(2);
+      for (const expense of [bankExpense, paypalExpense, otherPaypalExpense, approvedExpense]) {
+        await expense.reload();
+      }
+
+      const paypalBatch = payoutBatches.find(b => b.payoutMethodType === PayoutMethodTypes.PAYPAL);
+      const bankBatch = payoutBatches.find(b => b.payoutMethodType === PayoutMethodTypes.BANK_ACCOUNT);
+      expect(paypalBatch.HostCollectiveId).to.eq(host.id);
+      expect(paypalBatch.status).to.eq(PayoutBatchStatus.PENDING);
+      expect(paypalExpense.PayoutBatchId).to.eq(paypalBatch.id);
+      expect(otherPaypalExpense.PayoutBatchId).to.eq(paypalBatch.id);
+      expect(bankExpense.PayoutBatchId).to.eq(bankBatch.id);
+      expect(approvedExpense.PayoutBatchId).to.be.null;
+    });
+  });
+
+  describe('createPayoutBatchForExpenses', () => {
+    it('creates a batch with the given expenses', async () => {
+      const expenses = await models.Expense.findAll({
+        where: { id: [(await fakeScheduledExpense(bankAccount)).id, (await fakeScheduledExpense(bankAccount)).id] },
+        include: [{ model: models.Collective, as: 'collective' }, { model: models.PayoutMethod }],
+      });
+
+      const payoutBatch = await createPayoutBatchForExpenses(host, expenses);
+      expect(payoutBatch.status).to.eq(PayoutBatchStatus.PENDING);
+      expect(payoutBatch.payoutMethodType).to.eq(PayoutMethodTypes.BANK_ACCOUNT);
+      expect(await models.Expense.count({ where: { PayoutBatchId: payoutBatch.id } })).to.eq(2);
+    });
+
+    it('requires the expenses to use the same payout method type', async () => {
+      const expenses = await models.Expense.findAll({
+        where: { id: [(await fakeScheduledExpense(bankAccount)).id, (await fakeScheduledExpense(paypalAccount)).id] },
+        include: [{ model: models.Collective, as: 'collective' }, { model: models.PayoutMethod }],
+      });
+
+      await expect(createPayoutBatchForExpenses(host, expenses)).to.be.rejectedWith(
+        'All expenses must use the same payout method',
+      );
+    });
+
+    it('does not move expenses that are already in another batch', async () => {
+      const findExpenses = ids =>
+        models.Expense.findAll({
+          where: { id: ids },
+          include: [{ model: models.Collective, as: 'collective' }, { model: models.PayoutMethod }],
+        });
+
+      const ids = [(await fakeScheduledExpense(bankAccount)).id, (await fakeScheduledExpense(bankAccount)).id];
+      const payoutBatch = await createPayoutBatchForExpenses(host, await findExpenses(ids));
+      await expect(createPayoutBatchForExpenses(host, await findExpenses(ids))).to.be.rejectedWith(
+        'Some expenses are already part of a payout batch',
+      );
+
+      expect(await models.Expense.count({ where: { PayoutBatchId: payoutBatch.id } })).to.eq(2);
+    });
+  });
+
+  describe('sendPayoutBatch', () => {
+    let payoutBatch, expenses, user;
+
+    beforeEach(async () => {
+      user = await fakeUser();
+      await fakeConnectedAccount({
+        CollectiveId: host.id,
+        service: 'transferwise',
+        token: 'fake-token',
+        data: { type: 'business', id: 0 },
+      });
+      expenses = [await fakeScheduledExpense(bankAccount), await fakeScheduledExpense(bankAccount)];
+      [payoutBatch] = await createPayoutBatches();
+    });
+
+    it('pays the expenses with TransferWise batch groups', async () => {
+      sandbox.stub(transferwise, 'payExpensesBatchGroup').callsFake(async (connectedAccount, batchExpenses) => ({
+        batchGroups: [{ id: 'batch-group-id', version: 1, name: 'batch', sourceCurrency: 'USD', status: 'COMPLETED' }],
+        items: batchExpenses.map(expense => ({
+          batchGroupId: 'batch-group-id',
+          expense,
+          quote: { fee: 1, sourceCurrency: 'USD' },
+          recipient: { id: 1 },
+          transfer: { id: expense.id },
+        })),
+        failures: [],
+      }));
+
+      await sendPayoutBatch(payoutBatch, user);
+      expect(payoutBatch.status).to.eq(PayoutBatchStatus.PROCESSING);
+      expect(payoutBatch.SentByUserId).to.eq(user.id);
+      expect(payoutBatch.data.batchGroups[0].id).to.eq('batch-group-id');
+      expect(payoutBatch.data.items).to.deep.eq(
+        expenses.map(expense => ({ ExpenseId: expense.id, batchGroupId: 'batch-group-id', transferId: expense.id })),
+      );
+
+      for (const expense of expenses) {
+        await expense.reload();
+        expect(expense.status).to.eq(status.PROCESSING);
+        const debit = await models.Transaction.findOne({ where: { ExpenseId: expense.id, type: 'DEBIT' } });
+        expect(debit.data.batchGroupId).to.eq('batch-group-id');
+        expect(debit.paymentProcessorFeeInHostCurrency).to.eq(-100);
+      }
+
+      // Completed once all expenses are paid
+      await models.Expense.update({ status: status.PAID }, { where: { PayoutBatchId: payoutBatch.id } });
+      const [completedBatch] = await updateProcessingPayoutBatches();
+      expect(completedBatch.id).to.eq(payoutBatch.id);
+      expect(completedBatch.status).to.eq(PayoutBatchStatus.COMPLETED);
+    });
+
+    it('records the PayPal batch of each expense', async () => {
+      const paypalExpenses = [await fakeScheduledExpense(paypalAccount), await fakeScheduledExpense(paypalAccount)];
+      const paypalBatch = await createPayoutBatchForExpenses(
+        host,
+        paypalExpenses.map(expense => Object.assign(expense, { collective, PayoutMethod: paypalAccount })),
+      );
+      sandbox.stub(paypal, 'payExpensesBatch').callsFake(async batchExpenses => {
+        // Large payouts are split in multiple PayPal batches
+        await batchExpenses[0].update({ status: status.PROCESSING, data: { payout_batch_id: 'paypal-1' } });
+        await batchExpenses[1].update({ status: status.PROCESSING, data: { payout_batch_id: 'paypal-2' } });
+        return batchExpenses;
+      });
+
+      await sendPayoutBatch(paypalBatch);
+      expect(paypalBatch.data.paypalBatchIds).to.deep.eq(['paypal-1', 'paypal-2']);
+      expect(paypalBatch.data.items.map(item => item.paypalBatchId)).to.deep.eq(['paypal-1', 'paypal-2']);
+    });
+
+    it('marks the expenses as errored if the payment fails', async () => {
+      sandbox.stub(transferwise, 'payExpensesBatchGroup').callsFake(async (connectedAccount, batchExpenses) => ({
+        batchGroups: [],
+        items: [],
+        failures: [{ expenses: batchExpenses, error: new Error('Not enough funds') }],
+      }));
+
+      await sendPayoutBatch(payoutBatch);
+      expect(payoutBatch.status).to.eq(PayoutBatchStatus.ERROR);
+      expect(payoutBatch.data.errors).to.deep.eq(['Not enough funds']);
+      expect(payoutBatch.data.items).to.deep.eq(
+        expenses.map(expense => ({ ExpenseId: expense.id, error: 'Not enough funds' })),
+      );
+      for (const expense of expenses) {
+        await expense.reload();
+        expect(expense.status).to.eq(status.ERROR);
+      }
+    });
+
+    it('marks the batch and its expenses as errored if the PayPal batch cannot be sent', async () => {
+      const paypalExpenses = [await fakeScheduledExpense(paypalAccount), await fakeScheduledExpense(paypalAccount)];
+      const paypalBatch = await createPayoutBatchForExpenses(
+        host,
+        paypalExpenses.map(expense => Object.assign(expense, { collective, PayoutMethod: paypalAccount })),
+      );
+      sandbox.stub(paypal, 'payExpensesBatch').rejects(new Error('Host is not connected to PayPal Payouts.'));
+
+      await sendPayoutBatch(paypalBatch);
+      expect(paypalBatch.status).to.eq(PayoutBatchStatus.ERROR);
+      expect(paypalBatch.data.errors).to.deep.eq(['Host is not connected to PayPal Payouts.']);
+      expect(paypalBatch.data.erroredExpenseIds).to.deep.eq(paypalExpenses.map(expense => expense.id));
+      for (const expense of paypalExpenses) {
+        await expense.reload();
+        expect(expense.status).to.eq(status.ERROR);
+      }
+    });
+
+    it('marks the batch as errored once its expenses are not processing anymore if some payments failed', async () => {
+      sandbox.stub(transferwise, 'payExpensesBatchGroup').resolves({ batchGroups: [], items: [], failures: [] });
+      await sendPayoutBatch(payoutBatch);
+      await expenses[0].update({ status: status.PROCESSING });
+      await expenses[1].update({ status: status.PAID });
+      expect(await updateProcessingPayoutBatches()).to.be.empty;
+
+      await expenses[0].update({ status: status.ERROR });
+      const [erroredBatch] = await updateProcessingPayoutBatches();
+      expect(erroredBatch.id).to.eq(payoutBatch.id);
+      expect(erroredBatch.status).to.eq(PayoutBatchStatus.ERROR);
+    });
+
+    it('cannot send a batch twice', async () => {
+      sandbox.stub(transferwise, 'payExpensesBatchGroup').resolves({ batchGroups: [], items: [], failures: [] });
+      await sendPayoutBatch(payoutBatch);
+      await expect(sendPayoutBatch(payoutBatch)).to.be.rejectedWith('already been sent');
+    });
+  });
+
+  describe('cancelPayoutBatch', () => {
+    it('puts the expenses back in the approved status', async () => {
+      const expense = await fakeScheduledExpense(paypalAccount);
+      const [payoutBatch] = await createPayoutBatches();
+
+      await cancelPayoutBatch(payoutBatch);
+      await expense.reload();
+      expect(payoutBatch.status).to.eq(PayoutBatchStatus.CANCELLED);
+      expect(expense.status).to.eq(status.APPROVED);
+      expect(expense.PayoutBatchId).to.be.null;
+    });
+  });
+});
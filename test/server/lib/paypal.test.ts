@@ -3,7 +3,7 @@ import paypalPayoutsSDK from '@paypal/payouts-sdk';
 import { expect } from 'chai';
 import sinon from 'sinon';
 
-import { validateConnectedAccount, validateWebhookEvent } from '../../../server/lib/paypal';
+import { getBatchInfo, validateConnectedAccount, validateWebhookEvent } from '../../../server/lib/paypal';
 
 describe('lib/paypal', () => {
   const connectedAccount = {
@@ -71,4 +71,28 @@ describe('lib/paypal', () => {
       await expect(promise).to.be.eventually.rejectedWith(Error, 'Invalid webhook request');
     });
   });
+
+  describe('getBatchInfo', () => {
+    let execute;
+
+    before(() => {
+      execute = sandbox.stub();
+      sandbox.stub(paypalPayoutsSDK.core, 'PayPalHttpClient').returns({ execute });
+    });
+    after(() => {
+      sandbox.restore();
+    });
+
+    it('loads all the pages of the batch', async () => {
+      const batch_header = { payout_batch_id: 'fake-batch-id' };
+      execute.onFirstCall().resolves({ result: { batch_header, items: [{ payout_item_id: '1' }], total_page: 2 } });
+      execute.onSecondCall().resolves({ result: { batch_header, items: [{ payout_item_id: '2' }], total_page: 2 } });
+
+      const batchInfo = await getBatchInfo(connectedAccount, 'fake-batch-id');
+      expect(execute.callCount).to.eq(2);
+      expect(execute.secondCall.args[0].path).to.include('page=2');
+      expect(batchInfo.batch_header).to.deep.eq(batch_header);
+      expect(batchInfo.items.map(item => item.payout_item_id)).to.deep.eq(['1', '2']);
+    });
+  });
 });
@@ -0,0 +1,101 @@
+import zlib from 'zlib';
+
+import { expect } from 'chai';
+
+import { getProvider, PROVIDER_TYPES } from '../../../server/lib/receipt-parser';
+import {
+  extractCurrency,
+  extractDate,
+  extractReceiptDataFromText,
+  extractTotalAmount,
+} from '../../../server/lib/receipt-parser/heuristics';
+import { extractTextFromPdf } from '../../../server/lib/receipt-parser/pdf';
+
+/** Generates a minimal PDF with a single compressed content stream */
+const generatePdf = (contentStream: string): Buffer => {
+  const compressed = zlib.deflateSync(Buffer.from(contentStream, 'latin1'));
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n'),
+    Buffer.from(`4 0 obj\n<< /Length ${compressed.length} /Filter /FlateDecode >>\nstream\n`),
+    compressed,
+    Buffer.from('\nendstream\nendobj\ntrailer << /Root 1 0 R >>\n%%EOF\n'),
+  ]);
+};
+
+const RECEIPT_CONTENT_STREAM = `
+BT /F1 12 Tf 72 720 Td (ACME Coffee Shop) Tj
+0 -14 Td (Date: 10/15/2020) Tj
+0 -14 Td [(Lat)10(te)] TJ 200 0 Td ($4.50) Tj
+0 -14 Td (Subtotal $4.50) Tj
+0 -14 Td (Tax $0.45) Tj
+0 -14 Td [(Total)-300(\\(USD\\))] TJ 200 0 Td ($4.95) Tj
+ET`;
+
+describe('server/lib/receipt-parser', () => {
+  describe('extractTextFromPdf', () => {
+    it('extracts the text layer of the PDF, line by line', async () => {
+      const text = await extractTextFromPdf(generatePdf(RECEIPT_CONTENT_STREAM));
+      expect(text).to.eq(
+        'ACME Coffee Shop\nDate: 10/15/2020\nLatte $4.50\nSubtotal $4.50\nTax $0.45\nTotal (USD) $4.95',
+      );
+    });
+
+    it('throws if the file is not a PDF', async () => {
+      await expect(extractTextFromPdf(Buffer.from('GIF89a'))).to.be.rejectedWith('Not a PDF file');
+    });
+
+    it('skips the streams that are too large once inflated', async () => {
+      const bomb = `BT (${'A'.repeat(3 * 1024 * 1024)}) Tj ET`;
+      expect(await extractTextFromPdf(generatePdf(bomb))).to.eq('');
+    });
+  });
+
+  describe('heuristics', () => {
+    it('extracts the total, ignoring subtotals and taxes', () => {
+      const lines = ['Item 1 10.00', 'Subtotal 10.00', 'VAT 2.00', 'Total incl. VAT 12.00', 'Paid 20.00'];
+      expect(extractTotalAmount(lines)).to.eq(1200);
+      expect(extractTotalAmount(['Coffee 3.50', 'Cake 1,234.00'])).to.eq(123400);
+      expect(extractTotalAmount(['Nothing to see here'])).to.be.null;
+    });
+
+    it('extracts dates in various formats', () => {
+      expect(extractDate('Issued on 2020-10-15')).to.eq('2020-10-15');
+      expect(extractDate('Date: 15.10.2020')).to.eq('2020-10-15');
+      expect(extractDate('Date: 10/15/20')).to.eq('2020-10-15');
+      expect(extractDate('Date: 25/12/2020')).to.eq('2020-12-25');
+      expect(extractDate('October 15th, 2020')).to.eq('2020-10-15');
+      expect(extractDate('15 Oct 2020')).to.eq('2020-10-15');
+      expect(extractDate('Invoice #42')).to.be.null;
+    });
+
+    it('extracts the currency, preferring ISO codes', () => {
+      expect(extractCurrency('Total: 12.00 EUR')).to.eq('EUR');
+      expect(extractCurrency('Total: GBP 12.00')).to.eq('GBP');
+      expect(extractCurrency('Total: £12.00')).to.eq('GBP');
+      expect(extractCurrency('ALL ITEMS ARE FINAL: 12.00')).to.be.null;
+    });
+
+    it('proposes data for the whole receipt', () => {
+      const text = 'Invoice\nBoulangerie Paul\n12.10.2020\nCroissants 2,50\nTOTAL TTC 1.234,50 EUR';
+      expect(extractReceiptDataFromText(text)).to.deep.eq({
+        amount: 123450,
+        currency: 'EUR',
+        date: '2020-10-12',
+        merchant: 'Boulangerie Paul',
+      });
+    });
+  });
+
+  describe('local parser', () => {
+    it('parses PDF receipts', async () => {
+      const parser = getProvider(PROVIDER_TYPES.LOCAL);
+      const result = await parser.parse(generatePdf(RECEIPT_CONTENT_STREAM), 'application/pdf');
+      expect(result).to.deep.eq({ amount: 495, currency: 'USD', date: '2020-10-15', merchant: 'ACME Coffee Shop' });
+    });
+
+    it('does not support images', async () => {
+      const parser = getProvider(PROVIDER_TYPES.LOCAL);
+      expect(await parser.parse(Buffer.from('GIF89a'), 'image/gif')).to.be.null;
+    });
+  });
+});
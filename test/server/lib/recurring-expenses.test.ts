@@ -0,0 +1,124 @@
+import { expect } from 'chai';
+import moment from 'moment';
+
+import expenseType from '../../../server/constants/expense_type';
+import {
+  createRecurringExpenseFromExpense,
+  generateDueRecurringExpenses,
+} from '../../../server/lib/recurring-expenses';
+import models from '../../../server/models';
+import { RecurringExpenseIntervals, RecurringExpenseStatus } from '../../../server/models/RecurringExpense';
+import { fakeCollective, fakeExpense, fakeExpenseItem, fakePayoutMethod, fakeUser } from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+describe('server/lib/recurring-expenses', () => {
+  let user, collective, payoutMethod;
+
+  beforeEach(utils.resetTestDB);
+  beforeEach(async () => {
+    user = await fakeUser();
+    collective = await fakeCollective();
+    payoutMethod = await fakePayoutMethod({ CollectiveId: user.CollectiveId });
+  });
+
+  const fakeInvoice = async (data = {}) => {
+    const expense = await fakeExpense({
+      type: expenseType.INVOICE,
+      UserId: user.id,
+      FromCollectiveId: user.CollectiveId,
+      CollectiveId: collective.id,
+      PayoutMethodId: payoutMethod.id,
+      tags: ['hosting'],
+      ...data,
+    });
+
+    await models.ExpenseItem.destroy({ where: { ExpenseId: expense.id } });
+    await fakeExpenseItem({ ExpenseId: expense.id, amount: 1000, description: 'Servers' });
+    await fakeExpenseItem({ ExpenseId: expense.id, amount: 500, description: 'Backups' });
+    return expense;
+  };
+
+  describe('createRecurringExpenseFromExpense', () => {
+    it('creates a recurring expense with a template from the expense', async () => {
+      const expense = await fakeInvoice({ incurredAt: new Date('2020-01-15') });
+      const recurringExpense = await createRecurringExpenseFromExpense(expense, user, {
+        interval: RecurringExpenseIntervals.MONTH,
+      });
+
+      expect(recurringExpense.status).to.eq(RecurringExpenseStatus.ACTIVE);
+      expect(recurringExpense.FromCollectiveId).to.eq(user.CollectiveId);
+      expect(recurringExpense.PayoutMethodId).to.eq(payoutMethod.id);
+      expect(recurringExpense.nextDate.toISOString()).to.eq(new Date('2020-02-15').toISOString());
+      expect(recurringExpense.template.tags).to.deep.eq(['hosting']);
+      expect(recurringExpense.template.items).to.have.length(2);
+
+      await expense.reload();
+      expect(expense.RecurringExpenseId).to.eq(recurringExpense.id);
+    });
+
+    it('only works with invoices', async () => {
+      const expense = await fakeInvoice({ type: expenseType.RECEIPT });
+      const promise = createRecurringExpenseFromExpense(expense, user, { interval: RecurringExpenseIntervals.MONTH });
+      await expect(promise).to.be.rejectedWith('Only invoices can be recurring');
+    });
+
+    it('cannot make an expense recurring twice', async () => {
+      const expense = await fakeInvoice();
+      await createRecurringExpenseFromExpense(expense, user, { interval: RecurringExpenseIntervals.MONTH });
+      const promise = createRecurringExpenseFromExpense(expense, user, { interval: RecurringExpenseIntervals.MONTH });
+      await expect(promise).to.be.rejectedWith('This expense is already recurring');
+    });
+  });
+
+  describe('generateDueRecurringExpenses', () => {
+    it('generates a pending expense for every due period', async () => {
+      const incurredAt = moment.utc().subtract(2, 'months').subtract(1, 'day').toDate();
+      const expense = await fakeInvoice({ incurredAt });
+      const recurringExpense = await createRecurringExpenseFromExpense(expense, user, {
+        interval: RecurringExpenseIntervals.MONTH,
+      });
+
+      const expenses = await generateDueRecurringExpenses();
+      expect(expenses).to.have.length(2);
+      for (const generatedExpense of expenses) {
+        expect(generatedExpense.status).to.eq('PENDING');
+        expect(generatedExpense.amount).to.eq(1500);
+        expect(generatedExpense.RecurringExpenseId).to.eq(recurringExpense.id);
+        expect(generatedExpense.FromCollectiveId).to.eq(user.CollectiveId);
+        expect(generatedExpense.PayoutMethodId).to.eq(payoutMethod.id);
+        expect(generatedExpense.tags).to.deep.eq(['hosting']);
+      }
+
+      await recurringExpense.reload();
+      expect(recurringExpense.nextDate > new Date()).to.be.true;
+
+      // Running it again doesn't generate anything
+      expect(await generateDueRecurringExpenses()).to.have.length(0);
+    });
+
+    it('completes the recurring expense once the end date is reached', async () => {
+      const incurredAt = moment.utc().subtract(1, 'month').subtract(1, 'day').toDate();
+      const expense = await fakeInvoice({ incurredAt });
+      const recurringExpense = await createRecurringExpenseFromExpense(expense, user, {
+        interval: RecurringExpenseIntervals.MONTH,
+        endsAt: moment.utc().add(1, 'week').toDate(),
+      });
+
+      expect(await generateDueRecurringExpenses()).to.have.length(1);
+      await recurringExpense.reload();
+      expect(recurringExpense.status).to.eq(RecurringExpenseStatus.COMPLETED);
+    });
+
+    it('pauses the recurring expense if the payee is not allowed to submit it anymore', async () => {
+      const incurredAt = moment.utc().subtract(1, 'month').subtract(1, 'day').toDate();
+      const expense = await fakeInvoice({ incurredAt });
+      const recurringExpense = await createRecurringExpenseFromExpense(expense, await fakeUser(), {
+        interval: RecurringExpenseIntervals.MONTH,
+      });
+
+      expect(await generateDueRecurringExpenses()).to.have.length(0);
+      await recurringExpense.reload();
+      expect(recurringExpense.status).to.eq(RecurringExpenseStatus.PAUSED);
+    });
+  });
+});
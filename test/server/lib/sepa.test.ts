@@ -0,0 +1,249 @@
+import { expect } from 'chai';
+
+import status from '../../../server/constants/expense_status';
+import { parseCamtStatement } from '../../../server/lib/camt';
+import {
+  exportSepaCreditTransfer,
+  generateSepaCreditTransferFile,
+  getSepaAccount,
+  importSepaBankStatement,
+  isValidIban,
+} from '../../../server/lib/sepa';
+import models from '../../../server/models';
+import { PayoutMethodTypes } from '../../../server/models/PayoutMethod';
+import {
+  fakeCollective,
+  fakeExpense,
+  fakeHost,
+  fakePayoutMethod,
+  fakeTransaction,
+  fakeUser,
+} from '../../test-helpers/fake-data';
+import * as utils from '../../utils';
+
+const HOST_IBAN = 'DE89370400440532013000';
+const PAYEE_IBAN = 'FR1420041010050500013M02606';
+
+const generateCamtStatement = (entries: { endToEndId: string; amount: string; status?: string }[]): string =>
+  `
+<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>STMT-1</MsgId><CreDtTm>2021-03-02T08:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <Acct><Id><IBAN>${HOST_IBAN}</IBAN></Id></Acct>
+      ${entries
+        .map(
+          entry => `
+      <Ntry>
+        <Amt Ccy="EUR">${entry.amount}</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>${entry.status || 'BOOK'}</Sts>
+        <BookgDt><Dt>2021-03-01</Dt></BookgDt>
+        <ValDt><Dt>2021-03-01</Dt></ValDt>
+        <AcctSvcrRef>REF-${entry.endToEndId}</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <Refs><EndToEndId>${entry.endToEndId}</EndToEndId></Refs>
+            <RltdPties>
+              <Cdtr><Nm>Jesse Pinkman</Nm></Cdtr>
+              <CdtrAcct><Id><IBAN>${PAYEE_IBAN}</IBAN></Id></CdtrAcct>
+            </RltdPties>
+            <RmtInf><Ustrd>Expense</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>`,
+        )
+        .join('')}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`.trim();
+
+describe('server/lib/sepa', () => {
+  describe('isValidIban', () => {
+    it('checks the format and the checksum', () => {
+      expect(isValidIban(HOST_IBAN)).to.be.true;
+      expect(isValidIban(PAYEE_IBAN)).to.be.true;
+      expect(isValidIban('DE89370400440532013001')).to.be.false;
+      expect(isValidIban('DE1237812738192OK')).to.be.false;
+      expect(isValidIban('de89370400440532013000')).to.be.false;
+    });
+  });
+
+  describe('getSepaAccount', () => {
+    it('finds the IBAN and BIC in the bank account details', () => {
+      const account = getSepaAccount({
+        accountHolderName: 'Jesse Pinkman',
+        details: { IBAN: 'fr14 2004 1010 0505 0001 3M02 606', BIC: 'PSSTFRPPXXX' },
+      });
+
+      expect(account).to.deep.eq({ name: 'Jesse Pinkman', iban: PAYEE_IBAN, bic: 'PSSTFRPPXXX' });
+    });
+
+    it('returns null if the IBAN is missing or invalid', () => {
+      expect(getSepaAccount({ accountHolderName: 'Jesse Pinkman', details: { accountNumber: '123' } })).to.be.null;
+      expect(getSepaAccount({ accountHolderName: 'Jesse Pinkman', details: { iban: 'DE1237812738192OK' } })).to.be.null;
+    });
+  });
+
+  describe('generateSepaCreditTransferFile', () => {
+    it('generates a pain.001 file with one transfer per expense', () => {
+      const debtor = { name: 'Open Source Collective', iban: HOST_IBAN, bic: null };
+      const expenses = [1, 2].map(id => ({
+        id,
+        amount: 1050 * id,
+        description: `Développement #${id} <script>`,
+        PayoutMethod: { data: { accountHolderName: 'Jésse Pinkman', details: { iban: PAYEE_IBAN } } },
+      }));
+
+      const content = generateSepaCreditTransferFile(debtor, expenses, {
+        messageId: 'OC-1-20210301120000',
+        executionDate: new Date('2021-03-02'),
+        createdAt: new Date('2021-03-01T12:00:00Z'),
+      });
+
+      expect(content).to.include('xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03"');
+      expect(content).to.include('<MsgId>OC-1-20210301120000</MsgId>');
+      expect(content).to.include('<CreDtTm>2021-03-01T12:00:00</CreDtTm>');
+      expect(content).to.include('<NbOfTxs>2</NbOfTxs>');
+      expect(content).to.include('<CtrlSum>31.50</CtrlSum>');
+      expect(content).to.include('<ReqdExctnDt>2021-03-02</ReqdExctnDt>');
+      expect(content).to.include(`<IBAN>${HOST_IBAN}</IBAN>`);
+      expect(content).to.include('<EndToEndId>OC-EXPENSE-1</EndToEndId>');
+      expect(content).to.include('<InstdAmt Ccy="EUR">21.00</InstdAmt>');
+      expect(content).to.include('<Nm>Jesse Pinkman</Nm>');
+      expect(content).to.include('<Ustrd>Expense 1: Developpement 1 script</Ustrd>');
+    });
+  });
+
+  describe('parseCamtStatement', () => {
+    it('returns the entries of the statement', async () => {
+      const entries = await parseCamtStatement(
+        generateCamtStatement([{ endToEndId: 'OC-EXPENSE-1', amount: '21.00' }]),
+      );
+      expect(entries).to.have.length(1);
+      expect(entries[0]).to.deep.include({
+        amount: 2100,
+        currency: 'EUR',
+        direction: 'DEBIT',
+        isBooked: true,
+        endToEndId: 'OC-EXPENSE-1',
+        bankReference: 'REF-OC-EXPENSE-1',
+        remittanceInformation: 'Expense',
+        counterpartyName: 'Jesse Pinkman',
+        counterpartyIban: PAYEE_IBAN,
+      });
+      expect(entries[0].bookingDate.toISOString()).to.eq('2021-03-01T00:00:00.000Z');
+    });
+
+    it('rejects other documents', async () => {
+      await expect(parseCamtStatement('<Document><CstmrCdtTrfInitn /></Document>')).to.be.rejectedWith(
+        'Only camt.053 and camt.054 files are supported',
+      );
+      await expect(parseCamtStatement('not xml')).to.be.rejectedWith('Invalid XML file');
+    });
+  });
+
+  describe('export and import', () => {
+    let host, collective, hostAdmin, payoutMethod;
+
+    before(utils.resetTestDB);
+    before(async () => {
+      hostAdmin = await fakeUser();
+      host = await fakeHost({ currency: 'EUR', admin: hostAdmin.collective });
+      collective = await fakeCollective({ HostCollectiveId: host.id, currency: 'EUR' });
+      await fakePayoutMethod({
+        CollectiveId: host.id,
+        type: PayoutMethodTypes.BANK_ACCOUNT,
+        data: { isManualBankTransfer: true, accountHolderName: host.name, details: { IBAN: HOST_IBAN } },
+      });
+      payoutMethod = await fakePayoutMethod({
+        type: PayoutMethodTypes.BANK_ACCOUNT,
+        data: { accountHolderName: 'Jesse Pinkman', currency: 'EUR', type: 'iban', details: { IBAN: PAYEE_IBAN } },
+      });
+    });
+
+    const fakeExportableExpense = async (data = {}) => {
+      const expense = await fakeExpense({
+        status: status.SCHEDULED_FOR_PAYMENT,
+        amount: 2100,
+        currency: 'EUR',
+        CollectiveId: collective.id,
+        PayoutMethodId: payoutMethod.id,
+        ...data,
+      });
+
+      return models.Expense.findByPk(expense.id, {
+        include: [{ model: models.Collective, as: 'collective' }, { model: models.PayoutMethod }],
+      });
+    };
+
+    it('rejects expenses that cannot be paid with a SEPA transfer', async () => {
+      const usdExpense = await fakeExportableExpense({ currency: 'USD' });
+      await expect(exportSepaCreditTransfer(host, [usdExpense], hostAdmin)).to.be.rejectedWith(
+        `Expense #${usdExpense.id} must be in EUR to be paid with a SEPA transfer`,
+      );
+
+      const paidExpense = await fakeExportableExpense({ status: status.PAID });
+      await expect(exportSepaCreditTransfer(host, [paidExpense], hostAdmin)).to.be.rejectedWith(
+        `Expense #${paidExpense.id} must be approved to be exported`,
+      );
+    });
+
+    it('marks the exported expenses as processing, then as paid when found in the statement', async () => {
+      const expense = await fakeExportableExpense();
+      const otherExpense = await fakeExportableExpense();
+      const result = await exportSepaCreditTransfer(host, [expense, otherExpense], hostAdmin, {
+        executionDate: new Date('2021-03-01'),
+      });
+
+      expect(result.filename).to.eq(`${result.messageId}.xml`);
+      expect(result.content).to.include(`<EndToEndId>OC-EXPENSE-${expense.id}</EndToEndId>`);
+      await expense.reload();
+      expect(expense.status).to.eq(status.PROCESSING);
+      expect(expense.data.sepaCreditTransfer).to.deep.include({
+        messageId: result.messageId,
+        endToEndId: `OC-EXPENSE-${expense.id}`,
+        requestedExecutionDate: '2021-03-01',
+      });
+
+      const statement = generateCamtStatement([
+        { endToEndId: `OC-EXPENSE-${expense.id}`, amount: '21.00' },
+        { endToEndId: `OC-EXPENSE-${otherExpense.id}`, amount: '21.00', status: 'PDNG' },
+        { endToEndId: 'UNKNOWN', amount: '42.00' },
+      ]);
+
+      const { paidExpenses, ignoredEntries } = await importSepaBankStatement(host, statement, hostAdmin);
+      expect(paidExpenses.map(e => e.id)).to.deep.eq([expense.id]);
+      expect(ignoredEntries).to.have.length(2);
+
+      await expense.reload();
+      await otherExpense.reload();
+      expect(expense.status).to.eq(status.PAID);
+      expect(expense.data.sepaCreditTransfer.executedAt).to.eq('2021-03-01T00:00:00.000Z');
+      expect(otherExpense.status).to.eq(status.PROCESSING);
+
+      const transaction = await models.Transaction.findOne({ where: { ExpenseId: expense.id, type: 'DEBIT' } });
+      expect(transaction.amount).to.eq(-2100);
+
+      // Importing the same statement twice doesn't pay the expense again
+      const secondImport = await importSepaBankStatement(host, statement, hostAdmin);
+      expect(secondImport.paidExpenses).to.be.empty;
+    });
+
+    it('keeps the funds of the exported expenses blocked until they are paid', async () => {
+      const otherCollective = await fakeCollective({ HostCollectiveId: host.id, currency: 'EUR' });
+      await fakeTransaction({ type: 'CREDIT', CollectiveId: otherCollective.id, amount: 5000 });
+      const expense = await fakeExportableExpense({ CollectiveId: otherCollective.id });
+      expect(await otherCollective.getCurrentBalance()).to.eq(2900);
+
+      await exportSepaCreditTransfer(host, [expense], hostAdmin);
+      expect(await otherCollective.getCurrentBalance()).to.eq(2900);
+
+      const statement = generateCamtStatement([{ endToEndId: `OC-EXPENSE-${expense.id}`, amount: '21.00' }]);
+      await importSepaBankStatement(host, statement, hostAdmin);
+      expect(await otherCollective.getCurrentBalance()).to.eq(2900);
+    });
+  });
+});
@@ -2,7 +2,7 @@ import { expect } from 'chai';
 
 import models from '../../../server/models';
 import { randUrl } from '../../stores';
-import { fakeExpense, fakeUser } from '../../test-helpers/fake-data';
+import { fakeExpense, fakeExpenseItem, fakeUser } from '../../test-helpers/fake-data';
 
 describe('test/server/models/ExpenseItem', () => {
   describe('createFromData', () => {
@@ -23,4 +23,20 @@ describe('test/server/models/ExpenseItem', () => {
       expect(item.deletedAt).to.be.null;
     });
   });
+
+  describe('updateFromData', () => {
+    it('Resets the file hash when the file changes', async () => {
+      const item = await fakeExpenseItem({ fileHash: 'abc' });
+      await models.ExpenseItem.updateFromData({ id: item.id, url: item.url, amount: 4200 });
+      await item.reload();
+      expect(item.amount).to.equal(4200);
+      expect(item.fileHash).to.equal('abc');
+
+      const url = randUrl();
+      await models.ExpenseItem.updateFromData({ id: item.id, url });
+      await item.reload();
+      expect(item.url).to.equal(url);
+      expect(item.fileHash).to.be.null;
+    });
+  });
 });
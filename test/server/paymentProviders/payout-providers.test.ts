@@ -0,0 +1,53 @@
+import { expect } from 'chai';
+
+import { PayoutMethodTypes } from '../../../server/models/PayoutMethod';
+import {
+  getPayoutProviderByName,
+  getPayoutProviderForHost,
+  getSupportedPayoutMethods,
+  registerPayoutProvider,
+} from '../../../server/paymentProviders/payout-providers';
+
+describe('server/paymentProviders/payout-providers', () => {
+  const host = { id: 1, settings: {} };
+
+  describe('getSupportedPayoutMethods', () => {
+    it('returns the payout methods of the providers enabled by the host', () => {
+      expect(getSupportedPayoutMethods(host, [{ service: 'transferwise' }])).to.deep.eq([
+        PayoutMethodTypes.OTHER,
+        PayoutMethodTypes.ACCOUNT_BALANCE,
+        PayoutMethodTypes.BANK_ACCOUNT,
+        PayoutMethodTypes.PAYPAL,
+      ]);
+    });
+
+    it('does not include PayPal if disabled and not connected', () => {
+      const hostWithoutPayPal = { ...host, settings: { disablePaypalPayouts: true } };
+      expect(getSupportedPayoutMethods(hostWithoutPayPal, [])).to.deep.eq([
+        PayoutMethodTypes.OTHER,
+        PayoutMethodTypes.ACCOUNT_BALANCE,
+      ]);
+      expect(getSupportedPayoutMethods(hostWithoutPayPal, [{ service: 'paypal' }])).to.include(
+        PayoutMethodTypes.PAYPAL,
+      );
+    });
+  });
+
+  describe('getPayoutProviderForHost', () => {
+    it('returns the provider enabled by the host for this payout method', () => {
+      expect(getPayoutProviderForHost(host, [{ service: 'transferwise' }], PayoutMethodTypes.BANK_ACCOUNT)).to.eq(
+        getPayoutProviderByName('transferwise'),
+      );
+      expect(getPayoutProviderForHost(host, [], PayoutMethodTypes.BANK_ACCOUNT)).to.be.undefined;
+      expect(getPayoutProviderForHost(host, [], PayoutMethodTypes.OTHER)).to.be.undefined;
+    });
+  });
+
+  describe('registerPayoutProvider', () => {
+    it('does not allow registering the same provider twice', () => {
+      expect(() => registerPayoutProvider(getPayoutProviderByName('paypal'))).to.throw(
+        'A payout provider named paypal is already registered',
+      );
+    });
+  });
+});
@@ -1,12 +1,21 @@
 /* eslint-disable camelcase */
 import { expect } from 'chai';
+import moment from 'moment';
 import sinon from 'sinon';
 
+import activities from '../../../../server/constants/activities';
 import status from '../../../../server/constants/expense_status';
 import * as paypalLib from '../../../../server/lib/paypal';
+import models from '../../../../server/models';
 import { PayoutMethodTypes } from '../../../../server/models/PayoutMethod';
 import * as paypalPayouts from '../../../../server/paymentProviders/paypal/payouts';
-import { fakeCollective, fakeConnectedAccount, fakeExpense, fakePayoutMethod } from '../../../test-helpers/fake-data';
+import {
+  fakeCollective,
+  fakeConnectedAccount,
+  fakeExpense,
+  fakePayoutMethod,
+  fakeUser,
+} from '../../../test-helpers/fake-data';
 import * as utils from '../../../utils';
 
 describe('paymentMethods/paypal/payouts.js', () => {
@@ -66,6 +75,28 @@ describe('paymentMethods/paypal/payouts.js', () => {
       sinon.assert.calledOnce(paypalLib.executePayouts);
       expect(expense.data).to.deep.equals({ payout_batch_id: 'fake' });
     });
+
+    it('should split large payouts in multiple requests', async () => {
+      const otherExpense = await fakeExpense({
+        status: status.SCHEDULED_FOR_PAYMENT,
+        CollectiveId: collective.id,
+        PayoutMethodId: payoutMethod.id,
+      });
+      otherExpense.collective = collective;
+      otherExpense.PayoutMethod = payoutMethod;
+      paypalLib.executePayouts.onSecondCall().resolves({ batch_header: { payout_batch_id: 'other' } });
+
+      await paypalPayouts.payExpensesBatch([expense, otherExpense], 1);
+      sinon.assert.calledTwice(paypalLib.executePayouts);
+      const [firstRequest, secondRequest] = paypalLib.executePayouts.args.map(args => args[1]);
+      expect(firstRequest.items.map(i => i.sender_item_id)).to.deep.eq([expense.id]);
+      expect(secondRequest.items.map(i => i.sender_item_id)).to.deep.eq([otherExpense.id]);
+      expect(firstRequest.sender_batch_header.sender_batch_id).to.match(/-1$/);
+      expect(secondRequest.sender_batch_header.sender_batch_id).to.match(/-2$/);
+
+      await otherExpense.reload();
+      expect(otherExpense.data).to.deep.equals({ payout_batch_id: 'other' });
+    });
   });
 
   describe('checkBatchStatus', () => {
@@ -152,5 +183,105 @@ describe('paymentMethods/paypal/payouts.js', () => {
         expect(transactions).to.have.length(0);
       }),
     );
+
+    describe('with unclaimed items', () => {
+      const getUnclaimedActivities = () =>
+        models.Activity.findAll({ where: { ExpenseId: expense.id, type: activities.COLLECTIVE_EXPENSE_UNCLAIMED } });
+
+      const mockUnclaimedItem = daysAgo => {
+        paypalLib.getBatchInfo.resolves({
+          items: [
+            {
+              transaction_status: 'UNCLAIMED',
+              payout_batch_id: 'fake-batch-id',
+              payout_item: { sender_item_id: expense.id.toString() },
+              time_processed: moment().subtract(daysAgo, 'days').toISOString(),
+            },
+          ],
+        });
+      };
+
+      it('should keep track of how long the item has been unclaimed', async () => {
+        mockUnclaimedItem(2);
+        await paypalPayouts.checkBatchStatus([expense]);
+        await expense.reload();
+
+        expect(expense).to.have.property('status', 'PROCESSING');
+        expect(expense.data).to.have.property('transaction_status', 'UNCLAIMED');
+        expect(expense.data).to.have.property('unclaimedNotificationsSent', 0);
+        expect(moment().diff(moment(expense.data.unclaimedSince), 'days')).to.eq(2);
+        expect(await getUnclaimedActivities()).to.have.length(0);
+      });
+
+      it('should notify once for each configured delay', async () => {
+        mockUnclaimedItem(8);
+        await paypalPayouts.checkBatchStatus([expense]);
+        await paypalPayouts.checkBatchStatus([expense]);
+        let unclaimedActivities = await getUnclaimedActivities();
+        expect(unclaimedActivities).to.have.length(1);
+        expect(unclaimedActivities[0].data).to.have.property('unclaimedDays', 8);
+
+        // Use the date we first saw the item unclaimed, even if PayPal changes it
+        await expense.update({
+          data: { ...expense.data, unclaimedSince: moment().subtract(25, 'days').toISOString() },
+        });
+        await paypalPayouts.checkBatchStatus([expense]);
+        unclaimedActivities = await getUnclaimedActivities();
+        expect(unclaimedActivities).to.have.length(2);
+        expect(unclaimedActivities.map(a => a.data.unclaimedDays)).to.have.members([8, 25]);
+      });
+    });
+  });
+
+  describe('cancelUnclaimedPayoutItem', () => {
+    let user;
+
+    beforeEach(async () => {
+      user = await fakeUser();
+      host = await fakeCollective({ isHostAccount: true });
+      await fakeConnectedAccount({ CollectiveId: host.id, service: 'paypal', clientId: 'fake', token: 'fake' });
+      collective = await fakeCollective({ HostCollectiveId: host.id });
+      expense = await fakeExpense({
+        status: status.PROCESSING,
+        CollectiveId: collective.id,
+        data: { payout_batch_id: 'fake-batch-id', payout_item_id: 'fake-item-id', transaction_status: 'UNCLAIMED' },
+      });
+      sandbox.stub(paypalLib, 'cancelPayoutItem').resolves({
+        payout_batch_id: 'fake-batch-id',
+        payout_item_id: 'fake-item-id',
+        transaction_status: 'RETURNED',
+      });
+    });
+
+    it('should cancel the item and approve the expense again', async () => {
+      await paypalPayouts.cancelUnclaimedPayoutItem(expense, user, 'Please update your PayPal email');
+      await expense.reload();
+
+      expect(paypalLib.cancelPayoutItem.getCall(0)).to.have.property('lastArg', 'fake-item-id');
+      expect(expense).to.have.property('status', 'APPROVED');
+      expect(expense.data).to.have.property('transaction_status', 'RETURNED');
+      expect(expense.data).to.have.property('payoutItemCancelledAt');
+
+      const activity = await models.Activity.findOne({
+        where: { ExpenseId: expense.id, type: activities.COLLECTIVE_EXPENSE_PAYOUT_CANCELLED },
+      });
+      expect(activity.UserId).to.eq(user.id);
+      expect(activity.data).to.have.property('reason', 'Please update your PayPal email');
+    });
+
+    it('should ignore the status updates of the cancelled item', async () => {
+      await paypalPayouts.cancelUnclaimedPayoutItem(expense, user);
+      const item = { payout_batch_id: 'fake-batch-id', transaction_status: 'RETURNED' };
+      await paypalPayouts.checkBatchItemStatus(item, expense, host);
+      expect(expense).to.have.property('status', 'APPROVED');
+    });
+
+    it('should only cancel unclaimed items', async () => {
+      await expense.update({ data: { ...expense.data, transaction_status: 'PENDING' } });
+      await expect(paypalPayouts.cancelUnclaimedPayoutItem(expense, user)).to.be.rejectedWith(
+        'Only the unclaimed PayPal payouts can be cancelled',
+      );
+      expect(paypalLib.cancelPayoutItem.called).to.be.false;
+    });
   });
 });
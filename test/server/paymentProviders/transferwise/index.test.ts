@@ -1,11 +1,19 @@
 import { expect } from 'chai';
 import sinon from 'sinon';
 
+import { TransferwiseSourceCurrencyStrategy } from '../../../../server/constants/transferwise';
 import cache from '../../../../server/lib/cache';
+import * as libcurrency from '../../../../server/lib/currency';
 import * as transferwiseLib from '../../../../server/lib/transferwise';
 import { PayoutMethodTypes } from '../../../../server/models/PayoutMethod';
 import transferwise from '../../../../server/paymentProviders/transferwise';
-import { fakeCollective, fakeConnectedAccount, fakeExpense, fakePayoutMethod } from '../../../test-helpers/fake-data';
+import {
+  fakeCollective,
+  fakeConnectedAccount,
+  fakeExpense,
+  fakePayoutMethod,
+  multiple,
+} from '../../../test-helpers/fake-data';
 import * as utils from '../../../utils';
 
 describe('server/paymentProviders/transferwise/index', () => {
@@ -187,6 +195,255 @@ describe('server/paymentProviders/transferwise/index', () => {
       const payExpensePromise = transferwise.payExpense(connectedAccount, payoutMethod, expense);
       await expect(payExpensePromise).to.be.eventually.rejectedWith(Error, "You don't have enough funds");
     });
+
+    describe('with a source currency strategy', () => {
+      const eurQuote = { ...quote, id: 5678, source: 'EUR', sourceAmount: 92.5, fee: 0.8, rate: 1 };
+      let convertBalance;
+
+      before(() => {
+        convertBalance = sandbox.stub(transferwiseLib, 'convertBalance').resolves({ id: 42 });
+      });
+
+      beforeEach(() => {
+        createQuote.reset();
+        createQuote.resolves(quote);
+        createTransfer.resetHistory();
+        getBorderlessAccount.resetHistory();
+        getBorderlessAccount.resolves({
+          id: 1,
+          balances: [
+            { currency: 'USD', amount: { value: 50 } },
+            { currency: 'EUR', amount: { value: 1000 } },
+          ],
+        });
+      });
+
+      it('should fund the transfer from another balance if the expense currency balance is short', async () => {
+        createQuote.onSecondCall().resolves(eurQuote);
+        const result = await transferwise.payExpense(connectedAccount, payoutMethod, expense, {
+          sourceCurrencyStrategy: TransferwiseSourceCurrencyStrategy.OTHER_BALANCE,
+        });
+
+        expect(result.quote.id).to.eq(eurQuote.id);
+        expect(result.sourceCurrencyStrategy).to.eq(TransferwiseSourceCurrencyStrategy.OTHER_BALANCE);
+        expect(result.conversion).to.be.null;
+        sinon.assert.calledWithMatch(createTransfer, connectedAccount.token, { quoteId: eurQuote.id });
+      });
+
+      it('should convert the missing amount from another balance before funding the transfer', async () => {
+        const conversionQuote = { ...eurQuote, id: 9999, target: 'USD', targetAmount: 51.14, sourceAmount: 47 };
+        createQuote.onSecondCall().resolves(conversionQuote);
+        getBorderlessAccount.onSecondCall().resolves({
+          id: 1,
+          balances: [
+            { currency: 'USD', amount: { value: 101.14 } },
+            { currency: 'EUR', amount: { value: 953 } },
+          ],
+        });
+
+        const result = await transferwise.payExpense(connectedAccount, payoutMethod, expense, {
+          sourceCurrencyStrategy: TransferwiseSourceCurrencyStrategy.CONVERT_BALANCE,
+        });
+
+        sinon.assert.calledWithMatch(createQuote.secondCall, connectedAccount.token, {
+          sourceCurrency: 'EUR',
+          targetCurrency: 'USD',
+          targetAmount: 51.14,
+          type: 'BALANCE_CONVERSION',
+        });
+        expect(convertBalance.calledOnceWith(connectedAccount.token, 1, conversionQuote.id)).to.be.true;
+        expect(result.quote.id).to.eq(quote.id);
+        expect(result.conversion).to.include({ id: 42, quoteId: 9999, sourceCurrency: 'EUR', fee: 0.8 });
+      });
+
+      it('should still throw if no balance has enough funds', async () => {
+        getBorderlessAccount.resolves({ id: 1, balances: [{ currency: 'USD', amount: { value: 50 } }] });
+        const payExpensePromise = transferwise.payExpense(connectedAccount, payoutMethod, expense, {
+          sourceCurrencyStrategy: TransferwiseSourceCurrencyStrategy.OTHER_BALANCE,
+        });
+        await expect(payExpensePromise).to.be.eventually.rejectedWith(Error, "You don't have enough funds");
+      });
+    });
+  });
+
+  describe('getPaymentFeeInHostCurrency', () => {
+    const usdHost = { currency: 'USD' };
+    let getFxRate;
+
+    before(() => {
+      getFxRate = sinon.stub(libcurrency, 'getFxRate').callsFake(async (from, to) => (from === to ? 1 : 1.1));
+    });
+    after(() => getFxRate.restore());
+
+    it('returns the fee of the funded quote in the host currency', async () => {
+      expect(await transferwise.getPaymentFeeInHostCurrency(usdHost, { quote, conversion: null })).to.eq(114);
+      const eurQuote = { ...quote, source: 'EUR', fee: 1 };
+      expect(await transferwise.getPaymentFeeInHostCurrency(usdHost, { quote: eurQuote, conversion: null })).to.eq(110);
+    });
+
+    it('includes the cost of the balance conversion', async () => {
+      const conversion = {
+        id: 42,
+        quoteId: 9999,
+        sourceCurrency: 'EUR',
+        sourceAmount: 47,
+        targetCurrency: 'USD',
+        targetAmount: 51.14,
+        rate: 1.1,
+        fee: 1,
+      };
+      expect(await transferwise.getPaymentFeeInHostCurrency(usdHost, { quote, conversion })).to.eq(224);
+    });
+  });
+
+  describe('payExpensesBatchGroup', () => {
+    const batchGroup = { id: 'batch-group-id', version: 0, status: 'NEW', sourceCurrency: 'USD', transferIds: [] };
+    let createBatchGroup, createBatchGroupTransfer, completeBatchGroup, fundBatchGroup, cancelBatchGroup;
+    let batchExpenses;
+
+    before(async () => {
+      sandbox.stub(transferwiseLib, 'createQuoteV2').resolves({
+        id: 'quote-uuid',
+        sourceCurrency: 'USD',
+        targetCurrency: 'EUR',
+        sourceAmount: 101.14,
+        targetAmount: 90.44,
+        payOut: 'BANK_TRANSFER',
+        paymentOptions: [{ payIn: 'BALANCE', payOut: 'BANK_TRANSFER', fee: { total: 1.14 } }],
+      });
+      createBatchGroup = sandbox.stub(transferwiseLib, 'createBatchGroup').resolves(batchGroup);
+      createBatchGroupTransfer = sandbox.stub(transferwiseLib, 'createBatchGroupTransfer').resolves({ id: 456 });
+      completeBatchGroup = sandbox
+        .stub(transferwiseLib, 'completeBatchGroup')
+        .resolves({ ...batchGroup, status: 'COMPLETED', version: 1 });
+      fundBatchGroup = sandbox.stub(transferwiseLib, 'fundBatchGroup').resolves({ ...batchGroup, status: 'COMPLETED' });
+      cancelBatchGroup = sandbox.stub(transferwiseLib, 'cancelBatchGroup').resolves();
+      batchExpenses = await multiple(fakeExpense, 2, {
+        status: 'SCHEDULED_FOR_PAYMENT',
+        amount: 10000,
+        CollectiveId: collective.id,
+        currency: 'USD',
+        PayoutMethodId: payoutMethod.id,
+      });
+      batchExpenses.forEach(e => (e.PayoutMethod = payoutMethod));
+    });
+
+    beforeEach(() => {
+      getBorderlessAccount.resolves({ balances: [{ currency: 'USD', amount: { value: 100000 } }] });
+    });
+
+    it('should create a transfer for each expense and fund the batch group once', async () => {
+      const result = await transferwise.payExpensesBatchGroup(connectedAccount, batchExpenses);
+      expect(result.failures).to.be.empty;
+      expect(result.batchGroups).to.have.length(1);
+      expect(result.items).to.have.length(2);
+      expect(result.items[0]).to.have.nested.property('quote.fee', 1.14);
+      expect(result.items[0]).to.have.property('batchGroupId', batchGroup.id);
+      expect(createBatchGroup.calledOnce).to.be.true;
+      expect(createBatchGroupTransfer.calledTwice).to.be.true;
+      expect(completeBatchGroup.calledOnce).to.be.true;
+      expect(fundBatchGroup.calledOnce).to.be.true;
+    });
+
+    it('should report a failure if the balance is not enough to cover the whole group', async () => {
+      getBorderlessAccount.resolves({ balances: [{ currency: 'USD', amount: { value: 150 } }] });
+      createBatchGroup.resetHistory();
+
+      const result = await transferwise.payExpensesBatchGroup(connectedAccount, batchExpenses);
+      expect(result.items).to.be.empty;
+      expect(result.failures).to.have.length(1);
+      expect(result.failures[0].expenses).to.have.length(2);
+      expect(result.failures[0].error.message).to.include("You don't have enough funds");
+      expect(createBatchGroup.called).to.be.false;
+    });
+
+    it('should still fund the group if the transfer of one expense cannot be created', async () => {
+      createBatchGroupTransfer.resetHistory();
+      fundBatchGroup.resetHistory();
+      createBatchGroupTransfer.onFirstCall().rejects(new Error('Invalid recipient'));
+
+      const result = await transferwise.payExpensesBatchGroup(connectedAccount, batchExpenses);
+      expect(result.items).to.have.length(1);
+      expect(result.items[0].expense.id).to.eq(batchExpenses[1].id);
+      expect(result.failures).to.have.length(1);
+      expect(result.failures[0].expenses.map(e => e.id)).to.deep.eq([batchExpenses[0].id]);
+      expect(result.failures[0].error.message).to.eq('Invalid recipient');
+      expect(fundBatchGroup.calledOnce).to.be.true;
+    });
+
+    it('should cancel the batch group if no transfer can be created', async () => {
+      createBatchGroupTransfer.rejects(new Error('Invalid recipient'));
+
+      const result = await transferwise.payExpensesBatchGroup(connectedAccount, batchExpenses);
+      expect(result.items).to.be.empty;
+      expect(result.failures).to.have.length(2);
+      expect(cancelBatchGroup.calledOnce).to.be.true;
+    });
+  });
+
+  describe('recipients', () => {
+    let recipientPayoutMethod, getRecipientAccounts, deleteRecipientAccount;
+
+    before(async () => {
+      getRecipientAccounts = sandbox.stub(transferwiseLib, 'getRecipientAccounts');
+      deleteRecipientAccount = sandbox.stub(transferwiseLib, 'deleteRecipientAccount').resolves();
+      recipientPayoutMethod = await fakePayoutMethod({
+        type: PayoutMethodTypes.BANK_ACCOUNT,
+        data: {
+          accountHolderName: 'Nicolas Cage',
+          currency: 'GBP',
+          type: 'sort_code',
+          legalType: 'PRIVATE',
+          details: { sortCode: '231470', accountNumber: '28821822' },
+        },
+      });
+    });
+
+    beforeEach(() => {
+      createRecipientAccount.resetHistory();
+    });
+
+    it('should reuse the recipient for the next payments with the same payout method', async () => {
+      createRecipientAccount.resolves({ id: 1001 });
+      const first = await transferwise.payExpense(connectedAccount, recipientPayoutMethod, expense);
+      const second = await transferwise.payExpense(connectedAccount, recipientPayoutMethod, expense);
+
+      expect(createRecipientAccount.calledOnce).to.be.true;
+      expect(first.recipient.id).to.eq(1001);
+      expect(second.recipient.id).to.eq(1001);
+    });
+
+    it('should recreate the recipient when the payout method data changes', async () => {
+      createRecipientAccount.resolves({ id: 1002 });
+      const data = { ...recipientPayoutMethod.data, accountHolderName: 'Nicolas Kim Coppola' };
+      await recipientPayoutMethod.update({ data });
+      const result = await transferwise.payExpense(connectedAccount, recipientPayoutMethod, expense);
+
+      expect(createRecipientAccount.calledOnce).to.be.true;
+      expect(result.recipient.id).to.eq(1002);
+    });
+
+    it('should list the recipients with the payout method they are used for', async () => {
+      getRecipientAccounts.resolves([{ id: 1001 }, { id: 1002 }]);
+      const recipients = await transferwise.getRecipients(connectedAccount);
+
+      expect(recipients[0].payoutMethod).to.be.null;
+      expect(recipients[1].payoutMethod.id).to.eq(recipientPayoutMethod.id);
+    });
+
+    it('should only delete the stale recipients', async () => {
+      getRecipientAccounts.resolves([{ id: 1001 }, { id: 1002 }]);
+      await expect(transferwise.deleteStaleRecipients(connectedAccount, [1002])).to.be.rejectedWith(
+        'Recipients that are used by a payout method cannot be deleted',
+      );
+      await expect(transferwise.deleteStaleRecipients(connectedAccount, [42])).to.be.rejectedWith(
+        'Some recipients could not be found',
+      );
+
+      const deleted = await transferwise.deleteStaleRecipients(connectedAccount, [1001]);
+      expect(deleted.map(r => r.id)).to.deep.eq([1001]);
+      expect(deleteRecipientAccount.calledOnceWith(connectedAccount.token, 1001)).to.be.true;
+    });
   });
 
   describe('getRequiredBankInformation', () => {
@@ -9,6 +9,7 @@ import status from '../../../../server/constants/expense_status';
 import app from '../../../../server/index';
 import emailLib from '../../../../server/lib/email';
 import * as transferwiseLib from '../../../../server/lib/transferwise';
+import { sequelize } from '../../../../server/models';
 import { PayoutMethodTypes } from '../../../../server/models/PayoutMethod';
 import {
   fakeCollective,
@@ -117,6 +118,9 @@ describe('server/paymentProviders/transferwise/webhook', () => {
 
     await expense.reload();
     expect(expense).to.have.property('status', status.PAID);
+    expect(expense.data.transferStates).to.deep.eq([
+      { transferId: 1234, state: 'outgoing_payment_sent', date: '2020-03-02T13:37:54Z', source: 'WEBHOOK' },
+    ]);
   });
 
   it('should set expense as error and clear existing transactions when funds are refunded', async () => {
@@ -131,6 +135,22 @@ describe('server/paymentProviders/transferwise/webhook', () => {
     expect(transactions).to.be.empty;
   });
 
+  it('handles refunds notified long after the payment', async () => {
+    await sequelize.query(
+      `UPDATE "Transactions" SET "updatedAt" = NOW() - INTERVAL '60 days' WHERE "ExpenseId" = :id`,
+      {
+        replacements: { id: expense.id },
+      },
+    );
+    const refundEvent = { ...event, data: { ...event.data, current_state: 'funds_refunded' } };
+    verifyEvent.returns(refundEvent);
+
+    await api.post('/webhooks/transferwise').send(event).expect(200);
+
+    await expense.reload();
+    expect(expense).to.have.property('status', status.ERROR);
+  });
+
   it('should send a notification email to the payee and the host when funds are refunded', async () => {
     const admin = await fakeUser({ email: 'admin@oc.com' });
     await fakeMember({ CollectiveId: host.id, MemberCollectiveId: admin.CollectiveId, role: roles.ADMIN });